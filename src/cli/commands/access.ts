@@ -0,0 +1,102 @@
+import { Command } from 'commander'
+import { access, writeFile } from 'fs/promises'
+import { join } from 'path'
+import {
+  loadConfig,
+  getSecretFilePath,
+  loadPolicy,
+  GitAdapter,
+  writeSopsConfig,
+  withLock,
+  findExpiredRecipients,
+  removeExpiredRecipients,
+  ConfigError,
+  type EnvVaultConfig,
+  type EnvVaultPolicy,
+} from '../../core/index.js'
+import { cryptoBackendOption, resolveCommandCryptoBackend } from '../crypto-backend.js'
+
+export const accessCommand = new Command('access').description('Manage time-boxed access grants')
+
+accessCommand
+  .command('expire')
+  .description('Revoke expired grants and re-key the affected secrets')
+  .option('--dry-run', 'Only list expired grants', false)
+  .option('--no-commit', 'Skip git commit')
+  .addOption(cryptoBackendOption())
+  .action(async (options) => {
+    const cwd = process.cwd()
+
+    let config: EnvVaultConfig
+    let policy: EnvVaultPolicy
+    try {
+      config = await loadConfig(cwd)
+      policy = await loadPolicy(cwd)
+    } catch (error) {
+      if (error instanceof ConfigError) {
+        console.error(`Error: ${error.message}`)
+        process.exit(1)
+      }
+      throw error
+    }
+
+    const now = new Date()
+    const expired = findExpiredRecipients(policy, now)
+    if (expired.length === 0) {
+      console.log('No expired grants')
+      return
+    }
+
+    for (const item of expired) {
+      const who = item.member ? `${item.entry} (member ${item.member})` : item.entry
+      console.log(`- ${item.env}/${item.service}: ${who} expired on ${item.expiresAt}`)
+    }
+    if (options.dryRun) {
+      return
+    }
+
+    const cryptoBackend = await resolveCommandCryptoBackend('revoke', {
+      config,
+      override: options.cryptoBackend,
+    })
+    const git = new GitAdapter(cwd)
+
+    await withLock(cwd, async () => {
+      const affected = removeExpiredRecipients(policy, now)
+
+      const policyPath = join(cwd, 'envvault.policy.json')
+      await writeFile(policyPath, JSON.stringify(policy, null, 2), 'utf-8')
+      console.log('\nRemoved expired grants from policy')
+
+      await writeSopsConfig(cwd, policy, config)
+      console.log('Updated .sops.yaml')
+
+      const filesToAdd = [policyPath, join(cwd, '.sops.yaml')]
+      for (const { env, service } of affected) {
+        const secretPath = getSecretFilePath(cwd, config.secretsDir, env, service)
+        try {
+          await access(secretPath)
+        } catch {
+          continue
+        }
+        try {
+          await cryptoBackend.updateKeys(secretPath)
+          filesToAdd.push(secretPath)
+          console.log(`Re-encrypted ${env}/${service}`)
+        } catch {
+          console.log(`Warning: Could not re-encrypt ${env}/${service}`)
+        }
+      }
+
+      if (options.commit && (await git.isRepo())) {
+        const commitHash = await git.commit({
+          message: 'chore(policy): remove expired access',
+          add: filesToAdd,
+        })
+        console.log(`Committed: ${commitHash}`)
+      }
+    })
+
+    console.log('\nWARNING: Expired recipients may still read old secret versions in git history.')
+    console.log('   Consider rotating secrets if this is a security concern.')
+  })
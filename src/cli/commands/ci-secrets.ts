@@ -4,12 +4,16 @@ import { mkdir, readFile, writeFile } from 'fs/promises'
 import { dirname, join } from 'path'
 import {
   loadConfig,
+  getSecretFilePath,
   renderDotenv,
   resolveCryptoBackend,
+  createProjectCryptoBackends,
   CryptoBackendSelectionError,
   parseDotenv,
+  type CryptoBackendPreference,
   type EnvObject,
 } from '../../core/index.js'
+import { cryptoBackendOption } from '../crypto-backend.js'
 
 interface CiPayloadV1 {
   v: 1
@@ -86,6 +90,7 @@ async function loadSealSource(options: {
   env?: string
   service?: string
   fromFile?: string
+  cryptoBackend?: CryptoBackendPreference
 }): Promise<{ plaintext: string; meta: CiPayloadV1['meta'] }> {
   const cwd = process.cwd()
   if (options.fromFile) {
@@ -104,13 +109,15 @@ async function loadSealSource(options: {
   }
 
   const config = await loadConfig(cwd)
-  const secretPath = join(cwd, config.secretsDir, String(options.env), `${String(options.service)}.sops.yaml`)
+  const secretPath = getSecretFilePath(cwd, config.secretsDir, String(options.env), String(options.service))
   let backend
   try {
+    const preference = options.cryptoBackend ?? config.cryptoBackend ?? 'auto'
     backend = (
       await resolveCryptoBackend({
-        preference: config.cryptoBackend ?? 'auto',
+        preference,
         capability: 'pull',
+        backends: await createProjectCryptoBackends(cwd, config, preference),
       })
     ).backend
   } catch (error) {
@@ -141,6 +148,7 @@ export const ciSealCommand = new Command('ci-seal')
   .option('--key-env <name>', 'Environment variable containing CI key', 'ENVVAULT_CI_KEY')
   .option('--out <path>', 'Write payload to file instead of stdout')
   .option('--json', 'Print metadata as JSON (payload included)')
+  .addOption(cryptoBackendOption())
   .action(async (options) => {
     try {
       if (options.fromFile && (options.env || options.service)) {
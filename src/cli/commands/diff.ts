@@ -3,13 +3,16 @@ import { join } from 'path'
 import { readFile } from 'fs/promises'
 import {
   loadConfig,
-  resolveCryptoBackend,
-  CryptoBackendSelectionError,
-  parseDotenv,
+  getSecretFilePath,
+  parseServiceOutput,
   diffEnv,
+  diffStoredKeysSince,
   formatSafeDiff,
   formatUnsafeDiff,
+  GitAdapter,
+  type DiffResult,
 } from '../../core/index.js'
+import { cryptoBackendOption, resolveCommandCryptoBackend } from '../crypto-backend.js'
 
 export const diffCommand = new Command('diff')
   .description('Compare local envOutput with vault secret (no writes)')
@@ -18,6 +21,8 @@ export const diffCommand = new Command('diff')
   .option('--plan', 'Print summary plan output')
   .option('--json', 'Print JSON diff output')
   .option('--unsafe-show-values', 'Show secret values in diff', false)
+  .option('--base <ref>', 'Compare vault secret keys with <ref> in git history (no decryption)')
+  .addOption(cryptoBackendOption())
   .action(async (options) => {
     const cwd = process.cwd()
     const config = await loadConfig(cwd)
@@ -26,39 +31,45 @@ export const diffCommand = new Command('diff')
       console.error(`Error: Service '${options.service}' not found in config`)
       process.exit(1)
     }
+    if (options.base && options.unsafeShowValues) {
+      console.error('Error: --unsafe-show-values cannot be used with --base')
+      process.exit(1)
+    }
 
-    let backend
-    try {
-      backend = (
-        await resolveCryptoBackend({
-          preference: config.cryptoBackend ?? 'auto',
-          capability: 'pull',
-        })
-      ).backend
-    } catch (error) {
-      if (error instanceof CryptoBackendSelectionError) {
-        console.error(`Error: ${error.message}`)
+    const secretPath = getSecretFilePath(cwd, config.secretsDir, options.env, options.service)
+    let localEnv: Record<string, string> = {}
+    let vaultEnv: Record<string, string> = {}
+    let diff: DiffResult
+    if (options.base) {
+      try {
+        diff = await diffStoredKeysSince(new GitAdapter(cwd), cwd, secretPath, options.base)
+      } catch (error) {
+        console.error(`Error: ${(error as Error).message}`)
         process.exit(1)
       }
-      throw error
-    }
+    } else {
+      const backend = await resolveCommandCryptoBackend('pull', {
+        config,
+        override: options.cryptoBackend,
+        silent: true,
+      })
 
-    const secretPath = join(cwd, config.secretsDir, options.env, `${options.service}.sops.yaml`)
-    const outputPath = join(cwd, serviceConfig.envOutput)
+      const outputPath = join(cwd, serviceConfig.envOutput)
+      try {
+        localEnv = parseServiceOutput(serviceConfig, await readFile(outputPath))
+      } catch {
+        localEnv = {}
+      }
 
-    let localEnv: Record<string, string> = {}
-    try {
-      localEnv = parseDotenv(await readFile(outputPath, 'utf-8')).env
-    } catch {
-      localEnv = {}
+      vaultEnv = (await backend.decrypt(secretPath)).data
+      diff = diffEnv(localEnv, vaultEnv)
     }
 
-    const { data: vaultEnv } = await backend.decrypt(secretPath)
-    const diff = diffEnv(localEnv, vaultEnv)
     const payload = {
       command: 'diff',
       env: options.env,
       service: options.service,
+      ...(options.base ? { base: options.base } : {}),
       summary: {
         added: diff.added.length,
         removed: diff.removed.length,
@@ -71,7 +82,8 @@ export const diffCommand = new Command('diff')
       return
     }
     if (options.plan) {
-      console.log(`Plan: diff ${options.env}/${options.service}`)
+      const since = options.base ? ` since ${options.base}` : ''
+      console.log(`Plan: diff ${options.env}/${options.service}${since}`)
       console.log(`  +${diff.added.length} -${diff.removed.length} ~${diff.changed.length}`)
     }
     if (options.unsafeShowValues) {
@@ -79,4 +91,7 @@ export const diffCommand = new Command('diff')
     } else {
       console.log(formatSafeDiff(diff))
     }
+    if (options.base) {
+      console.log('Only key names and plaintext values are compared; encrypted values are not.')
+    }
   })
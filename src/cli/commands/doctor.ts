@@ -4,12 +4,21 @@ import { join } from 'path'
 import {
   SopsAdapter,
   GitAdapter,
+  MIN_SOPS_VERSION,
   loadConfig,
+  loadPolicy,
   getCryptoBackendStatuses,
   buildCapabilityMatrix,
+  findJsBackendLimitations,
+  loadCryptoBackendPlugin,
+  describeKeyGroups,
+  getKeyGroupsThreshold,
+  type EnvVaultPolicy,
   type CapabilityRow,
+  type JsBackendLimitation,
 } from '../../core/index.js'
 import { printSetupInstructions } from './setup.js'
+import { checkExpiredRecipients } from './verify.js'
 
 interface CheckResult {
   name: string
@@ -18,7 +27,7 @@ interface CheckResult {
 }
 
 export function formatCapabilityRow(row: CapabilityRow): string {
-  const icon = row.status === 'ok' ? 'OK' : 'FAIL'
+  const icon = row.status === 'ok' ? 'OK' : row.status === 'partial' ? 'PARTIAL' : 'FAIL'
   const via =
     row.via === 'both'
       ? 'system SOPS / JS backend'
@@ -27,7 +36,48 @@ export function formatCapabilityRow(row: CapabilityRow): string {
         : row.via === 'js'
           ? 'JS backend'
           : 'none'
-  return `${row.label}: ${icon} via ${via}`
+  const line = `${row.label}: ${icon} via ${via}`
+  return row.status === 'partial' ? `${line} - ${row.message}` : line
+}
+
+/**
+ * Describe Shamir key groups per environment and warn about ways around the quorum
+ */
+export async function checkKeyGroups(
+  policy: EnvVaultPolicy,
+  systemSopsAvailable: boolean
+): Promise<CheckResult[]> {
+  const checks: CheckResult[] = []
+  for (const [env, envPolicy] of Object.entries(policy.environments).sort()) {
+    if (!envPolicy.keyGroups) continue
+    const groups = describeKeyGroups(envPolicy.keyGroups)
+    const quorum = `${getKeyGroupsThreshold(envPolicy.keyGroups)} of ${groups.length}`
+    checks.push({
+      name: 'Key Groups',
+      status: 'ok',
+      message: `${env}: ${quorum} key groups (${groups.join(', ')})`,
+    })
+
+    const direct = [
+      ...(envPolicy.recipients ?? []),
+      ...Object.values(envPolicy.services).flatMap((service) => service.recipients),
+    ]
+    if (direct.length > 0) {
+      checks.push({
+        name: 'Key Groups',
+        status: 'warning',
+        message: `${env}: ${direct.length} direct recipient entr${direct.length === 1 ? 'y' : 'ies'} can decrypt without the ${quorum} quorum`,
+      })
+    }
+    if (groups.length > 1 && !systemSopsAvailable) {
+      checks.push({
+        name: 'Key Groups',
+        status: 'warning',
+        message: `${env}: several key groups need system SOPS (the JS backend handles one age key group)`,
+      })
+    }
+  }
+  return checks
 }
 
 export const doctorCommand = new Command('doctor')
@@ -39,19 +89,27 @@ export const doctorCommand = new Command('doctor')
     const git = new GitAdapter(cwd)
 
     const checks: CheckResult[] = []
+    let cryptoPlugins: Record<string, string> = {}
+    let jsLimitations: JsBackendLimitation[] = []
 
-    if (await sops.isAvailable()) {
-      const version = await sops.getVersion()
+    const installation = await sops.getInstallation()
+    if (installation.supported) {
       checks.push({
         name: 'SOPS',
         status: 'ok',
-        message: `Installed (${version ?? 'unknown version'})`,
+        message: `Installed (${installation.version ?? 'unknown version'})`,
+      })
+    } else if (installation.installed) {
+      checks.push({
+        name: 'SOPS',
+        status: 'warning',
+        message: `Version ${installation.version} is too old: envvault needs sops >= ${MIN_SOPS_VERSION} to write secrets (JS backend is used instead)`,
       })
     } else {
       checks.push({
         name: 'SOPS',
         status: 'warning',
-        message: 'Not installed (JS backend may still support pull/decrypt)',
+        message: 'Not installed (JS backend can be used instead)',
       })
     }
 
@@ -92,6 +150,7 @@ export const doctorCommand = new Command('doctor')
 
     try {
       const config = await loadConfig(cwd)
+      cryptoPlugins = config.cryptoPlugins ?? {}
       checks.push({
         name: 'Config',
         status: 'ok',
@@ -109,6 +168,18 @@ export const doctorCommand = new Command('doctor')
           message: `${config.secretsDir} not found`,
         })
       }
+
+      try {
+        const policy = await loadPolicy(cwd)
+        const expired = await checkExpiredRecipients(cwd, config, policy)
+        for (const finding of expired) {
+          checks.push({ name: 'Expired Access', status: 'warning', message: finding.message })
+        }
+        checks.push(...(await checkKeyGroups(policy, await sops.isAvailable())))
+        jsLimitations = findJsBackendLimitations(policy)
+      } catch {
+        // policy problems are reported by verify/ci-verify
+      }
     } catch {
       checks.push({
         name: 'Config',
@@ -145,7 +216,7 @@ export const doctorCommand = new Command('doctor')
     }
 
     const backendStatuses = await getCryptoBackendStatuses()
-    const capabilityMatrix = buildCapabilityMatrix(backendStatuses)
+    const capabilityMatrix = buildCapabilityMatrix(backendStatuses, jsLimitations)
 
     console.log('\nCrypto Backends\n')
     for (const backend of backendStatuses) {
@@ -153,6 +224,15 @@ export const doctorCommand = new Command('doctor')
         `[${backend.available ? 'OK' : 'FAIL'}] ${backend.id}: ${backend.displayName}`
       )
     }
+    for (const [id, specifier] of Object.entries(cryptoPlugins)) {
+      try {
+        const plugin = await loadCryptoBackendPlugin(cwd, id, specifier)
+        const available = await plugin.isAvailable()
+        console.log(`[${available ? 'OK' : 'FAIL'}] ${id}: ${plugin.displayName} (plugin ${specifier})`)
+      } catch (error) {
+        console.log(`[FAIL] ${id}: ${(error as Error).message}`)
+      }
+    }
 
     console.log('\nCapability Matrix\n')
     for (const row of capabilityMatrix) {
@@ -160,10 +240,10 @@ export const doctorCommand = new Command('doctor')
     }
 
     console.log('\nHints')
-    console.log('- For basic usage, JS backend is enough for pull/decrypt.')
-    console.log('- For rotate/updatekeys and other write operations, install system SOPS + age.')
+    console.log('- The JS backend can decrypt and write age-encrypted secrets without system SOPS.')
+    console.log('- Install system SOPS + age for PGP/KMS keys or multiple key groups.')
     console.log(
-      '- Set preferred backend in envvault.config.json with "cryptoBackend": "auto" | "system-sops" | "js".'
+      '- Set preferred backend in envvault.config.json with "cryptoBackend": "auto" | "system-sops" | "js" | <cryptoPlugins name>.'
     )
 
     if (options.fix) {
@@ -1,21 +1,29 @@
 import { Command } from 'commander'
 import { spawn } from 'child_process'
-import { join } from 'path'
-import { readFile, writeFile, access } from 'fs/promises'
+import { readFile, access } from 'fs/promises'
 import {
   loadConfig, 
-  SopsAdapter, 
+  getSecretFilePath,
   GitAdapter,
   parseDotenv, 
   renderDotenv, 
+  renderEntries,
+  getServiceFormat,
+  parseSecretDocument,
+  renderSecretDocument,
+  flattenSecretDocument,
+  SECRET_FORMAT_EXTENSIONS,
   diffEnv, 
   formatSafeDiff,
   createSecureTempFile, 
   withLock,
   ConfigError, 
-  SopsError
+  SopsError,
+  ParseError,
+  type DotenvEntry,
+  type SecretDocument
 } from '../../core/index.js'
-import { stringify as stringifyYaml } from 'yaml'
+import { cryptoBackendOption, resolveCommandCryptoBackend } from '../crypto-backend.js'
 
 export const editCommand = new Command('edit')
   .description('Edit secrets in an interactive editor')
@@ -24,38 +32,52 @@ export const editCommand = new Command('edit')
   .option('--editor <editor>', 'Editor to use', process.env.EDITOR || process.env.VISUAL || 'notepad')
   .option('--unsafe-show-values', 'Show values in diff', false)
   .option('--no-commit', 'Skip git commit')
+  .addOption(cryptoBackendOption())
   .action(async (options) => {
     const cwd = process.cwd()
     
     // Load config
     const config = await loadConfig(cwd)
-    const sops = new SopsAdapter()
+    const cryptoBackend = await resolveCommandCryptoBackend('edit', {
+      config,
+      override: options.cryptoBackend,
+    })
     const git = new GitAdapter(cwd)
     
-    // Check prerequisites
-    if (!(await sops.isAvailable())) {
-      console.error('❌ SOPS binary not found')
-      process.exit(1)
-    }
-    
-    const secretPath = join(cwd, config.secretsDir, options.env, `${options.service}.sops.yaml`)
+    const serviceConfig = config.services[options.service]
+    const format = serviceConfig ? getServiceFormat(serviceConfig) : 'dotenv'
+    const secretPath = getSecretFilePath(cwd, config.secretsDir, options.env, options.service, format)
     
     // Load existing data
     let existingData: Record<string, string> = {}
+    let existingDocument: SecretDocument = {}
     let order: string[] = []
+    // Comments and key order of a .sops.env file, kept through the edit
+    let existingEntries: DotenvEntry[] | undefined
     
     try {
       await access(secretPath)
-      const { data } = await sops.decrypt(secretPath)
+      const { data, tree, entries } = await cryptoBackend.decrypt(secretPath)
       existingData = data
+      existingDocument = tree ?? data
       order = Object.keys(data)
+      existingEntries = entries
     } catch {
       // File doesn't exist, will create new
     }
     
-    // Create temp file with current data
-    const envContent = renderDotenv(existingData, { order })
-    const tempFile = await createSecureTempFile(envContent, { suffix: '.env' })
+    // Create temp file with current data (yaml/json/binary services are edited as-is)
+    const content =
+      format === 'dotenv'
+        ? existingEntries
+          ? renderEntries(existingEntries)
+          : renderDotenv(existingData, { order })
+        : Object.keys(existingDocument).length > 0
+          ? renderSecretDocument(format, existingDocument)
+          : ''
+    const tempFile = await createSecureTempFile(content, {
+      suffix: SECRET_FORMAT_EXTENSIONS[format],
+    })
     
     try {
       // Open editor
@@ -75,13 +97,40 @@ export const editCommand = new Command('edit')
       })
       
       // Read edited content
-      const editedContent = await readFile(tempFile.path, 'utf-8')
-      const { env: newData, order: newOrder } = parseDotenv(editedContent)
+      const editedContent = await readFile(tempFile.path)
+      let newDocument: SecretDocument
+      let newEntries: DotenvEntry[] | undefined
+      try {
+        if (format === 'dotenv') {
+          const parsed = parseDotenv(editedContent.toString('utf-8'))
+          newDocument = parsed.env
+          newEntries = parsed.entries
+        } else {
+          newDocument = parseSecretDocument(format, editedContent)
+        }
+      } catch (error) {
+        if (error instanceof ParseError) {
+          console.error(`Error: ${error.message}. Nothing was saved.`)
+          process.exitCode = 1
+          return
+        }
+        throw error
+      }
+      const newData = flattenSecretDocument(newDocument)
       
       // Compute diff
       const diff = diffEnv(existingData, newData)
+      const layoutChanged =
+        existingEntries !== undefined &&
+        newEntries !== undefined &&
+        renderEntries(existingEntries) !== renderEntries(newEntries)
       
-      if (diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0) {
+      if (
+        diff.added.length === 0 &&
+        diff.removed.length === 0 &&
+        diff.changed.length === 0 &&
+        !layoutChanged
+      ) {
         console.log('ℹ️  No changes detected')
         return
       }
@@ -97,9 +146,7 @@ export const editCommand = new Command('edit')
       
       // Convert to YAML and encrypt
       await withLock(cwd, async () => {
-        const yamlContent = stringifyYaml(newData)
-        await writeFile(secretPath, yamlContent, 'utf-8')
-        await sops.encrypt(secretPath)
+        await cryptoBackend.encryptData(secretPath, newDocument, newEntries)
       })
       
       console.log(`\n✅ Encrypted ${secretPath}`)
@@ -3,91 +3,225 @@ import { access, writeFile } from 'fs/promises'
 import { join } from 'path'
 import {
   loadConfig,
+  getSecretFilePath,
   loadPolicy,
-  SopsAdapter,
   GitAdapter,
   writeSopsConfig,
   withLock,
+  isServicePattern,
+  matchesServicePattern,
+  findRecipientEntryIndex,
+  getDirectGrantBlocker,
+  ConfigError,
+  type EnvVaultPolicy,
+  type RecipientEntry,
 } from '../../core/index.js'
+import { cryptoBackendOption, resolveCommandCryptoBackend } from '../crypto-backend.js'
+
+export interface GrantTarget {
+  /** Entry stored in the policy recipients list */
+  entry: string
+  /** Human-readable label, e.g. "member alice" */
+  label: string
+}
+
+/**
+ * Resolve --recipient / --member / --group into a recipients entry
+ */
+export function resolveGrantTarget(
+  policy: EnvVaultPolicy,
+  options: { recipient?: string; member?: string; group?: string }
+): GrantTarget {
+  const given = [options.recipient, options.member, options.group].filter(Boolean)
+  if (given.length !== 1) {
+    throw new ConfigError('Pass exactly one of --recipient, --member or --group')
+  }
+  if (options.member) {
+    if (!policy.members?.[options.member]) {
+      throw new ConfigError(`Member '${options.member}' not found in policy members`)
+    }
+    return { entry: options.member, label: `member ${options.member}` }
+  }
+  if (options.group) {
+    if (!policy.groups?.[options.group]) {
+      throw new ConfigError(`Group '${options.group}' not found in policy groups`)
+    }
+    return { entry: options.group, label: `group ${options.group}` }
+  }
+  return { entry: options.recipient!, label: 'recipient' }
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
 
 export const grantCommand = new Command('grant')
   .description('Grant a user access to secrets for an environment/service')
-  .requiredOption('--env <env>', 'Environment (dev, uat, prod)')
-  .requiredOption('--service <service>', 'Service name')
-  .requiredOption('--recipient <age>', 'Age public key recipient')
+  .option('--env <env>', 'Environment (dev, uat, prod)')
+  .option('--all-envs', 'Grant on every environment in the policy', false)
+  .requiredOption('--service <service>', "Service name or wildcard pattern (e.g. 'core-*', '*')")
+  .option('--recipient <age>', 'Age public key (or pgp:/kms:/gcp_kms:/hc_vault: key)')
+  .option('--member <alias>', 'Member alias from the policy members map')
+  .option('--group <name>', 'Group name from the policy groups map')
+  .option('--expires <date>', 'Expiry date for the grant (e.g. 2026-12-31)')
   .option('--no-commit', 'Skip git commit')
+  .addOption(cryptoBackendOption())
   .action(async (options) => {
     const cwd = process.cwd()
 
     const config = await loadConfig(cwd)
     const policy = await loadPolicy(cwd)
-    const sops = new SopsAdapter()
     const git = new GitAdapter(cwd)
 
-    const { env, service, recipient } = options
+    const service: string = options.service
 
-    if (!policy.environments[env]) {
-      console.error(`Error: Environment '${env}' not found in policy`)
-      process.exit(1)
+    let target: GrantTarget
+    try {
+      target = resolveGrantTarget(policy, options)
+    } catch (error) {
+      if (error instanceof ConfigError) {
+        console.error(`Error: ${error.message}`)
+        process.exit(1)
+      }
+      throw error
     }
+    const recipient = target.entry
 
-    if (!config.services[service]) {
-      console.error(`Error: Service '${service}' not found in config`)
+    if (options.expires !== undefined) {
+      const expiresAt = new Date(options.expires)
+      if (Number.isNaN(expiresAt.getTime())) {
+        console.error(`Error: Invalid --expires date: ${options.expires}`)
+        process.exit(1)
+      }
+      if (expiresAt.getTime() <= Date.now()) {
+        console.error('Error: --expires must be in the future')
+        process.exit(1)
+      }
+    }
+    const entry: RecipientEntry = options.expires
+      ? { recipient, expiresAt: options.expires }
+      : recipient
+
+    if (Boolean(options.env) === Boolean(options.allEnvs)) {
+      console.error('Error: Pass exactly one of --env or --all-envs')
+      process.exit(1)
+    }
+    if (options.env && !policy.environments[options.env]) {
+      console.error(`Error: Environment '${options.env}' not found in policy`)
+      process.exit(1)
+    }
+    const envs: string[] = options.env ? [options.env] : Object.keys(policy.environments).sort()
+    const blockers = envs
+      .map((env) => getDirectGrantBlocker(policy, env))
+      .filter((blocker): blocker is string => blocker !== null)
+    if (blockers.length > 0) {
+      for (const blocker of blockers) {
+        console.error(`Error: ${blocker}`)
+      }
       process.exit(1)
     }
 
-    if (!policy.environments[env].services[service]) {
-      policy.environments[env].services[service] = { recipients: [] }
+    let services: string[]
+    if (isServicePattern(service)) {
+      services = Object.keys(config.services)
+        .filter((name) => matchesServicePattern(name, service))
+        .sort()
+      if (services.length === 0) {
+        console.error(`Error: No services in config match '${service}'`)
+        process.exit(1)
+      }
+    } else {
+      if (!config.services[service]) {
+        console.error(`Error: Service '${service}' not found in config`)
+        process.exit(1)
+      }
+      services = [service]
     }
 
-    if (policy.environments[env].services[service].recipients.includes(recipient)) {
-      console.log(`Recipient already has access to ${env}/${service}`)
+    const targets: Array<{ env: string; service: string }> = []
+    for (const env of envs) {
+      for (const name of services) {
+        const existing = policy.environments[env]!.services[name]?.recipients ?? []
+        if (findRecipientEntryIndex(existing, recipient) !== -1) {
+          console.log(`${capitalize(target.label)} already has access to ${env}/${name}`)
+          continue
+        }
+        targets.push({ env, service: name })
+      }
+    }
+
+    if (targets.length === 0) {
       return
     }
 
+    const cryptoBackend = await resolveCommandCryptoBackend('grant', {
+      config,
+      override: options.cryptoBackend,
+    })
+
     await withLock(cwd, async () => {
-      policy.environments[env]!.services[service]!.recipients.push(recipient)
+      for (const { env, service: name } of targets) {
+        const envPolicy = policy.environments[env]!
+        envPolicy.services[name] ??= { recipients: [] }
+        envPolicy.services[name]!.recipients.push(entry)
+      }
 
       const policyPath = join(cwd, 'envvault.policy.json')
       await writeFile(policyPath, JSON.stringify(policy, null, 2), 'utf-8')
-      console.log('Added recipient to policy')
+      console.log(
+        targets.length === 1
+          ? `Added ${target.label} to policy`
+          : `Added ${target.label} to policy for ${targets.length} services`
+      )
+      if (options.expires) {
+        console.log(`Access expires on ${options.expires}`)
+      }
 
-      await writeSopsConfig(cwd, policy)
+      await writeSopsConfig(cwd, policy, config)
       console.log('Updated .sops.yaml')
 
-      const secretPath = join(cwd, config.secretsDir, env, `${service}.sops.yaml`)
-      let secretExists = false
-      try {
-        await access(secretPath)
-        secretExists = true
-      } catch {
-        secretExists = false
-      }
-
-      if (secretExists) {
+      const filesToAdd = [policyPath, join(cwd, '.sops.yaml')]
+      for (const { env, service: name } of targets) {
+        const secretPath = getSecretFilePath(cwd, config.secretsDir, env, name)
+        const where = targets.length === 1 ? '' : ` (${env}/${name})`
         try {
-          await sops.updateKeys(secretPath)
-          console.log('Re-encrypted secrets with new recipient')
+          await access(secretPath)
         } catch {
-          console.log('Warning: Could not re-encrypt existing secret file')
+          console.log(`No existing secret file to re-encrypt${where} (policy updated only)`)
+          continue
         }
-      } else {
-        console.log('No existing secret file to re-encrypt (policy updated only)')
-      }
 
-      if (options.commit && (await git.isRepo())) {
-        const filesToAdd = [policyPath, join(cwd, '.sops.yaml')]
-        if (secretExists) {
+        try {
+          await cryptoBackend.updateKeys(secretPath)
           filesToAdd.push(secretPath)
+          console.log(`Re-encrypted secrets with new recipient${where}`)
+        } catch {
+          console.log(`Warning: Could not re-encrypt existing secret file${where}`)
         }
+      }
 
+      if (options.commit && (await git.isRepo())) {
+        const scope =
+          targets.length === 1
+            ? `${targets[0]!.env}/${targets[0]!.service}`
+            : `${options.env ?? '*'}/${service}`
         const commitHash = await git.commit({
-          message: `chore(policy): grant access to ${env}/${service}`,
+          message:
+            target.entry === options.recipient
+              ? `chore(policy): grant access to ${scope}`
+              : `chore(policy): grant ${target.label} access to ${scope}`,
           add: filesToAdd,
         })
         console.log(`Committed: ${commitHash}`)
       }
     })
 
-    console.log(`\nGranted access to ${env}/${service}`)
+    if (targets.length === 1) {
+      console.log(`\nGranted access to ${targets[0]!.env}/${targets[0]!.service}`)
+      return
+    }
+    console.log(`\nGranted access to ${targets.length} services:`)
+    for (const { env, service: name } of targets) {
+      console.log(`  - ${env}/${name}`)
+    }
   })
@@ -0,0 +1,191 @@
+import { Command } from 'commander'
+import { access, writeFile } from 'fs/promises'
+import { join } from 'path'
+import {
+  loadConfig,
+  getSecretFilePath,
+  loadPolicy,
+  GitAdapter,
+  writeSopsConfig,
+  withLock,
+  findRecipientUsages,
+  ConfigError,
+  type CryptoBackendPreference,
+  type CryptoCapability,
+  type EnvVaultConfig,
+  type EnvVaultPolicy,
+} from '../../core/index.js'
+import { cryptoBackendOption, resolveCommandCryptoBackend } from '../crypto-backend.js'
+
+async function loadProjectOrExit(
+  cwd: string
+): Promise<{ config: EnvVaultConfig; policy: EnvVaultPolicy }> {
+  try {
+    return { config: await loadConfig(cwd), policy: await loadPolicy(cwd) }
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`Error: ${error.message}`)
+      process.exit(1)
+    }
+    throw error
+  }
+}
+
+/**
+ * Save the policy, regenerate .sops.yaml and update keys of every secret
+ * that references the group, all under one lock and one commit.
+ */
+async function applyGroupChange(
+  cwd: string,
+  config: EnvVaultConfig,
+  policy: EnvVaultPolicy,
+  group: string,
+  options: {
+    commit: boolean
+    message: string
+    capability: CryptoCapability
+    cryptoBackend?: CryptoBackendPreference
+  }
+): Promise<void> {
+  const cryptoBackend = await resolveCommandCryptoBackend(options.capability, {
+    config,
+    override: options.cryptoBackend,
+  })
+  const git = new GitAdapter(cwd)
+  const usages = findRecipientUsages(policy, group)
+
+  await withLock(cwd, async () => {
+    const policyPath = join(cwd, 'envvault.policy.json')
+    await writeFile(policyPath, JSON.stringify(policy, null, 2), 'utf-8')
+    console.log('Updated policy')
+
+    await writeSopsConfig(cwd, policy, config)
+    console.log('Updated .sops.yaml')
+
+    const filesToAdd = [policyPath, join(cwd, '.sops.yaml')]
+    for (const { env, service } of usages) {
+      const secretPath = getSecretFilePath(cwd, config.secretsDir, env, service)
+      try {
+        await access(secretPath)
+      } catch {
+        continue
+      }
+      try {
+        await cryptoBackend.updateKeys(secretPath)
+        filesToAdd.push(secretPath)
+        console.log(`Re-encrypted ${env}/${service}`)
+      } catch {
+        console.log(`Warning: Could not re-encrypt ${env}/${service}`)
+      }
+    }
+    if (usages.length === 0) {
+      console.log(`Group ${group} is not referenced by any service`)
+    }
+
+    if (options.commit && (await git.isRepo())) {
+      const commitHash = await git.commit({ message: options.message, add: filesToAdd })
+      console.log(`Committed: ${commitHash}`)
+    }
+  })
+}
+
+export const groupCommand = new Command('group').description(
+  'Manage recipient groups in envvault.policy.json'
+)
+
+groupCommand
+  .command('list')
+  .description('List groups, their members and the services they grant')
+  .action(async () => {
+    const { policy } = await loadProjectOrExit(process.cwd())
+    const names = Object.keys(policy.groups ?? {}).sort()
+    if (names.length === 0) {
+      console.log('No groups defined')
+      return
+    }
+    for (const name of names) {
+      const group = policy.groups![name]!
+      console.log(`${name}${group.description ? ` - ${group.description}` : ''}`)
+      console.log(`  members: ${group.members.join(', ') || '(none)'}`)
+      const usages = findRecipientUsages(policy, name)
+      console.log(
+        `  grants: ${usages.map(({ env, service }) => `${env}/${service}`).join(', ') || '(none)'}`
+      )
+    }
+  })
+
+groupCommand
+  .command('add-member')
+  .description('Add a member to a group and update keys of every affected secret')
+  .requiredOption('--group <name>', 'Group name (created if missing)')
+  .requiredOption('--member <alias>', 'Member alias or age public key')
+  .option('--no-commit', 'Skip git commit')
+  .addOption(cryptoBackendOption())
+  .action(async (options) => {
+    const cwd = process.cwd()
+    const { config, policy } = await loadProjectOrExit(cwd)
+    const { group, member } = options
+
+    if (!member.startsWith('age1') && !policy.members?.[member]) {
+      console.error(`Error: Member '${member}' not found in policy members`)
+      process.exit(1)
+    }
+    if (policy.members?.[group]) {
+      console.error(`Error: '${group}' is already a member alias`)
+      process.exit(1)
+    }
+
+    policy.groups ??= {}
+    const created = !policy.groups[group]
+    policy.groups[group] ??= { members: [] }
+    if (policy.groups[group]!.members.includes(member)) {
+      console.log(`${member} is already in group ${group}`)
+      return
+    }
+    policy.groups[group]!.members.push(member)
+    if (created) console.log(`Created group ${group}`)
+
+    await applyGroupChange(cwd, config, policy, group, {
+      commit: options.commit,
+      message: `chore(policy): add ${member} to group ${group}`,
+      capability: 'grant',
+      cryptoBackend: options.cryptoBackend,
+    })
+    console.log(`\nAdded ${member} to group ${group}`)
+  })
+
+groupCommand
+  .command('remove-member')
+  .description('Remove a member from a group and update keys of every affected secret')
+  .requiredOption('--group <name>', 'Group name')
+  .requiredOption('--member <alias>', 'Member alias or age public key')
+  .option('--no-commit', 'Skip git commit')
+  .addOption(cryptoBackendOption())
+  .action(async (options) => {
+    const cwd = process.cwd()
+    const { config, policy } = await loadProjectOrExit(cwd)
+    const { group, member } = options
+
+    const members = policy.groups?.[group]?.members
+    if (!members) {
+      console.error(`Error: Group '${group}' not found in policy groups`)
+      process.exit(1)
+    }
+    const index = members.indexOf(member)
+    if (index === -1) {
+      console.log(`${member} is not in group ${group}`)
+      return
+    }
+    members.splice(index, 1)
+
+    await applyGroupChange(cwd, config, policy, group, {
+      commit: options.commit,
+      message: `chore(policy): remove ${member} from group ${group}`,
+      capability: 'revoke',
+      cryptoBackend: options.cryptoBackend,
+    })
+    console.log(`\nRemoved ${member} from group ${group}`)
+    console.log(
+      'WARNING: Rotate affected secrets if the removed member should lose access to current values.'
+    )
+  })
@@ -8,12 +8,27 @@ const GEV_MARKER_START = '# >>> gev:managed (do not edit this block)'
 const GEV_MARKER_END = '# <<< gev:managed (end)'
 
 // Hook script template - POSIX compatible
+// pre-commit only runs the cheap local checks: it tolerates an unsigned policy and
+// skips when envvault is not installed locally. pre-push (and CI) stay strict.
 const generateHookContent = (hookType: 'pre-push' | 'pre-commit'): string => {
+  if (hookType === 'pre-commit') {
+    return `#!/bin/sh
+${GEV_MARKER_START}
+# gev ${hookType} hook - auto-generated by envvault
+# Run 'envvault hooks uninstall --type ${hookType}' to remove
+if npx --no-install envvault --version >/dev/null 2>&1; then
+  npx --no-install envvault verify --allow-unsigned || { echo "envvault verify failed. ${hookType} aborted."; exit 1; }
+else
+  echo "envvault is not installed locally; skipping envvault verify"
+fi
+${GEV_MARKER_END}
+`
+  }
   return `#!/bin/sh
 ${GEV_MARKER_START}
 # gev ${hookType} hook - auto-generated by envvault
 # Run 'envvault hooks uninstall --type ${hookType}' to remove
-npx gev verify || { echo "gev verify failed. ${hookType} aborted."; exit 1; }
+npx --no-install envvault verify || { echo "envvault verify failed. ${hookType} aborted."; exit 1; }
 ${GEV_MARKER_END}
 `
 }
@@ -44,6 +59,21 @@ async function hasGevHookContent(hookPath: string): Promise<boolean> {
   }
 }
 
+/**
+ * Extract the gev managed block (markers included) from a hook file
+ */
+async function extractGevBlock(hookPath: string): Promise<string | null> {
+  try {
+    const content = await readFile(hookPath, 'utf-8')
+    const start = content.indexOf(GEV_MARKER_START)
+    const end = content.indexOf(GEV_MARKER_END)
+    if (start === -1 || end === -1 || end < start) return null
+    return content.slice(start, end + GEV_MARKER_END.length)
+  } catch {
+    return null
+  }
+}
+
 /**
  * Extract non-gev content from a hook file
  */
@@ -109,21 +139,25 @@ export async function installHook(options: {
     // Ensure hooks directory exists
     await mkdir(hooksDir, { recursive: true })
     
-    // Check if already has gev content
-    if (await hasGevHookContent(normalizedHookPath)) {
-      return {
-        success: true,
-        message: `${options.type} hook already contains gev managed content`,
-        path: normalizedHookPath
+    // Generate new hook content
+    const gevContent = generateHookContent(options.type)
+    
+    // Check if already has gev content (rewrite outdated managed blocks)
+    const hadGevContent = await hasGevHookContent(normalizedHookPath)
+    if (hadGevContent) {
+      const existingBlock = await extractGevBlock(normalizedHookPath)
+      if (existingBlock !== null && gevContent.includes(existingBlock)) {
+        return {
+          success: true,
+          message: `${options.type} hook already contains gev managed content`,
+          path: normalizedHookPath
+        }
       }
     }
     
     // Get existing content
     const existingContent = await extractNonGevContent(normalizedHookPath)
     
-    // Generate new hook content
-    const gevContent = generateHookContent(options.type)
-    
     // Combine content: existing content first, then gev block
     let newContent: string
     if (existingContent.trim()) {
@@ -145,7 +179,9 @@ export async function installHook(options: {
     
     return {
       success: true,
-      message: `Successfully installed ${options.type} hook`,
+      message: hadGevContent
+        ? `Updated gev managed content in ${options.type} hook`
+        : `Successfully installed ${options.type} hook`,
       path: normalizedHookPath
     }
   } catch (error) {
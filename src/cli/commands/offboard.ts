@@ -0,0 +1,227 @@
+import { Command } from 'commander'
+import { access, writeFile } from 'fs/promises'
+import { join } from 'path'
+import {
+  loadConfig,
+  getSecretFilePath,
+  loadPolicy,
+  GitAdapter,
+  writeSopsConfig,
+  withLock,
+  findServicesGrantingKeys,
+  findQuorumReductions,
+  removeRecipientEverywhere,
+  ConfigError,
+  type EnvVaultConfig,
+  type EnvVaultPolicy,
+  type OffboardTarget,
+  type QuorumReduction,
+} from '../../core/index.js'
+import { cryptoBackendOption, resolveCommandCryptoBackend } from '../crypto-backend.js'
+
+/**
+ * Secret keys one offboarded person could read in one environment/service
+ */
+export interface OffboardReportEntry {
+  env: string
+  service: string
+  /** Secret key names (never values). Empty when there is no secret file. */
+  keys: string[]
+  hasSecretFile: boolean
+  error?: string
+}
+
+function describeQuorumReduction(reduction: QuorumReduction): string {
+  const quorum = `${reduction.threshold} of ${reduction.groups}`
+  return reduction.newGroups === 0
+    ? `${reduction.env}: every key group would be emptied (was ${quorum})`
+    : `${reduction.env}: key groups quorum would drop from ${quorum} to ${reduction.newThreshold} of ${reduction.newGroups}`
+}
+
+export const offboardCommand = new Command('offboard')
+  .description('Revoke a person from every environment/service and rotate the data keys they held')
+  .option('--recipient <age>', 'Age public key to offboard')
+  .option('--member <alias>', 'Member alias to offboard (all of their keys)')
+  .option('--dry-run', 'Only print the report, do not change anything', false)
+  .option(
+    '--lower-threshold',
+    'Allow lowering a keyGroups threshold when the person leaves a key group empty',
+    false
+  )
+  .option('--json', 'Print the report as JSON', false)
+  .option('--no-commit', 'Skip git commit')
+  .addOption(cryptoBackendOption())
+  .action(async (options) => {
+    const cwd = process.cwd()
+    const log = (message: string): void => {
+      if (!options.json) console.log(message)
+    }
+
+    let config: EnvVaultConfig
+    let policy: EnvVaultPolicy
+    try {
+      config = await loadConfig(cwd)
+      policy = await loadPolicy(cwd)
+    } catch (error) {
+      if (error instanceof ConfigError) {
+        console.error(`Error: ${error.message}`)
+        process.exit(1)
+      }
+      throw error
+    }
+
+    if (Boolean(options.recipient) === Boolean(options.member)) {
+      console.error('Error: Pass exactly one of --recipient or --member')
+      process.exit(1)
+    }
+    let target: OffboardTarget
+    let label: string
+    if (options.member) {
+      const member = policy.members?.[options.member]
+      if (!member) {
+        console.error(`Error: Member '${options.member}' not found in policy members`)
+        process.exit(1)
+      }
+      target = { keys: [...member.ageKeys], member: options.member }
+      label = `member ${options.member}`
+    } else {
+      target = { keys: [options.recipient] }
+      label = 'recipient'
+    }
+
+    const affected = findServicesGrantingKeys(policy, target.keys)
+    if (affected.length === 0) {
+      if (options.json) {
+        console.log(JSON.stringify({ target, services: [] }, null, 2))
+        return
+      }
+      console.log(`No environment/service grants access to the ${label}`)
+      return
+    }
+
+    const quorumReductions = findQuorumReductions(policy, target)
+    if (quorumReductions.length > 0 && !options.lowerThreshold) {
+      const details = quorumReductions.map(describeQuorumReduction)
+      if (!options.dryRun) {
+        console.error(
+          `Error: Offboarding the ${label} lowers the key groups quorum:\n  ${details.join('\n  ')}\n` +
+            'Add another key holder to those groups first, or pass --lower-threshold to accept it.'
+        )
+        process.exit(1)
+      }
+      for (const detail of details) {
+        log(`Warning: ${detail} (needs --lower-threshold)`)
+      }
+    }
+
+    const cryptoBackend = await resolveCommandCryptoBackend('rotate', {
+      config,
+      override: options.cryptoBackend,
+      silent: Boolean(options.json),
+    })
+    const git = new GitAdapter(cwd)
+
+    // Read key names before re-keying: this is what the person could decrypt
+    const report: OffboardReportEntry[] = []
+    for (const { env, service } of affected) {
+      const secretPath = getSecretFilePath(cwd, config.secretsDir, env, service)
+      try {
+        await access(secretPath)
+      } catch {
+        report.push({ env, service, keys: [], hasSecretFile: false })
+        continue
+      }
+      try {
+        const decrypted = await cryptoBackend.decrypt(secretPath)
+        report.push({ env, service, keys: Object.keys(decrypted.data).sort(), hasSecretFile: true })
+      } catch (error) {
+        report.push({
+          env,
+          service,
+          keys: [],
+          hasSecretFile: true,
+          error: (error as Error).message,
+        })
+      }
+    }
+
+    if (!options.dryRun) {
+      await withLock(cwd, async () => {
+        const removedMembers = removeRecipientEverywhere(policy, target)
+
+        const policyPath = join(cwd, 'envvault.policy.json')
+        await writeFile(policyPath, JSON.stringify(policy, null, 2), 'utf-8')
+        log(`Removed ${label} from policy (${affected.length} services)`)
+        for (const alias of removedMembers) {
+          log(`Removed member ${alias}`)
+        }
+        for (const { env, newThreshold, newGroups } of quorumReductions) {
+          log(
+            newGroups === 0
+              ? `Removed the emptied key groups of ${env}`
+              : `Lowered the key groups quorum of ${env} to ${newThreshold} of ${newGroups}`
+          )
+        }
+
+        await writeSopsConfig(cwd, policy, config)
+        log('Updated .sops.yaml')
+
+        const filesToAdd = [policyPath, join(cwd, '.sops.yaml')]
+        for (const entry of report) {
+          if (!entry.hasSecretFile) continue
+          const id = `${entry.env}/${entry.service}`
+          const secretPath = getSecretFilePath(cwd, config.secretsDir, entry.env, entry.service)
+          try {
+            await cryptoBackend.updateKeys(secretPath)
+            await cryptoBackend.rotate(secretPath)
+            filesToAdd.push(secretPath)
+            log(`Re-keyed and rotated ${id}`)
+          } catch (error) {
+            entry.error = (error as Error).message
+            console.error(`Warning: Could not re-key ${id}: ${entry.error}`)
+          }
+        }
+
+        if (options.commit && (await git.isRepo())) {
+          const commitHash = await git.commit({
+            message:
+              label === 'recipient'
+                ? 'security(policy): offboard recipient'
+                : `security(policy): offboard ${label}`,
+            add: filesToAdd,
+          })
+          log(`Committed: ${commitHash}`)
+        }
+      })
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify({ target, services: report, quorumReductions }, null, 2))
+    } else {
+      console.log(`\nSecrets the ${label} could read (rotate these values at the provider):`)
+      for (const entry of report) {
+        const id = `${entry.env}/${entry.service}`
+        if (!entry.hasSecretFile) {
+          console.log(`  ${id}: (no secret file)`)
+        } else if (entry.keys.length === 0 && entry.error) {
+          console.log(`  ${id}: (could not decrypt: ${entry.error})`)
+        } else {
+          console.log(`  ${id}: ${entry.keys.join(', ') || '(empty)'}`)
+        }
+      }
+      if (options.dryRun) {
+        console.log('\nDry run: policy and secrets were not changed.')
+      } else {
+        console.log(
+          '\nWARNING: Old secret versions in git history are still encrypted to the removed key.'
+        )
+        console.log(
+          '   Rotating the values above at the provider is the only way to cut off access.'
+        )
+      }
+    }
+
+    if (report.some((entry) => entry.error)) {
+      process.exit(1)
+    }
+  })
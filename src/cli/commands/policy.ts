@@ -0,0 +1,802 @@
+import { Command } from 'commander'
+import { password } from '@inquirer/prompts'
+import { readFile } from 'fs/promises'
+import { join } from 'path'
+import {
+  loadPolicy,
+  loadPolicySigners,
+  parsePolicySigners,
+  savePolicySigners,
+  loadPolicySignatures,
+  savePolicySignatures,
+  addPolicySignature,
+  verifyPolicyThreshold,
+  verifyEnvironmentThreshold,
+  loadTrustedSigners,
+  hasEnvironmentSignatureRules,
+  LEGACY_SIGNER,
+  describeMember,
+  isMemberReference,
+  isGroupReference,
+  getRecipientEntryName,
+  generateMasterKeyPair,
+  signPolicy,
+  verifyPolicySignature,
+  savePolicySignature,
+  saveMasterPublicKey,
+  saveMasterPrivateKey,
+  loadMasterPublicKey,
+  loadMasterPrivateKey,
+  masterPrivateKeyExists,
+  isMasterPrivateKeyEncrypted,
+  reencryptMasterPrivateKey,
+  canonicalizeJson,
+  GitAdapter,
+  ConfigError,
+  PolicySignatureError,
+  type EnvVaultPolicy,
+  type PolicySigners,
+  type RecipientEntry,
+} from '../../core/index.js'
+
+const PASSPHRASE_ENV = 'ENVVAULT_MASTER_PASSPHRASE'
+const NEW_PASSPHRASE_ENV = 'ENVVAULT_NEW_MASTER_PASSPHRASE'
+
+export interface PolicyVerifyResult {
+  status: 'valid' | 'invalid' | 'unsigned' | 'missing-public-key' | 'threshold-not-met'
+  message: string
+  /** Admins with a valid signature (multi-signer mode) */
+  signedBy?: string[]
+  /** Non-fatal notes such as stale or unknown signatures */
+  warnings?: string[]
+}
+
+export interface PolicyBaseOptions {
+  /** Ref holding the previously trusted envvault.signers.json */
+  base?: string | undefined
+}
+
+export interface ApprovingSigners {
+  /** Admins and threshold whose signatures count */
+  signers: PolicySigners | null
+  /** envvault.signers.json differs from the base ref */
+  changed: boolean
+  /** envvault.signers.json exists at the base ref but not any more */
+  removed: boolean
+  warnings: string[]
+}
+
+/**
+ * Admins whose signatures approve the current envvault.signers.json.
+ *
+ * When the file changed since `base`, the previous admins and threshold apply,
+ * so a change cannot add its own admin and sign itself. A repository switching
+ * from the single master key is approved by the admin holding that key.
+ */
+export async function loadApprovingSigners(
+  cwd: string,
+  signers: PolicySigners | null,
+  base?: string
+): Promise<ApprovingSigners> {
+  const unchanged = { signers, changed: false, removed: false, warnings: [] }
+  if (!base) return unchanged
+
+  const git = new GitAdapter(cwd)
+  if (!(await git.isRepo())) return unchanged
+  if (!(await git.refExists(base))) {
+    return {
+      ...unchanged,
+      warnings: [`Could not read envvault.signers.json at ${base}; using the current admins`],
+    }
+  }
+
+  const baseContent = await git.getFileAtRef(base, 'envvault.signers.json')
+  if (baseContent !== null) {
+    let previous: PolicySigners
+    try {
+      previous = parsePolicySigners(baseContent)
+    } catch (error) {
+      return {
+        ...unchanged,
+        warnings: [`envvault.signers.json at ${base} is invalid (${(error as Error).message})`],
+      }
+    }
+    if (!signers) return { signers: previous, changed: true, removed: true, warnings: [] }
+    if (canonicalizeJson(previous) === canonicalizeJson(signers)) return unchanged
+    return {
+      signers: previous,
+      changed: true,
+      removed: false,
+      warnings: [
+        `envvault.signers.json changed since ${base}; signatures from the previous admins are required`,
+      ],
+    }
+  }
+
+  const basePublicKey = await git.getFileAtRef(base, '.envvault/master-key.pub')
+  if (!signers || !basePublicKey) return unchanged
+  const admins = Object.fromEntries(
+    Object.entries(signers.admins).filter(
+      ([, admin]) => admin.publicKey.trim() === basePublicKey.trim()
+    )
+  )
+  return {
+    signers: { version: 1, threshold: 1, admins },
+    changed: true,
+    removed: false,
+    warnings: [
+      `envvault.signers.json was added since ${base}; the holder of the previous master key must sign`,
+    ],
+  }
+}
+
+/**
+ * Read envvault.policy.json at a git ref (null when missing or unparseable)
+ */
+export async function loadPolicyAtRef(cwd: string, ref: string): Promise<EnvVaultPolicy | null> {
+  const content = await new GitAdapter(cwd).getFileAtRef(ref, 'envvault.policy.json')
+  try {
+    return content ? (JSON.parse(content) as EnvVaultPolicy) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Verify envvault.policy.sig against envvault.policy.json.
+ *
+ * With envvault.signers.json present, the trusted admins and threshold apply;
+ * otherwise the single master public key in .envvault/ is used. With `base`,
+ * changes to envvault.signers.json need the previous admins' signatures.
+ */
+export async function verifyProjectPolicy(
+  cwd: string,
+  options: PolicyBaseOptions = {}
+): Promise<PolicyVerifyResult> {
+  const policy = await loadPolicy(cwd)
+  const signers = await loadPolicySigners(cwd)
+  const approving = await loadApprovingSigners(cwd, signers, options.base)
+  if (approving.removed) {
+    return {
+      status: 'invalid',
+      message: `envvault.signers.json was removed since ${options.base}; multi-signer mode cannot be turned off in a change`,
+    }
+  }
+
+  const signatures = await loadPolicySignatures(cwd)
+  if (!signatures || signatures.signatures.length === 0) {
+    return {
+      status: 'unsigned',
+      message: 'Policy is not signed. Run `envvault policy sign`',
+      warnings: approving.warnings,
+    }
+  }
+
+  if (signers) {
+    const result = verifyPolicyThreshold(policy, signatures, signers, approving.signers ?? signers)
+    const warnings = [
+      ...approving.warnings,
+      ...result.invalid.map((name) => `Signature from ${name} does not match the current policy`),
+      ...result.unknown.map((name) => `Signature from unknown signer "${name}" ignored`),
+    ]
+    const summary = `${result.signedBy.length} of ${result.threshold} required`
+    if (!result.valid) {
+      return {
+        status: 'threshold-not-met',
+        message: `Policy signature threshold not met (${summary}; signed by: ${result.signedBy.join(', ') || 'none'})`,
+        signedBy: result.signedBy,
+        warnings,
+      }
+    }
+    return {
+      status: 'valid',
+      message: `Policy signed by ${result.signedBy.join(', ')} (${summary})`,
+      signedBy: result.signedBy,
+      warnings,
+    }
+  }
+
+  const publicKey = await loadMasterPublicKey(cwd)
+  if (!publicKey) {
+    return {
+      status: 'missing-public-key',
+      message: 'Policy is signed but master public key not found',
+    }
+  }
+
+  const valid = signatures.signatures.some((entry) =>
+    verifyPolicySignature(policy, entry.signature, publicKey)
+  )
+  if (!valid) {
+    return { status: 'invalid', message: 'Policy signature is invalid' }
+  }
+
+  return { status: 'valid', message: 'Policy signature valid' }
+}
+
+export interface EnvironmentVerifyResult extends PolicyVerifyResult {
+  env: string
+  /** Whether the environment requires a signature at all */
+  required: boolean
+}
+
+/**
+ * Verify signatures for the given environments using their own signing rules.
+ * Environments without `requireSignature` are reported as not required.
+ *
+ * The rules (`requireSignature`, `signers`) come from `basePolicy` when the
+ * environment exists there, so a change cannot relax the rules it is checked
+ * against; only environments new in the change use their own rules.
+ */
+export async function verifyEnvironmentPolicies(
+  cwd: string,
+  policy: EnvVaultPolicy,
+  envNames: string[],
+  basePolicy: EnvVaultPolicy | null = null,
+  options: PolicyBaseOptions = {}
+): Promise<EnvironmentVerifyResult[]> {
+  const signersFile = await loadPolicySigners(cwd)
+  const approving = await loadApprovingSigners(cwd, signersFile, options.base)
+  const signers = signersFile ? approving.signers : await loadTrustedSigners(cwd)
+  const signatures = await loadPolicySignatures(cwd)
+  const results: EnvironmentVerifyResult[] = []
+
+  for (const env of envNames) {
+    const rules = basePolicy?.environments[env] ?? policy.environments[env]
+    if (!rules?.requireSignature) {
+      results.push({ env, required: false, status: 'valid', message: 'signature not required' })
+      continue
+    }
+    if (approving.removed) {
+      results.push({
+        env,
+        required: true,
+        status: 'invalid',
+        message: `envvault.signers.json was removed since ${options.base}`,
+      })
+      continue
+    }
+    if (!signers) {
+      results.push({
+        env,
+        required: true,
+        status: 'missing-public-key',
+        message: 'signature required but no signing keys are configured',
+      })
+      continue
+    }
+    if (!signatures || signatures.signatures.length === 0) {
+      results.push({
+        env,
+        required: true,
+        status: 'unsigned',
+        message: `policy is not signed. Run \`envvault policy sign --env ${env}\``,
+      })
+      continue
+    }
+
+    const result = verifyEnvironmentThreshold(policy, env, signatures, signers, rules, signersFile)
+    const warnings = [
+      ...approving.warnings.map((warning) => `${env}: ${warning}`),
+      ...(rules.signers ?? [])
+        .filter((name) => !signers.admins[name])
+        .map((name) => `${env}: allowed signer "${name}" is not a trusted admin`),
+      ...result.invalid.map((name) => `${env}: signature from ${name} does not match the policy`),
+    ]
+    const summary = `${result.signedBy.length} of ${result.threshold} required`
+    results.push({
+      env,
+      required: true,
+      status: result.valid ? 'valid' : 'threshold-not-met',
+      message: result.valid
+        ? `policy signed by ${result.signedBy.join(', ')} (${summary})`
+        : `policy signature threshold not met (${summary}; signed by: ${result.signedBy.join(', ') || 'none'})`,
+      signedBy: result.signedBy,
+      warnings,
+    })
+  }
+
+  return results
+}
+
+/**
+ * Render env/service/recipient matrix for human review
+ */
+export function formatRecipientMatrix(policy: EnvVaultPolicy): string {
+  const lines: string[] = [`Policy recipients (version ${policy.version})`]
+
+  const memberAliases = Object.keys(policy.members ?? {}).sort()
+  if (memberAliases.length > 0) {
+    lines.push('', 'members')
+    for (const alias of memberAliases) {
+      lines.push(`  ${describeMember(alias, policy.members![alias]!)}`)
+    }
+  }
+
+  const groupNames = Object.keys(policy.groups ?? {}).sort()
+  if (groupNames.length > 0) {
+    lines.push('', 'groups')
+    for (const name of groupNames) {
+      lines.push(`  ${name}: ${policy.groups![name]!.members.join(', ') || '(no members)'}`)
+    }
+  }
+
+  const formatEntry = (entry: RecipientEntry): string => {
+    const name = getRecipientEntryName(entry)
+    const label =
+      isMemberReference(policy, name) || isGroupReference(policy, name) ? `@${name}` : name
+    return typeof entry !== 'string' && entry.expiresAt
+      ? `${label} (expires ${entry.expiresAt})`
+      : label
+  }
+
+  const envNames = Object.keys(policy.environments).sort()
+  if (envNames.length === 0) {
+    lines.push('', '(no environments defined)')
+  }
+
+  for (const envName of envNames) {
+    lines.push('', envName)
+    const envRecipients = policy.environments[envName]!.recipients ?? []
+    if (envRecipients.length > 0) {
+      lines.push(`  (all services): ${envRecipients.map(formatEntry).join(', ')}`)
+    }
+    const services = policy.environments[envName]!.services
+    const serviceNames = Object.keys(services).sort()
+    if (serviceNames.length === 0) {
+      lines.push('  (no services)')
+      continue
+    }
+    for (const serviceName of serviceNames) {
+      const recipients = services[serviceName]!.recipients
+      lines.push(
+        `  ${serviceName} (${recipients.length} recipient${recipients.length === 1 ? '' : 's'})`
+      )
+      for (const recipient of recipients) {
+        lines.push(`    - ${formatEntry(recipient)}`)
+      }
+    }
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Read a passphrase from the given env var, or prompt when running interactively
+ */
+export async function resolveMasterPassphrase(options: {
+  envName?: string
+  message?: string
+  confirm?: boolean
+}): Promise<string> {
+  const envName = options.envName ?? PASSPHRASE_ENV
+  const fromEnv = process.env[envName]
+  if (fromEnv) return fromEnv
+
+  if (!process.stdin.isTTY) {
+    throw new PolicySignatureError(
+      `Passphrase required. Set ${envName} or run the command interactively.`
+    )
+  }
+
+  const value = await password({
+    message: options.message ?? 'Master key passphrase:',
+    mask: '*',
+  })
+  if (!value) {
+    throw new PolicySignatureError('Passphrase must not be empty')
+  }
+  if (options.confirm) {
+    const repeated = await password({ message: 'Repeat passphrase:', mask: '*' })
+    if (repeated !== value) {
+      throw new PolicySignatureError('Passphrases do not match')
+    }
+  }
+  return value
+}
+
+async function unlockMasterPrivateKey(cwd: string): Promise<string | null> {
+  const encrypted = await isMasterPrivateKeyEncrypted(cwd)
+  if (encrypted === null) return null
+  if (!encrypted) {
+    console.warn(
+      'Warning: Master private key is stored unencrypted. Run `envvault policy change-passphrase` to encrypt it.'
+    )
+    return loadMasterPrivateKey(cwd)
+  }
+  const passphrase = await resolveMasterPassphrase({ message: 'Master key passphrase:' })
+  return loadMasterPrivateKey(cwd, passphrase)
+}
+
+async function loadPolicyOrExit(cwd: string): Promise<EnvVaultPolicy> {
+  try {
+    return await loadPolicy(cwd)
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`Error: ${error.message}`)
+      process.exit(1)
+    }
+    throw error
+  }
+}
+
+const policyCommand = new Command('policy').description('Manage policy signing keys and signatures')
+
+policyCommand
+  .command('init-key')
+  .description('Generate the ed25519 master keypair used to sign the policy')
+  .option('--force', 'Overwrite an existing master keypair', false)
+  .action(async (options) => {
+    const cwd = process.cwd()
+
+    const existing =
+      (await loadMasterPublicKey(cwd)) !== null || (await masterPrivateKeyExists(cwd))
+    if (existing && !options.force) {
+      console.error('Error: Master key already exists in .envvault/. Use --force to replace it.')
+      process.exit(1)
+    }
+
+    let passphrase: string
+    try {
+      passphrase = await resolveMasterPassphrase({
+        message: 'New master key passphrase:',
+        confirm: true,
+      })
+    } catch (error) {
+      if (error instanceof PolicySignatureError) {
+        console.error(`Error: ${error.message}`)
+        process.exit(1)
+      }
+      throw error
+    }
+
+    const { publicKey, privateKey } = await generateMasterKeyPair()
+    await saveMasterPrivateKey(cwd, privateKey, passphrase)
+    await saveMasterPublicKey(cwd, publicKey)
+
+    console.log('[OK] Generated master keypair')
+    console.log('  Private key: .envvault/master-key (passphrase-encrypted, never commit)')
+    console.log('  Public key:  .envvault/master-key.pub')
+    console.log('\nCommit the public key so CI can verify signatures:')
+    console.log('  git add -f .envvault/master-key.pub')
+    if (existing) {
+      console.log(
+        '\nThe previous key was replaced. Re-sign the policy with `envvault policy sign`.'
+      )
+    }
+  })
+
+policyCommand
+  .command('sign')
+  .description('Sign envvault.policy.json into envvault.policy.sig')
+  .option('--signer <name>', 'Admin name from envvault.signers.json (multi-signer mode)')
+  .option('--env <env>', 'Sign only one environment of the policy')
+  .action(async (options) => {
+    const cwd = process.cwd()
+    const policy = await loadPolicyOrExit(cwd)
+    const signers = await loadPolicySigners(cwd)
+
+    if (signers) {
+      if (!options.signer) {
+        console.error('Error: envvault.signers.json is present. Pass --signer <name>.')
+        process.exit(1)
+      }
+      if (!signers.admins[options.signer]) {
+        console.error(`Error: Signer '${options.signer}' is not listed in envvault.signers.json`)
+        process.exit(1)
+      }
+    }
+    if (options.env && !policy.environments[options.env]) {
+      console.warn(
+        `Warning: Environment '${options.env}' is not in the policy; signing its removal.`
+      )
+    }
+
+    let privateKey: string | null
+    try {
+      privateKey = await unlockMasterPrivateKey(cwd)
+    } catch (error) {
+      if (error instanceof PolicySignatureError) {
+        console.error(`Error: ${error.message}`)
+        process.exit(1)
+      }
+      throw error
+    }
+    if (!privateKey) {
+      console.error('Error: Master private key not found. Run `envvault policy init-key` first.')
+      process.exit(1)
+    }
+
+    let signature: string
+    try {
+      signature = signPolicy(policy, privateKey)
+    } catch (error) {
+      console.error(`Error: Failed to sign policy: ${(error as Error).message}`)
+      process.exit(1)
+    }
+
+    const target = options.env ? `environment ${options.env}` : 'envvault.policy.json'
+    if (signers) {
+      const admin = signers.admins[options.signer]!
+      if (!verifyPolicySignature(policy, signature, admin.publicKey)) {
+        console.error(
+          `Error: Local master private key does not match the public key of '${options.signer}'`
+        )
+        process.exit(1)
+      }
+
+      const next = addPolicySignature(
+        await loadPolicySignatures(cwd),
+        policy,
+        options.signer,
+        privateKey,
+        signers,
+        options.env
+      )
+      await savePolicySignatures(cwd, next)
+      const result = options.env
+        ? verifyEnvironmentThreshold(policy, options.env, next, signers)
+        : verifyPolicyThreshold(policy, next, signers)
+      console.log(`[OK] Signed ${target} as ${options.signer}`)
+      console.log(
+        `  Signatures: ${result.signedBy.length} of ${result.threshold} required (${result.signedBy.join(', ')})`
+      )
+      return
+    }
+
+    const publicKey = await loadMasterPublicKey(cwd)
+    if (publicKey && !verifyPolicySignature(policy, signature, publicKey)) {
+      console.error('Error: Master private key does not match .envvault/master-key.pub')
+      process.exit(1)
+    }
+
+    const existing = await loadPolicySignatures(cwd)
+    const hasScoped = existing?.signatures.some((entry) => entry.env !== undefined) ?? false
+    if (options.env || hasScoped) {
+      // Environment-scoped signatures need the multi-entry file format
+      const next = addPolicySignature(
+        existing,
+        policy,
+        LEGACY_SIGNER,
+        privateKey,
+        { version: 1, threshold: 1, admins: publicKey ? { [LEGACY_SIGNER]: { publicKey } } : {} },
+        options.env,
+        null
+      )
+      await savePolicySignatures(cwd, next)
+    } else {
+      await savePolicySignature(cwd, signature)
+    }
+    console.log(`[OK] Signed ${target} -> envvault.policy.sig`)
+  })
+
+policyCommand
+  .command('change-passphrase')
+  .description('Re-encrypt the master private key under a new passphrase')
+  .action(async () => {
+    const cwd = process.cwd()
+
+    const encrypted = await isMasterPrivateKeyEncrypted(cwd)
+    if (encrypted === null) {
+      console.error('Error: Master private key not found. Run `envvault policy init-key` first.')
+      process.exit(1)
+    }
+
+    try {
+      const currentPassphrase = encrypted
+        ? await resolveMasterPassphrase({ message: 'Current passphrase:' })
+        : undefined
+      // Unlock before asking for the new passphrase so a typo fails fast
+      await loadMasterPrivateKey(cwd, currentPassphrase)
+      const newPassphrase = await resolveMasterPassphrase({
+        envName: NEW_PASSPHRASE_ENV,
+        message: 'New passphrase:',
+        confirm: true,
+      })
+      await reencryptMasterPrivateKey(cwd, currentPassphrase, newPassphrase)
+    } catch (error) {
+      if (error instanceof PolicySignatureError) {
+        console.error(`Error: ${error.message}`)
+        process.exit(1)
+      }
+      throw error
+    }
+
+    console.log(
+      encrypted
+        ? '[OK] Master private key re-encrypted with the new passphrase'
+        : '[OK] Master private key is now passphrase-encrypted'
+    )
+  })
+
+policyCommand
+  .command('verify')
+  .description('Verify the policy signature locally')
+  .option('--base <ref>', 'Ref whose envvault.signers.json must approve signer changes')
+  .action(async (options) => {
+    const cwd = process.cwd()
+    const policy = await loadPolicyOrExit(cwd)
+    const baseOptions = { base: options.base as string | undefined }
+    const basePolicy = options.base ? await loadPolicyAtRef(cwd, options.base) : null
+
+    if (
+      hasEnvironmentSignatureRules(policy) ||
+      (basePolicy !== null && hasEnvironmentSignatureRules(basePolicy))
+    ) {
+      const envNames = new Set([
+        ...Object.keys(policy.environments),
+        ...Object.keys(basePolicy?.environments ?? {}),
+      ])
+      const results = await verifyEnvironmentPolicies(
+        cwd,
+        policy,
+        [...envNames].sort(),
+        basePolicy,
+        baseOptions
+      )
+      let failed = false
+      for (const result of results) {
+        for (const warning of result.warnings ?? []) {
+          console.log(`[WARN] ${warning}`)
+        }
+        if (result.status === 'valid') {
+          console.log(`[OK] ${result.env}: ${result.message}`)
+        } else {
+          failed = true
+          console.error(`[FAIL] ${result.env}: ${result.message}`)
+        }
+      }
+      // Signer changes are approved by whole-policy signatures of the previous admins
+      const approving = await loadApprovingSigners(cwd, await loadPolicySigners(cwd), options.base)
+      if (approving.changed) {
+        const result = await verifyProjectPolicy(cwd, baseOptions)
+        if (result.status === 'valid') {
+          console.log(`[OK] ${result.message}`)
+        } else {
+          failed = true
+          console.error(`[FAIL] ${result.message}`)
+        }
+      }
+      if (failed) process.exit(1)
+      return
+    }
+
+    const result = await verifyProjectPolicy(cwd, baseOptions)
+    for (const warning of result.warnings ?? []) {
+      console.log(`[WARN] ${warning}`)
+    }
+    if (result.status !== 'valid') {
+      console.error(`[FAIL] ${result.message}`)
+      process.exit(1)
+    }
+    console.log(`[OK] ${result.message}`)
+  })
+
+policyCommand
+  .command('show')
+  .description('Print the environment/service recipient matrix')
+  .option('--json', 'Print JSON output')
+  .action(async (options) => {
+    const cwd = process.cwd()
+    const policy = await loadPolicyOrExit(cwd)
+
+    if (options.json) {
+      const signature = await verifyProjectPolicy(cwd)
+      console.log(
+        JSON.stringify(
+          {
+            command: 'policy show',
+            signature: signature.status,
+            signedBy: signature.signedBy ?? [],
+            members: policy.members ?? {},
+            groups: policy.groups ?? {},
+            environments: policy.environments,
+          },
+          null,
+          2
+        )
+      )
+      return
+    }
+
+    console.log(formatRecipientMatrix(policy))
+  })
+
+const signersCommand = policyCommand
+  .command('signers')
+  .description('Manage trusted policy admins and the signature threshold')
+
+signersCommand
+  .command('list')
+  .description('List trusted admins and the signature threshold')
+  .action(async () => {
+    const signers = await loadPolicySigners(process.cwd())
+    if (!signers) {
+      console.log('Multi-signer mode is not configured (envvault.signers.json not found)')
+      return
+    }
+    const names = Object.keys(signers.admins).sort()
+    console.log(`Threshold: ${signers.threshold} of ${names.length}`)
+    for (const name of names) {
+      console.log(`  - ${name}`)
+    }
+  })
+
+signersCommand
+  .command('add')
+  .description('Add a trusted admin public key')
+  .requiredOption('--name <name>', 'Admin name')
+  .option('--public-key-file <path>', 'PEM public key file', '.envvault/master-key.pub')
+  .action(async (options) => {
+    const cwd = process.cwd()
+    let publicKey: string
+    try {
+      publicKey = await readFile(join(cwd, options.publicKeyFile), 'utf-8')
+    } catch {
+      console.error(`Error: Public key file not found: ${options.publicKeyFile}`)
+      process.exit(1)
+    }
+    if (!publicKey.includes('BEGIN PUBLIC KEY')) {
+      console.error(`Error: ${options.publicKeyFile} is not a PEM public key`)
+      process.exit(1)
+    }
+
+    const signers = (await loadPolicySigners(cwd)) ?? { version: 1, threshold: 1, admins: {} }
+    const replaced = Boolean(signers.admins[options.name])
+    signers.admins[options.name] = { publicKey }
+    await savePolicySigners(cwd, signers)
+    console.log(`[OK] ${replaced ? 'Updated' : 'Added'} admin ${options.name}`)
+    console.log(`  Threshold: ${signers.threshold} of ${Object.keys(signers.admins).length}`)
+  })
+
+signersCommand
+  .command('remove')
+  .description('Remove a trusted admin')
+  .requiredOption('--name <name>', 'Admin name')
+  .action(async (options) => {
+    const cwd = process.cwd()
+    const signers = await loadPolicySigners(cwd)
+    if (!signers?.admins[options.name]) {
+      console.error(`Error: Admin '${options.name}' not found in envvault.signers.json`)
+      process.exit(1)
+    }
+    delete signers.admins[options.name]
+    const remaining = Object.keys(signers.admins).length
+    if (signers.threshold > Math.max(remaining, 1)) {
+      console.error(
+        `Error: Removing '${options.name}' leaves ${remaining} admin(s) below threshold ${signers.threshold}. Lower the threshold first.`
+      )
+      process.exit(1)
+    }
+    await savePolicySigners(cwd, signers)
+    console.log(`[OK] Removed admin ${options.name}`)
+  })
+
+signersCommand
+  .command('threshold')
+  .description('Set how many admin signatures are required')
+  .argument('<count>', 'Required number of signatures')
+  .action(async (count: string) => {
+    const cwd = process.cwd()
+    const signers = await loadPolicySigners(cwd)
+    if (!signers) {
+      console.error('Error: envvault.signers.json not found. Add an admin first.')
+      process.exit(1)
+    }
+    signers.threshold = Number(count)
+    try {
+      await savePolicySigners(cwd, signers)
+    } catch (error) {
+      if (error instanceof ConfigError) {
+        console.error(`Error: ${error.message}`)
+        process.exit(1)
+      }
+      throw error
+    }
+    console.log(
+      `[OK] Threshold set to ${signers.threshold} of ${Object.keys(signers.admins).length}`
+    )
+  })
+
+export { policyCommand }
+export default policyCommand
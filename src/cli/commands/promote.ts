@@ -7,13 +7,17 @@
  */
 
 import { Command } from 'commander';
-import { join } from 'path';
+import { relative } from 'path';
 import {
   loadConfig,
-  SopsAdapter,
+  getSecretFilePath,
   ConfigError,
   SopsError,
   GitAdapter,
+  getServiceFormat,
+  type CryptoBackend,
+  type CryptoBackendPreference,
+  type EnvVaultConfig,
 } from '../../core/index.js';
 import {
   getLocalOverride,
@@ -21,12 +25,25 @@ import {
   hasLocalOverrides,
   getLocalOverrideKeys,
 } from '../../core/env/local-overrides.js';
+import { cryptoBackendOption, resolveCommandCryptoBackend } from '../crypto-backend.js';
 
 export interface PromoteOptions {
   env: string;
   service: string;
   key: string;
   commit?: boolean;
+  cryptoBackend?: CryptoBackendPreference;
+}
+
+/**
+ * Local overrides are dotenv keys; yaml/json/binary services cannot take them
+ */
+function requireDotenvService(config: EnvVaultConfig, service: string): void {
+  const format = getServiceFormat(config.services[service]!);
+  if (format !== 'dotenv') {
+    console.error(`❌ Service "${service}" stores ${format} secrets; only dotenv services can be promoted to`);
+    process.exit(1);
+  }
 }
 
 /**
@@ -64,10 +81,16 @@ export async function promoteCommandAction(options: PromoteOptions): Promise<voi
     console.error(`   Available services: ${Object.keys(config.services).join(', ') || 'none'}`);
     process.exit(1);
   }
+  requireDotenvService(config, service);
 
   // Determine repo identifier for local overrides
   const repoId = config.repo?.name || cwd.split('/').pop() || 'default';
 
+  const cryptoBackend = await resolveCommandCryptoBackend('promote', {
+    config,
+    override: options.cryptoBackend,
+  });
+
   // Check if local override exists
   const overrideValue = await getLocalOverride(
     { repo: repoId, env, service, mode: 'home' },
@@ -113,7 +136,8 @@ export async function promoteCommandAction(options: PromoteOptions): Promise<voi
       localValue,
       commit,
       repoId,
-      'local'
+      'local',
+      cryptoBackend
     );
   } else {
     // Use home mode value
@@ -126,7 +150,8 @@ export async function promoteCommandAction(options: PromoteOptions): Promise<voi
       overrideValue,
       commit,
       repoId,
-      'home'
+      'home',
+      cryptoBackend
     );
   }
 }
@@ -143,19 +168,12 @@ async function performPromote(
   value: string,
   commit: boolean,
   repoId: string,
-  mode: 'home' | 'local'
+  mode: 'home' | 'local',
+  cryptoBackend: CryptoBackend
 ): Promise<void> {
-  const sops = new SopsAdapter();
   const git = new GitAdapter(cwd);
 
-  // Check sops availability
-  if (!(await sops.isAvailable())) {
-    console.error('❌ SOPS binary not found. Install SOPS first.');
-    console.log('   https://github.com/getsops/sops#install');
-    process.exit(1);
-  }
-
-  const secretPath = join(cwd, secretsDir, env, `${service}.sops.yaml`);
+  const secretPath = getSecretFilePath(cwd, secretsDir, env, service);
 
   console.log(`\n📤 Promoting key "${key}" from local to shared...`);
   console.log(`   Environment: ${env}`);
@@ -163,7 +181,7 @@ async function performPromote(
 
   try {
     // Decrypt secrets file
-    const { data } = await sops.decrypt(secretPath);
+    const { data, entries } = await cryptoBackend.decrypt(secretPath);
 
     // Check if key already exists (for logging purposes only)
     const keyExists = key in data;
@@ -172,7 +190,7 @@ async function performPromote(
     data[key] = value;
 
     // Encrypt and save
-    await sops.encryptData(secretPath, data);
+    await cryptoBackend.encryptData(secretPath, data, entries);
 
     // Remove the local override (securely - no value in logs)
     const removed =
@@ -186,7 +204,7 @@ async function performPromote(
 
     // Optionally commit
     if (commit) {
-      const relativeSecretPath = join(secretsDir, env, `${service}.sops.yaml`);
+      const relativeSecretPath = relative(cwd, secretPath);
       const commitMessage = `chore(secrets): promote ${key} from local override (${env}/${service})`;
 
       await git.commit({
@@ -221,6 +239,7 @@ export async function promoteAllCommandAction(options: {
   env: string;
   service: string;
   commit?: boolean;
+  cryptoBackend?: CryptoBackendPreference;
 }): Promise<void> {
   const cwd = process.cwd();
   const { env, service, commit = false } = options;
@@ -242,6 +261,7 @@ export async function promoteAllCommandAction(options: {
     console.error(`❌ Service "${service}" not found in configuration`);
     process.exit(1);
   }
+  requireDotenvService(config, service);
 
   const repoId = config.repo?.name || cwd.split('/').pop() || 'default';
 
@@ -262,6 +282,11 @@ export async function promoteAllCommandAction(options: {
     return;
   }
 
+  const cryptoBackend = await resolveCommandCryptoBackend('promote', {
+    config,
+    override: options.cryptoBackend,
+  });
+
   console.log(`\n📤 Promoting ${allKeys.length} keys from local to shared...`);
   console.log(`   Keys: ${allKeys.join(', ')}`);
 
@@ -280,14 +305,28 @@ export async function promoteAllCommandAction(options: {
     }
 
     if (value !== undefined) {
-      await performPromote(cwd, config.secretsDir, env, service, key, value, false, repoId, mode);
+      await performPromote(
+        cwd,
+        config.secretsDir,
+        env,
+        service,
+        key,
+        value,
+        false,
+        repoId,
+        mode,
+        cryptoBackend
+      );
     }
   }
 
   // Single commit for all changes if requested
   if (commit) {
     const git = new GitAdapter(cwd);
-    const relativeSecretPath = join(config.secretsDir, env, `${service}.sops.yaml`);
+    const relativeSecretPath = relative(
+      cwd,
+      getSecretFilePath(cwd, config.secretsDir, env, service)
+    );
     const commitMessage = `chore(secrets): promote all local overrides (${env}/${service})`;
 
     await git.commit({
@@ -308,6 +347,7 @@ export const promoteCommand = new Command('promote')
   .requiredOption('--service <service>', 'Service name')
   .requiredOption('--key <key>', 'Key to promote')
   .option('--commit', 'Commit the changes after promotion', false)
+  .addOption(cryptoBackendOption())
   .action(promoteCommandAction);
 
 // Additional command to promote all overrides
@@ -316,4 +356,5 @@ export const promoteAllCommand = new Command('promote-all')
   .requiredOption('--env <env>', 'Environment (dev, staging, prod)')
   .requiredOption('--service <service>', 'Service name')
   .option('--commit', 'Commit the changes after promotion', false)
+  .addOption(cryptoBackendOption())
   .action(promoteAllCommandAction);
@@ -4,12 +4,20 @@ import { dirname, join } from 'path'
 import { createInterface } from 'node:readline/promises'
 import {
   loadConfig,
+  getSecretFilePath,
   loadSchema,
+  resolveServiceSchema,
+  materializeSchemaValues,
+  matchesServicePattern,
   validateAgainstSchema,
+  formatSchemaViolations,
   generateWithPlaceholders,
   resolveCryptoBackend,
+  createProjectCryptoBackends,
   CryptoBackendSelectionError,
+  renderEntries,
   renderEntriesSimple,
+  applyDotenvLayout,
   parseDotenv,
   diffEnvEntries,
   diffEnv,
@@ -19,10 +27,16 @@ import {
   SopsError,
   atomicWriteFile,
   hasChanges,
+  getServiceFormat,
+  isVerbatimOutput,
+  parseServiceOutput,
+  renderSecretDocument,
   type CryptoBackend,
+  type CryptoBackendPreference,
   type DotenvEntry,
   type EnvObject,
 } from '../../core/index.js'
+import { cryptoBackendOption } from '../crypto-backend.js'
 import type { DiffResult } from '../../core/env/types.js'
 
 function envObjectToEntries(obj: EnvObject): DotenvEntry[] {
@@ -244,11 +258,6 @@ function printDiffSummary(oldEntries: DotenvEntry[], newEntries: DotenvEntry[]):
   }
 }
 
-function matchesServicePattern(serviceName: string, pattern: string): boolean {
-  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')
-  return new RegExp(`^${escaped}$`).test(serviceName)
-}
-
 interface PullPlanServiceResult {
   service: string
   outputPath: string
@@ -260,12 +269,13 @@ interface PullPlanServiceResult {
 }
 
 export async function resolvePullCryptoBackend(
-  preferredBackend: 'auto' | 'system-sops' | 'js' = 'auto',
-  options: { silent?: boolean } = {}
+  preferredBackend: CryptoBackendPreference = 'auto',
+  options: { silent?: boolean; backends?: CryptoBackend[] } = {}
 ): Promise<CryptoBackend> {
   const resolved = await resolveCryptoBackend({
     preference: preferredBackend,
     capability: 'pull',
+    ...(options.backends ? { backends: options.backends } : {}),
   })
   const fallbackNote = resolved.fallbackUsed ? ' (fallback from auto)' : ''
   if (!options.silent) {
@@ -282,7 +292,7 @@ export const pullCommand = new Command('pull')
   .option('--all-services', 'Explicitly process all services (same as default when no --service)')
   .option('--dry-run', 'Show what would change without writing')
   .option('--no-write', 'Validate only, do not write files')
-  .option('--strict', 'Fail if required keys are missing (requires schema)')
+  .option('--strict', 'Fail if required keys are missing, values violate the schema or templates do not resolve')
   .option('--backup', 'Create backup of existing .env files')
   .option('--show-diff', 'Show diff summary of changes')
   .option('--confirm', 'Confirm before writing local env files')
@@ -296,6 +306,7 @@ export const pullCommand = new Command('pull')
   .option('--json', 'Show machine-readable JSON plan (preview mode; does not write)')
   .option('--yes', 'Apply all changes without prompts (for non-interactive use)', false)
   .option('--unsafe-show-values', 'Show values in confirmation diff', false)
+  .addOption(cryptoBackendOption())
   .action(async (options) => {
     const cwd = process.cwd()
     const planMode = Boolean(options.plan || options.json)
@@ -323,15 +334,15 @@ export const pullCommand = new Command('pull')
 
     let cryptoBackend: CryptoBackend
     try {
-      cryptoBackend = await resolvePullCryptoBackend(config.cryptoBackend ?? 'auto', {
+      const preference = options.cryptoBackend ?? config.cryptoBackend ?? 'auto'
+      cryptoBackend = await resolvePullCryptoBackend(preference, {
         silent: jsonMode,
+        backends: await createProjectCryptoBackends(cwd, config, preference),
       })
     } catch (error) {
       if (error instanceof CryptoBackendSelectionError) {
         console.error(`Error: ${error.message}`)
-        console.log('Basic mode: JS backend supports pull/decrypt.')
-        console.log('Full mode: install system SOPS + age for write/key-management commands.')
-        console.log('Run `envvault setup` for platform-specific instructions.')
+        console.error('Run `envvault setup` for install instructions.')
         process.exit(1)
       }
       throw error
@@ -364,18 +375,86 @@ export const pullCommand = new Command('pull')
     const planResults: PullPlanServiceResult[] = []
 
     for (const [serviceName, serviceConfig] of Object.entries(services)) {
-      const secretPath = join(cwd, config.secretsDir, env, `${serviceName}.sops.yaml`)
+      const secretPath = getSecretFilePath(cwd, config.secretsDir, env, serviceName)
       const outputPath = join(cwd, serviceConfig!.envOutput)
       if (!jsonMode) {
         console.log(`\nProcessing ${serviceName}...`)
       }
 
       try {
-        const { data } = await cryptoBackend.decrypt(secretPath)
+        const { data, tree, entries } = await cryptoBackend.decrypt(secretPath)
+
+        if (isVerbatimOutput(serviceConfig!)) {
+          // yaml/json/binary files are written whole: no placeholders or per-key merging
+          const format = getServiceFormat(serviceConfig!)
+          const oldEnv = await readFile(outputPath)
+            .then((content) => parseServiceOutput(serviceConfig!, content))
+            .catch(() => ({}))
+          const oldDocumentEntries = envObjectToEntries(oldEnv)
+          const nextDocumentEntries = envObjectToEntries(data)
+          const diff = diffEnv(oldEnv, data)
+          planResults.push({ service: serviceName, outputPath, secretPath, status: 'ok', diff })
+          if (options.dryRun || noWrite) {
+            if (!jsonMode) {
+              console.log(
+                options.dryRun
+                  ? `   Would write ${format} file to: ${outputPath}`
+                  : `   Decryption successful (${format})`
+              )
+              if (options.showDiff || options.confirm || options.interactive) {
+                printDiffSummary(oldDocumentEntries, nextDocumentEntries)
+              }
+            }
+            continue
+          }
+          if (!jsonMode && options.showDiff) {
+            printDiffSummary(oldDocumentEntries, nextDocumentEntries)
+          }
+          const confirmResult = await maybeConfirmPullWrite({
+            confirm: Boolean(options.confirm || options.interactive),
+            yes: options.yes,
+            unsafeShowValues: options.unsafeShowValues,
+            selectKeys: options.selectKeys,
+            serviceName,
+            oldEntries: oldDocumentEntries,
+            nextEntries: nextDocumentEntries,
+          })
+          if (!confirmResult.proceed) {
+            if (!jsonMode) console.log('   Cancelled by user')
+            continue
+          }
+          if (confirmResult.entriesToWrite !== nextDocumentEntries) {
+            if (!jsonMode) console.log(`   Skipped: ${format} files are written whole, not per key`)
+            continue
+          }
+          await mkdir(dirname(outputPath), { recursive: true })
+          await atomicWriteFile(
+            outputPath,
+            renderSecretDocument(format, tree ?? data),
+            options.backup ? { backup: true } : {}
+          )
+          if (!jsonMode) console.log(`   Wrote ${outputPath}`)
+          continue
+        }
+
         let nextEntries = envObjectToEntries(data)
 
-        if (schema?.services[serviceName]) {
-          const validation = validateAgainstSchema(nextEntries, schema.services[serviceName])
+        const serviceSchema = schema ? resolveServiceSchema(schema, serviceName, env) : undefined
+        if (serviceSchema) {
+          // Defaults and templates are rendered locally; the vault only holds raw secrets
+          const materialized = materializeSchemaValues(nextEntries, serviceSchema)
+          nextEntries = materialized.entries
+          if (materialized.problems.length > 0) {
+            if (!jsonMode) {
+              console.log(`   Unresolved templates: ${formatSchemaViolations(materialized.problems)}`)
+            }
+            if (options.strict) {
+              console.error('   Error: Strict mode: templates could not be resolved')
+              hasErrors = true
+              continue
+            }
+          }
+          const validation = validateAgainstSchema(nextEntries, serviceSchema)
           if (validation.missing.length > 0) {
             if (!jsonMode) console.log(`   Missing required keys: ${validation.missing.join(', ')}`)
             hasMissingKeys = true
@@ -384,11 +463,21 @@ export const pullCommand = new Command('pull')
               hasErrors = true
               continue
             }
-            nextEntries = generateWithPlaceholders(nextEntries, schema.services[serviceName])
+            nextEntries = generateWithPlaceholders(nextEntries, serviceSchema)
           }
           if (validation.extra.length > 0) {
             if (!jsonMode) console.log(`   Extra keys not in schema: ${validation.extra.join(', ')}`)
           }
+          if (validation.violations.length > 0) {
+            if (!jsonMode) {
+              console.log(`   Invalid values: ${formatSchemaViolations(validation.violations)}`)
+            }
+            if (options.strict) {
+              console.error('   Error: Strict mode: values violate the schema')
+              hasErrors = true
+              continue
+            }
+          }
         }
 
         const oldEntries = await loadExistingEntries(outputPath)
@@ -453,7 +542,12 @@ export const pullCommand = new Command('pull')
           continue
         }
         const entriesToWrite = confirmResult.entriesToWrite
-        const contentToWrite = renderEntriesSimple(entriesToWrite)
+        // .sops.env files keep their key order and comments in the output
+        const contentToWrite = entries
+          ? renderEntries(
+              applyDotenvLayout(entriesToEnvObject(entriesToWrite), [...entries, ...entriesToWrite])
+            )
+          : renderEntriesSimple(entriesToWrite)
 
         const writeOptions: { backup?: boolean } = {}
         if (options.backup) writeOptions.backup = true
@@ -3,15 +3,29 @@ import { join, dirname } from 'path'
 import { mkdir, readFile } from 'fs/promises'
 import {
   loadConfig,
-  SopsAdapter,
+  getSecretFilePath,
   GitAdapter,
+  getServiceFormat,
+  isVerbatimOutput,
   parseDotenv,
+  parseSecretDocument,
+  flattenSecretDocument,
   diffEnv,
   formatSafeDiff,
   formatUnsafeDiff,
   withLock,
+  loadSchema,
+  resolveServiceSchema,
+  findSchemaViolations,
+  findDerivedKeys,
+  formatSchemaViolations,
   SopsError,
+  ParseError,
+  type DotenvEntry,
+  type SecretDocument,
+  type ServiceSchema,
 } from '../../core/index.js'
+import { cryptoBackendOption, resolveCommandCryptoBackend } from '../crypto-backend.js'
 
 function parseCsvList(raw: unknown): string[] {
   if (!raw) return []
@@ -39,6 +53,24 @@ function getProtectedLocalKeysFromConfig(
   ]
 }
 
+function envObjectToEntries(obj: Record<string, string>): DotenvEntry[] {
+  return Object.entries(obj).map(([key, value]) => ({ key, value }))
+}
+
+async function loadServiceSchema(
+  cwd: string,
+  service: string,
+  env: string
+): Promise<ServiceSchema | null> {
+  try {
+    const schema = await loadSchema(cwd)
+    return (schema && resolveServiceSchema(schema, service, env)) ?? null
+  } catch (error) {
+    console.warn(`Warning: Failed to load schema: ${(error as Error).message}`)
+    return null
+  }
+}
+
 async function confirmYesNo(prompt: string, yes?: boolean): Promise<boolean> {
   if (yes) return true
   if (!process.stdin.isTTY) {
@@ -111,51 +143,89 @@ export const pushCommand = new Command('push')
   .option('--plan', 'Print machine-readable plan summary')
   .option('--json', 'Print JSON output (implies --plan for summary)')
   .option('--no-commit', 'Skip git commit')
+  .addOption(cryptoBackendOption())
   .action(async (options) => {
     const cwd = process.cwd()
     const config = await loadConfig(cwd)
-    const sops = new SopsAdapter()
+    const cryptoBackend = await resolveCommandCryptoBackend('push', {
+      config,
+      override: options.cryptoBackend,
+      silent: Boolean(options.json),
+    })
     const git = new GitAdapter(cwd)
 
-    if (!(await sops.isAvailable())) {
-      console.error('Error: System SOPS binary not found.')
-      console.error('`envvault push` requires system SOPS for encryption.')
-      console.error('Run `envvault setup` for install instructions.')
-      process.exit(1)
-    }
-
     const serviceConfig = config.services[options.service]
     if (!serviceConfig) {
       console.error(`Error: Service '${options.service}' not found in config`)
       process.exit(1)
     }
 
+    const format = getServiceFormat(serviceConfig)
+    if (format !== 'dotenv' && !isVerbatimOutput(serviceConfig)) {
+      console.error(
+        `Error: Service '${options.service}' stores ${format} secrets but envOutput is flattened dotenv. ` +
+          `Push reads a ${format} file; point envOutput at one or use \`envvault edit\`.`
+      )
+      process.exit(1)
+    }
+    const cliProtectedKeys = [
+      ...parseCsvList(options.preserveLocal),
+      ...parseCsvList(options.excludeKeys),
+    ]
+    if (format !== 'dotenv' && cliProtectedKeys.length > 0) {
+      console.error('Error: --preserve-local and --exclude-keys only apply to dotenv services')
+      process.exit(1)
+    }
+
     const localPath = join(cwd, serviceConfig.envOutput)
-    const secretPath = join(cwd, config.secretsDir, options.env, `${options.service}.sops.yaml`)
+    const secretPath = getSecretFilePath(
+      cwd,
+      config.secretsDir,
+      options.env,
+      options.service,
+      format
+    )
 
-    let localContent: string
+    // Read bytes: binary services keep content that is not valid utf-8
+    let localContent: Buffer
     try {
-      localContent = await readFile(localPath, 'utf-8')
+      localContent = await readFile(localPath)
     } catch {
       console.error(`Error: Local env file not found: ${localPath}`)
       process.exit(1)
     }
 
-    const localEnv = parseDotenv(localContent).env
+    let localDocument: SecretDocument
+    try {
+      localDocument = parseSecretDocument(format, localContent)
+    } catch (error) {
+      if (error instanceof ParseError) {
+        console.error(`Error: ${localPath}: ${error.message}`)
+        process.exit(1)
+      }
+      throw error
+    }
+    const localEnv = flattenSecretDocument(localDocument)
     let existingSecret: Record<string, string> = {}
+    let existingEntries: DotenvEntry[] = []
     try {
-      existingSecret = (await sops.decrypt(secretPath)).data
+      const existing = await cryptoBackend.decrypt(secretPath)
+      existingSecret = existing.data
+      existingEntries = existing.entries ?? []
     } catch {
       existingSecret = {}
     }
 
-    const protectedKeys = [
-      ...new Set([
-        ...getProtectedLocalKeysFromConfig(config, options.service),
-        ...parseCsvList(options.preserveLocal),
-        ...parseCsvList(options.excludeKeys),
-      ]),
-    ]
+    // Per-key protection only makes sense for flat dotenv maps
+    const protectedKeys =
+      format === 'dotenv'
+        ? [
+            ...new Set([
+              ...getProtectedLocalKeysFromConfig(config, options.service),
+              ...cliProtectedKeys,
+            ]),
+          ]
+        : []
 
     const nextSecret = { ...localEnv }
     for (const key of protectedKeys) {
@@ -168,6 +238,16 @@ export const pushCommand = new Command('push')
       }
     }
 
+    const serviceSchema = await loadServiceSchema(cwd, options.service, options.env)
+    // Values pull derived from schema defaults and templates stay out of the vault
+    const derivedKeys =
+      serviceSchema && format === 'dotenv'
+        ? findDerivedKeys(envObjectToEntries(nextSecret), serviceSchema).filter(
+            (key) => !(key in existingSecret)
+          )
+        : []
+    for (const key of derivedKeys) delete nextSecret[key]
+
     const diff = diffEnv(existingSecret, nextSecret)
     const planObj = createPlanObject(options.service, options.env, diff)
 
@@ -187,6 +267,9 @@ export const pushCommand = new Command('push')
     if (protectedKeys.length) {
       console.log(`Protected/excluded keys: ${protectedKeys.join(', ')}`)
     }
+    if (derivedKeys.length) {
+      console.log(`Derived from schema (not pushed): ${derivedKeys.join(', ')}`)
+    }
     console.log('\nChanges:')
     console.log(
       options.unsafeShowValues
@@ -194,6 +277,16 @@ export const pushCommand = new Command('push')
         : formatSafeDiff(diff)
     )
 
+    if (serviceSchema) {
+      const violations = findSchemaViolations(envObjectToEntries(nextSecret), serviceSchema)
+      if (violations.length > 0) {
+        console.error(
+          `Error: Values violate envvault.schema.yaml: ${formatSchemaViolations(violations)}`
+        )
+        process.exit(1)
+      }
+    }
+
     if (options.dryRun) {
       console.log('\nDry-run: no files written.')
       return
@@ -210,7 +303,16 @@ export const pushCommand = new Command('push')
     try {
       await withLock(cwd, async () => {
         await mkdir(dirname(secretPath), { recursive: true })
-        await sops.encryptData(secretPath, nextSecret)
+        if (format === 'dotenv') {
+          // .sops.env files take order and comments from the local file, then the stored one
+          const layout = [
+            ...parseDotenv(localContent.toString('utf-8')).entries,
+            ...existingEntries,
+          ]
+          await cryptoBackend.encryptData(secretPath, nextSecret, layout)
+        } else {
+          await cryptoBackend.encryptData(secretPath, localDocument)
+        }
         console.log(`\nUpdated ${secretPath}`)
 
         if (options.commit && (await git.isRepo())) {
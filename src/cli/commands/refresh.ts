@@ -5,21 +5,25 @@ import { mkdir, readFile, writeFile } from 'fs/promises'
 import {
   getDefaultConfig,
   loadConfig,
+  getSecretFilePath,
   loadSchema,
   generateConfigJson,
   generateSchemaYaml,
   type EnvVaultConfig,
   type Schema,
   parseDotenv,
-  SopsAdapter,
+  type CryptoBackendPreference,
+  type DotenvEntry,
 } from '../../core/index.js'
-import { stringify as stringifyYaml } from 'yaml'
+import { cryptoBackendOption, resolveCommandCryptoBackend } from '../crypto-backend.js'
 
 interface ScannedEnvFile {
   relPath: string
   serviceName: string
   keys: string[]
   envObject: Record<string, string>
+  /** Parsed entries; their comments become per-key metadata with --write-secrets */
+  entries: DotenvEntry[]
 }
 
 function normalizeRelPath(p: string): string {
@@ -125,6 +129,7 @@ async function scanEnvFiles(
       serviceName,
       keys: parsed.entries.map((e) => e.key),
       envObject: parsed.env,
+      entries: parsed.entries,
     })
   }
   return scans
@@ -138,6 +143,7 @@ async function runRefresh(options: {
   nameStrategy?: 'path' | 'dirname' | 'fullpath-slug'
   mergeConfig?: boolean
   mergeSchema?: boolean
+  cryptoBackend?: CryptoBackendPreference
 }): Promise<void> {
   const cwd = process.cwd()
   const scans = await scanEnvFiles(cwd, options.exclude ?? [], options.nameStrategy ?? 'dirname')
@@ -166,14 +172,24 @@ async function runRefresh(options: {
   const serviceDiff = diffServiceMaps(baseConfig.services ?? {}, nextServices)
   const scannedSchema = buildSchemaFromScans(scans)
   let nextSchema = scannedSchema
+  // Version 2 schemas (common, extends, environments) would be flattened by a rewrite
+  let keepSchema = false
   if (options.mergeSchema) {
     try {
       const existingSchema = await loadSchema(cwd)
+      keepSchema = existingSchema?.version === 2
+      const scannedWithRules = Object.fromEntries(
+        Object.entries(scannedSchema.services).map(([name, service]) => {
+          // Key lists come from the scan; value rules are kept
+          const keys = existingSchema?.services[name]?.keys
+          return [name, keys ? { ...service, keys } : service]
+        })
+      )
       nextSchema = {
         version: 1,
         services: {
           ...(existingSchema?.services ?? {}),
-          ...scannedSchema.services,
+          ...scannedWithRules,
         },
       }
     } catch {
@@ -199,26 +215,28 @@ async function runRefresh(options: {
   }
 
   await writeFile(join(cwd, 'envvault.config.json'), generateConfigJson(nextConfig), 'utf-8')
-  await writeFile(join(cwd, 'envvault.schema.yaml'), generateSchemaYaml(nextSchema), 'utf-8')
   console.log('Updated envvault.config.json')
-  console.log('Updated envvault.schema.yaml')
+  if (keepSchema) {
+    console.log('Kept envvault.schema.yaml: version 2 schemas are not rewritten, edit it by hand')
+  } else {
+    await writeFile(join(cwd, 'envvault.schema.yaml'), generateSchemaYaml(nextSchema), 'utf-8')
+    console.log('Updated envvault.schema.yaml')
+  }
 
   if (options.writeSecrets) {
     if ((options.mode ?? 'monorepo-backup') !== 'monorepo-backup') {
       console.error(`Unsupported mode: ${options.mode}`)
       process.exit(1)
     }
-    const sops = new SopsAdapter()
-    if (!(await sops.isAvailable())) {
-      console.error('Error: --write-secrets currently requires system SOPS installed')
-      process.exit(1)
-    }
+    const cryptoBackend = await resolveCommandCryptoBackend('set', {
+      config: nextConfig,
+      override: options.cryptoBackend,
+    })
     const targetEnv = 'dev'
     await mkdir(join(cwd, nextConfig.secretsDir, targetEnv), { recursive: true })
     for (const scan of scans) {
-      const secretPath = join(cwd, nextConfig.secretsDir, targetEnv, `${scan.serviceName}.sops.yaml`)
-      await writeFile(secretPath, stringifyYaml(scan.envObject), 'utf-8')
-      await sops.encrypt(secretPath)
+      const secretPath = getSecretFilePath(cwd, nextConfig.secretsDir, targetEnv, scan.serviceName)
+      await cryptoBackend.encryptData(secretPath, scan.envObject, scan.entries)
     }
     console.log(`Wrote encrypted secrets snapshots to ${nextConfig.secretsDir}/dev`)
   }
@@ -236,6 +254,7 @@ export const refreshCommand = new Command('refresh')
     prev.push(value)
     return prev
   }, [])
+  .addOption(cryptoBackendOption())
   .action(runRefresh)
 
 export const syncCommand = new Command('sync')
@@ -250,4 +269,5 @@ export const syncCommand = new Command('sync')
     prev.push(value)
     return prev
   }, [])
+  .addOption(cryptoBackendOption())
   .action(runRefresh)
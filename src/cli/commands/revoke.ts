@@ -3,28 +3,52 @@ import { join } from 'path'
 import { readFile, writeFile } from 'fs/promises'
 import {
   loadConfig,
+  getSecretFilePath,
   loadPolicy,
-  SopsAdapter,
   GitAdapter,
   writeSopsConfig,
-  withLock
+  withLock,
+  findMembersByKey,
+  findRecipientEntryIndex,
+  ConfigError
 } from '../../core/index.js'
+import { cryptoBackendOption, resolveCommandCryptoBackend } from '../crypto-backend.js'
+import { resolveGrantTarget, type GrantTarget } from './grant.js'
 
 export const revokeCommand = new Command('revoke')
   .description('Revoke a user access from secrets for an environment/service')
   .requiredOption('--env <env>', 'Environment (dev, uat, prod)')
   .requiredOption('--service <service>', 'Service name')
-  .requiredOption('--recipient <age>', 'Age public key recipient to revoke')
+  .option('--recipient <age>', 'Age public key (or pgp:/kms:/gcp_kms:/hc_vault: key) to revoke')
+  .option('--member <alias>', 'Member alias to revoke')
+  .option('--group <name>', 'Group name to revoke')
   .option('--no-commit', 'Skip git commit')
+  .addOption(cryptoBackendOption())
   .action(async (options) => {
     const cwd = process.cwd()
     
     const config = await loadConfig(cwd)
     const policy = await loadPolicy(cwd)
-    const sops = new SopsAdapter()
+    const cryptoBackend = await resolveCommandCryptoBackend('revoke', {
+      config,
+      override: options.cryptoBackend,
+    })
     const git = new GitAdapter(cwd)
     
-    const { env, service, recipient } = options
+    const { env, service } = options
+
+    let target: GrantTarget
+    try {
+      target = resolveGrantTarget(policy, options)
+    } catch (error) {
+      if (error instanceof ConfigError) {
+        console.error(`❌ ${error.message}`)
+        process.exit(1)
+      }
+      throw error
+    }
+    const recipient = target.entry
+    const isRawRecipient = recipient === options.recipient
     
     // Validate environment exists
     if (!policy.environments[env]) {
@@ -40,10 +64,27 @@ export const revokeCommand = new Command('revoke')
     
     // Check if recipient has access
     const recipients = policy.environments[env].services[service].recipients
-    const recipientIndex = recipients.indexOf(recipient)
+    const recipientIndex = findRecipientEntryIndex(recipients, recipient)
     
     if (recipientIndex === -1) {
-      console.log(`ℹ️  Recipient does not have access to ${env}/${service}`)
+      const viaMembers = !isRawRecipient
+        ? []
+        : findMembersByKey(policy, recipient).filter(
+            (alias) => findRecipientEntryIndex(recipients, alias) !== -1
+          )
+      if (viaMembers.length > 0) {
+        console.log(
+          `ℹ️  Recipient has access to ${env}/${service} through member ${viaMembers.join(', ')}. Use --member to revoke it.`
+        )
+        return
+      }
+      if (findRecipientEntryIndex(policy.environments[env].recipients ?? [], recipient) !== -1) {
+        console.log(
+          `ℹ️  The ${target.label} is granted on all of ${env} (environment-wide); edit envvault.policy.json to remove it.`
+        )
+        return
+      }
+      console.log(`ℹ️  No access to ${env}/${service} for ${target.label}`)
       return
     }
     
@@ -54,16 +95,16 @@ export const revokeCommand = new Command('revoke')
       // Save updated policy
       const policyPath = join(cwd, 'envvault.policy.json')
       await writeFile(policyPath, JSON.stringify(policy, null, 2), 'utf-8')
-      console.log(`✅ Removed recipient from policy`)
+      console.log(`✅ Removed ${target.label} from policy`)
       
       // Update .sops.yaml
-      await writeSopsConfig(cwd, policy)
+      await writeSopsConfig(cwd, policy, config)
       console.log(`✅ Updated .sops.yaml`)
       
       // Re-encrypt existing secrets without the revoked recipient
-      const secretPath = join(cwd, config.secretsDir, env, `${service}.sops.yaml`)
+      const secretPath = getSecretFilePath(cwd, config.secretsDir, env, service)
       try {
-        await sops.updateKeys(secretPath)
+        await cryptoBackend.updateKeys(secretPath)
         console.log(`✅ Re-encrypted secrets (recipient revoked)`)
       } catch {
         console.log(`ℹ️  No existing secrets to re-encrypt`)
@@ -72,7 +113,9 @@ export const revokeCommand = new Command('revoke')
       // Commit changes
       if (options.commit && (await git.isRepo())) {
         const commitHash = await git.commit({
-          message: `chore(policy): revoke access from ${env}/${service}`,
+          message: isRawRecipient
+            ? `chore(policy): revoke access from ${env}/${service}`
+            : `chore(policy): revoke ${target.label} access from ${env}/${service}`,
           add: [
             policyPath,
             join(cwd, '.sops.yaml'),
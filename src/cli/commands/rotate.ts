@@ -1,33 +1,31 @@
 import { Command } from 'commander'
-import { join } from 'path'
 import { glob } from 'glob'
 import {
   loadConfig,
+  getSecretFilePath,
   loadPolicy,
-  SopsAdapter,
   GitAdapter,
   withLock
 } from '../../core/index.js'
+import { cryptoBackendOption, resolveCommandCryptoBackend } from '../crypto-backend.js'
 
 export const rotateCommand = new Command('rotate')
   .description('Rotate data key for secrets (generates new encryption key)')
   .requiredOption('--env <env>', 'Environment (dev, uat, prod)')
   .option('--service <service>', 'Specific service (default: all)')
   .option('--no-commit', 'Skip git commit')
+  .addOption(cryptoBackendOption())
   .action(async (options) => {
     const cwd = process.cwd()
     
     const config = await loadConfig(cwd)
     const policy = await loadPolicy(cwd)
-    const sops = new SopsAdapter()
+    const cryptoBackend = await resolveCommandCryptoBackend('rotate', {
+      config,
+      override: options.cryptoBackend,
+    })
     const git = new GitAdapter(cwd)
     
-    // Check sops availability
-    if (!(await sops.isAvailable())) {
-      console.error('❌ SOPS binary not found')
-      process.exit(1)
-    }
-    
     const { env, service } = options
     
     // Validate environment exists
@@ -50,12 +48,12 @@ export const rotateCommand = new Command('rotate')
     
     await withLock(cwd, async () => {
       for (const serviceName of services) {
-        const secretPath = join(cwd, config.secretsDir, env, `${serviceName}.sops.yaml`)
+        const secretPath = getSecretFilePath(cwd, config.secretsDir, env, serviceName)
         
         console.log(`🔄 Rotating ${env}/${serviceName}...`)
         
         try {
-          await sops.rotate(secretPath)
+          await cryptoBackend.rotate(secretPath)
           console.log(`   ✅ Rotated ${secretPath}`)
           filesToCommit.push(secretPath)
         } catch (error) {
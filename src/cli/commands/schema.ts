@@ -0,0 +1,263 @@
+import { Command } from 'commander'
+import { access, mkdir, writeFile } from 'fs/promises'
+import { join, resolve } from 'path'
+import {
+  loadConfig,
+  loadPolicy,
+  loadSchema,
+  getSecretFilePath,
+  resolveServiceSchema,
+  materializeSchemaValues,
+  validateAgainstSchema,
+  formatSchemaViolations,
+  schemaToEnvExample,
+  schemaToJsonSchema,
+  schemaToTypeScript,
+  schemaToZod,
+  SCHEMA_EXPORT_FORMATS,
+  type SchemaExportFormat,
+  type ServiceSchema,
+  type EnvObject,
+} from '../../core/index.js'
+import { cryptoBackendOption, resolveCommandCryptoBackend } from '../crypto-backend.js'
+
+interface SchemaCheckResult {
+  env: string
+  service: string
+  /** `no-secret`: no secret file and no required keys */
+  status: 'ok' | 'invalid' | 'no-secret' | 'error'
+  missing: string[]
+  extra: string[]
+  /** Values breaking key rules and unresolved templates, by key */
+  invalid: string[]
+  error?: string
+}
+
+const EXPORTERS: Record<
+  SchemaExportFormat,
+  { file: (service: string) => string; render: (service: string, schema: ServiceSchema) => string }
+> = {
+  'json-schema': {
+    file: (service) => `${service}.schema.json`,
+    render: (service, schema) =>
+      `${JSON.stringify(schemaToJsonSchema(service, schema), null, 2)}\n`,
+  },
+  ts: { file: (service) => `${service}.env.ts`, render: schemaToTypeScript },
+  zod: { file: (service) => `${service}.env.ts`, render: schemaToZod },
+  'env-example': { file: (service) => `${service}.env.example`, render: schemaToEnvExample },
+}
+
+const schemaCommand = new Command('schema').description('Work with envvault.schema.yaml')
+
+schemaCommand
+  .command('export')
+  .description('Generate JSON Schema, TypeScript, zod or .env.example files from the schema')
+  .option('--format <format>', `Output format (${SCHEMA_EXPORT_FORMATS.join(', ')})`, 'json-schema')
+  .option('--service <service>', 'Only one service (default: every service in the schema)')
+  .option('--env <env>', 'Resolve environment-specific keys of a version 2 schema')
+  .option('--out <dir>', 'Write one file per service into <dir> instead of printing')
+  .action(async (options) => {
+    const cwd = process.cwd()
+    const format = options.format as SchemaExportFormat
+    if (!SCHEMA_EXPORT_FORMATS.includes(format)) {
+      console.error(
+        `Error: Unknown format "${options.format}" (expected one of: ${SCHEMA_EXPORT_FORMATS.join(', ')})`
+      )
+      process.exit(1)
+    }
+
+    let schema
+    try {
+      schema = await loadSchema(cwd)
+    } catch (error) {
+      console.error(`Error: ${(error as Error).message}`)
+      process.exit(1)
+    }
+    if (!schema) {
+      console.error('Error: envvault.schema.yaml not found')
+      process.exit(1)
+    }
+
+    const services: string[] = options.service
+      ? [options.service]
+      : Object.keys(schema.services).sort()
+    if (options.service && !schema.services[options.service]) {
+      console.error(`Error: Service '${options.service}' not found in envvault.schema.yaml`)
+      process.exit(1)
+    }
+    if (!options.out && services.length !== 1) {
+      console.error(
+        `Error: The schema defines ${services.length} services; use --service or --out <dir>`
+      )
+      process.exit(1)
+    }
+
+    const exporter = EXPORTERS[format]
+    for (const service of services) {
+      const content = exporter.render(service, resolveServiceSchema(schema, service, options.env)!)
+      if (!options.out) {
+        process.stdout.write(content)
+        continue
+      }
+      const outDir = resolve(cwd, options.out)
+      await mkdir(outDir, { recursive: true })
+      const filePath = join(outDir, exporter.file(service))
+      await writeFile(filePath, content, 'utf-8')
+      console.log(`Wrote ${filePath}`)
+    }
+  })
+
+function describeResult(result: SchemaCheckResult): string {
+  if (result.status === 'no-secret') return '-'
+  if (result.status === 'error') return 'error'
+  const parts = [
+    ...(result.missing.length ? [`missing ${result.missing.length}`] : []),
+    ...(result.invalid.length ? [`invalid ${result.invalid.length}`] : []),
+    ...(result.extra.length ? [`extra ${result.extra.length}`] : []),
+  ]
+  return parts.length > 0 ? parts.join(', ') : 'ok'
+}
+
+function printMatrix(envs: string[], services: string[], results: SchemaCheckResult[]): void {
+  const cell = (env: string, service: string): string => {
+    const result = results.find((r) => r.env === env && r.service === service)
+    return result ? describeResult(result) : 'n/a'
+  }
+  const rows = [
+    ['service', ...envs],
+    ...services.map((service) => [service, ...envs.map((env) => cell(env, service))]),
+  ]
+  const widths = rows[0]!.map((_, column) => Math.max(...rows.map((row) => row[column]!.length)))
+  for (const row of rows) {
+    console.log(
+      row
+        .map((text, column) => text.padEnd(widths[column]!))
+        .join('  ')
+        .trimEnd()
+    )
+  }
+}
+
+schemaCommand
+  .command('check')
+  .description('Validate vault secrets against the schema in one or every environment')
+  .option('--env <env>', 'Environment to check')
+  .option('--all-envs', 'Check every environment in envvault.policy.json')
+  .option('--service <service>', 'Only one service')
+  .option('--json', 'Print JSON output')
+  .addOption(cryptoBackendOption())
+  .action(async (options) => {
+    const cwd = process.cwd()
+    if (Boolean(options.env) === Boolean(options.allEnvs)) {
+      console.error('Error: Use either --env <env> or --all-envs')
+      process.exit(1)
+    }
+
+    const config = await loadConfig(cwd)
+    let schema
+    let policy
+    try {
+      schema = await loadSchema(cwd)
+      policy = await loadPolicy(cwd)
+    } catch (error) {
+      console.error(`Error: ${(error as Error).message}`)
+      process.exit(1)
+    }
+    if (options.env && !policy.environments[options.env]) {
+      console.error(`Error: Environment '${options.env}' not found in policy`)
+      process.exit(1)
+    }
+    const envs: string[] = options.allEnvs
+      ? Object.keys(policy.environments).sort()
+      : [options.env as string]
+    if (!schema) {
+      console.error('Error: envvault.schema.yaml not found')
+      process.exit(1)
+    }
+    if (options.service && !config.services[options.service]) {
+      console.error(`Error: Service '${options.service}' not found in config`)
+      process.exit(1)
+    }
+
+    // In CI (CI set) the check runs without a system sops unless --crypto-backend says otherwise
+    const backend = await resolveCommandCryptoBackend('decrypt', {
+      config,
+      override: options.cryptoBackend ?? (process.env.CI ? 'js' : undefined),
+      silent: Boolean(options.json),
+    })
+
+    const serviceNames: string[] = options.service
+      ? [options.service]
+      : Object.keys(config.services).sort()
+    const checkedServices = new Set<string>()
+    const results: SchemaCheckResult[] = []
+    for (const env of envs) {
+      // Only services the environment's policy grants have (or should have) a secret file
+      const envServices = policy.environments[env]!.services
+      for (const service of serviceNames) {
+        const serviceSchema = resolveServiceSchema(schema, service, env)
+        if (!serviceSchema || !envServices[service]) continue
+        checkedServices.add(service)
+        const result: SchemaCheckResult = {
+          env,
+          service,
+          status: 'ok',
+          missing: [],
+          extra: [],
+          invalid: [],
+        }
+        results.push(result)
+
+        const secretPath = getSecretFilePath(cwd, config.secretsDir, env, service)
+        const hasSecret = await access(secretPath).then(
+          () => true,
+          () => false
+        )
+        try {
+          // A missing file is checked as empty: every required key is missing
+          const data: EnvObject = hasSecret ? (await backend.decrypt(secretPath)).data : {}
+          const { entries, problems } = materializeSchemaValues(
+            Object.entries(data).map(([key, value]) => ({ key, value })),
+            serviceSchema
+          )
+          const validation = validateAgainstSchema(entries, serviceSchema)
+          result.missing = validation.missing
+          result.extra = validation.extra
+          result.invalid = [...validation.violations, ...problems]
+            .sort((a, b) => a.key.localeCompare(b.key))
+            .map((violation) => formatSchemaViolations([violation]))
+          if (result.missing.length > 0 || result.invalid.length > 0) {
+            result.status = 'invalid'
+          } else if (!hasSecret) {
+            result.status = 'no-secret'
+          }
+        } catch (error) {
+          result.status = 'error'
+          result.error = (error as Error).message
+        }
+      }
+    }
+
+    const failed = results.some((r) => r.status === 'invalid' || r.status === 'error')
+    if (options.json) {
+      console.log(JSON.stringify({ command: 'schema check', envs, results }, null, 2))
+    } else if (results.length === 0) {
+      console.log('No service granted in the policy is defined in envvault.schema.yaml')
+    } else {
+      const services = serviceNames.filter((service) => checkedServices.has(service))
+      console.log(`Schema check for ${envs.join(', ')}\n`)
+      printMatrix(envs, services, results)
+
+      const details = results.flatMap((r) => [
+        ...(r.error ? [`${r.env}/${r.service}: ${r.error}`] : []),
+        ...(r.missing.length ? [`${r.env}/${r.service}: missing ${r.missing.join(', ')}`] : []),
+        ...(r.invalid.length ? [`${r.env}/${r.service}: invalid ${r.invalid.join(', ')}`] : []),
+        ...(r.extra.length ? [`${r.env}/${r.service}: extra ${r.extra.join(', ')}`] : []),
+      ])
+      if (details.length > 0) console.log(`\n${details.join('\n')}`)
+      console.log(`\n${failed ? 'Schema check failed.' : 'Vault secrets match the schema.'}`)
+    }
+    if (failed) process.exit(1)
+  })
+
+export { schemaCommand }
@@ -1,17 +1,36 @@
 import { Command } from 'commander'
-import { join } from 'path'
-import { writeFile } from 'fs/promises'
 import {
   loadConfig,
-  SopsAdapter,
+  getSecretFilePath,
   GitAdapter,
   diffEnv,
   formatSafeDiff,
   formatUnsafeDiff,
   withLock,
+  getServiceFormat,
+  loadSchema,
+  resolveServiceSchema,
+  findSchemaViolations,
+  formatSchemaViolations,
   SopsError,
+  type DotenvEntry,
+  type ServiceSchema,
 } from '../../core/index.js'
-import { stringify as stringifyYaml } from 'yaml'
+import { cryptoBackendOption, resolveCommandCryptoBackend } from '../crypto-backend.js'
+
+async function loadServiceSchema(
+  cwd: string,
+  service: string,
+  env: string
+): Promise<ServiceSchema | null> {
+  try {
+    const schema = await loadSchema(cwd)
+    return (schema && resolveServiceSchema(schema, service, env)) ?? null
+  } catch (error) {
+    console.warn(`Warning: Failed to load schema: ${(error as Error).message}`)
+    return null
+  }
+}
 
 async function confirmYesNo(prompt: string, yes?: boolean): Promise<boolean> {
   if (yes) return true
@@ -37,20 +56,25 @@ export const setCommand = new Command('set')
   .option('--confirm', 'Confirm before writing secret file')
   .option('--yes', 'Apply without prompt (for CI/non-interactive)', false)
   .option('--no-commit', 'Skip git commit')
+  .addOption(cryptoBackendOption())
   .action(async (keyValues, options) => {
     const cwd = process.cwd()
     const config = await loadConfig(cwd)
-    const sops = new SopsAdapter()
-    const git = new GitAdapter(cwd)
-
-    if (!(await sops.isAvailable())) {
-      console.error('Error: System SOPS binary not found.')
-      console.error('`envvault set` requires system SOPS (JS backend supports decrypt/pull only).')
-      console.error('Run `envvault setup` for install instructions.')
+    const serviceConfig = config.services[options.service]
+    if (serviceConfig && getServiceFormat(serviceConfig) !== 'dotenv') {
+      console.error(
+        `Error: Service '${options.service}' stores ${getServiceFormat(serviceConfig)} secrets. ` +
+          'Use `envvault edit` or `envvault push` to change them.'
+      )
       process.exit(1)
     }
+    const cryptoBackend = await resolveCommandCryptoBackend('set', {
+      config,
+      override: options.cryptoBackend,
+    })
+    const git = new GitAdapter(cwd)
 
-    const secretPath = join(cwd, config.secretsDir, options.env, `${options.service}.sops.yaml`)
+    const secretPath = getSecretFilePath(cwd, config.secretsDir, options.env, options.service)
 
     const updates: Record<string, string> = {}
     for (const kv of keyValues as string[]) {
@@ -62,12 +86,27 @@ export const setCommand = new Command('set')
       updates[kv.slice(0, eqIndex)] = kv.slice(eqIndex + 1)
     }
 
+    // Only the keys being set are checked; other stored values are left as they are
+    const serviceSchema = await loadServiceSchema(cwd, options.service, options.env)
+    if (serviceSchema) {
+      const entries = Object.entries(updates).map(([key, value]) => ({ key, value }))
+      const violations = findSchemaViolations(entries, serviceSchema)
+      if (violations.length > 0) {
+        console.error(
+          `Error: Values violate envvault.schema.yaml: ${formatSchemaViolations(violations)}`
+        )
+        process.exit(1)
+      }
+    }
+
     try {
       await withLock(cwd, async () => {
         let existingData: Record<string, string> = {}
+        let layout: DotenvEntry[] | undefined
         try {
-          const { data } = await sops.decrypt(secretPath)
+          const { data, entries } = await cryptoBackend.decrypt(secretPath)
           existingData = data
+          layout = entries
         } catch {
           // New file path; proceed with empty object
         }
@@ -90,8 +129,7 @@ export const setCommand = new Command('set')
           }
         }
 
-        await writeFile(secretPath, stringifyYaml(newData), 'utf-8')
-        await sops.encrypt(secretPath)
+        await cryptoBackend.encryptData(secretPath, newData, layout)
         console.log(`\nUpdated ${secretPath}`)
 
         if (options.commit && (await git.isRepo())) {
@@ -40,8 +40,8 @@ export function printSetupInstructions(): void {
   console.log(`Detected OS: ${hints.osLabel}`)
   console.log('')
   console.log('Modes:')
-  console.log('- JS mode: works for pull/decrypt (no system SOPS required if JS backend is available)')
-  console.log('- system-sops mode: required for edit/set/grant/revoke/updatekeys/rotate')
+  console.log('- JS mode: works for every command (single age key group, no system SOPS required)')
+  console.log('- system-sops mode: uses the sops CLI for every command')
   console.log('')
   console.log('Install commands for system SOPS + age:')
   for (const cmd of hints.commands) {
@@ -51,7 +51,8 @@ export function printSetupInstructions(): void {
   console.log('Backend preference in envvault.config.json:')
   console.log('  "cryptoBackend": "auto"      // default: system-sops first, then JS fallback')
   console.log('  "cryptoBackend": "system-sops"')
-  console.log('  "cryptoBackend": "js"        // basic mode only (pull/decrypt)')
+  console.log('  "cryptoBackend": "js"')
+  console.log('Override per command with --crypto-backend <auto|system-sops|js>.')
 }
 
 export const setupCommand = new Command('setup')
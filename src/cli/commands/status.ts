@@ -1,14 +1,16 @@
 import { Command } from 'commander'
-import { join } from 'path'
+import { join, relative } from 'path'
 import { readFile } from 'fs/promises'
 import {
   loadConfig,
-  resolveCryptoBackend,
-  CryptoBackendSelectionError,
-  parseDotenv,
+  getSecretFilePath,
+  parseServiceOutput,
   diffEnv,
+  diffStoredKeysSince,
+  GitAdapter,
   type EnvVaultConfig,
 } from '../../core/index.js'
+import { cryptoBackendOption, resolveCommandCryptoBackend } from '../crypto-backend.js'
 
 interface ServiceStatus {
   service: string
@@ -28,25 +30,20 @@ export const statusCommand = new Command('status')
   .requiredOption('--env <env>', 'Environment')
   .option('--service <service>', 'Specific service')
   .option('--json', 'Print JSON output')
+  .option('--base <ref>', 'Report vault secret key drift since <ref> in git history (no decryption)')
+  .addOption(cryptoBackendOption())
   .action(async (options) => {
     const cwd = process.cwd()
     const config = await loadConfig(cwd)
 
-    let backend
-    try {
-      backend = (
-        await resolveCryptoBackend({
-          preference: config.cryptoBackend ?? 'auto',
-          capability: 'pull',
+    const backend = options.base
+      ? null
+      : await resolveCommandCryptoBackend('pull', {
+          config,
+          override: options.cryptoBackend,
+          silent: true,
         })
-      ).backend
-    } catch (error) {
-      if (error instanceof CryptoBackendSelectionError) {
-        console.error(`Error: ${error.message}`)
-        process.exit(1)
-      }
-      throw error
-    }
+    const git = new GitAdapter(cwd)
 
     const services = options.service
       ? { [options.service]: config.services[options.service] }
@@ -56,18 +53,21 @@ export const statusCommand = new Command('status')
     for (const [serviceName, serviceConfig] of Object.entries(services)) {
       if (!serviceConfig) continue
       const localPath = join(cwd, serviceConfig.envOutput)
-      const secretPath = join(cwd, config.secretsDir, options.env, `${serviceName}.sops.yaml`)
+      const secretPath = getSecretFilePath(cwd, config.secretsDir, options.env, serviceName)
 
       try {
-        const localContent = await readFile(localPath, 'utf-8').catch(() => null)
-        const localEnv = localContent ? parseDotenv(localContent).env : {}
-        const { data: vaultEnv } = await backend.decrypt(secretPath)
-        const diff = diffEnv(localEnv, vaultEnv)
+        const localContent = await readFile(localPath).catch(() => null)
+        const diff = backend
+          ? diffEnv(
+              localContent?.length ? parseServiceOutput(serviceConfig, localContent) : {},
+              (await backend.decrypt(secretPath)).data
+            )
+          : await diffStoredKeysSince(git, cwd, secretPath, options.base)
         results.push({
           service: serviceName,
           envOutput: serviceConfig.envOutput,
           localFileExists: localContent !== null,
-          secretFileExpected: join(config.secretsDir, options.env, `${serviceName}.sops.yaml`),
+          secretFileExpected: relative(cwd, secretPath),
           drift: {
             added: diff.added.length,
             removed: diff.removed.length,
@@ -79,18 +79,22 @@ export const statusCommand = new Command('status')
           service: serviceName,
           envOutput: serviceConfig.envOutput,
           localFileExists: true,
-          secretFileExpected: join(config.secretsDir, options.env, `${serviceName}.sops.yaml`),
+          secretFileExpected: relative(cwd, secretPath),
           error: (error as Error).message,
         })
       }
     }
 
     if (options.json) {
-      console.log(JSON.stringify({ command: 'status', env: options.env, services: results }, null, 2))
+      const base = options.base ? { base: options.base } : {}
+      console.log(
+        JSON.stringify({ command: 'status', env: options.env, ...base, services: results }, null, 2)
+      )
       return
     }
 
-    console.log(`Status for env=${options.env}\n`)
+    const since = options.base ? ` (vault keys since ${options.base})` : ''
+    console.log(`Status for env=${options.env}${since}\n`)
     for (const item of results) {
       if (item.error) {
         console.log(`[FAIL] ${item.service}: ${item.error}`)
@@ -98,8 +102,9 @@ export const statusCommand = new Command('status')
       }
       const drift = item.drift ?? { added: 0, removed: 0, changed: 0 }
       const total = drift.added + drift.removed + drift.changed
+      const file = options.base ? item.secretFileExpected : item.envOutput
       console.log(
-        `${total === 0 ? '[OK]' : '[DRIFT]'} ${item.service}: +${drift.added} -${drift.removed} ~${drift.changed} (${item.envOutput})`
+        `${total === 0 ? '[OK]' : '[DRIFT]'} ${item.service}: +${drift.added} -${drift.removed} ~${drift.changed} (${file})`
       )
     }
   })
@@ -4,40 +4,40 @@ import { glob } from 'glob'
 import {
   loadConfig,
   loadPolicy,
-  SopsAdapter,
   GitAdapter,
   writeSopsConfig,
-  withLock
+  withLock,
+  parseSecretFilePath,
+  SECRET_FILE_GLOB
 } from '../../core/index.js'
+import { cryptoBackendOption, resolveCommandCryptoBackend } from '../crypto-backend.js'
 
 export const updatekeysCommand = new Command('updatekeys')
   .description('Update encryption keys to match current policy recipients')
   .option('--env <env>', 'Specific environment (default: all)')
   .option('--service <service>', 'Specific service (default: all)')
   .option('--no-commit', 'Skip git commit')
+  .addOption(cryptoBackendOption())
   .action(async (options) => {
     const cwd = process.cwd()
     
     const config = await loadConfig(cwd)
     const policy = await loadPolicy(cwd)
-    const sops = new SopsAdapter()
+    const cryptoBackend = await resolveCommandCryptoBackend('updatekeys', {
+      config,
+      override: options.cryptoBackend,
+    })
     const git = new GitAdapter(cwd)
     
-    // Check sops availability
-    if (!(await sops.isAvailable())) {
-      console.error('❌ SOPS binary not found')
-      process.exit(1)
-    }
-    
     // First, update .sops.yaml to match policy
     console.log('📝 Updating .sops.yaml...')
-    await writeSopsConfig(cwd, policy)
+    await writeSopsConfig(cwd, policy, config)
     console.log('✅ Updated .sops.yaml\n')
     
     // Find all secret files
     const pattern = options.env
-      ? `${config.secretsDir}/${options.env}/**/*.sops.yaml`
-      : `${config.secretsDir}/**/*.sops.yaml`
+      ? `${config.secretsDir}/${options.env}/**/*${SECRET_FILE_GLOB}`
+      : `${config.secretsDir}/**/*${SECRET_FILE_GLOB}`
     
     const secretFiles = await glob(pattern, { cwd })
     
@@ -53,14 +53,14 @@ export const updatekeysCommand = new Command('updatekeys')
     await withLock(cwd, async () => {
       for (const file of secretFiles) {
         // Extract env/service from path
-        const match = file.match(/secrets\/([^/]+)\/([^/]+)\.sops\.yaml$/)
-        if (!match) {
+        const location = parseSecretFilePath(file)
+        if (!location) {
           console.log(`⏭️  Skipping ${file} (unexpected path format)`)
           skipped++
           continue
         }
         
-        const [, env, service] = match
+        const { env, service } = location
         
         // Filter by service if specified
         if (options.service && service !== options.service) {
@@ -73,7 +73,7 @@ export const updatekeysCommand = new Command('updatekeys')
         console.log(`🔑 Updating keys for ${env}/${service}...`)
         
         try {
-          await sops.updateKeys(secretPath)
+          await cryptoBackend.updateKeys(secretPath)
           console.log(`   ✅ Updated ${file}`)
           filesToCommit.push(secretPath)
           updated++
@@ -0,0 +1,534 @@
+import { Command } from 'commander'
+import { access, readFile } from 'fs/promises'
+import { join } from 'path'
+import { glob } from 'glob'
+import { execa } from 'execa'
+import { parse as parseYaml } from 'yaml'
+import {
+  loadConfig,
+  getSecretFilePath,
+  parseSecretFilePath,
+  getSopsStoreType,
+  parseSopsDotenv,
+  parseSopsJson,
+  SECRET_FILE_GLOB,
+  loadPolicy,
+  loadPolicySigners,
+  loadSchema,
+  resolveServiceSchema,
+  materializeSchemaValues,
+  validateAgainstSchema,
+  formatSchemaViolations,
+  getExpectedSopsConfigYaml,
+  generateSopsConfig,
+  diffSopsConfigs,
+  resolveCryptoBackend,
+  createProjectCryptoBackends,
+  hasEnvironmentSignatureRules,
+  getTouchedEnvironments,
+  GitAdapter,
+  findExpiredRecipients,
+  findCreationRuleRecipients,
+  type SopsConfig,
+  ConfigError,
+  type EnvVaultConfig,
+  type EnvVaultPolicy,
+  type ServiceSchema,
+} from '../../core/index.js'
+import {
+  verifyProjectPolicy,
+  verifyEnvironmentPolicies,
+  loadApprovingSigners,
+  loadPolicyAtRef,
+  type PolicyVerifyResult,
+} from './policy.js'
+
+export interface VerifyFinding {
+  level: 'ok' | 'warn' | 'error'
+  message: string
+}
+
+export interface VerifyScope {
+  env?: string | undefined
+  service?: string | undefined
+}
+
+export function isEnvLikePath(filePath: string): boolean {
+  const normalized = filePath.replace(/\\/g, '/')
+  if (
+    normalized.startsWith('node_modules/') ||
+    normalized.startsWith('.git/') ||
+    normalized.startsWith('dist/') ||
+    normalized.startsWith('.envvault/') ||
+    normalized.startsWith('secrets/')
+  ) {
+    return false
+  }
+  if (normalized === '.env.example') return false
+  const base = normalized.split('/').pop() ?? normalized
+  return base === '.env' || base.startsWith('.env.') || base.endsWith('.env')
+}
+
+async function getDirtyEnvFiles(cwd: string): Promise<string[]> {
+  const result = await execa('git', ['status', '--porcelain', '--untracked-files=all'], {
+    cwd,
+    reject: false,
+  })
+  if (result.exitCode !== 0) return []
+
+  const dirty = result.stdout
+    .split(/\r?\n/)
+    .map((line) => line.trimEnd())
+    .filter(Boolean)
+    .flatMap((line) => {
+      const body = line.slice(3).trim()
+      if (body.includes(' -> ')) {
+        const [, toPath] = body.split(' -> ')
+        return [toPath ?? body]
+      }
+      return [body]
+    })
+    .filter(isEnvLikePath)
+
+  return [...new Set(dirty)]
+}
+
+async function getTrackedEnvFiles(cwd: string): Promise<string[]> {
+  const result = await execa('git', ['ls-files'], { cwd, reject: false })
+  if (result.exitCode !== 0) return []
+  return result.stdout.split(/\r?\n/).filter(Boolean).filter(isEnvLikePath)
+}
+
+export interface PolicySignatureCheckOptions {
+  allowUnsigned?: boolean
+  /**
+   * Ref the change is compared against (default: merge base with the upstream
+   * branch). Signing rules and trusted admins are read at this ref.
+   */
+  base?: string | undefined
+  secretsDir?: string
+}
+
+export async function checkPolicySignature(
+  cwd: string,
+  options: PolicySignatureCheckOptions = {}
+): Promise<VerifyFinding[]> {
+  const policy = await loadPolicy(cwd)
+  const base = options.base ?? (await new GitAdapter(cwd).getUpstreamMergeBase()) ?? undefined
+  const basePolicy = base ? await loadPolicyAtRef(cwd, base) : null
+  // Rules at the base still apply when a change removes them
+  if (
+    hasEnvironmentSignatureRules(policy) ||
+    (basePolicy !== null && hasEnvironmentSignatureRules(basePolicy))
+  ) {
+    return checkEnvironmentSignatures(cwd, policy, basePolicy, { ...options, base })
+  }
+
+  return policyResultFindings(await verifyProjectPolicy(cwd, { base }), options)
+}
+
+function policyResultFindings(
+  result: PolicyVerifyResult,
+  options: PolicySignatureCheckOptions
+): VerifyFinding[] {
+  const warnings: VerifyFinding[] = (result.warnings ?? []).map((message) => ({
+    level: 'warn',
+    message,
+  }))
+  if (result.status === 'valid') {
+    return [{ level: 'ok', message: result.message }, ...warnings]
+  }
+  if (result.status === 'unsigned' && options.allowUnsigned) {
+    return [{ level: 'warn', message: 'Policy is not signed (allowed)' }, ...warnings]
+  }
+  return [{ level: 'error', message: result.message }, ...warnings]
+}
+
+/**
+ * Check signatures only for environments touched since `options.base`.
+ * Every environment is checked when the base cannot be resolved.
+ */
+async function checkEnvironmentSignatures(
+  cwd: string,
+  policy: EnvVaultPolicy,
+  basePolicy: EnvVaultPolicy | null,
+  options: PolicySignatureCheckOptions
+): Promise<VerifyFinding[]> {
+  const base = options.base
+  const git = new GitAdapter(cwd)
+  const findings: VerifyFinding[] = []
+
+  const changedFiles = base ? await git.changedFilesSince(base) : null
+  let touched: string[]
+  if (changedFiles === null) {
+    touched = Object.keys(policy.environments).sort()
+    findings.push({
+      level: 'warn',
+      message: base
+        ? `Could not compare against ${base}; checking signatures for all environments`
+        : 'No upstream branch to compare against; checking signatures for all environments',
+    })
+  } else {
+    touched = getTouchedEnvironments({
+      changedFiles,
+      secretsDir: options.secretsDir ?? 'secrets',
+      policy,
+      basePolicy,
+    })
+  }
+
+  // Signer changes are approved by whole-policy signatures of the previous admins
+  const approving = await loadApprovingSigners(cwd, await loadPolicySigners(cwd), base)
+  if (approving.changed) {
+    findings.push(...policyResultFindings(await verifyProjectPolicy(cwd, { base }), options))
+  }
+
+  if (touched.length === 0) {
+    findings.push({
+      level: 'ok',
+      message: 'No environments touched; policy signature not required',
+    })
+    return findings
+  }
+
+  for (const result of await verifyEnvironmentPolicies(cwd, policy, touched, basePolicy, {
+    base,
+  })) {
+    findings.push(
+      ...(result.warnings ?? []).map((message) => ({ level: 'warn' as const, message }))
+    )
+    const message = `${result.env}: ${result.message}`
+    if (result.status === 'valid') {
+      findings.push({ level: 'ok', message })
+    } else if (result.status === 'unsigned' && options.allowUnsigned) {
+      findings.push({ level: 'warn', message: `${result.env}: policy is not signed (allowed)` })
+    } else {
+      findings.push({ level: 'error', message })
+    }
+  }
+  return findings
+}
+
+export async function checkSopsConfig(
+  cwd: string,
+  policy: EnvVaultPolicy,
+  config: Pick<EnvVaultConfig, 'secretsDir'>
+): Promise<VerifyFinding[]> {
+  const expectedSopsYaml = getExpectedSopsConfigYaml(policy, config)
+  try {
+    const actualSopsYaml = await readFile(join(cwd, '.sops.yaml'), 'utf-8')
+    if (actualSopsYaml.trim() === expectedSopsYaml.trim()) {
+      return [{ level: 'ok', message: '.sops.yaml matches policy' }]
+    }
+    let differences: string[] = []
+    try {
+      differences = diffSopsConfigs(
+        generateSopsConfig(policy, config),
+        (parseYaml(actualSopsYaml) ?? {}) as SopsConfig
+      )
+    } catch {
+      // unparseable .sops.yaml: report the mismatch only
+    }
+    return [
+      {
+        level: 'error',
+        message:
+          '.sops.yaml does not match policy (hand-edited or generated by an older envvault). Run `envvault updatekeys` to regenerate it from envvault.policy.json.',
+      },
+      ...differences.map((difference) => ({
+        level: 'error' as const,
+        message: `.sops.yaml: ${difference}`,
+      })),
+    ]
+  } catch {
+    return [
+      {
+        level: 'error',
+        message: '.sops.yaml not found. Run `envvault init` or regenerate SOPS config.',
+      },
+    ]
+  }
+}
+
+/**
+ * Report expired grants whose keys are still recipients in .sops.yaml
+ */
+export async function checkExpiredRecipients(
+  cwd: string,
+  config: EnvVaultConfig,
+  policy: EnvVaultPolicy,
+  now: Date = new Date()
+): Promise<VerifyFinding[]> {
+  const expired = findExpiredRecipients(policy, now)
+  if (expired.length === 0) return []
+
+  let sopsConfig: SopsConfig
+  try {
+    sopsConfig = parseYaml(await readFile(join(cwd, '.sops.yaml'), 'utf-8')) as SopsConfig
+  } catch {
+    return []
+  }
+
+  const findings: VerifyFinding[] = []
+  for (const item of expired) {
+    const secretPath = `${config.secretsDir}/${item.env}/${item.service}.sops.yaml`
+    const present = findCreationRuleRecipients(sopsConfig, secretPath)
+    if (!item.keys.some((key) => present.includes(key))) continue
+    const who = item.member ? `${item.entry} (member ${item.member})` : item.entry
+    findings.push({
+      level: 'error',
+      message: `${item.env}/${item.service}: access for ${who} expired on ${item.expiresAt} but is still in .sops.yaml. Run \`envvault access expire\``,
+    })
+  }
+  return findings
+}
+
+export async function checkSecretFiles(
+  cwd: string,
+  config: EnvVaultConfig,
+  policy: EnvVaultPolicy,
+  scope: VerifyScope = {}
+): Promise<VerifyFinding[]> {
+  const findings: VerifyFinding[] = []
+  const pattern = `${config.secretsDir}/${scope.env ?? '**'}/${scope.service ?? '*'}${SECRET_FILE_GLOB}`
+  const secretFiles = (await glob(pattern, { cwd })).sort()
+
+  for (const file of secretFiles) {
+    const location = parseSecretFilePath(file)
+    if (!location) continue
+
+    const { env, service } = location
+    const envPolicy = policy.environments[env]
+    if (!envPolicy) {
+      findings.push({ level: 'error', message: `Unknown environment in ${file}: ${env}` })
+      continue
+    }
+    if (!envPolicy.services[service]) {
+      findings.push({ level: 'error', message: `Unknown service in ${file}: ${service}` })
+      continue
+    }
+
+    try {
+      const content = await readFile(join(cwd, file), 'utf-8')
+      const store = getSopsStoreType(file)
+      const encrypted =
+        store === 'dotenv'
+          ? 'mac' in parseSopsDotenv(content).metadata
+          : store === 'yaml'
+            ? Boolean((parseYaml(content) as Record<string, unknown>).sops)
+            : parseSopsJson(content).metadata !== undefined
+      if (!encrypted) {
+        findings.push({ level: 'error', message: `${file} is not encrypted` })
+        continue
+      }
+      findings.push({ level: 'ok', message: `${file} is properly encrypted` })
+    } catch {
+      findings.push({ level: 'error', message: `${file} could not be parsed` })
+    }
+  }
+
+  return findings
+}
+
+export async function checkDirtyEnvFiles(cwd: string): Promise<VerifyFinding[]> {
+  try {
+    const dirtyEnvFiles = await getDirtyEnvFiles(cwd)
+    if (dirtyEnvFiles.length > 0) {
+      return [
+        {
+          level: 'error',
+          message: `Uncommitted .env changes detected: ${dirtyEnvFiles.join(', ')}`,
+        },
+      ]
+    }
+  } catch {
+    // non-git directory or git unavailable; skip
+  }
+  return []
+}
+
+export async function checkTrackedEnvFiles(cwd: string): Promise<VerifyFinding[]> {
+  try {
+    const tracked = await getTrackedEnvFiles(cwd)
+    if (tracked.length > 0) {
+      return [
+        {
+          level: 'error',
+          message: `Plaintext .env files are tracked by git: ${tracked.join(', ')}`,
+        },
+      ]
+    }
+    return [{ level: 'ok', message: 'No plaintext .env files tracked by git' }]
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Decrypt secrets for one environment and check them against envvault.schema.yaml.
+ * Reports key names only, never values.
+ */
+export async function checkSchema(
+  cwd: string,
+  config: EnvVaultConfig,
+  scope: VerifyScope & { env: string }
+): Promise<VerifyFinding[]> {
+  const schema = await loadSchema(cwd)
+  if (!schema) {
+    return [{ level: 'warn', message: 'envvault.schema.yaml not found (schema checks skipped)' }]
+  }
+
+  const serviceNames = scope.service ? [scope.service] : Object.keys(config.services).sort()
+  const targets: Array<{ service: string; serviceSchema: ServiceSchema; secretPath: string }> = []
+  const findings: VerifyFinding[] = []
+
+  for (const service of serviceNames) {
+    const serviceSchema = resolveServiceSchema(schema, service, scope.env)
+    if (!serviceSchema) continue
+    const secretPath = getSecretFilePath(cwd, config.secretsDir, scope.env, service)
+    try {
+      await access(secretPath)
+      targets.push({ service, serviceSchema, secretPath })
+    } catch {
+      if (scope.service) {
+        findings.push({
+          level: 'error',
+          message: `${scope.env}/${service}: secret file not found`,
+        })
+      }
+    }
+  }
+
+  if (targets.length === 0) return findings
+
+  let backend
+  try {
+    const preference = config.cryptoBackend ?? 'auto'
+    backend = (
+      await resolveCryptoBackend({
+        preference,
+        capability: 'decrypt',
+        backends: await createProjectCryptoBackends(cwd, config, preference),
+      })
+    ).backend
+  } catch (error) {
+    return [...findings, { level: 'error', message: (error as Error).message }]
+  }
+
+  for (const { service, serviceSchema, secretPath } of targets) {
+    try {
+      const { data } = await backend.decrypt(secretPath)
+      // Keys pull fills in from defaults and templates are not missing
+      const { entries, problems } = materializeSchemaValues(
+        Object.entries(data).map(([key, value]) => ({ key, value })),
+        serviceSchema
+      )
+      const result = validateAgainstSchema(entries, serviceSchema)
+      if (problems.length > 0) {
+        findings.push({
+          level: 'error',
+          message: `${scope.env}/${service}: unresolved templates: ${formatSchemaViolations(problems)}`,
+        })
+      }
+      if (result.missing.length > 0) {
+        findings.push({
+          level: 'error',
+          message: `${scope.env}/${service}: missing required keys: ${result.missing.join(', ')}`,
+        })
+      }
+      if (result.violations.length > 0) {
+        findings.push({
+          level: 'error',
+          message: `${scope.env}/${service}: invalid values: ${formatSchemaViolations(result.violations)}`,
+        })
+      }
+      if (result.valid && problems.length === 0) {
+        findings.push({ level: 'ok', message: `${scope.env}/${service} matches schema` })
+      }
+      if (result.extra.length > 0) {
+        findings.push({
+          level: 'warn',
+          message: `${scope.env}/${service}: keys not in schema: ${result.extra.join(', ')}`,
+        })
+      }
+    } catch (error) {
+      findings.push({
+        level: 'error',
+        message: `${scope.env}/${service}: ${(error as Error).message}`,
+      })
+    }
+  }
+
+  return findings
+}
+
+export function printFindings(findings: VerifyFinding[]): string[] {
+  for (const finding of findings) {
+    if (finding.level === 'ok') console.log(`[OK] ${finding.message}`)
+    if (finding.level === 'warn') console.log(`[WARN] ${finding.message}`)
+  }
+  return findings.filter((f) => f.level === 'error').map((f) => f.message)
+}
+
+export const verifyCommand = new Command('verify')
+  .description('Verify policy, encryption state and schema before commit/push or startup')
+  .option('--env <env>', 'Environment to validate against the schema (decrypts secrets)')
+  .option('--service <service>', 'Limit checks to one service')
+  .option('--allow-unsigned', 'Allow unsigned policy', false)
+  .option('--allow-dirty-env', 'Allow uncommitted .env* changes in git status', false)
+  .option(
+    '--base <ref>',
+    'Ref used to find touched environments (default: merge base with the upstream branch)'
+  )
+  .action(async (options) => {
+    const cwd = process.cwd()
+
+    let config: EnvVaultConfig
+    let policy: EnvVaultPolicy
+    try {
+      config = await loadConfig(cwd)
+      policy = await loadPolicy(cwd)
+    } catch (error) {
+      if (error instanceof ConfigError) {
+        console.error(`Error: ${error.message}`)
+        process.exit(1)
+      }
+      throw error
+    }
+
+    if (options.env && !policy.environments[options.env]) {
+      console.error(`Error: Environment '${options.env}' not found in policy`)
+      process.exit(1)
+    }
+    if (options.service && !config.services[options.service]) {
+      console.error(`Error: Service '${options.service}' not found in config`)
+      process.exit(1)
+    }
+
+    const scope: VerifyScope = { env: options.env, service: options.service }
+    const findings: VerifyFinding[] = [
+      ...(await checkPolicySignature(cwd, {
+        allowUnsigned: options.allowUnsigned,
+        base: options.base,
+        secretsDir: config.secretsDir,
+      })),
+      ...(await checkSopsConfig(cwd, policy, config)),
+      ...(await checkSecretFiles(cwd, config, policy, scope)),
+      ...(await checkTrackedEnvFiles(cwd)),
+      ...(options.allowDirtyEnv ? [] : await checkDirtyEnvFiles(cwd)),
+    ]
+    if (options.env) {
+      findings.push(...(await checkSchema(cwd, config, { ...scope, env: options.env })))
+    }
+
+    const errors = printFindings(findings)
+    if (errors.length > 0) {
+      console.log('\nVerification failed:\n')
+      for (const error of errors) {
+        console.log(`- ${error}`)
+      }
+      process.exit(1)
+    }
+
+    console.log('\n[OK] All verifications passed')
+  })
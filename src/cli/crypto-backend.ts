@@ -0,0 +1,58 @@
+import { Option } from 'commander'
+import {
+  resolveCryptoBackend,
+  createProjectCryptoBackends,
+  CryptoBackendSelectionError,
+  type CryptoBackend,
+  type CryptoBackendPreference,
+  type CryptoCapability,
+  type EnvVaultConfig,
+} from '../core/index.js'
+
+/**
+ * `--crypto-backend` option shared by every command that decrypts or encrypts
+ */
+export function cryptoBackendOption(): Option {
+  return new Option(
+    '--crypto-backend <backend>',
+    'auto, system-sops, js or a cryptoPlugins name (default: cryptoBackend from envvault.config.json)'
+  )
+}
+
+/**
+ * Resolve the crypto backend for a command: the --crypto-backend override wins over
+ * config.cryptoBackend. Exits with one error message when no backend can serve the capability.
+ */
+export async function resolveCommandCryptoBackend(
+  capability: CryptoCapability,
+  options: {
+    config?: Pick<EnvVaultConfig, 'cryptoBackend' | 'cryptoPlugins'>
+    override?: CryptoBackendPreference | undefined
+    silent?: boolean
+    projectDir?: string
+  } = {}
+): Promise<CryptoBackend> {
+  const preference = options.override ?? options.config?.cryptoBackend ?? 'auto'
+  try {
+    const resolved = await resolveCryptoBackend({
+      preference,
+      capability,
+      backends: await createProjectCryptoBackends(
+        options.projectDir ?? process.cwd(),
+        options.config ?? {},
+        preference
+      ),
+    })
+    if (resolved.fallbackUsed && !options.silent) {
+      console.log(`Crypto backend: ${resolved.backend.id} (fallback from auto)`)
+    }
+    return resolved.backend
+  } catch (error) {
+    if (error instanceof CryptoBackendSelectionError) {
+      console.error(`Error: ${error.message}`)
+      console.error('Run `envvault setup` for install instructions.')
+      process.exit(1)
+    }
+    throw error
+  }
+}
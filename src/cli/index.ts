@@ -9,6 +9,9 @@ import { ciVerifyCommand } from './commands/ci-verify.js'
 import { ciSealCommand, ciUnsealCommand } from './commands/ci-secrets.js'
 import { grantCommand } from './commands/grant.js'
 import { revokeCommand } from './commands/revoke.js'
+import { groupCommand } from './commands/group.js'
+import { accessCommand } from './commands/access.js'
+import { offboardCommand } from './commands/offboard.js'
 import { rotateCommand } from './commands/rotate.js'
 import { updatekeysCommand } from './commands/updatekeys.js'
 import { promoteCommand, promoteAllCommand } from './commands/promote.js'
@@ -22,6 +25,9 @@ import { refreshCommand, syncCommand } from './commands/refresh.js'
 import { diffCommand } from './commands/diff.js'
 import { pushCommand } from './commands/push.js'
 import { statusCommand } from './commands/status.js'
+import { policyCommand } from './commands/policy.js'
+import { verifyCommand } from './commands/verify.js'
+import { schemaCommand } from './commands/schema.js'
 
 const program = new Command()
 const require = createRequire(import.meta.url)
@@ -45,6 +51,8 @@ program.addCommand(syncCommand)
 program.addCommand(diffCommand)
 program.addCommand(pushCommand)
 program.addCommand(statusCommand)
+program.addCommand(verifyCommand)
+program.addCommand(schemaCommand)
 program.addCommand(ciVerifyCommand)
 program.addCommand(ciSealCommand)
 program.addCommand(ciUnsealCommand)
@@ -52,8 +60,12 @@ program.addCommand(ciUnsealCommand)
 // Admin commands
 program.addCommand(grantCommand)
 program.addCommand(revokeCommand)
+program.addCommand(groupCommand)
+program.addCommand(accessCommand)
+program.addCommand(offboardCommand)
 program.addCommand(rotateCommand)
 program.addCommand(updatekeysCommand)
+program.addCommand(policyCommand)
 
 // Local overrides commands
 program.addCommand(promoteCommand)
@@ -1,3 +1,6 @@
 export * from './load-config.js'
 export * from './load-policy.js'
 export * from './schema.js'
+export * from './schema-export.js'
+export * from './service-pattern.js'
+export * from './secret-path.js'
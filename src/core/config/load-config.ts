@@ -3,6 +3,8 @@ import { join } from 'path'
 import { EnvVaultConfig, ConfigError } from '../types/index.js'
 
 const CONFIG_FILE = 'envvault.config.json'
+const BUILTIN_CRYPTO_BACKENDS = ['auto', 'system-sops', 'js']
+const SECRET_FORMATS = ['dotenv', 'yaml', 'json', 'binary']
 
 export async function loadConfig(projectDir: string): Promise<EnvVaultConfig> {
   const configPath = join(projectDir, CONFIG_FILE)
@@ -22,12 +24,39 @@ export async function loadConfig(projectDir: string): Promise<EnvVaultConfig> {
       throw new ConfigError('services is required')
     }
 
+    for (const [name, service] of Object.entries(config.services)) {
+      if (service?.format !== undefined && !SECRET_FORMATS.includes(service.format)) {
+        throw new ConfigError(
+          `services.${name}.format must be one of: ${SECRET_FORMATS.join(', ')}`
+        )
+      }
+    }
+
+    if (config.cryptoPlugins !== undefined) {
+      if (
+        typeof config.cryptoPlugins !== 'object' ||
+        config.cryptoPlugins === null ||
+        Array.isArray(config.cryptoPlugins)
+      ) {
+        throw new ConfigError('cryptoPlugins must be an object of name -> module')
+      }
+      for (const [name, module] of Object.entries(config.cryptoPlugins)) {
+        if (BUILTIN_CRYPTO_BACKENDS.includes(name)) {
+          throw new ConfigError(`cryptoPlugins: "${name}" is a built-in crypto backend name`)
+        }
+        if (typeof module !== 'string' || !module.trim()) {
+          throw new ConfigError(`cryptoPlugins.${name} must be a module path or package name`)
+        }
+      }
+    }
+
     if (
       config.cryptoBackend !== undefined &&
-      !['auto', 'system-sops', 'js'].includes(config.cryptoBackend)
+      !BUILTIN_CRYPTO_BACKENDS.includes(config.cryptoBackend) &&
+      !(config.cryptoPlugins && Object.hasOwn(config.cryptoPlugins, config.cryptoBackend))
     ) {
       throw new ConfigError(
-        'cryptoBackend must be one of: auto, system-sops, js'
+        'cryptoBackend must be one of: auto, system-sops, js (or a name from cryptoPlugins)'
       )
     }
 
@@ -1,6 +1,10 @@
 import { readFile, access } from 'fs/promises'
 import { join } from 'path'
 import { EnvVaultPolicy, ConfigError } from '../types/index.js'
+import { validatePolicyMembers, validatePolicyGroups } from '../policy/members.js'
+import { validateRecipientGrants } from '../policy/expiry.js'
+import { validatePolicyKeyGroups } from '../policy/key-groups.js'
+import { validatePolicyEncryption } from '../policy/encryption.js'
 
 const POLICY_FILE = 'envvault.policy.json'
 const SIGNATURE_FILE = 'envvault.policy.sig'
@@ -14,6 +18,11 @@ export async function loadPolicy(projectDir: string): Promise<EnvVaultPolicy> {
     if (policy.version !== 1) {
       throw new ConfigError(`Unsupported policy version: ${policy.version}`)
     }
+    validatePolicyMembers(policy)
+    validatePolicyGroups(policy)
+    validateRecipientGrants(policy)
+    validatePolicyKeyGroups(policy)
+    validatePolicyEncryption(policy)
 
     return policy
   } catch (error) {
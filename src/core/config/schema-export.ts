@@ -0,0 +1,386 @@
+/**
+ * Generate JSON Schema, TypeScript, zod and .env.example files from a service schema
+ *
+ * @module gev:core/config/schema-export
+ *
+ * All outputs come from the resolved `ServiceSchema`, so envvault.schema.yaml
+ * stays the one source of truth for the keys an app reads.
+ */
+
+import type { DotenvEntry } from '../env/types.js'
+import { renderEntries } from '../env/render-dotenv.js'
+import type { KeyRule, ServiceSchema } from './schema.js'
+
+export const SCHEMA_EXPORT_FORMATS = ['json-schema', 'ts', 'zod', 'env-example'] as const
+
+export type SchemaExportFormat = (typeof SCHEMA_EXPORT_FORMATS)[number]
+
+const INT_PATTERN = '^[-+]?\\d+$'
+const BOOL_PATTERN = '^(true|false|1|0|yes|no)$'
+const DURATION_PATTERN = '^(\\d+(\\.\\d+)?(ms|s|m|h|d))+$'
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/
+
+interface ExportField {
+  key: string
+  rule: KeyRule
+  required: boolean
+  /** Required, or filled in from a default: always present after reading */
+  present: boolean
+}
+
+/**
+ * Every key of the schema in key order, with its rule (empty when it has none)
+ */
+function exportFields(schema: ServiceSchema): ExportField[] {
+  const keys = new Set([...schema.required, ...schema.optional, ...Object.keys(schema.keys ?? {})])
+  return [...keys].sort().map((key) => {
+    const rule = schema.keys?.[key] ?? {}
+    const required = schema.required.includes(key)
+    return { key, rule, required, present: required || rule.default !== undefined }
+  })
+}
+
+function isStringType(rule: KeyRule): boolean {
+  return !['int', 'bool'].includes(rule.type ?? 'string')
+}
+
+function parseBool(value: string): boolean {
+  return /^(true|1|yes)$/i.test(value)
+}
+
+function typedValue(rule: KeyRule, value: string): string | number | boolean {
+  if (rule.type === 'int') return Number(value)
+  if (rule.type === 'bool') return parseBool(value)
+  return value
+}
+
+function describeRule(rule: KeyRule): string | undefined {
+  const lines = [
+    ...(rule.description !== undefined ? [rule.description] : []),
+    ...(rule.template !== undefined ? [`Derived by envvault pull: ${rule.template}`] : []),
+  ]
+  return lines.length > 0 ? lines.join('\n') : undefined
+}
+
+function propertyName(key: string): string {
+  return IDENTIFIER.test(key) ? key : JSON.stringify(key)
+}
+
+/**
+ * `api-gateway` -> `ApiGatewayEnv`
+ */
+export function schemaTypeName(serviceName: string): string {
+  const name = serviceName
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0]!.toUpperCase() + part.slice(1))
+    .join('')
+  return `${/^[A-Za-z]/.test(name) ? name : `Service${name}`}Env`
+}
+
+function docComment(rule: KeyRule, indent: string): string[] {
+  const description = describeRule(rule)
+  if (description === undefined) return []
+  const lines = description.split('\n').map((line) => line.replace(/\*\//g, '*\\/'))
+  return lines.length === 1
+    ? [`${indent}/** ${lines[0]} */`]
+    : [`${indent}/**`, ...lines.map((line) => `${indent} * ${line}`), `${indent} */`]
+}
+
+/**
+ * JSON Schema (draft 2020-12) of a service's environment. Integers and booleans
+ * use their JSON types, so validators need type coercion for `process.env`
+ * (e.g. Ajv with `coerceTypes`).
+ */
+export function schemaToJsonSchema(
+  serviceName: string,
+  schema: ServiceSchema
+): Record<string, unknown> {
+  const properties: Record<string, Record<string, unknown>> = {}
+  for (const { key, rule } of exportFields(schema)) {
+    const property: Record<string, unknown> = {}
+    const description = describeRule(rule)
+    if (description !== undefined) property.description = description
+
+    switch (rule.type) {
+      case 'int':
+        property.type = 'integer'
+        if (rule.min !== undefined) property.minimum = rule.min
+        if (rule.max !== undefined) property.maximum = rule.max
+        break
+      case 'bool':
+        property.type = 'boolean'
+        break
+      case 'url':
+        property.type = 'string'
+        property.format = 'uri'
+        break
+      case 'email':
+        property.type = 'string'
+        property.format = 'email'
+        break
+      case 'json':
+        property.type = 'string'
+        property.contentMediaType = 'application/json'
+        break
+      default:
+        property.type = 'string'
+    }
+    if (rule.allowedValues) {
+      property.enum = rule.allowedValues.map((value) => typedValue(rule, value))
+    }
+    if (isStringType(rule)) {
+      const patterns = [
+        ...(rule.type === 'duration' ? [DURATION_PATTERN] : []),
+        ...(rule.pattern !== undefined ? [rule.pattern] : []),
+      ]
+      if (patterns.length === 1) property.pattern = patterns[0]
+      if (patterns.length > 1) property.allOf = patterns.map((pattern) => ({ pattern }))
+      if (rule.minLength !== undefined) property.minLength = rule.minLength
+    }
+    if (rule.default !== undefined) property.default = typedValue(rule, rule.default)
+    properties[key] = property
+  }
+
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    title: `${serviceName} environment`,
+    type: 'object',
+    properties,
+    required: exportFields(schema)
+      .filter((field) => field.required && field.rule.default === undefined)
+      .map((field) => field.key),
+  }
+}
+
+const TS_HELPERS: Record<string, string[]> = {
+  requireValue: [
+    'function requireValue(key: string, value: string | undefined): string {',
+    '  if (value === undefined) throw new Error(`Missing environment variable ${key}`)',
+    '  return value',
+    '}',
+  ],
+  optional: [
+    'function optional<T>(value: string | undefined, convert: (value: string) => T): T | undefined {',
+    '  return value === undefined ? undefined : convert(value)',
+    '}',
+  ],
+  toInt: [
+    'function toInt(key: string, value: string): number {',
+    `  if (!/${INT_PATTERN}/.test(value)) throw new Error(\`\${key} must be an integer\`)`,
+    '  return Number(value)',
+    '}',
+  ],
+  toBool: [
+    'function toBool(key: string, value: string): boolean {',
+    `  if (!/${BOOL_PATTERN}/i.test(value)) throw new Error(\`\${key} must be a boolean\`)`,
+    '  return /^(true|1|yes)$/i.test(value)',
+    '}',
+  ],
+  toJson: [
+    'function toJson(key: string, value: string): unknown {',
+    '  try {',
+    '    return JSON.parse(value)',
+    '  } catch {',
+    '    throw new Error(`${key} must be JSON`)',
+    '  }',
+    '}',
+  ],
+  oneOf: [
+    'function oneOf<T extends string>(key: string, value: string, allowed: readonly T[]): T {',
+    '  if (!(allowed as readonly string[]).includes(value)) {',
+    "    throw new Error(`${key} must be one of: ${allowed.join(', ')}`)",
+    '  }',
+    '  return value as T',
+    '}',
+  ],
+}
+
+/**
+ * TypeScript module with an interface of the service's environment and a
+ * dependency-free reader that checks presence and converts types
+ */
+export function schemaToTypeScript(serviceName: string, schema: ServiceSchema): string {
+  const typeName = schemaTypeName(serviceName)
+  const fields = exportFields(schema)
+  const helpers = new Set<string>()
+
+  const tsType = (rule: KeyRule): string => {
+    if (rule.type === 'int') return 'number'
+    if (rule.type === 'bool') return 'boolean'
+    if (rule.type === 'json') return 'unknown'
+    if (rule.allowedValues) return rule.allowedValues.map((v) => JSON.stringify(v)).join(' | ')
+    return 'string'
+  }
+  // Expression converting the string `value` to the key's type, if it needs one
+  const convert = (key: string, rule: KeyRule, value: string): string | undefined => {
+    const name = JSON.stringify(key)
+    if (rule.type === 'int' || rule.type === 'bool' || rule.type === 'json') {
+      const helper = { int: 'toInt', bool: 'toBool', json: 'toJson' }[rule.type]
+      helpers.add(helper)
+      return `${helper}(${name}, ${value})`
+    }
+    if (rule.allowedValues) {
+      helpers.add('oneOf')
+      return `oneOf(${name}, ${value}, ${JSON.stringify(rule.allowedValues)} as const)`
+    }
+    return undefined
+  }
+
+  const interfaceLines = fields.flatMap(({ key, rule, present }) => [
+    ...docComment(rule, '  '),
+    `  ${propertyName(key)}${present ? '' : '?'}: ${tsType(rule)}${present ? '' : ' | undefined'}`,
+  ])
+  const readerLines = fields.map(({ key, rule, present }) => {
+    const name = JSON.stringify(key)
+    const fallback = rule.default !== undefined ? `, ${JSON.stringify(rule.default)}` : ''
+    const raw = `readValue(env, ${name}${fallback})`
+    let expression: string
+    if (present) {
+      helpers.add('requireValue')
+      const value = `requireValue(${name}, ${raw})`
+      expression = convert(key, rule, value) ?? value
+    } else {
+      const converted = convert(key, rule, 'value')
+      if (converted) helpers.add('optional')
+      expression = converted ? `optional(${raw}, (value) => ${converted})` : raw
+    }
+    return `    ${propertyName(key)}: ${expression},`
+  })
+
+  return [
+    `// Generated by \`envvault schema export --format ts\` from envvault.schema.yaml. Do not edit.`,
+    '',
+    `export interface ${typeName} {`,
+    ...interfaceLines,
+    '}',
+    '',
+    'type EnvSource = Record<string, string | undefined>',
+    '',
+    'function readValue(env: EnvSource, key: string, fallback?: string): string | undefined {',
+    '  const value = env[key]',
+    "  return value === undefined || value === '' ? fallback : value",
+    '}',
+    '',
+    ...Object.keys(TS_HELPERS)
+      .filter((name) => helpers.has(name))
+      .flatMap((name) => [...TS_HELPERS[name]!, '']),
+    `/** Read and check the ${serviceName} environment */`,
+    `export function read${typeName}(env: EnvSource = process.env): ${typeName} {`,
+    '  return {',
+    ...readerLines,
+    '  }',
+    '}',
+    '',
+  ].join('\n')
+}
+
+/**
+ * TypeScript module with a zod schema of the service's environment, its
+ * inferred type and a reader
+ */
+export function schemaToZod(serviceName: string, schema: ServiceSchema): string {
+  const typeName = schemaTypeName(serviceName)
+  const schemaName = `${typeName[0]!.toLowerCase()}${typeName.slice(1)}Schema`
+  let usesJson = false
+
+  const fieldLines = exportFields(schema).flatMap(({ key, rule, required }) => {
+    let expression = 'z.string()'
+    if (isStringType(rule) && rule.allowedValues) {
+      expression = `z.enum(${JSON.stringify(rule.allowedValues)})`
+    } else {
+      if (rule.type === 'url') expression += '.url()'
+      if (rule.type === 'email') expression += '.email()'
+      if (rule.type === 'duration') {
+        expression += `.regex(/${DURATION_PATTERN}/, 'expected duration')`
+      }
+      if (rule.pattern !== undefined) {
+        expression += `.regex(new RegExp(${JSON.stringify(rule.pattern)}))`
+      }
+      if (rule.minLength !== undefined) expression += `.min(${rule.minLength})`
+      if (rule.allowedValues) {
+        const allowed = JSON.stringify(rule.allowedValues)
+        const message = JSON.stringify(`expected one of: ${rule.allowedValues.join(', ')}`)
+        expression += `.refine((value) => ${allowed}.includes(value), ${message})`
+      }
+    }
+    if (rule.type === 'int') {
+      expression += `.regex(/${INT_PATTERN}/, 'expected int').transform(Number)`
+      const bounds = [
+        ...(rule.min !== undefined ? [`.min(${rule.min})`] : []),
+        ...(rule.max !== undefined ? [`.max(${rule.max})`] : []),
+      ]
+      if (bounds.length > 0) expression += `.pipe(z.number()${bounds.join('')})`
+    }
+    if (rule.type === 'bool') {
+      expression += `.regex(/${BOOL_PATTERN}/i, 'expected bool').transform((value) => /^(true|1|yes)$/i.test(value))`
+    }
+    if (rule.type === 'json') {
+      usesJson = true
+      expression += `.refine(isJson, 'expected json').transform((value): unknown => JSON.parse(value))`
+    }
+    if (rule.default !== undefined) expression += `.default(${JSON.stringify(rule.default)})`
+    else if (!required) expression += '.optional()'
+    return [...docComment(rule, '  '), `  ${propertyName(key)}: ${expression},`]
+  })
+
+  return [
+    `// Generated by \`envvault schema export --format zod\` from envvault.schema.yaml. Do not edit.`,
+    '',
+    "import { z } from 'zod'",
+    '',
+    ...(usesJson
+      ? [
+          'function isJson(value: string): boolean {',
+          '  try {',
+          '    JSON.parse(value)',
+          '    return true',
+          '  } catch {',
+          '    return false',
+          '  }',
+          '}',
+          '',
+        ]
+      : []),
+    `export const ${schemaName} = z.object({`,
+    ...fieldLines,
+    '})',
+    '',
+    `export type ${typeName} = z.infer<typeof ${schemaName}>`,
+    '',
+    `/** Read and check the ${serviceName} environment */`,
+    `export function read${typeName}(env: Record<string, string | undefined> = process.env): ${typeName} {`,
+    `  return ${schemaName}.parse(env)`,
+    '}',
+    '',
+  ].join('\n')
+}
+
+/**
+ * .env.example with every key of the schema: descriptions and rules as
+ * comments, defaults as values and everything else left empty
+ */
+export function schemaToEnvExample(serviceName: string, schema: ServiceSchema): string {
+  const entries: DotenvEntry[] = exportFields(schema).map(({ key, rule, required }) => {
+    const hints = [
+      required ? 'required' : 'optional',
+      ...(rule.type !== undefined && rule.type !== 'string' && rule.type !== 'enum'
+        ? [rule.type]
+        : []),
+      ...(rule.min !== undefined ? [`min ${rule.min}`] : []),
+      ...(rule.max !== undefined ? [`max ${rule.max}`] : []),
+      ...(rule.allowedValues ? [`one of: ${rule.allowedValues.join(', ')}`] : []),
+      ...(rule.pattern !== undefined ? [`pattern: ${rule.pattern}`] : []),
+      ...(rule.minLength !== undefined ? [`at least ${rule.minLength} characters`] : []),
+      ...(rule.template !== undefined ? [`derived by envvault pull: ${rule.template}`] : []),
+    ]
+    const comment = [
+      ...(rule.description !== undefined ? [rule.description] : []),
+      hints.join('; '),
+    ]
+    return { key, value: rule.default ?? '', comment: comment.join('\n') }
+  })
+  return renderEntries(entries, {
+    header: `${serviceName}: generated by \`envvault schema export --format env-example\` from envvault.schema.yaml`,
+  })
+}
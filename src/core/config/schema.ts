@@ -1,5 +1,5 @@
 /**
- * Schema validation for required/optional environment keys
+ * Schema validation for required/optional environment keys and typed values
  *
  * @module gev:core/config/schema
  *
@@ -8,15 +8,71 @@
  *   api:
  *     required: [DATABASE_URL, JWT_SECRET]
  *     optional: [DEBUG, LOG_LEVEL]
+ *     keys:
+ *       LOG_LEVEL: { type: enum, allowedValues: [debug, info, warn], default: info }
+ *       DATABASE_URL: { type: url, template: 'postgres://${DB_USER}@${DB_HOST}/app' }
+ *
+ * Version 2 adds `common` (shared by every service), `extends` (inherit other
+ * services) and `environments` (keys added in one environment):
+ * version: 2
+ * common: [SENTRY_DSN]
+ * services:
+ *   web:
+ *     required: [PORT]
+ *   api:
+ *     extends: web
+ *     environments:
+ *       prod:
+ *         required: [STRIPE_WEBHOOK_SECRET]
  */
 
 import { readFile, access } from 'fs/promises';
 import { join } from 'path';
-import { parse as parseYaml } from 'yaml';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
 import { DotenvEntry } from '../env/types.js';
 
 const SCHEMA_FILE = 'envvault.schema.yaml';
 
+/**
+ * Value types a key rule can check
+ */
+export const SCHEMA_VALUE_TYPES = [
+  'string',
+  'int',
+  'bool',
+  'url',
+  'email',
+  'json',
+  'duration',
+  'enum',
+] as const;
+
+export type SchemaValueType = (typeof SCHEMA_VALUE_TYPES)[number];
+
+/**
+ * Rules for the value of one key
+ */
+export interface KeyRule {
+  /** What the key is for; used by `envvault schema export` */
+  description?: string;
+  /** Value type (default: string) */
+  type?: SchemaValueType;
+  /** Regex searched for within the value; anchor it with `^...$` to match the whole value */
+  pattern?: string;
+  /** Smallest allowed number (type int) */
+  min?: number;
+  /** Largest allowed number (type int) */
+  max?: number;
+  /** Minimum value length in characters */
+  minLength?: number;
+  /** The only accepted values (required for type enum) */
+  allowedValues?: string[];
+  /** Non-secret value `pull` writes when the vault does not hold the key */
+  default?: string;
+  /** Value `pull` derives from other keys, e.g. `postgres://${DB_USER}@${DB_HOST}` */
+  template?: string;
+}
+
 /**
  * Schema definition for a single service
  */
@@ -25,28 +81,69 @@ export interface ServiceSchema {
   required: string[];
   /** Optional keys that may be present */
   optional: string[];
+  /** Value rules by key; keys listed here are allowed even if not in required/optional */
+  keys?: Record<string, KeyRule>;
+}
+
+/**
+ * Version 2 block: a service schema plus deltas added in single environments
+ */
+export interface SchemaLayer extends ServiceSchema {
+  /** Keys and rules added in one environment, keyed by environment name */
+  environments?: Record<string, ServiceSchema>;
+}
+
+/**
+ * Version 2 service definition
+ */
+export interface ServiceSchemaDefinition extends SchemaLayer {
+  /** Services whose keys and rules this service inherits, in order */
+  extends?: string[];
+}
+
+/**
+ * Version 2 definitions as written in the file
+ */
+export interface SchemaDefinitions {
+  /** Block shared by every service */
+  common?: SchemaLayer;
+  services: Record<string, ServiceSchemaDefinition>;
 }
 
 /**
  * Full schema containing definitions for all services
  */
 export interface Schema {
-  /** Schema version for future compatibility */
+  /** Schema version: 1 (flat services) or 2 (common, extends, environments) */
   version?: number;
-  /** Service schemas keyed by service name */
+  /** Service schemas keyed by service name (version 2: resolved without environment deltas) */
   services: Record<string, ServiceSchema>;
+  /** Version 2 definitions; use resolveServiceSchema for one environment */
+  definitions?: SchemaDefinitions;
+}
+
+/**
+ * A value that breaks its key rule. Never carries the value itself.
+ */
+export interface SchemaViolation {
+  /** Key whose value is invalid */
+  key: string;
+  /** What the rule expects, e.g. `expected int` */
+  message: string;
 }
 
 /**
  * Result of validating entries against a schema
  */
 export interface SchemaValidationResult {
-  /** Whether validation passed (no missing required keys) */
+  /** Whether validation passed (no missing required keys and no violations) */
   valid: boolean;
   /** Required keys that are missing from entries */
   missing: string[];
   /** Keys that are neither in required nor optional */
   extra: string[];
+  /** Values that break their key rules, sorted by key */
+  violations: SchemaViolation[];
 }
 
 /**
@@ -87,11 +184,35 @@ export async function loadSchema(projectRoot: string): Promise<Schema | null> {
 
     // Handle version field
     const version = raw.version ?? 1;
+    if (version !== 1 && version !== 2) {
+      throw new SchemaParseError(`Unsupported schema version: ${JSON.stringify(version)}`);
+    }
 
     if (!raw.services || typeof raw.services !== 'object') {
       throw new SchemaParseError('Schema must contain "services" object');
     }
 
+    if (version === 2) {
+      const definitions = parseSchemaDefinitions(raw as Record<string, unknown>);
+      const services: Record<string, ServiceSchema> = {};
+      const envs = new Set(
+        [definitions.common, ...Object.values(definitions.services)].flatMap((layer) =>
+          Object.keys(layer?.environments ?? {})
+        )
+      );
+      for (const serviceName of Object.keys(definitions.services)) {
+        services[serviceName] = resolveDefinitions(definitions, serviceName);
+        checkKeyRules(`Service "${serviceName}"`, services[serviceName].keys);
+        for (const env of envs) {
+          checkKeyRules(
+            `Service "${serviceName}" in environment "${env}"`,
+            resolveDefinitions(definitions, serviceName, env).keys
+          );
+        }
+      }
+      return { version, services, definitions };
+    }
+
     const services: Record<string, ServiceSchema> = {};
 
     for (const [serviceName, serviceDef] of Object.entries(raw.services)) {
@@ -100,34 +221,8 @@ export async function loadSchema(projectRoot: string): Promise<Schema | null> {
           `Service "${serviceName}" must be an object with required/optional arrays`
         );
       }
-
-      const def = serviceDef as Record<string, unknown>;
-
-      services[serviceName] = {
-        required: Array.isArray(def.required)
-          ? def.required.map(String)
-          : [],
-        optional: Array.isArray(def.optional)
-          ? def.optional.map(String)
-          : [],
-      };
-
-      // Validate that required and optional contain strings
-      for (const key of services[serviceName].required) {
-        if (typeof key !== 'string' || key.trim() === '') {
-          throw new SchemaParseError(
-            `Service "${serviceName}" has invalid required key: ${JSON.stringify(key)}`
-          );
-        }
-      }
-
-      for (const key of services[serviceName].optional) {
-        if (typeof key !== 'string' || key.trim() === '') {
-          throw new SchemaParseError(
-            `Service "${serviceName}" has invalid optional key: ${JSON.stringify(key)}`
-          );
-        }
-      }
+      services[serviceName] = parseSchemaBlock(`Service "${serviceName}"`, serviceDef);
+      checkKeyRules(`Service "${serviceName}"`, services[serviceName].keys);
     }
 
     return { version, services };
@@ -142,19 +237,334 @@ export async function loadSchema(projectRoot: string): Promise<Schema | null> {
   }
 }
 
+/**
+ * Parse required/optional lists and key rules of a service, `common` or environment block
+ */
+function parseSchemaBlock(owner: string, raw: unknown): ServiceSchema {
+  const def = raw as Record<string, unknown>;
+  const block: ServiceSchema = {
+    required: Array.isArray(def.required) ? def.required.map(String) : [],
+    optional: Array.isArray(def.optional) ? def.optional.map(String) : [],
+    ...(def.keys !== undefined ? { keys: parseKeyRules(owner, def.keys) } : {}),
+  };
+
+  // Validate that required and optional contain strings
+  for (const list of ['required', 'optional'] as const) {
+    for (const key of block[list]) {
+      if (typeof key !== 'string' || key.trim() === '') {
+        throw new SchemaParseError(`${owner} has invalid ${list} key: ${JSON.stringify(key)}`);
+      }
+    }
+  }
+  return block;
+}
+
+/**
+ * A version 2 block: base lists and rules plus per-environment deltas
+ */
+function parseSchemaLayer(owner: string, raw: unknown): SchemaLayer {
+  const def = raw as Record<string, unknown>;
+  const layer: SchemaLayer = parseSchemaBlock(owner, def);
+  if (def.environments !== undefined) {
+    if (!isPlainObject(def.environments)) {
+      throw new SchemaParseError(`${owner} environments must be an object keyed by environment`);
+    }
+    layer.environments = {};
+    for (const [env, delta] of Object.entries(def.environments)) {
+      if (!isPlainObject(delta)) {
+        throw new SchemaParseError(`${owner} environment "${env}" must be an object`);
+      }
+      layer.environments[env] = parseSchemaBlock(`${owner} environment "${env}"`, delta);
+    }
+  }
+  return layer;
+}
+
+/**
+ * Parse `common` and `services` of a version 2 schema and check `extends` references
+ */
+function parseSchemaDefinitions(raw: Record<string, unknown>): SchemaDefinitions {
+  const definitions: SchemaDefinitions = { services: {} };
+
+  if (raw.common !== undefined) {
+    if (Array.isArray(raw.common)) {
+      definitions.common = parseSchemaLayer('common', { required: raw.common });
+    } else if (isPlainObject(raw.common)) {
+      definitions.common = parseSchemaLayer('common', raw.common);
+    } else {
+      throw new SchemaParseError('common must be a list of keys or an object');
+    }
+  }
+
+  for (const [serviceName, serviceDef] of Object.entries(raw.services as object)) {
+    const owner = `Service "${serviceName}"`;
+    const def = serviceDef ?? {};
+    if (!isPlainObject(def)) {
+      throw new SchemaParseError(`${owner} must be an object with required/optional arrays`);
+    }
+    const parents = def.extends === undefined ? [] : [def.extends].flat();
+    if (parents.some((parent) => typeof parent !== 'string' || parent.trim() === '')) {
+      throw new SchemaParseError(`${owner} extends must be a service name or a list of them`);
+    }
+    definitions.services[serviceName] = {
+      ...parseSchemaLayer(owner, def),
+      ...(parents.length > 0 ? { extends: parents as string[] } : {}),
+    };
+  }
+
+  const visit = (serviceName: string, chain: string[]): void => {
+    if (chain.includes(serviceName)) {
+      throw new SchemaParseError(
+        `Service "${chain[0]}" extends itself: ${[...chain, serviceName].join(' -> ')}`
+      );
+    }
+    for (const parent of definitions.services[serviceName]?.extends ?? []) {
+      if (!definitions.services[parent]) {
+        throw new SchemaParseError(`Service "${serviceName}" extends unknown service "${parent}"`);
+      }
+      visit(parent, [...chain, serviceName]);
+    }
+  };
+  for (const serviceName of Object.keys(definitions.services)) {
+    visit(serviceName, []);
+  }
+
+  return definitions;
+}
+
+/**
+ * Effective schema of a version 2 service: common, then extended services in order,
+ * then the service itself, each followed by its delta for `env`
+ */
+function resolveDefinitions(
+  definitions: SchemaDefinitions,
+  serviceName: string,
+  env?: string
+): ServiceSchema {
+  const layersOf = (layer: SchemaLayer | undefined): ServiceSchema[] => {
+    if (!layer) return [];
+    const delta = env !== undefined ? layer.environments?.[env] : undefined;
+    return delta ? [layer, delta] : [layer];
+  };
+  const serviceLayers = (name: string): ServiceSchema[] => {
+    const definition = definitions.services[name]!;
+    return [...(definition.extends ?? []).flatMap(serviceLayers), ...layersOf(definition)];
+  };
+  return mergeSchemas(...layersOf(definitions.common), ...serviceLayers(serviceName));
+}
+
+/**
+ * Effective schema of a service in an environment. Version 1 schemas have no
+ * per-environment parts, so `env` only matters for version 2.
+ *
+ * @returns The service schema, or undefined if the schema does not define the service
+ */
+export function resolveServiceSchema(
+  schema: Schema,
+  serviceName: string,
+  env?: string
+): ServiceSchema | undefined {
+  const definitions = schema.definitions;
+  if (!definitions) return schema.services[serviceName];
+  if (!definitions.services[serviceName]) return undefined;
+  return resolveDefinitions(definitions, serviceName, env);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Parse and check a `keys` block
+ */
+function parseKeyRules(owner: string, raw: unknown): Record<string, KeyRule> {
+  if (!isPlainObject(raw)) {
+    throw new SchemaParseError(`${owner} keys must be an object of key rules`);
+  }
+
+  const rules: Record<string, KeyRule> = {};
+  for (const [key, rawRule] of Object.entries(raw)) {
+    const where = `${owner} key "${key}"`;
+    if (!rawRule || typeof rawRule !== 'object' || Array.isArray(rawRule)) {
+      throw new SchemaParseError(`${where} must be an object`);
+    }
+    const def = rawRule as Record<string, unknown>;
+    const rule: KeyRule = {};
+
+    if (def.description !== undefined) {
+      if (typeof def.description !== 'string') {
+        throw new SchemaParseError(`${where} description must be a string`);
+      }
+      rule.description = def.description;
+    }
+    if (def.type !== undefined) {
+      if (!SCHEMA_VALUE_TYPES.includes(def.type as SchemaValueType)) {
+        throw new SchemaParseError(
+          `${where} has unknown type ${JSON.stringify(def.type)} (expected one of: ${SCHEMA_VALUE_TYPES.join(', ')})`
+        );
+      }
+      rule.type = def.type as SchemaValueType;
+    }
+    if (def.pattern !== undefined) {
+      try {
+        new RegExp(String(def.pattern));
+      } catch (error) {
+        throw new SchemaParseError(`${where} has an invalid pattern: ${(error as Error).message}`);
+      }
+      rule.pattern = String(def.pattern);
+    }
+    for (const bound of ['min', 'max'] as const) {
+      if (def[bound] === undefined) continue;
+      if (typeof def[bound] !== 'number' || !Number.isFinite(def[bound])) {
+        throw new SchemaParseError(`${where} ${bound} must be a number`);
+      }
+      rule[bound] = def[bound];
+    }
+    if (def.minLength !== undefined) {
+      if (!Number.isInteger(def.minLength) || (def.minLength as number) < 0) {
+        throw new SchemaParseError(`${where} minLength must be a non-negative integer`);
+      }
+      rule.minLength = def.minLength as number;
+    }
+    if (def.allowedValues !== undefined) {
+      if (!Array.isArray(def.allowedValues) || def.allowedValues.length === 0) {
+        throw new SchemaParseError(`${where} allowedValues must be a non-empty list`);
+      }
+      rule.allowedValues = def.allowedValues.map(String);
+    }
+    if (def.default !== undefined) {
+      if (!['string', 'number', 'boolean'].includes(typeof def.default)) {
+        throw new SchemaParseError(`${where} default must be a string, number or boolean`);
+      }
+      rule.default = String(def.default);
+    }
+    if (def.template !== undefined) {
+      if (typeof def.template !== 'string') {
+        throw new SchemaParseError(`${where} template must be a string`);
+      }
+      rule.template = def.template;
+    }
+
+    rules[key] = rule;
+  }
+  return rules;
+}
+
+/**
+ * Check fields that depend on each other. Version 2 checks the rules after
+ * resolution, so a delta may narrow a bound without repeating the type.
+ */
+function checkKeyRules(owner: string, rules: Record<string, KeyRule> | undefined): void {
+  for (const [key, rule] of Object.entries(rules ?? {})) {
+    const where = `${owner} key "${key}"`;
+    for (const bound of ['min', 'max'] as const) {
+      if (rule[bound] !== undefined && rule.type !== 'int') {
+        throw new SchemaParseError(`${where} ${bound} needs type int`);
+      }
+    }
+    if (rule.type === 'enum' && !rule.allowedValues) {
+      throw new SchemaParseError(`${where} has type enum but no allowedValues`);
+    }
+    if (rule.default !== undefined && rule.template !== undefined) {
+      throw new SchemaParseError(`${where} has both default and template`);
+    }
+    const message = rule.default !== undefined ? checkValueAgainstRule(rule.default, rule) : null;
+    if (message) {
+      throw new SchemaParseError(`${where} default does not pass its rule (${message})`);
+    }
+  }
+}
+
+function parses(parse: () => unknown): boolean {
+  try {
+    parse();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const VALUE_TYPE_CHECKS: Record<SchemaValueType, (value: string) => boolean> = {
+  string: () => true,
+  int: (value) => /^[-+]?\d+$/.test(value),
+  bool: (value) => /^(true|false|1|0|yes|no)$/i.test(value),
+  url: (value) => /^[a-z][a-z\d+.-]*:\/\/\S+$/i.test(value) && parses(() => new URL(value)),
+  email: (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  json: (value) => parses(() => JSON.parse(value)),
+  duration: (value) => /^(\d+(\.\d+)?(ms|s|m|h|d))+$/.test(value),
+  // Checked through allowedValues
+  enum: () => true,
+};
+
+/**
+ * Check one value against its key rule
+ *
+ * @returns What the rule expects (never the value), or null when the value is valid
+ */
+export function checkValueAgainstRule(value: string, rule: KeyRule): string | null {
+  const type = rule.type ?? 'string';
+  if (!VALUE_TYPE_CHECKS[type](value)) {
+    return `expected ${type}`;
+  }
+  if (rule.allowedValues && !rule.allowedValues.includes(value)) {
+    return `expected one of: ${rule.allowedValues.join(', ')}`;
+  }
+  if (rule.pattern && !new RegExp(rule.pattern).test(value)) {
+    return `does not match pattern ${rule.pattern}`;
+  }
+  if (rule.min !== undefined && Number(value) < rule.min) {
+    return `must be at least ${rule.min}`;
+  }
+  if (rule.max !== undefined && Number(value) > rule.max) {
+    return `must be at most ${rule.max}`;
+  }
+  if (rule.minLength !== undefined && value.length < rule.minLength) {
+    return `must be at least ${rule.minLength} characters`;
+  }
+  return null;
+}
+
+/**
+ * Values of the given entries that break their key rules
+ */
+export function findSchemaViolations(
+  entries: DotenvEntry[],
+  schema: ServiceSchema
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  for (const entry of entries) {
+    const rule = schema.keys?.[entry.key];
+    if (!rule) continue;
+    const message = checkValueAgainstRule(entry.value, rule);
+    if (message) violations.push({ key: entry.key, message });
+  }
+  return violations.sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * One-line summary of violations, e.g. `PORT (expected int), LOG_LEVEL (expected one of: ...)`
+ */
+export function formatSchemaViolations(violations: SchemaViolation[]): string {
+  return violations.map((violation) => `${violation.key} (${violation.message})`).join(', ');
+}
+
 /**
  * Validate environment entries against a service schema
  *
  * @param entries - Dotenv entries to validate
  * @param schema - Service schema to validate against
- * @returns Validation result with missing and extra keys
+ * @returns Validation result with missing and extra keys and value violations
  */
 export function validateAgainstSchema(
   entries: DotenvEntry[],
   schema: ServiceSchema
 ): SchemaValidationResult {
   const entryKeys = new Set(entries.map((e) => e.key));
-  const allowedKeys = new Set([...schema.required, ...schema.optional]);
+  const allowedKeys = new Set([
+    ...schema.required,
+    ...schema.optional,
+    ...Object.keys(schema.keys ?? {}),
+  ]);
 
   const missing: string[] = [];
   const extra: string[] = [];
@@ -173,10 +583,13 @@ export function validateAgainstSchema(
     }
   }
 
+  const violations = findSchemaViolations(entries, schema);
+
   return {
-    valid: missing.length === 0,
+    valid: missing.length === 0 && violations.length === 0,
     missing: missing.sort(),
     extra: extra.sort(),
+    violations,
   };
 }
 
@@ -211,6 +624,112 @@ export function generateWithPlaceholders(
   return result.sort((a, b) => a.key.localeCompare(b.key));
 }
 
+const TEMPLATE_REFERENCE = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+/**
+ * Result of filling in schema defaults and templates
+ */
+export interface MaterializedSchemaValues {
+  /** Entries with the derived values added */
+  entries: DotenvEntry[];
+  /** Keys filled in from a default or template, sorted */
+  derived: string[];
+  /** Templates left unresolved: missing references or cycles, by key */
+  problems: SchemaViolation[];
+}
+
+/**
+ * Fill in keys the entries lack from their `default` or `template`. Templates
+ * reference other keys as `${KEY}`, which may be stored, defaulted or templated.
+ * Keys the entries already hold are never replaced.
+ */
+export function materializeSchemaValues(
+  entries: DotenvEntry[],
+  schema: ServiceSchema
+): MaterializedSchemaValues {
+  const values = new Map(entries.map((entry) => [entry.key, entry.value]));
+  const derived: string[] = [];
+  const problems: SchemaViolation[] = [];
+  const rules = Object.entries(schema.keys ?? {}).filter(([key]) => !values.has(key));
+
+  for (const [key, rule] of rules) {
+    if (rule.default === undefined) continue;
+    values.set(key, rule.default);
+    derived.push(key);
+  }
+
+  const templates = new Map(
+    rules.flatMap(([key, rule]) => (rule.template !== undefined ? [[key, rule.template]] : []))
+  );
+  const failed = new Set<string>();
+  const resolve = (key: string, chain: string[]): boolean => {
+    if (values.has(key)) return true;
+    if (failed.has(key)) return false;
+    const template = templates.get(key);
+    if (template === undefined) return false;
+    if (chain.includes(key)) {
+      const cycle = [...chain.slice(chain.indexOf(key)), key];
+      for (const member of new Set(cycle)) {
+        failed.add(member);
+        problems.push({ key: member, message: `template cycle: ${cycle.join(' -> ')}` });
+      }
+      return false;
+    }
+
+    const references = [...new Set([...template.matchAll(TEMPLATE_REFERENCE)].map((m) => m[1]!))];
+    const unresolved = references.filter((reference) => !resolve(reference, [...chain, key]));
+    if (failed.has(key)) return false; // Reported as part of a cycle
+    if (unresolved.length > 0) {
+      failed.add(key);
+      const missing = unresolved.filter((reference) => !templates.has(reference));
+      const broken = unresolved.filter((reference) => templates.has(reference));
+      problems.push({
+        key,
+        message: [
+          ...(missing.length > 0 ? [`references missing ${missing.join(', ')}`] : []),
+          ...(broken.length > 0 ? [`references unresolved ${broken.join(', ')}`] : []),
+        ].join('; '),
+      });
+      return false;
+    }
+
+    values.set(
+      key,
+      template.replace(TEMPLATE_REFERENCE, (_match, reference: string) => values.get(reference)!)
+    );
+    derived.push(key);
+    return true;
+  };
+  for (const key of templates.keys()) resolve(key, []);
+
+  const added = derived.map((key) => ({ key, value: values.get(key)! }));
+  return {
+    entries: [...entries, ...added],
+    derived: derived.sort(),
+    problems: problems.sort((a, b) => a.key.localeCompare(b.key)),
+  };
+}
+
+/**
+ * Keys whose value equals what their `default` or `template` derives from the
+ * other entries, i.e. values `pull` materialised rather than stored secrets
+ */
+export function findDerivedKeys(entries: DotenvEntry[], schema: ServiceSchema): string[] {
+  const derivable = new Set(
+    Object.entries(schema.keys ?? {})
+      .filter(([, rule]) => rule.default !== undefined || rule.template !== undefined)
+      .map(([key]) => key)
+  );
+  const base = entries.filter((entry) => !derivable.has(entry.key));
+  const derivedValues = new Map(
+    materializeSchemaValues(base, schema).entries.map((entry) => [entry.key, entry.value])
+  );
+  return entries
+    .filter((entry) => derivable.has(entry.key) && derivedValues.get(entry.key) === entry.value)
+    .map((entry) => entry.key)
+    .sort();
+}
+
 /**
  * Get default empty schema
  *
@@ -261,6 +780,13 @@ export function generateSchemaYaml(schema: Schema): string {
       } else {
         lines.push('    optional: []');
       }
+      const keyRules = Object.entries(serviceSchema.keys ?? {});
+      if (keyRules.length > 0) {
+        lines.push('    keys:');
+        for (const [key, rule] of keyRules) {
+          lines.push(`      ${key}: ${stringifyYaml(rule, { collectionStyle: 'flow' }).trim()}`);
+        }
+      }
     }
   }
 
@@ -276,8 +802,12 @@ export function generateSchemaYaml(schema: Schema): string {
 export function mergeSchemas(...schemas: ServiceSchema[]): ServiceSchema {
   const requiredSet = new Set<string>();
   const optionalSet = new Set<string>();
+  const keys: Record<string, KeyRule> = {};
 
   for (const schema of schemas) {
+    for (const [key, rule] of Object.entries(schema.keys ?? {})) {
+      keys[key] = { ...keys[key], ...rule }; // Later rules override field by field
+    }
     for (const key of schema.required) {
       requiredSet.add(key);
       optionalSet.delete(key); // Required takes precedence
@@ -292,5 +822,6 @@ export function mergeSchemas(...schemas: ServiceSchema[]): ServiceSchema {
   return {
     required: Array.from(requiredSet).sort(),
     optional: Array.from(optionalSet).sort(),
+    ...(Object.keys(keys).length > 0 ? { keys } : {}),
   };
 }
@@ -0,0 +1,68 @@
+import { existsSync } from 'fs'
+import { join } from 'path'
+import type { SecretFormat } from '../types/index.js'
+
+/** Default storage: a SOPS-encrypted YAML document */
+export const SOPS_YAML_EXTENSION = '.sops.yaml'
+/** SOPS-encrypted dotenv file (`sops --input-type dotenv`), adopted in place when present */
+export const SOPS_ENV_EXTENSION = '.sops.env'
+/** SOPS-encrypted JSON document (`sops --input-type json`) of json services */
+export const SOPS_JSON_EXTENSION = '.sops.json'
+/** SOPS binary store (`sops --input-type binary`) of binary services: the file bytes under `data` */
+export const SOPS_BINARY_EXTENSION = '.sops.bin'
+
+/** Glob suffix matching every secret file, e.g. `secrets/dev/*${SECRET_FILE_GLOB}` */
+export const SECRET_FILE_GLOB = '.sops.{yaml,env,json,bin}'
+
+/** SOPS store (`--input-type`/`--output-type`) of a secret file */
+export type SopsStoreType = 'yaml' | 'dotenv' | 'json' | 'binary'
+
+const SECRET_FILE_PATTERN = /([^/\\]+)[/\\]([^/\\]+)\.sops\.(?:yaml|env|json|bin)$/
+
+// Path of new files; existing files keep their extension
+const NEW_FILE_EXTENSIONS: Record<SecretFormat, string> = {
+  dotenv: SOPS_YAML_EXTENSION,
+  yaml: SOPS_YAML_EXTENSION,
+  json: SOPS_JSON_EXTENSION,
+  binary: SOPS_BINARY_EXTENSION,
+}
+
+/**
+ * Encrypted file of a service: an existing `<service>.sops.{env,json,bin}` is used as-is,
+ * otherwise the path for new files of the format (`<service>.sops.yaml` for dotenv and yaml)
+ */
+export function getSecretFilePath(
+  baseDir: string,
+  secretsDir: string,
+  env: string,
+  service: string,
+  format: SecretFormat = 'dotenv'
+): string {
+  const dir = join(baseDir, secretsDir, env)
+  const existing = [SOPS_ENV_EXTENSION, SOPS_JSON_EXTENSION, SOPS_BINARY_EXTENSION]
+    .map((extension) => join(dir, `${service}${extension}`))
+    .find((path) => existsSync(path))
+  return existing ?? join(dir, `${service}${NEW_FILE_EXTENSIONS[format]}`)
+}
+
+export function isDotenvSecretFile(filePath: string): boolean {
+  return filePath.endsWith(SOPS_ENV_EXTENSION)
+}
+
+/**
+ * SOPS store of a secret file, from its extension (as `sops` picks it)
+ */
+export function getSopsStoreType(filePath: string): SopsStoreType {
+  if (isDotenvSecretFile(filePath)) return 'dotenv'
+  if (filePath.endsWith(SOPS_JSON_EXTENSION)) return 'json'
+  if (filePath.endsWith(SOPS_BINARY_EXTENSION)) return 'binary'
+  return 'yaml'
+}
+
+/**
+ * Environment and service of a secret file path (`.../<env>/<service>.sops.{yaml,env,json,bin}`)
+ */
+export function parseSecretFilePath(filePath: string): { env: string; service: string } | null {
+  const match = filePath.match(SECRET_FILE_PATTERN)
+  return match ? { env: match[1]!, service: match[2]! } : null
+}
@@ -0,0 +1,14 @@
+/**
+ * True when a --service value is a wildcard pattern rather than a service name
+ */
+export function isServicePattern(value: string): boolean {
+  return value.includes('*')
+}
+
+/**
+ * Match a service name against a wildcard pattern (`*` matches any characters)
+ */
+export function matchesServicePattern(serviceName: string, pattern: string): boolean {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')
+  return new RegExp(`^${escaped}$`).test(serviceName)
+}
@@ -60,3 +60,9 @@ export {
 
 // Local overrides
 export * from './local-overrides.js'
+
+// Secret formats (dotenv, yaml, json, binary)
+export * from './secret-format.js'
+
+// Per-key metadata (description, owner, comment)
+export * from './key-metadata.js'
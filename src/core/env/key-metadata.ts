@@ -0,0 +1,106 @@
+/**
+ * Per-key metadata (description, owner, comment) stored next to the values
+ * @module gev:core/env/key-metadata
+ *
+ * Metadata lives under one top-level mapping whose name ends in `_unencrypted`,
+ * so sops leaves it readable (default `unencrypted_suffix`). In `.env` files it
+ * is the comment above a key: plain lines are the description, `@owner` and
+ * `@comment` lines the other fields.
+ */
+
+import type { EnvObject, SecretDocument } from '../types/index.js'
+import type { DotenvEntry, KeyMetadata } from './types.js'
+import { applyDotenvLayout, flattenSecretDocument } from './secret-format.js'
+
+/** Top-level field holding metadata per key in an encrypted YAML document */
+export const KEY_METADATA_FIELD = 'envvault_meta_unencrypted'
+
+const TAGGED_FIELDS = ['owner', 'comment', 'description'] as const
+
+/**
+ * Read metadata from the comment above a key
+ */
+export function keyMetadataFromComment(comment: string | undefined): KeyMetadata {
+  const description: string[] = []
+  const tagged: Partial<Record<(typeof TAGGED_FIELDS)[number], string[]>> = {}
+  for (const line of (comment ?? '').split('\n')) {
+    const match = line.match(/^@(\w+)\s*(.*)$/)
+    const field = TAGGED_FIELDS.find((name) => name === match?.[1])
+    if (match && field) {
+      tagged[field] = [...(tagged[field] ?? []), match[2]!]
+    } else if (line.trim()) {
+      description.push(line)
+    }
+  }
+
+  const metadata: KeyMetadata = {}
+  const allDescription = [...description, ...(tagged.description ?? [])]
+  if (allDescription.length > 0) metadata.description = allDescription.join('\n')
+  if (tagged.owner) metadata.owner = tagged.owner.join(', ')
+  if (tagged.comment) metadata.comment = tagged.comment.join('\n')
+  return metadata
+}
+
+/**
+ * Comment text for a key's metadata (inverse of keyMetadataFromComment)
+ */
+export function keyMetadataToComment(metadata: KeyMetadata | undefined): string | undefined {
+  if (!metadata) return undefined
+  const lines = [
+    ...(metadata.description ? metadata.description.split('\n') : []),
+    ...(metadata.owner ? [`@owner ${metadata.owner}`] : []),
+    ...(metadata.comment ? metadata.comment.split('\n').map((line) => `@comment ${line}`) : []),
+  ]
+  return lines.length > 0 ? lines.join('\n') : undefined
+}
+
+/**
+ * Document to encrypt: without a layout, the data as given; with one, a flat map in
+ * layout order plus the layout comments as per-key metadata
+ */
+export function toStoredDocument(data: SecretDocument, layout?: DotenvEntry[]): SecretDocument {
+  if (!layout) return { ...data }
+  const entries = applyDotenvLayout(flattenSecretDocument(data), layout)
+  const document: SecretDocument = {}
+  const metadata: Record<string, KeyMetadata> = {}
+  for (const entry of entries) {
+    document[entry.key] = entry.value
+    const keyMetadata = keyMetadataFromComment(entry.comment)
+    if (Object.keys(keyMetadata).length > 0) metadata[entry.key] = keyMetadata
+  }
+  if (Object.keys(metadata).length > 0) document[KEY_METADATA_FIELD] = metadata
+  return document
+}
+
+/**
+ * Split a decrypted document into the secret values and entries carrying
+ * each key's metadata as its comment (stored key order)
+ */
+export function fromStoredDocument(stored: SecretDocument): {
+  tree: SecretDocument
+  data: EnvObject
+  entries: DotenvEntry[]
+} {
+  const { [KEY_METADATA_FIELD]: rawMetadata, ...tree } = stored
+  const metadata = isRecord(rawMetadata) ? rawMetadata : {}
+  const data = flattenSecretDocument(tree)
+  const entries = Object.entries(data).map(([key, value]) => ({
+    key,
+    value,
+    comment: keyMetadataToComment(readKeyMetadata(metadata[key])),
+  }))
+  return { tree, data, entries }
+}
+
+function readKeyMetadata(value: unknown): KeyMetadata | undefined {
+  if (!isRecord(value)) return undefined
+  const metadata: KeyMetadata = {}
+  for (const field of TAGGED_FIELDS) {
+    if (typeof value[field] === 'string') metadata[field] = value[field]
+  }
+  return metadata
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+}
@@ -69,13 +69,10 @@ export function parseDotenv(content: string): DotenvFile {
       continue
     }
     
-    // Comment line or managed block marker
+    // Comment line or managed block marker: belongs to the next variable
     if (trimmedLine.startsWith('#')) {
       const commentText = trimmedLine.slice(1).trim()
-      if (order.length === 0) {
-        // Before any variables - this is a leading comment
-        currentComment += (currentComment ? '\n' : '') + commentText
-      }
+      currentComment += (currentComment ? '\n' : '') + commentText
       continue
     }
     
@@ -0,0 +1,156 @@
+/**
+ * Per-service secret formats (dotenv, yaml, json, binary)
+ * @module gev:core/env/secret-format
+ *
+ * json and binary secrets are stored in the sops json and binary stores (`.sops.json`,
+ * `.sops.bin`), the others as SOPS YAML. In memory a binary file is its base64 under
+ * `data`, so any bytes survive. Nested values are shown to dotenv consumers as `A__B` keys.
+ */
+
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml'
+import {
+  ParseError,
+  type EnvObject,
+  type SecretDocument,
+  type SecretFormat,
+  type ServiceConfig,
+} from '../types/index.js'
+import { parseDotenv } from './parse-dotenv.js'
+import { renderDotenv } from './render-dotenv.js'
+import type { DotenvEntry } from './types.js'
+
+/** Separator between nested keys in flattened (dotenv) form */
+export const FLATTENED_KEY_SEPARATOR = '__'
+/** Key holding the base64 file contents of a binary secret */
+export const BINARY_DATA_KEY = 'data'
+
+const VERBATIM_EXTENSIONS: Record<SecretFormat, RegExp | null> = {
+  dotenv: null,
+  yaml: /\.ya?ml$/i,
+  json: /\.json$/i,
+  binary: /$/,
+}
+
+/** Suffix for temp files holding a rendered document (e.g. for an editor) */
+export const SECRET_FORMAT_EXTENSIONS: Record<SecretFormat, string> = {
+  dotenv: '.env',
+  yaml: '.yaml',
+  json: '.json',
+  binary: '.bin',
+}
+
+export function getServiceFormat(service: ServiceConfig): SecretFormat {
+  return service.format ?? 'dotenv'
+}
+
+/**
+ * Whether `pull` writes the decrypted document as-is instead of flattened dotenv:
+ * always for binary, and for yaml/json when envOutput has the matching extension
+ */
+export function isVerbatimOutput(service: ServiceConfig): boolean {
+  return VERBATIM_EXTENSIONS[getServiceFormat(service)]?.test(service.envOutput) ?? false
+}
+
+/**
+ * Flatten a document to dotenv keys: nested mappings and list items join with `__`
+ * (`DB: { HOST: x }` -> `DB__HOST=x`, `HOSTS: [a, b]` -> `HOSTS__0=a`). Nulls are dropped.
+ */
+export function flattenSecretDocument(document: SecretDocument): EnvObject {
+  const out: EnvObject = {}
+  const visit = (value: unknown, key: string): void => {
+    if (value === null || value === undefined) return
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, `${key}${FLATTENED_KEY_SEPARATOR}${index}`))
+      return
+    }
+    if (typeof value === 'object' && !(value instanceof Uint8Array)) {
+      for (const [child, childValue] of Object.entries(value)) {
+        visit(childValue, `${key}${FLATTENED_KEY_SEPARATOR}${child}`)
+      }
+      return
+    }
+    out[key] = value instanceof Uint8Array ? Buffer.from(value).toString('utf-8') : String(value)
+  }
+  for (const [key, value] of Object.entries(document)) {
+    visit(value, key)
+  }
+  return out
+}
+
+/**
+ * Entries for a flat map in the order of an existing layout, keeping its comments.
+ * Keys missing from the layout follow in map order; the first layout entry per key wins.
+ */
+export function applyDotenvLayout(data: EnvObject, layout: DotenvEntry[] = []): DotenvEntry[] {
+  const entries: DotenvEntry[] = []
+  const placed = new Set<string>()
+  for (const entry of layout) {
+    if (placed.has(entry.key) || !(entry.key in data)) continue
+    placed.add(entry.key)
+    entries.push({ key: entry.key, value: data[entry.key]!, comment: entry.comment })
+  }
+  for (const [key, value] of Object.entries(data)) {
+    if (!placed.has(key)) entries.push({ key, value })
+  }
+  return entries
+}
+
+/**
+ * Parse a local file of the given format into the document to encrypt. Read binary
+ * files as a Buffer: a utf-8 string loses bytes that are not valid utf-8.
+ */
+export function parseSecretDocument(
+  format: SecretFormat,
+  content: string | Buffer
+): SecretDocument {
+  if (format === 'binary') {
+    return { [BINARY_DATA_KEY]: Buffer.from(content).toString('base64') }
+  }
+  const text = content.toString()
+  switch (format) {
+    case 'dotenv':
+      return { ...parseDotenv(text).env }
+    case 'yaml':
+    case 'json': {
+      let parsed: unknown
+      try {
+        parsed = format === 'json' ? JSON.parse(text) : (parseYaml(text) ?? {})
+      } catch (error) {
+        throw new ParseError(`Invalid ${format}: ${(error as Error).message}`)
+      }
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new ParseError(`Expected a ${format} object at the top level`)
+      }
+      return parsed as SecretDocument
+    }
+  }
+}
+
+/**
+ * Flat view of a service's local envOutput file, comparable with the decrypted `data`
+ */
+export function parseServiceOutput(service: ServiceConfig, content: string | Buffer): EnvObject {
+  return isVerbatimOutput(service)
+    ? flattenSecretDocument(parseSecretDocument(getServiceFormat(service), content))
+    : parseDotenv(content.toString()).env
+}
+
+/**
+ * Render a decrypted document in the given format (dotenv is flattened, binary is the
+ * decoded file contents)
+ */
+export function renderSecretDocument(
+  format: SecretFormat,
+  document: SecretDocument
+): string | Buffer {
+  switch (format) {
+    case 'dotenv':
+      return renderDotenv(flattenSecretDocument(document))
+    case 'binary':
+      return Buffer.from(String(document[BINARY_DATA_KEY] ?? ''), 'base64')
+    case 'yaml':
+      return stringifyYaml(document)
+    case 'json':
+      return `${JSON.stringify(document, null, 2)}\n`
+  }
+}
@@ -31,6 +31,18 @@ export interface DotenvEntry {
   lineNumber?: number | undefined
 }
 
+/**
+ * Documentation kept with a secret key (stored unencrypted, rendered as comments)
+ */
+export interface KeyMetadata {
+  /** What the key is for */
+  description?: string
+  /** Team or person responsible for the value */
+  owner?: string
+  /** Free-form note, e.g. rotation schedule */
+  comment?: string
+}
+
 /**
  * Parsed dotenv file structure
  */
@@ -24,7 +24,7 @@ export interface AtomicWriteOptions {
   backupPath?: string;
   /** Skip write if content is identical (default: true) */
   skipIfIdentical?: boolean;
-  /** Encoding for file write (default: 'utf-8') */
+  /** Encoding for string content (default: 'utf-8') */
   encoding?: BufferEncoding;
 }
 
@@ -65,10 +65,10 @@ async function fileExists(filePath: string): Promise<boolean> {
 /**
  * Read file content if it exists, return null otherwise
  */
-async function readFileIfExists(filePath: string): Promise<string | null> {
+async function readFileIfExists(filePath: string): Promise<Buffer | null> {
   try {
     const { readFile } = await import('fs/promises');
-    return await readFile(filePath, 'utf-8');
+    return await readFile(filePath);
   } catch {
     return null;
   }
@@ -83,7 +83,7 @@ async function readFileIfExists(filePath: string): Promise<string | null> {
  */
 export async function shouldWrite(
   filePath: string,
-  newContent: string
+  newContent: string | Buffer
 ): Promise<boolean> {
   const existingContent = await readFileIfExists(filePath);
 
@@ -91,7 +91,7 @@ export async function shouldWrite(
     return true; // File doesn't exist, need to write
   }
 
-  return existingContent !== newContent;
+  return !existingContent.equals(Buffer.from(newContent));
 }
 
 /**
@@ -173,7 +173,7 @@ async function renameWithRetry(tempPath: string, filePath: string, maxRetries: n
  */
 export async function atomicWriteFile(
   filePath: string,
-  content: string,
+  content: string | Buffer,
   options: AtomicWriteOptions = {}
 ): Promise<AtomicWriteResult> {
   const {
@@ -241,7 +241,7 @@ export async function atomicWriteFile(
  */
 export async function atomicWriteWithRetry(
   filePath: string,
-  content: string,
+  content: string | Buffer,
   maxRetries: number = 3,
   options: AtomicWriteOptions = {}
 ): Promise<AtomicWriteResult> {
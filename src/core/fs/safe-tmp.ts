@@ -12,7 +12,7 @@ const TMP_PREFIX = 'tmp-'
  * Automatically cleans up on process exit
  */
 export async function createSecureTempFile(
-  content: string,
+  content: string | Buffer,
   options: { prefix?: string; suffix?: string } = {}
 ): Promise<TempFile> {
   const { prefix = TMP_PREFIX, suffix = '' } = options
@@ -31,9 +31,17 @@ export async function createSecureTempFile(
 
   let cleaned = false
 
+  // Register cleanup on exit
+  const exitHandler = (): void => {
+    cleanup().catch(() => {})
+  }
+
   const cleanup = async (): Promise<void> => {
     if (cleaned) return
     cleaned = true
+    process.off('exit', exitHandler)
+    process.off('SIGINT', exitHandler)
+    process.off('SIGTERM', exitHandler)
     try {
       await rm(filepath, { force: true })
     } catch {
@@ -41,10 +49,6 @@ export async function createSecureTempFile(
     }
   }
 
-  // Register cleanup on exit
-  const exitHandler = (): void => {
-    cleanup().catch(() => {})
-  }
   process.on('exit', exitHandler)
   process.on('SIGINT', exitHandler)
   process.on('SIGTERM', exitHandler)
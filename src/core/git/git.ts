@@ -151,6 +151,91 @@ export class GitAdapter {
     }
   }
 
+  /**
+   * Check whether a ref resolves to a commit
+   */
+  async refExists(ref: string): Promise<boolean> {
+    try {
+      const result = await execa('git', ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], {
+        cwd: this.cwd,
+        env: this.env,
+        reject: false
+      })
+      return result.exitCode === 0
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Merge base of HEAD with its upstream branch, or with origin's default branch
+   * when no upstream is set. Returns null when neither exists.
+   */
+  async getUpstreamMergeBase(): Promise<string | null> {
+    for (const ref of ['@{upstream}', 'origin/HEAD']) {
+      try {
+        const result = await execa('git', ['merge-base', 'HEAD', ref], {
+          cwd: this.cwd,
+          env: this.env,
+          reject: false
+        })
+        if (result.exitCode === 0 && result.stdout.trim()) {
+          return result.stdout.trim()
+        }
+      } catch {
+        return null
+      }
+    }
+    return null
+  }
+
+  /**
+   * Get file content at an arbitrary ref
+   */
+  async getFileAtRef(ref: string, filepath: string): Promise<string | null> {
+    try {
+      const result = await execa('git', ['show', `${ref}:${filepath}`], {
+        cwd: this.cwd,
+        env: this.env,
+        reject: false
+      })
+      if (result.exitCode === 0) {
+        return result.stdout
+      }
+      return null
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * List files changed between a ref and the working tree (including untracked files).
+   * Returns null when the ref cannot be resolved (e.g. first commit).
+   */
+  async changedFilesSince(ref: string): Promise<string[] | null> {
+    try {
+      const diff = await execa('git', ['diff', '--name-only', ref], {
+        cwd: this.cwd,
+        env: this.env,
+        reject: false
+      })
+      if (diff.exitCode !== 0) {
+        return null
+      }
+      const untracked = await execa('git', ['ls-files', '--others', '--exclude-standard'], {
+        cwd: this.cwd,
+        env: this.env,
+        reject: false
+      })
+      const files = [...diff.stdout.split('\n'), ...untracked.stdout.split('\n')]
+        .map((file) => file.trim())
+        .filter(Boolean)
+      return [...new Set(files)]
+    } catch {
+      return null
+    }
+  }
+
   /**
    * Get diff between HEAD and working tree for a file
    */
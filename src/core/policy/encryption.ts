@@ -0,0 +1,33 @@
+import { ConfigError, EnvVaultPolicy } from '../types/index.js'
+import { KEY_METADATA_FIELD } from '../env/key-metadata.js'
+
+const POLICY_FILE = 'envvault.policy.json'
+
+/**
+ * Validate `encryptedRegex` of every environment: a valid regex that does not
+ * match the per-key metadata mapping itself. Leaf names inside the mapping are
+ * not checked: a metadata field whose key or name matches is encrypted, while
+ * the rest of the mapping stays readable.
+ */
+export function validatePolicyEncryption(policy: EnvVaultPolicy): void {
+  for (const [env, envPolicy] of Object.entries(policy.environments)) {
+    const { encryptedRegex } = envPolicy
+    if (encryptedRegex === undefined) continue
+    if (typeof encryptedRegex !== 'string' || !encryptedRegex.trim()) {
+      throw new ConfigError(`${POLICY_FILE}: ${env}.encryptedRegex must be a non-empty string`)
+    }
+    let pattern: RegExp
+    try {
+      pattern = new RegExp(encryptedRegex)
+    } catch (error) {
+      throw new ConfigError(
+        `${POLICY_FILE}: ${env}.encryptedRegex is not a valid regex: ${(error as Error).message}`
+      )
+    }
+    if (pattern.test(KEY_METADATA_FIELD)) {
+      throw new ConfigError(
+        `${POLICY_FILE}: ${env}.encryptedRegex must not match "${KEY_METADATA_FIELD}", which would encrypt per-key metadata`
+      )
+    }
+  }
+}
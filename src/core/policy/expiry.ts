@@ -0,0 +1,173 @@
+import { ConfigError, EnvVaultPolicy, RecipientEntry } from '../types/index.js'
+import {
+  expandRecipients,
+  getRecipientEntryName,
+  isGroupReference,
+  isMemberExpired,
+  isMemberReference,
+} from './members.js'
+
+const POLICY_FILE = 'envvault.policy.json'
+
+/**
+ * An age key that is only granted to a service through an expired entry or member
+ */
+export interface ExpiredRecipient {
+  env: string
+  service: string
+  /** Entry name as written in the policy (key, member alias or group) */
+  entry: string
+  /** Expired member behind the entry, when the entry itself has no expiry */
+  member?: string
+  expiresAt: string
+  keys: string[]
+}
+
+export function isGrantExpired(entry: RecipientEntry, now: Date = new Date()): boolean {
+  if (typeof entry === 'string' || !entry.expiresAt) return false
+  return new Date(entry.expiresAt).getTime() <= now.getTime()
+}
+
+function expiredMembersOf(policy: EnvVaultPolicy, name: string, now: Date): string[] {
+  const aliases = isGroupReference(policy, name) ? policy.groups![name]!.members : [name]
+  return aliases.filter(
+    (alias) => isMemberReference(policy, alias) && isMemberExpired(policy.members![alias]!, now)
+  )
+}
+
+function getServiceEntries(policy: EnvVaultPolicy, env: string, service: string): RecipientEntry[] {
+  const envPolicy = policy.environments[env]!
+  return [...(envPolicy.recipients ?? []), ...(envPolicy.services[service]?.recipients ?? [])]
+}
+
+/**
+ * Find expired grants per environment/service. Keys still granted through an
+ * active entry on the same service are not reported.
+ */
+export function findExpiredRecipients(
+  policy: EnvVaultPolicy,
+  now: Date = new Date()
+): ExpiredRecipient[] {
+  const expired: ExpiredRecipient[] = []
+
+  for (const env of Object.keys(policy.environments).sort()) {
+    for (const service of Object.keys(policy.environments[env]!.services).sort()) {
+      const candidates: ExpiredRecipient[] = []
+      const active = new Set<string>()
+
+      for (const entry of getServiceEntries(policy, env, service)) {
+        const name = getRecipientEntryName(entry)
+        if (isGrantExpired(entry, now)) {
+          candidates.push({
+            env,
+            service,
+            entry: name,
+            expiresAt: (entry as { expiresAt: string }).expiresAt,
+            keys: expandRecipients(policy, [name]),
+          })
+          continue
+        }
+
+        const expiredMembers = expiredMembersOf(policy, name, now)
+        for (const member of expiredMembers) {
+          candidates.push({
+            env,
+            service,
+            entry: name,
+            member,
+            expiresAt: policy.members![member]!.expiresAt!,
+            keys: policy.members![member]!.ageKeys,
+          })
+        }
+        const activeNames = isGroupReference(policy, name)
+          ? policy.groups![name]!.members.filter((alias) => !expiredMembers.includes(alias))
+          : expiredMembers.length > 0
+            ? []
+            : [name]
+        for (const key of expandRecipients(policy, activeNames)) active.add(key)
+      }
+
+      for (const candidate of candidates) {
+        const keys = candidate.keys.filter((key) => !active.has(key))
+        if (keys.length > 0) expired.push({ ...candidate, keys })
+      }
+    }
+  }
+
+  return expired
+}
+
+/**
+ * Remove expired grants from the policy (in place): entries past their own
+ * expiry, entries referencing expired members, and expired members inside groups.
+ * Returns the environment/services whose effective keys changed.
+ */
+export function removeExpiredRecipients(
+  policy: EnvVaultPolicy,
+  now: Date = new Date()
+): Array<{ env: string; service: string }> {
+  const snapshot = (): Map<string, string> => {
+    const keys = new Map<string, string>()
+    for (const [env, envPolicy] of Object.entries(policy.environments)) {
+      for (const service of Object.keys(envPolicy.services)) {
+        const names = getServiceEntries(policy, env, service).map(getRecipientEntryName)
+        keys.set(`${env}/${service}`, expandRecipients(policy, names).sort().join(','))
+      }
+    }
+    return keys
+  }
+  const before = snapshot()
+
+  const keep = (entry: RecipientEntry): boolean => {
+    if (isGrantExpired(entry, now)) return false
+    const name = getRecipientEntryName(entry)
+    return !(isMemberReference(policy, name) && isMemberExpired(policy.members![name]!, now))
+  }
+  for (const envPolicy of Object.values(policy.environments)) {
+    if (envPolicy.recipients) envPolicy.recipients = envPolicy.recipients.filter(keep)
+    for (const servicePolicy of Object.values(envPolicy.services)) {
+      servicePolicy.recipients = servicePolicy.recipients.filter(keep)
+    }
+  }
+  for (const group of Object.values(policy.groups ?? {})) {
+    group.members = group.members.filter(
+      (alias) =>
+        !(isMemberReference(policy, alias) && isMemberExpired(policy.members![alias]!, now))
+    )
+  }
+
+  const after = snapshot()
+  return [...before.keys()]
+    .filter((id) => before.get(id) !== after.get(id))
+    .sort()
+    .map((id) => {
+      const [env, service] = id.split('/') as [string, string]
+      return { env, service }
+    })
+}
+
+/**
+ * Validate object-form recipient entries ({ recipient, expiresAt })
+ */
+export function validateRecipientGrants(policy: EnvVaultPolicy): void {
+  const check = (entries: RecipientEntry[] | undefined, where: string): void => {
+    for (const entry of entries ?? []) {
+      if (typeof entry === 'string') continue
+      if (!entry || typeof entry.recipient !== 'string' || !entry.recipient.trim()) {
+        throw new ConfigError(`${POLICY_FILE}: ${where} has an entry without "recipient"`)
+      }
+      if (entry.expiresAt !== undefined && Number.isNaN(new Date(entry.expiresAt).getTime())) {
+        throw new ConfigError(
+          `${POLICY_FILE}: ${where} entry "${entry.recipient}" has an invalid expiresAt date`
+        )
+      }
+    }
+  }
+
+  for (const [env, envPolicy] of Object.entries(policy.environments)) {
+    check(envPolicy.recipients, env)
+    for (const [service, servicePolicy] of Object.entries(envPolicy.services)) {
+      check(servicePolicy.recipients, `${env}/${service}`)
+    }
+  }
+}
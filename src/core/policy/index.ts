@@ -1,2 +1,9 @@
 export * from './canonical-json.js'
 export * from './signature.js'
+export * from './signers.js'
+export * from './scope.js'
+export * from './members.js'
+export * from './expiry.js'
+export * from './offboard.js'
+export * from './key-groups.js'
+export * from './encryption.js'
@@ -0,0 +1,85 @@
+import { ConfigError, EnvVaultPolicy, KeyGroupsPolicy } from '../types/index.js'
+import { expandRecipients, getServiceRecipientEntries } from './members.js'
+
+const POLICY_FILE = 'envvault.policy.json'
+
+/**
+ * Entries of each key group (group names, member aliases or keys), unexpanded
+ */
+export function getKeyGroupEntries(keyGroups: KeyGroupsPolicy): string[][] {
+  return keyGroups.groups.map((item) => (typeof item === 'string' ? [item] : item))
+}
+
+/**
+ * Short label of each key group, e.g. `sre` or `alice+bob`
+ */
+export function describeKeyGroups(keyGroups: KeyGroupsPolicy): string[] {
+  return getKeyGroupEntries(keyGroups).map((entries) => entries.join('+'))
+}
+
+/**
+ * Number of key groups needed to decrypt: the configured threshold, or all groups
+ */
+export function getKeyGroupsThreshold(keyGroups: KeyGroupsPolicy): number {
+  return keyGroups.threshold ?? keyGroups.groups.length
+}
+
+/**
+ * Expanded keys of each SOPS key group for one service. Without `keyGroups` this is
+ * one group with the service recipients. With `keyGroups`, recipients granted directly
+ * on the service (or environment) are added to every group, so they can still decrypt alone.
+ */
+export function getServiceKeyGroups(
+  policy: EnvVaultPolicy,
+  env: string,
+  service: string
+): string[][] {
+  const direct = expandRecipients(policy, getServiceRecipientEntries(policy, env, service))
+  const keyGroups = policy.environments[env]?.keyGroups
+  if (!keyGroups) {
+    return direct.length > 0 ? [direct] : []
+  }
+  return getKeyGroupEntries(keyGroups).map((entries) => [
+    ...new Set([...expandRecipients(policy, entries), ...direct]),
+  ])
+}
+
+/**
+ * Why recipients cannot be granted directly on an environment, or null when they can.
+ * Direct recipients are added to every key group, so they would decrypt without the quorum.
+ */
+export function getDirectGrantBlocker(policy: EnvVaultPolicy, env: string): string | null {
+  const keyGroups = policy.environments[env]?.keyGroups
+  if (!keyGroups) return null
+  const quorum = `${getKeyGroupsThreshold(keyGroups)} of ${keyGroups.groups.length}`
+  return `${env} uses keyGroups (${quorum}): a direct grant would decrypt without the quorum. Add the recipient to a key group in ${POLICY_FILE} instead.`
+}
+
+export function validatePolicyKeyGroups(policy: EnvVaultPolicy): void {
+  for (const [env, envPolicy] of Object.entries(policy.environments)) {
+    const keyGroups = envPolicy.keyGroups
+    if (keyGroups === undefined) continue
+    if (!keyGroups || !Array.isArray(keyGroups.groups) || keyGroups.groups.length === 0) {
+      throw new ConfigError(`${POLICY_FILE}: ${env}.keyGroups must have a non-empty groups list`)
+    }
+    for (const item of keyGroups.groups) {
+      const entries = typeof item === 'string' ? [item] : item
+      if (
+        !Array.isArray(entries) ||
+        entries.length === 0 ||
+        entries.some((entry) => typeof entry !== 'string' || !entry.trim())
+      ) {
+        throw new ConfigError(`${POLICY_FILE}: ${env}.keyGroups has an empty key group`)
+      }
+    }
+    const { threshold } = keyGroups
+    if (
+      threshold !== undefined &&
+      (!Number.isInteger(threshold) || threshold < 1 || threshold > keyGroups.groups.length)
+    ) {
+      throw new ConfigError(
+        `${POLICY_FILE}: ${env}.keyGroups.threshold must be between 1 and ${keyGroups.groups.length}`
+      )
+    }
+  }
+}
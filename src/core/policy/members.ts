@@ -0,0 +1,218 @@
+import {
+  ConfigError,
+  EnvVaultPolicy,
+  PolicyMember,
+  RecipientEntry,
+} from '../types/index.js'
+
+const POLICY_FILE = 'envvault.policy.json'
+
+/**
+ * Key, alias or group name of a recipients entry
+ */
+export function getRecipientEntryName(entry: RecipientEntry): string {
+  return typeof entry === 'string' ? entry : entry.recipient
+}
+
+/**
+ * Index of the entry with the given name, or -1
+ */
+export function findRecipientEntryIndex(entries: RecipientEntry[], name: string): number {
+  return entries.findIndex((entry) => getRecipientEntryName(entry) === name)
+}
+
+/**
+ * True when a recipients entry refers to a member alias rather than a raw key
+ */
+export function isMemberReference(policy: EnvVaultPolicy, entry: string): boolean {
+  return Boolean(policy.members && Object.hasOwn(policy.members, entry))
+}
+
+/**
+ * True when a recipients entry refers to a group
+ */
+export function isGroupReference(policy: EnvVaultPolicy, entry: string): boolean {
+  return Boolean(policy.groups && Object.hasOwn(policy.groups, entry))
+}
+
+function expandEntry(policy: EnvVaultPolicy, entry: string): string[] {
+  return isMemberReference(policy, entry) ? policy.members![entry]!.ageKeys : [entry]
+}
+
+/**
+ * Expand groups and member aliases to age keys. Other entries are kept as raw keys.
+ * The result is de-duplicated, preserving first occurrence order.
+ */
+export function expandRecipients(policy: EnvVaultPolicy, entries: string[]): string[] {
+  const keys: string[] = []
+  for (const entry of entries) {
+    if (isGroupReference(policy, entry)) {
+      for (const groupEntry of policy.groups![entry]!.members) {
+        keys.push(...expandEntry(policy, groupEntry))
+      }
+    } else {
+      keys.push(...expandEntry(policy, entry))
+    }
+  }
+  return [...new Set(keys)]
+}
+
+/**
+ * Unexpanded recipient entry names for one service: environment-wide entries first
+ */
+export function getServiceRecipientEntries(
+  policy: EnvVaultPolicy,
+  env: string,
+  service: string
+): string[] {
+  const envPolicy = policy.environments[env]
+  if (!envPolicy) return []
+  return [
+    ...(envPolicy.recipients ?? []),
+    ...(envPolicy.services[service]?.recipients ?? []),
+  ].map(getRecipientEntryName)
+}
+
+/**
+ * Environment/service pairs whose recipients reference the given group or member,
+ * either on the service, environment-wide or in the environment's key groups
+ */
+export function findRecipientUsages(
+  policy: EnvVaultPolicy,
+  entry: string
+): Array<{ env: string; service: string }> {
+  const usages: Array<{ env: string; service: string }> = []
+  for (const env of Object.keys(policy.environments).sort()) {
+    for (const service of Object.keys(policy.environments[env]!.services).sort()) {
+      const keyGroupEntries = (policy.environments[env]!.keyGroups?.groups ?? []).flat()
+      if (
+        getServiceRecipientEntries(policy, env, service).includes(entry) ||
+        keyGroupEntries.includes(entry)
+      ) {
+        usages.push({ env, service })
+      }
+    }
+  }
+  return usages
+}
+
+/**
+ * What an environment resolves through the top-level `members` and `groups` maps: the
+ * keys of each member alias or group it references (recipients and key groups), and
+ * member expiry dates. Editing those maps changes who can decrypt the environment
+ * without changing its own block, so environment signatures and touched-environment
+ * checks include this.
+ */
+export function getEnvironmentReferences(
+  policy: EnvVaultPolicy,
+  env: string
+): Record<string, { keys: string[]; expiresAt?: string }> {
+  const envPolicy = policy.environments[env]
+  if (!envPolicy) return {}
+  const entries = [
+    ...(envPolicy.recipients ?? []).map(getRecipientEntryName),
+    ...Object.values(envPolicy.services).flatMap((service) =>
+      service.recipients.map(getRecipientEntryName)
+    ),
+    ...(envPolicy.keyGroups?.groups ?? []).flat(),
+  ]
+  const names = new Set<string>()
+  for (const entry of entries) {
+    if (isGroupReference(policy, entry)) {
+      names.add(entry)
+      for (const groupEntry of policy.groups![entry]!.members) {
+        if (isMemberReference(policy, groupEntry)) names.add(groupEntry)
+      }
+    } else if (isMemberReference(policy, entry)) {
+      names.add(entry)
+    }
+  }
+
+  const references: Record<string, { keys: string[]; expiresAt?: string }> = {}
+  for (const name of [...names].sort()) {
+    const expiresAt = policy.members?.[name]?.expiresAt
+    references[name] = {
+      keys: expandRecipients(policy, [name]),
+      ...(expiresAt !== undefined ? { expiresAt } : {}),
+    }
+  }
+  return references
+}
+
+/**
+ * Aliases of members holding the given age key
+ */
+export function findMembersByKey(policy: EnvVaultPolicy, ageKey: string): string[] {
+  return Object.entries(policy.members ?? {})
+    .filter(([, member]) => member.ageKeys.includes(ageKey))
+    .map(([alias]) => alias)
+    .sort()
+}
+
+export function isMemberExpired(member: PolicyMember, now: Date = new Date()): boolean {
+  if (!member.expiresAt) return false
+  return new Date(member.expiresAt).getTime() <= now.getTime()
+}
+
+/**
+ * One-line description of a member for review output
+ */
+export function describeMember(alias: string, member: PolicyMember): string {
+  const identity = [member.name, member.email ? `<${member.email}>` : undefined]
+    .filter(Boolean)
+    .join(' ')
+  const keys = `${member.ageKeys.length} key${member.ageKeys.length === 1 ? '' : 's'}`
+  const expiry = member.expiresAt ? `, expires ${member.expiresAt}` : ''
+  return `${alias}${identity ? `: ${identity}` : ''} (${keys}${expiry})`
+}
+
+export function validatePolicyMembers(policy: EnvVaultPolicy): void {
+  if (policy.members === undefined) return
+  if (!policy.members || typeof policy.members !== 'object' || Array.isArray(policy.members)) {
+    throw new ConfigError(`${POLICY_FILE}: members must be an object`)
+  }
+
+  for (const [alias, member] of Object.entries(policy.members)) {
+    if (alias.startsWith('age1')) {
+      throw new ConfigError(`${POLICY_FILE}: member alias "${alias}" must not look like an age key`)
+    }
+    if (
+      !member ||
+      !Array.isArray(member.ageKeys) ||
+      member.ageKeys.length === 0 ||
+      member.ageKeys.some((key) => typeof key !== 'string' || !key.trim())
+    ) {
+      throw new ConfigError(`${POLICY_FILE}: member "${alias}" must have at least one age key`)
+    }
+    if (member.expiresAt !== undefined && Number.isNaN(new Date(member.expiresAt).getTime())) {
+      throw new ConfigError(`${POLICY_FILE}: member "${alias}" has an invalid expiresAt date`)
+    }
+  }
+}
+
+export function validatePolicyGroups(policy: EnvVaultPolicy): void {
+  if (policy.groups === undefined) return
+  if (!policy.groups || typeof policy.groups !== 'object' || Array.isArray(policy.groups)) {
+    throw new ConfigError(`${POLICY_FILE}: groups must be an object`)
+  }
+
+  for (const [name, group] of Object.entries(policy.groups)) {
+    if (name.startsWith('age1')) {
+      throw new ConfigError(`${POLICY_FILE}: group "${name}" must not look like an age key`)
+    }
+    if (isMemberReference(policy, name)) {
+      throw new ConfigError(`${POLICY_FILE}: group "${name}" has the same name as a member`)
+    }
+    if (!group || !Array.isArray(group.members)) {
+      throw new ConfigError(`${POLICY_FILE}: group "${name}" must have a members list`)
+    }
+    for (const entry of group.members) {
+      if (typeof entry !== 'string' || !entry.trim()) {
+        throw new ConfigError(`${POLICY_FILE}: group "${name}" has an empty member entry`)
+      }
+      if (isGroupReference(policy, entry)) {
+        throw new ConfigError(`${POLICY_FILE}: group "${name}" cannot contain group "${entry}"`)
+      }
+    }
+  }
+}
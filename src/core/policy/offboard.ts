@@ -0,0 +1,121 @@
+import { EnvVaultPolicy, RecipientEntry } from '../types/index.js'
+import { getRecipientEntryName } from './members.js'
+import { getKeyGroupsThreshold, getServiceKeyGroups } from './key-groups.js'
+
+/**
+ * Person being offboarded: every age key they hold, plus their member alias if any
+ */
+export interface OffboardTarget {
+  keys: string[]
+  member?: string
+}
+
+/**
+ * Environment/service pairs whose effective recipients (any key group) include any of the given keys
+ */
+export function findServicesGrantingKeys(
+  policy: EnvVaultPolicy,
+  keys: string[]
+): Array<{ env: string; service: string }> {
+  const granted: Array<{ env: string; service: string }> = []
+  for (const env of Object.keys(policy.environments).sort()) {
+    for (const service of Object.keys(policy.environments[env]!.services).sort()) {
+      const effective = getServiceKeyGroups(policy, env, service).flat()
+      if (effective.some((key) => keys.includes(key))) {
+        granted.push({ env, service })
+      }
+    }
+  }
+  return granted
+}
+
+/**
+ * Environment whose key groups quorum would drop when a person is removed
+ */
+export interface QuorumReduction {
+  env: string
+  threshold: number
+  groups: number
+  /** Threshold and number of groups afterwards; 0 when no key group is left */
+  newThreshold: number
+  newGroups: number
+}
+
+/**
+ * Environments where removing the person empties key groups and so lowers the
+ * number of groups needed to decrypt. The policy is not changed.
+ */
+export function findQuorumReductions(
+  policy: EnvVaultPolicy,
+  target: OffboardTarget
+): QuorumReduction[] {
+  const after = structuredClone(policy)
+  removeRecipientEverywhere(after, target)
+  const reductions: QuorumReduction[] = []
+  for (const env of Object.keys(policy.environments).sort()) {
+    const before = policy.environments[env]!.keyGroups
+    if (!before) continue
+    const remaining = after.environments[env]!.keyGroups
+    const threshold = getKeyGroupsThreshold(before)
+    const newThreshold = remaining ? getKeyGroupsThreshold(remaining) : 0
+    if (newThreshold < threshold) {
+      reductions.push({
+        env,
+        threshold,
+        groups: before.groups.length,
+        newThreshold,
+        newGroups: remaining?.groups.length ?? 0,
+      })
+    }
+  }
+  return reductions
+}
+
+/**
+ * Remove a person from the policy (in place): raw key entries, member alias
+ * entries, group memberships and key group entries. Members left without keys
+ * are deleted too; a key groups threshold is lowered if groups run out (check
+ * findQuorumReductions first).
+ * Returns the aliases of removed members.
+ */
+export function removeRecipientEverywhere(
+  policy: EnvVaultPolicy,
+  target: OffboardTarget
+): string[] {
+  const removedMembers = new Set<string>(target.member ? [target.member] : [])
+  for (const [alias, member] of Object.entries(policy.members ?? {})) {
+    member.ageKeys = member.ageKeys.filter((key) => !target.keys.includes(key))
+    if (member.ageKeys.length === 0) removedMembers.add(alias)
+  }
+
+  const removedNames = new Set<string>([...target.keys, ...removedMembers])
+  const keep = (entry: RecipientEntry): boolean => !removedNames.has(getRecipientEntryName(entry))
+  for (const envPolicy of Object.values(policy.environments)) {
+    if (envPolicy.recipients) envPolicy.recipients = envPolicy.recipients.filter(keep)
+    if (envPolicy.keyGroups) {
+      envPolicy.keyGroups.groups = envPolicy.keyGroups.groups
+        .map((item) =>
+          typeof item === 'string' ? item : item.filter((entry) => !removedNames.has(entry))
+        )
+        .filter((item) => typeof item !== 'string' || !removedNames.has(item))
+        .filter((item) => item.length > 0)
+      const { groups, threshold } = envPolicy.keyGroups
+      if (groups.length === 0) {
+        delete envPolicy.keyGroups
+      } else if (threshold !== undefined && threshold > groups.length) {
+        envPolicy.keyGroups.threshold = groups.length
+      }
+    }
+    for (const servicePolicy of Object.values(envPolicy.services)) {
+      servicePolicy.recipients = servicePolicy.recipients.filter(keep)
+    }
+  }
+  for (const group of Object.values(policy.groups ?? {})) {
+    group.members = group.members.filter((entry) => !removedNames.has(entry))
+  }
+  for (const alias of removedMembers) {
+    delete policy.members?.[alias]
+  }
+
+  return [...removedMembers].sort()
+}
@@ -0,0 +1,64 @@
+import { canonicalizeJson } from './canonical-json.js'
+import { EnvVaultPolicy } from '../types/index.js'
+import { getEnvironmentReferences } from './members.js'
+
+const POLICY_FILE = 'envvault.policy.json'
+
+// Files whose changes can affect every environment
+const GLOBAL_FILES = new Set(['.sops.yaml', 'envvault.config.json', 'envvault.signers.json'])
+
+export interface TouchedEnvironmentsInput {
+  /** Repository-relative paths changed by the commit(s) under verification */
+  changedFiles: string[]
+  secretsDir: string
+  policy: EnvVaultPolicy
+  /** Policy at the base ref (null when it did not exist there) */
+  basePolicy: EnvVaultPolicy | null
+}
+
+/**
+ * Work out which environments a change touches:
+ * - secret files under `<secretsDir>/<env>/`
+ * - environments added, removed or edited in envvault.policy.json, including edits
+ *   to the members and groups they reference
+ * - every environment when a shared file (.sops.yaml, config, signers) changed
+ */
+export function getTouchedEnvironments(input: TouchedEnvironmentsInput): string[] {
+  const { policy, basePolicy } = input
+  const allEnvs = [
+    ...new Set([
+      ...Object.keys(policy.environments),
+      ...Object.keys(basePolicy?.environments ?? {}),
+    ]),
+  ].sort()
+  const secretsPrefix = input.secretsDir.replace(/\\/g, '/').replace(/\/+$/, '') + '/'
+  const touched = new Set<string>()
+
+  for (const raw of input.changedFiles) {
+    const file = raw.replace(/\\/g, '/')
+    if (GLOBAL_FILES.has(file)) {
+      return allEnvs
+    }
+    if (file === POLICY_FILE) {
+      if (!basePolicy) return allEnvs
+      for (const env of allEnvs) {
+        const before = canonicalizeJson({
+          block: basePolicy.environments[env] ?? null,
+          references: getEnvironmentReferences(basePolicy, env),
+        })
+        const after = canonicalizeJson({
+          block: policy.environments[env] ?? null,
+          references: getEnvironmentReferences(policy, env),
+        })
+        if (before !== after) touched.add(env)
+      }
+      continue
+    }
+    if (file.startsWith(secretsPrefix)) {
+      const [env, ...rest] = file.slice(secretsPrefix.length).split('/')
+      if (env && rest.length > 0) touched.add(env)
+    }
+  }
+
+  return [...touched].sort()
+}
@@ -1,13 +1,103 @@
 import * as crypto from 'crypto'
-import { readFile, writeFile, mkdir } from 'fs/promises'
+import { readFile, writeFile, mkdir, access, chmod } from 'fs/promises'
 import { join } from 'path'
 import { canonicalizeJson } from './canonical-json.js'
-import { EnvVaultPolicy } from '../types/index.js'
+import { EnvVaultPolicy, PolicySignatureError } from '../types/index.js'
+import type { PolicySigners } from './signers.js'
+import { getEnvironmentReferences } from './members.js'
 
 const ALGORITHM = 'ed25519'
 const SIGNATURE_FILE = 'envvault.policy.sig'
 const PRIVATE_KEY_FILE = '.envvault/master-key'
 
+// scrypt cost parameters for passphrase-derived keys (N=2^15, ~32 MiB)
+const SCRYPT_PARAMS = { N: 32768, r: 8, p: 1 }
+const SCRYPT_MAXMEM = 64 * 1024 * 1024
+
+/**
+ * On-disk format of the passphrase-encrypted master private key
+ */
+export interface EncryptedMasterKeyV1 {
+  v: 1
+  kdf: 'scrypt'
+  kdfParams: { N: number; r: number; p: number }
+  alg: 'aes-256-gcm'
+  salt: string
+  iv: string
+  tag: string
+  data: string
+}
+
+function deriveKey(
+  passphrase: string,
+  salt: Buffer,
+  params: EncryptedMasterKeyV1['kdfParams']
+): Buffer {
+  return crypto.scryptSync(passphrase, salt, 32, { ...params, maxmem: SCRYPT_MAXMEM })
+}
+
+/**
+ * Encrypt master private key PEM with a passphrase (scrypt + AES-256-GCM)
+ */
+export function encryptMasterPrivateKey(privateKeyPem: string, passphrase: string): string {
+  if (!passphrase) {
+    throw new PolicySignatureError('Passphrase must not be empty')
+  }
+
+  const salt = crypto.randomBytes(16)
+  const iv = crypto.randomBytes(12)
+  const key = deriveKey(passphrase, salt, SCRYPT_PARAMS)
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv)
+  const data = Buffer.concat([cipher.update(privateKeyPem, 'utf-8'), cipher.final()])
+
+  const envelope: EncryptedMasterKeyV1 = {
+    v: 1,
+    kdf: 'scrypt',
+    kdfParams: { ...SCRYPT_PARAMS },
+    alg: 'aes-256-gcm',
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  }
+  return JSON.stringify(envelope, null, 2) + '\n'
+}
+
+/**
+ * Decrypt master private key produced by encryptMasterPrivateKey
+ */
+export function decryptMasterPrivateKey(content: string, passphrase: string): string {
+  let envelope: EncryptedMasterKeyV1
+  try {
+    envelope = JSON.parse(content) as EncryptedMasterKeyV1
+  } catch {
+    throw new PolicySignatureError('Master private key file is corrupted')
+  }
+
+  if (envelope.v !== 1 || envelope.kdf !== 'scrypt' || envelope.alg !== 'aes-256-gcm') {
+    throw new PolicySignatureError('Unsupported master private key format')
+  }
+
+  try {
+    const key = deriveKey(passphrase, Buffer.from(envelope.salt, 'base64'), envelope.kdfParams)
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(envelope.iv, 'base64'))
+    decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'))
+    return Buffer.concat([
+      decipher.update(Buffer.from(envelope.data, 'base64')),
+      decipher.final(),
+    ]).toString('utf-8')
+  } catch {
+    throw new PolicySignatureError('Failed to decrypt master private key (wrong passphrase?)')
+  }
+}
+
+/**
+ * Check whether stored key content is a legacy unencrypted PEM
+ */
+export function isPlaintextMasterPrivateKey(content: string): boolean {
+  return content.trimStart().startsWith('-----BEGIN')
+}
+
 /**
  * Generate a new ed25519 keypair for policy signing
  */
@@ -16,26 +106,31 @@ export async function generateMasterKeyPair(): Promise<{
   privateKey: string
 }> {
   const { publicKey, privateKey } = crypto.generateKeyPairSync(ALGORITHM, {
-    format: 'pem',
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
   })
 
-  return {
-    publicKey: publicKey.toString(),
-    privateKey: privateKey.toString(),
-  }
+  return { publicKey, privateKey }
 }
 
 /**
- * Sign policy with master private key
+ * Canonical bytes covering the whole policy. In multi-signer mode the trusted
+ * admins and threshold are signed along with it.
  */
-export function signPolicy(policy: EnvVaultPolicy, privateKeyPem: string): string {
-  const canonical = canonicalizeJson(policy)
-  const sign = crypto.createSign('SHA256')
-  sign.update(canonical)
-  sign.end()
+function policyPayload(policy: EnvVaultPolicy, signers?: PolicySigners | null): Buffer {
+  return Buffer.from(canonicalizeJson(signers ? { policy, signers } : policy), 'utf-8')
+}
 
-  const signature = sign.sign(privateKeyPem, 'base64')
-  return signature
+/**
+ * Sign policy with master private key
+ */
+export function signPolicy(
+  policy: EnvVaultPolicy,
+  privateKeyPem: string,
+  signers?: PolicySigners | null
+): string {
+  // ed25519 signs the message directly (no separate digest step)
+  return crypto.sign(null, policyPayload(policy, signers), privateKeyPem).toString('base64')
 }
 
 /**
@@ -44,15 +139,63 @@ export function signPolicy(policy: EnvVaultPolicy, privateKeyPem: string): strin
 export function verifyPolicySignature(
   policy: EnvVaultPolicy,
   signature: string,
-  publicKeyPem: string
+  publicKeyPem: string,
+  signers?: PolicySigners | null
 ): boolean {
   try {
-    const canonical = canonicalizeJson(policy)
-    const verify = crypto.createVerify('SHA256')
-    verify.update(canonical)
-    verify.end()
+    return crypto.verify(
+      null,
+      policyPayload(policy, signers),
+      publicKeyPem,
+      Buffer.from(signature.trim(), 'base64')
+    )
+  } catch {
+    return false
+  }
+}
 
-    return verify.verify(publicKeyPem, signature, 'base64')
+/**
+ * Canonical bytes covering a single environment block and the keys of the members and
+ * groups it references. A removed environment signs as `policy: null`.
+ */
+function environmentPayload(policy: EnvVaultPolicy, envName: string): Buffer {
+  return Buffer.from(
+    canonicalizeJson({
+      environment: envName,
+      policy: policy.environments[envName] ?? null,
+      references: getEnvironmentReferences(policy, envName),
+    }),
+    'utf-8'
+  )
+}
+
+/**
+ * Sign one environment of the policy with master private key
+ */
+export function signEnvironmentPolicy(
+  policy: EnvVaultPolicy,
+  envName: string,
+  privateKeyPem: string
+): string {
+  return crypto.sign(null, environmentPayload(policy, envName), privateKeyPem).toString('base64')
+}
+
+/**
+ * Verify a signature over one environment of the policy
+ */
+export function verifyEnvironmentPolicySignature(
+  policy: EnvVaultPolicy,
+  envName: string,
+  signature: string,
+  publicKeyPem: string
+): boolean {
+  try {
+    return crypto.verify(
+      null,
+      environmentPayload(policy, envName),
+      publicKeyPem,
+      Buffer.from(signature.trim(), 'base64')
+    )
   } catch {
     return false
   }
@@ -72,20 +215,55 @@ export async function loadMasterPublicKey(
   }
 }
 
+/**
+ * Check whether a master private key file exists
+ */
+export async function masterPrivateKeyExists(projectDir: string): Promise<boolean> {
+  try {
+    await access(join(projectDir, PRIVATE_KEY_FILE))
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Check whether the stored master private key is passphrase-encrypted
+ * (returns null when no key is stored)
+ */
+export async function isMasterPrivateKeyEncrypted(projectDir: string): Promise<boolean | null> {
+  try {
+    const content = await readFile(join(projectDir, PRIVATE_KEY_FILE), 'utf-8')
+    return !isPlaintextMasterPrivateKey(content)
+  } catch {
+    return null
+  }
+}
+
 /**
  * Load master private key (admin only, stored encrypted)
+ *
+ * Legacy unencrypted PEM keys are returned as-is; encrypted keys require the passphrase.
  */
 export async function loadMasterPrivateKey(
-  projectDir: string
+  projectDir: string,
+  passphrase?: string
 ): Promise<string | null> {
   const keyPath = join(projectDir, PRIVATE_KEY_FILE)
+  let content: string
   try {
-    const encrypted = await readFile(keyPath, 'utf-8')
-    // TODO: Decrypt with password
-    return encrypted
+    content = await readFile(keyPath, 'utf-8')
   } catch {
     return null
   }
+
+  if (isPlaintextMasterPrivateKey(content)) {
+    return content
+  }
+  if (passphrase === undefined) {
+    throw new PolicySignatureError('Master private key is encrypted; passphrase required')
+  }
+  return decryptMasterPrivateKey(content, passphrase)
 }
 
 /**
@@ -113,14 +291,34 @@ export async function saveMasterPublicKey(
 }
 
 /**
- * Save master private key (should be encrypted before saving)
+ * Save master private key encrypted with a passphrase
  */
 export async function saveMasterPrivateKey(
   projectDir: string,
-  privateKey: string
+  privateKey: string,
+  passphrase: string
 ): Promise<void> {
   const keyDir = join(projectDir, '.envvault')
   await mkdir(keyDir, { recursive: true })
   const keyPath = join(keyDir, 'master-key')
-  await writeFile(keyPath, privateKey, { mode: 0o600 })
+  await writeFile(keyPath, encryptMasterPrivateKey(privateKey, passphrase), { mode: 0o600 })
+  // writeFile only applies mode on creation; tighten legacy files too
+  await chmod(keyPath, 0o600)
+}
+
+/**
+ * Re-encrypt the stored master private key under a new passphrase
+ *
+ * Pass `currentPassphrase` as undefined to encrypt a legacy unencrypted key.
+ */
+export async function reencryptMasterPrivateKey(
+  projectDir: string,
+  currentPassphrase: string | undefined,
+  newPassphrase: string
+): Promise<void> {
+  const privateKey = await loadMasterPrivateKey(projectDir, currentPassphrase)
+  if (!privateKey) {
+    throw new PolicySignatureError('Master private key not found')
+  }
+  await saveMasterPrivateKey(projectDir, privateKey, newPassphrase)
 }
@@ -0,0 +1,337 @@
+import { readFile, writeFile } from 'fs/promises'
+import { join } from 'path'
+import {
+  signPolicy,
+  verifyPolicySignature,
+  signEnvironmentPolicy,
+  verifyEnvironmentPolicySignature,
+  loadMasterPublicKey,
+} from './signature.js'
+import { ConfigError, EnvVaultPolicy, EnvironmentPolicy } from '../types/index.js'
+
+const SIGNERS_FILE = 'envvault.signers.json'
+const SIGNATURE_FILE = 'envvault.policy.sig'
+
+// Signer name used for signatures in the legacy single-key format
+export const LEGACY_SIGNER = 'master'
+
+/**
+ * Trusted policy admins and the number of signatures required
+ */
+export interface PolicySigners {
+  version: 1
+  threshold: number
+  admins: Record<string, { publicKey: string }>
+}
+
+export interface PolicySignatureEntry {
+  signer: string
+  signature: string
+  /** Environment this signature covers (the whole policy when omitted) */
+  env?: string
+}
+
+/**
+ * Multi-signer envvault.policy.sig format
+ */
+export interface PolicySignatureFile {
+  version: 2
+  signatures: PolicySignatureEntry[]
+}
+
+export interface ThresholdVerification {
+  /** True when at least `threshold` trusted admins produced valid signatures */
+  valid: boolean
+  threshold: number
+  /** Admins with a valid signature */
+  signedBy: string[]
+  /** Known admins whose signature does not verify (e.g. stale after a policy change) */
+  invalid: string[]
+  /** Signatures from names not listed in the trusted admins */
+  unknown: string[]
+}
+
+/**
+ * Parse envvault.policy.sig (multi-signer JSON or legacy single base64 signature)
+ */
+export function parsePolicySignatureFile(content: string): PolicySignatureFile {
+  const trimmed = content.trim()
+  if (!trimmed.startsWith('{')) {
+    return {
+      version: 2,
+      signatures: trimmed ? [{ signer: LEGACY_SIGNER, signature: trimmed }] : [],
+    }
+  }
+
+  let parsed: PolicySignatureFile
+  try {
+    parsed = JSON.parse(trimmed) as PolicySignatureFile
+  } catch {
+    throw new ConfigError(`Invalid JSON in ${SIGNATURE_FILE}`)
+  }
+  if (parsed.version !== 2 || !Array.isArray(parsed.signatures)) {
+    throw new ConfigError(`Unsupported ${SIGNATURE_FILE} format`)
+  }
+  for (const entry of parsed.signatures) {
+    if (typeof entry?.signer !== 'string' || typeof entry?.signature !== 'string') {
+      throw new ConfigError(`${SIGNATURE_FILE} entries must have "signer" and "signature" strings`)
+    }
+    if (entry.env !== undefined && typeof entry.env !== 'string') {
+      throw new ConfigError(`${SIGNATURE_FILE}: "env" must be a string`)
+    }
+  }
+  return parsed
+}
+
+export function renderPolicySignatureFile(file: PolicySignatureFile): string {
+  const signatures = [...file.signatures].sort(
+    (a, b) => a.signer.localeCompare(b.signer) || (a.env ?? '').localeCompare(b.env ?? '')
+  )
+  return JSON.stringify({ version: 2, signatures }, null, 2) + '\n'
+}
+
+/**
+ * `covered` is the signer set whole-policy signatures include (null for the
+ * single master key)
+ */
+function verifyEntry(
+  policy: EnvVaultPolicy,
+  entry: PolicySignatureEntry,
+  publicKeyPem: string,
+  covered: PolicySigners | null
+): boolean {
+  return entry.env === undefined
+    ? verifyPolicySignature(policy, entry.signature, publicKeyPem, covered)
+    : verifyEnvironmentPolicySignature(policy, entry.env, entry.signature, publicKeyPem)
+}
+
+/**
+ * Add (or replace) one signer's signature for the given policy, or for a single
+ * environment of it when `env` is set.
+ * Signatures from known admins that no longer verify are dropped.
+ *
+ * Whole-policy signatures also cover `covered` (envvault.signers.json by default);
+ * pass null when signing with the single master key.
+ */
+export function addPolicySignature(
+  file: PolicySignatureFile | null,
+  policy: EnvVaultPolicy,
+  signer: string,
+  privateKeyPem: string,
+  signers: PolicySigners,
+  env?: string,
+  covered: PolicySigners | null = signers
+): PolicySignatureFile {
+  const kept = (file?.signatures ?? []).filter((entry) => {
+    if (entry.signer === signer && entry.env === env) return false
+    const admin = signers.admins[entry.signer]
+    return !admin || verifyEntry(policy, entry, admin.publicKey, covered)
+  })
+
+  const signature =
+    env === undefined
+      ? signPolicy(policy, privateKeyPem, covered)
+      : signEnvironmentPolicy(policy, env, privateKeyPem)
+  const entry: PolicySignatureEntry =
+    env === undefined ? { signer, signature } : { signer, signature, env }
+
+  return { version: 2, signatures: [...kept, entry] }
+}
+
+function collectSignatures(
+  policy: EnvVaultPolicy,
+  entries: PolicySignatureEntry[],
+  signers: PolicySigners,
+  allowed: Set<string>,
+  covered: PolicySigners | null
+): Pick<ThresholdVerification, 'signedBy' | 'invalid' | 'unknown'> {
+  const signedBy = new Set<string>()
+  const invalid = new Set<string>()
+  const unknown = new Set<string>()
+
+  for (const entry of entries) {
+    const admin = signers.admins[entry.signer]
+    if (!admin || !allowed.has(entry.signer)) {
+      unknown.add(entry.signer)
+      continue
+    }
+    if (verifyEntry(policy, entry, admin.publicKey, covered)) {
+      signedBy.add(entry.signer)
+    } else {
+      invalid.add(entry.signer)
+    }
+  }
+  for (const name of signedBy) invalid.delete(name)
+
+  return {
+    signedBy: [...signedBy].sort(),
+    invalid: [...invalid].sort(),
+    unknown: [...unknown].sort(),
+  }
+}
+
+/**
+ * Verify whole-policy signatures over the policy and `signers` against the
+ * trusted admins and threshold. `trusted` is the previous signer set when
+ * envvault.signers.json itself changed.
+ */
+export function verifyPolicyThreshold(
+  policy: EnvVaultPolicy,
+  file: PolicySignatureFile,
+  signers: PolicySigners,
+  trusted: PolicySigners = signers
+): ThresholdVerification {
+  const entries = file.signatures.filter((entry) => entry.env === undefined)
+  const result = collectSignatures(
+    policy,
+    entries,
+    trusted,
+    new Set(Object.keys(trusted.admins)),
+    signers
+  )
+  return {
+    valid: result.signedBy.length >= trusted.threshold,
+    threshold: trusted.threshold,
+    ...result,
+  }
+}
+
+/**
+ * Verify signatures covering one environment: whole-policy signatures and
+ * signatures scoped to that environment both count. Only the environment's
+ * `signers` (or every trusted admin) are accepted, and the threshold is capped
+ * at the number of accepted admins.
+ *
+ * `rules` defaults to the environment's current block; pass the previous block
+ * when the environment was removed. `covered` is the signer set whole-policy
+ * signatures include (null for the single master key).
+ */
+export function verifyEnvironmentThreshold(
+  policy: EnvVaultPolicy,
+  envName: string,
+  file: PolicySignatureFile,
+  signers: PolicySigners,
+  rules: EnvironmentPolicy | undefined = policy.environments[envName],
+  covered: PolicySigners | null = signers
+): ThresholdVerification {
+  const allowed = new Set(
+    (rules?.signers ?? Object.keys(signers.admins)).filter((name) => signers.admins[name])
+  )
+  const entries = file.signatures.filter(
+    (entry) => entry.env === undefined || entry.env === envName
+  )
+  const result = collectSignatures(policy, entries, signers, allowed, covered)
+  const threshold = Math.max(1, Math.min(signers.threshold, allowed.size))
+  return {
+    valid: result.signedBy.length >= threshold,
+    threshold,
+    ...result,
+  }
+}
+
+/**
+ * True when any environment declares its own signing rules
+ */
+export function hasEnvironmentSignatureRules(policy: EnvVaultPolicy): boolean {
+  return Object.values(policy.environments).some(
+    (env) => env.requireSignature !== undefined || env.signers !== undefined
+  )
+}
+
+export function validatePolicySigners(signers: PolicySigners): void {
+  if (signers.version !== 1) {
+    throw new ConfigError(`Unsupported signers version: ${signers.version}`)
+  }
+  if (!signers.admins || typeof signers.admins !== 'object') {
+    throw new ConfigError(`${SIGNERS_FILE}: admins must be an object`)
+  }
+  for (const [name, admin] of Object.entries(signers.admins)) {
+    if (!admin || typeof admin.publicKey !== 'string' || !admin.publicKey.trim()) {
+      throw new ConfigError(`${SIGNERS_FILE}: admin "${name}" must have a publicKey`)
+    }
+  }
+  const adminCount = Object.keys(signers.admins).length
+  if (
+    !Number.isInteger(signers.threshold) ||
+    signers.threshold < 1 ||
+    signers.threshold > Math.max(adminCount, 1)
+  ) {
+    throw new ConfigError(
+      `${SIGNERS_FILE}: threshold must be an integer between 1 and the number of admins (${adminCount})`
+    )
+  }
+}
+
+/**
+ * Load envvault.signers.json (returns null when multi-signer mode is not configured)
+ */
+export async function loadPolicySigners(projectDir: string): Promise<PolicySigners | null> {
+  const signersPath = join(projectDir, SIGNERS_FILE)
+  let content: string
+  try {
+    content = await readFile(signersPath, 'utf-8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null
+    }
+    throw error
+  }
+
+  return parsePolicySigners(content)
+}
+
+/**
+ * Parse and validate the content of envvault.signers.json
+ */
+export function parsePolicySigners(content: string): PolicySigners {
+  let signers: PolicySigners
+  try {
+    signers = JSON.parse(content) as PolicySigners
+  } catch {
+    throw new ConfigError(`Invalid JSON in ${SIGNERS_FILE}`)
+  }
+  validatePolicySigners(signers)
+  return signers
+}
+
+/**
+ * Trusted admins from envvault.signers.json, or the single master public key
+ * (as signer "master", threshold 1) when multi-signer mode is not configured
+ */
+export async function loadTrustedSigners(projectDir: string): Promise<PolicySigners | null> {
+  const signers = await loadPolicySigners(projectDir)
+  if (signers) return signers
+
+  const publicKey = await loadMasterPublicKey(projectDir)
+  if (!publicKey) return null
+  return { version: 1, threshold: 1, admins: { [LEGACY_SIGNER]: { publicKey } } }
+}
+
+export async function savePolicySigners(projectDir: string, signers: PolicySigners): Promise<void> {
+  validatePolicySigners(signers)
+  await writeFile(join(projectDir, SIGNERS_FILE), JSON.stringify(signers, null, 2) + '\n', 'utf-8')
+}
+
+/**
+ * Load envvault.policy.sig in multi-signer form (legacy files are converted)
+ */
+export async function loadPolicySignatures(
+  projectDir: string
+): Promise<PolicySignatureFile | null> {
+  try {
+    const content = await readFile(join(projectDir, SIGNATURE_FILE), 'utf-8')
+    return parsePolicySignatureFile(content)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null
+    }
+    throw error
+  }
+}
+
+export async function savePolicySignatures(
+  projectDir: string,
+  file: PolicySignatureFile
+): Promise<void> {
+  await writeFile(join(projectDir, SIGNATURE_FILE), renderPolicySignatureFile(file), 'utf-8')
+}
@@ -8,6 +8,11 @@ import type {
 import { CryptoBackendSelectionError } from './crypto-backend.js'
 import { JsSopsAgeBackend } from './js-sops-age-backend.js'
 import { SystemSopsBackend } from './system-sops-backend.js'
+import { MIN_SOPS_VERSION } from './sops-adapter.js'
+import { parseSopsKey } from './sops-config-gen.js'
+import type { EnvVaultPolicy } from '../types/index.js'
+import { getKeyGroupEntries } from '../policy/key-groups.js'
+import { expandRecipients, getServiceRecipientEntries } from '../policy/members.js'
 
 export function createDefaultCryptoBackends(): CryptoBackend[] {
   return [new SystemSopsBackend(), new JsSopsAgeBackend()]
@@ -36,6 +41,21 @@ export async function resolveCryptoBackend(options?: {
   const capability = options?.capability ?? 'decrypt'
   const backends = options?.backends ?? createDefaultCryptoBackends()
 
+  if (preference !== 'auto' && preference !== 'system-sops' && preference !== 'js') {
+    const plugin = backends.find((backend) => backend.id === preference)
+    if (!plugin) {
+      throw new CryptoBackendSelectionError(
+        `Unknown crypto backend "${preference}". Use "auto", "system-sops", "js" or a name from cryptoPlugins in envvault.config.json.`
+      )
+    }
+    if (!plugin.supports(capability) || !(await plugin.isAvailable())) {
+      throw new CryptoBackendSelectionError(
+        `Requested crypto backend "${preference}" is unavailable${forCapability(capability)}.`
+      )
+    }
+    return { backend: plugin, fallbackUsed: false, requested: preference }
+  }
+
   const compatibleBackends = backends.filter((backend) => backend.supports(capability))
 
   const systemBackend = compatibleBackends.find((backend) => backend.id === 'system-sops')
@@ -44,7 +64,7 @@ export async function resolveCryptoBackend(options?: {
   if (preference === 'system-sops') {
     if (!systemBackend || !(await systemBackend.isAvailable())) {
       throw new CryptoBackendSelectionError(
-        'Requested crypto backend "system-sops" is unavailable. Install SOPS binary (and age) or switch to "auto"/"js".'
+        `Requested crypto backend "system-sops" is unavailable${forCapability(capability)}. Install SOPS binary >= ${MIN_SOPS_VERSION} (and age) or switch to "auto"/"js".`
       )
     }
     return { backend: systemBackend, fallbackUsed: false, requested: preference }
@@ -53,7 +73,7 @@ export async function resolveCryptoBackend(options?: {
   if (preference === 'js') {
     if (!jsBackend || !(await jsBackend.isAvailable())) {
       throw new CryptoBackendSelectionError(
-        'Requested crypto backend "js" is unavailable. Install npm package dependency "sops-age" or switch to "auto"/"system-sops".'
+        `Requested crypto backend "js" is unavailable${forCapability(capability)}. Install npm package dependencies "sops-age" and "age-encryption" or switch to "auto"/"system-sops".`
       )
     }
     return { backend: jsBackend, fallbackUsed: false, requested: preference }
@@ -67,52 +87,105 @@ export async function resolveCryptoBackend(options?: {
     return { backend: jsBackend, fallbackUsed: true, requested: preference }
   }
 
+  if (capability === 'decrypt' || capability === 'pull') {
+    throw new CryptoBackendSelectionError(
+      'No crypto backend is available for decryption. Install system SOPS + age, or ensure JS backend dependencies "sops-age" and "age-encryption" are installed.'
+    )
+  }
   throw new CryptoBackendSelectionError(
-    'No crypto backend is available for decryption. Install system SOPS + age for full mode, or ensure JS backend dependency "sops-age" is installed for basic pull/decrypt.'
+    `No crypto backend is available for "${capability}". Install system SOPS + age, or ensure JS backend dependencies "sops-age" and "age-encryption" are installed.`
   )
 }
 
+function forCapability(capability: CryptoCapability): string {
+  return capability === 'decrypt' || capability === 'pull' ? '' : ` for "${capability}"`
+}
+
 export interface CapabilityRow {
   capability: CryptoCapability
   label: string
-  status: 'ok' | 'fail'
+  status: 'ok' | 'partial' | 'fail'
   via: 'system-sops' | 'js' | 'both' | 'none'
   message: string
 }
 
-export function buildCapabilityMatrix(statuses: CryptoBackendStatus[]): CapabilityRow[] {
+/**
+ * Policy features the JS backend cannot handle. Several key groups (Shamir) block
+ * every capability; PGP/KMS/Vault recipients only block encrypting.
+ */
+export interface JsBackendLimitation {
+  env: string
+  reason: string
+  decrypt: boolean
+}
+
+export function findJsBackendLimitations(policy: EnvVaultPolicy): JsBackendLimitation[] {
+  const limitations: JsBackendLimitation[] = []
+  for (const [env, envPolicy] of Object.entries(policy.environments).sort()) {
+    const groups = envPolicy.keyGroups ? getKeyGroupEntries(envPolicy.keyGroups) : []
+    if (groups.length > 1) {
+      limitations.push({ env, reason: `${groups.length} key groups`, decrypt: true })
+    }
+    const entries = [
+      ...Object.keys(envPolicy.services).flatMap((service) =>
+        getServiceRecipientEntries(policy, env, service)
+      ),
+      ...groups.flat(),
+    ]
+    const keyTypes = [
+      ...new Set(expandRecipients(policy, entries).map((entry) => parseSopsKey(entry).type)),
+    ].filter((type) => type !== 'age')
+    if (keyTypes.length > 0) {
+      limitations.push({ env, reason: `${keyTypes.join(', ')} keys`, decrypt: false })
+    }
+  }
+  return limitations
+}
+
+export function buildCapabilityMatrix(
+  statuses: CryptoBackendStatus[],
+  jsLimitations: JsBackendLimitation[] = []
+): CapabilityRow[] {
   const system = statuses.find((s) => s.id === 'system-sops')?.available ?? false
   const js = statuses.find((s) => s.id === 'js')?.available ?? false
 
-  const pullOk = system || js
-  const pullVia = system ? 'system-sops' : js ? 'js' : 'none'
-  const systemOnly = (capability: CryptoCapability, label: string): CapabilityRow => ({
-    capability,
-    label,
-    status: system ? 'ok' : 'fail',
-    via: system ? 'system-sops' : 'none',
-    message: system
-      ? 'Requires system SOPS (available)'
-      : 'Requires system SOPS binary',
-  })
+  const row = (capability: CryptoCapability, label: string): CapabilityRow => {
+    const via = system && js ? 'both' : system ? 'system-sops' : js ? 'js' : 'none'
+    if (system || !js) {
+      return {
+        capability,
+        label,
+        status: system ? 'ok' : 'fail',
+        via,
+        message: system
+          ? 'OK via system SOPS'
+          : capability === 'pull'
+            ? 'No decrypt backend available'
+            : 'No crypto backend available',
+      }
+    }
+    const limits = jsLimitations.filter((limit) => limit.decrypt || capability !== 'pull')
+    return {
+      capability,
+      label,
+      status: limits.length > 0 ? 'partial' : 'ok',
+      via,
+      message:
+        limits.length > 0
+          ? `Partial via JS backend (needs system SOPS for ${limits.map((limit) => `${limit.env}: ${limit.reason}`).join('; ')})`
+          : 'OK via JS backend',
+    }
+  }
 
   return [
-    {
-      capability: 'pull',
-      label: 'pull/decrypt',
-      status: pullOk ? 'ok' : 'fail',
-      via: system && js ? 'both' : pullVia,
-      message: system
-        ? 'OK via system SOPS'
-        : js
-          ? 'OK via JS backend'
-          : 'No decrypt backend available',
-    },
-    { ...systemOnly('edit', 'edit') },
-    { ...systemOnly('set', 'set') },
-    { ...systemOnly('grant', 'grant') },
-    { ...systemOnly('revoke', 'revoke') },
-    { ...systemOnly('updatekeys', 'updatekeys') },
-    { ...systemOnly('rotate', 'rotate') },
+    row('pull', 'pull/decrypt'),
+    row('edit', 'edit'),
+    row('set', 'set'),
+    row('push', 'push'),
+    row('promote', 'promote'),
+    row('grant', 'grant'),
+    row('revoke', 'revoke'),
+    row('updatekeys', 'updatekeys'),
+    row('rotate', 'rotate'),
   ]
 }
@@ -1,13 +1,18 @@
-import type { EnvObject } from '../types/index.js'
+import type { SecretDocument } from '../types/index.js'
+import type { DotenvEntry } from '../env/types.js'
 import type { DecryptedData } from './sops-adapter.js'
 
-export type CryptoBackendId = 'system-sops' | 'js'
-export type CryptoBackendPreference = 'auto' | CryptoBackendId
+/** Built-in backend id (`system-sops`, `js`) or the name of a `cryptoPlugins` entry */
+export type CryptoBackendId = string
+/** `auto` or a CryptoBackendId */
+export type CryptoBackendPreference = string
 export type CryptoCapability =
   | 'decrypt'
   | 'pull'
   | 'edit'
   | 'set'
+  | 'push'
+  | 'promote'
   | 'grant'
   | 'revoke'
   | 'updatekeys'
@@ -20,9 +25,15 @@ export interface CryptoBackend {
   decrypt(filePath: string): Promise<DecryptedData>
   decryptToString(filePath: string): Promise<string>
   encrypt?(filePath: string): Promise<void>
-  encryptData?(filePath: string, data: EnvObject): Promise<void>
-  updateKeys?(filePath: string): Promise<void>
-  rotate?(filePath: string): Promise<void>
+  /**
+   * Encrypt data for the recipients in .sops.yaml and write only ciphertext to filePath.
+   * Data is a flat map for dotenv services, or a nested yaml/json/binary document.
+   * `layout` gives key order and comments (e.g. DecryptedData.entries) for flat maps;
+   * comments are stored as `.sops.env` comments or as per-key metadata in YAML.
+   */
+  encryptData(filePath: string, data: SecretDocument, layout?: DotenvEntry[]): Promise<void>
+  updateKeys(filePath: string): Promise<void>
+  rotate(filePath: string): Promise<void>
   supports(capability: CryptoCapability): boolean
 }
 
@@ -32,6 +43,8 @@ export interface CryptoBackendResolution {
   requested: CryptoBackendPreference
 }
 
+export const CRYPTO_BACKEND_PREFERENCES: CryptoBackendPreference[] = ['auto', 'system-sops', 'js']
+
 export class CryptoBackendSelectionError extends Error {
   constructor(message: string) {
     super(message)
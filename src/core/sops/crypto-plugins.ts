@@ -0,0 +1,101 @@
+import { createRequire } from 'module'
+import { isAbsolute, join, resolve } from 'path'
+import { pathToFileURL } from 'url'
+import type { EnvVaultConfig } from '../types/index.js'
+import type { CryptoBackend, CryptoBackendPreference } from './crypto-backend.js'
+import { CryptoBackendSelectionError } from './crypto-backend.js'
+import { createDefaultCryptoBackends } from './backend-selection.js'
+
+/**
+ * Passed to a plugin's `createCryptoBackend` factory
+ */
+export interface CryptoPluginContext {
+  /** Name of the plugin in `cryptoPlugins`; the backend must use it as its id */
+  id: string
+  projectDir: string
+}
+
+/**
+ * Contract of a crypto backend plugin module: a named `createCryptoBackend`
+ * export (or default export) returning a CryptoBackend.
+ */
+export type CryptoBackendFactory = (
+  context: CryptoPluginContext
+) => CryptoBackend | Promise<CryptoBackend>
+
+const REQUIRED_METHODS = [
+  'isAvailable',
+  'decrypt',
+  'decryptToString',
+  'encryptData',
+  'updateKeys',
+  'rotate',
+  'supports',
+] as const
+
+function resolvePluginUrl(projectDir: string, specifier: string): string {
+  if (specifier.startsWith('.') || isAbsolute(specifier)) {
+    return pathToFileURL(resolve(projectDir, specifier)).href
+  }
+  const require = createRequire(join(projectDir, 'package.json'))
+  return pathToFileURL(require.resolve(specifier)).href
+}
+
+/**
+ * Import a plugin module and create its backend
+ */
+export async function loadCryptoBackendPlugin(
+  projectDir: string,
+  id: string,
+  specifier: string
+): Promise<CryptoBackend> {
+  let module: { createCryptoBackend?: unknown; default?: unknown }
+  try {
+    module = (await import(resolvePluginUrl(projectDir, specifier))) as typeof module
+  } catch (error) {
+    throw new CryptoBackendSelectionError(
+      `Crypto backend plugin "${id}" could not be loaded from ${specifier}: ${(error as Error).message}`
+    )
+  }
+
+  const factory = module.createCryptoBackend ?? module.default
+  if (typeof factory !== 'function') {
+    throw new CryptoBackendSelectionError(
+      `Crypto backend plugin "${id}" (${specifier}) must export a createCryptoBackend function`
+    )
+  }
+
+  const backend = (await (factory as CryptoBackendFactory)({ id, projectDir })) as
+    | Partial<CryptoBackend>
+    | undefined
+  const missing = REQUIRED_METHODS.filter((method) => typeof backend?.[method] !== 'function')
+  if (!backend || missing.length > 0) {
+    throw new CryptoBackendSelectionError(
+      `Crypto backend plugin "${id}" does not implement: ${missing.join(', ')}`
+    )
+  }
+  if (backend.id !== id) {
+    throw new CryptoBackendSelectionError(
+      `Crypto backend plugin "${id}" returned a backend with id "${String(backend.id)}"`
+    )
+  }
+  return backend as CryptoBackend
+}
+
+/**
+ * Built-in backends, plus the configured plugin when the preference names one.
+ * Plugins are only imported when selected, so a broken plugin does not affect other backends.
+ */
+export async function createProjectCryptoBackends(
+  projectDir: string,
+  config: Pick<EnvVaultConfig, 'cryptoPlugins'>,
+  preference: CryptoBackendPreference
+): Promise<CryptoBackend[]> {
+  const backends = createDefaultCryptoBackends()
+  if (config.cryptoPlugins && Object.hasOwn(config.cryptoPlugins, preference)) {
+    backends.push(
+      await loadCryptoBackendPlugin(projectDir, preference, config.cryptoPlugins[preference]!)
+    )
+  }
+  return backends
+}
@@ -1,6 +1,11 @@
 export * from './sops-adapter.js'
 export * from './sops-config-gen.js'
+export * from './sops-codec.js'
 export * from './crypto-backend.js'
 export * from './system-sops-backend.js'
 export * from './js-sops-age-backend.js'
 export * from './backend-selection.js'
+export * from './crypto-plugins.js'
+export * from './sops-dotenv.js'
+export * from './sops-json.js'
+export * from './stored-keys.js'
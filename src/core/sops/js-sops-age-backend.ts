@@ -1,28 +1,106 @@
-import { readFile } from 'fs/promises'
-import { parse as parseYaml, stringify as stringifyYaml } from 'yaml'
-import { SopsError, type EnvObject } from '../types/index.js'
+import { access, readFile } from 'fs/promises'
+import { dirname, join, relative, resolve } from 'path'
+import { Document, Scalar, parse as parseYaml, stringify as stringifyYaml } from 'yaml'
+import { SopsError, type SecretDocument } from '../types/index.js'
+import type { DotenvEntry } from '../env/types.js'
+import { BINARY_DATA_KEY, applyDotenvLayout, flattenSecretDocument } from '../env/secret-format.js'
+import { fromStoredDocument, toStoredDocument } from '../env/key-metadata.js'
+import { getSopsStoreType, isDotenvSecretFile } from '../config/secret-path.js'
+import { atomicWriteFile } from '../fs/atomic-write.js'
 import type { CryptoBackend, CryptoCapability } from './crypto-backend.js'
 import type { DecryptedData, SopsMetadata } from './sops-adapter.js'
+import { findCreationRule, type SopsConfig, type SopsKeyType } from './sops-config-gen.js'
+import {
+  SOPS_DEFAULT_UNENCRYPTED_SUFFIX,
+  SOPS_FORMAT_VERSION,
+  encryptSopsTree,
+  encryptSopsValue,
+  generateDataKey,
+  reencryptSopsTree,
+  sopsTimestamp,
+  verifySopsMac,
+  type SopsEncryptionRules,
+} from './sops-codec.js'
+import {
+  decryptSopsDotenv,
+  encryptSopsDotenv,
+  entriesToSopsDotenv,
+  parseSopsDotenv,
+  reencryptSopsDotenv,
+  renderSopsDotenv,
+  sopsDotenvToEntries,
+  type SopsDotenvFile,
+  type SopsDotenvLine,
+} from './sops-dotenv.js'
+import { decryptSopsBinary, encryptSopsBinary, parseSopsJson, renderSopsJson } from './sops-json.js'
 
 type DecryptSopsFn = (options: { path: string }) => Promise<unknown>
+type FindAgeKeysFn = () => Promise<string[]>
+type AgeModule = typeof import('age-encryption')
 
+interface SopsAgeEntry {
+  recipient: string
+  enc: string
+}
+
+interface SopsFileMetadata extends SopsEncryptionRules {
+  age?: SopsAgeEntry[]
+  lastmodified: string
+  mac: string
+  version?: string
+  [field: string]: unknown
+}
+
+/** Values of a YAML/JSON document, or the lines of a `.sops.env` file (comments included) */
+type SopsFileContent = { tree: Record<string, unknown> } | { lines: SopsDotenvLine[] }
+/** Content of a file to encrypt: the bytes of a binary file, or as SopsFileContent */
+type SopsPlainContent = SopsFileContent | { bytes: Buffer }
+
+const SOPS_CONFIG_FILE = '.sops.yaml'
+const RULE_FIELDS = [
+  'unencrypted_suffix',
+  'encrypted_suffix',
+  'unencrypted_regex',
+  'encrypted_regex',
+  'mac_only_encrypted',
+] as const
+
+/**
+ * Pure-JS SOPS backend: decrypts through sops-age and writes SOPS-compatible
+ * age-encrypted YAML and JSON itself (per-value AES-256-GCM, MAC, one age entry per
+ * recipient). `.sops.env` files (sops dotenv store) and `.sops.bin` files (sops binary
+ * store) are read and written by this class directly.
+ */
 export class JsSopsAgeBackend implements CryptoBackend {
   readonly id = 'js' as const
   readonly displayName = 'JS SOPS+age (sops-age)'
 
   private cachedDecryptFn: DecryptSopsFn | null = null
+  private cachedFindAgeKeys: FindAgeKeysFn | null = null
+  private cachedAge: AgeModule | null = null
   private importAttempted = false
 
-  supports(capability: CryptoCapability): boolean {
-    return capability === 'decrypt' || capability === 'pull'
+  supports(_capability: CryptoCapability): boolean {
+    return true
   }
 
   async isAvailable(): Promise<boolean> {
     const decryptFn = await this.loadDecryptFn()
-    return decryptFn !== null
+    return decryptFn !== null && this.cachedAge !== null
   }
 
   async decrypt(filePath: string): Promise<DecryptedData> {
+    if (isDotenvSecretFile(filePath)) {
+      const { lines, metadata } = await this.decryptDotenvFile(filePath)
+      const entries = sopsDotenvToEntries(lines)
+      const data = Object.fromEntries(entries.map((entry) => [entry.key, entry.value]))
+      return { data, tree: data, entries, metadata }
+    }
+    if (getSopsStoreType(filePath) === 'binary') {
+      const { bytes, metadata } = await this.decryptBinaryFile(filePath)
+      return { ...fromStoredDocument({ [BINARY_DATA_KEY]: bytes.toString('base64') }), metadata }
+    }
+
     const decryptFn = await this.loadDecryptFn()
     if (!decryptFn) {
       throw new SopsError(
@@ -31,18 +109,333 @@ export class JsSopsAgeBackend implements CryptoBackend {
     }
 
     try {
-      const decryptedRaw = await decryptFn({ path: filePath })
-      const data = this.toEnvObject(decryptedRaw)
+      const stored = this.toSecretDocument(await decryptFn({ path: filePath }))
       const metadata = await this.readMetadata(filePath)
-      return { data, metadata }
+      return { ...fromStoredDocument(stored), metadata }
     } catch (error) {
       throw new SopsError(`JS backend decryption error: ${(error as Error).message}`)
     }
   }
 
   async decryptToString(filePath: string): Promise<string> {
-    const { data } = await this.decrypt(filePath)
-    return stringifyYaml(data)
+    if (isDotenvSecretFile(filePath)) {
+      return renderSopsDotenv((await this.decryptDotenvFile(filePath)).lines)
+    }
+    const store = getSopsStoreType(filePath)
+    if (store === 'binary') {
+      return (await this.decryptBinaryFile(filePath)).bytes.toString('utf-8')
+    }
+    const { tree } = await this.decrypt(filePath)
+    return store === 'json' ? renderSopsJson(tree ?? {}) : stringifyYaml(tree)
+  }
+
+  async encrypt(filePath: string): Promise<void> {
+    if (isDotenvSecretFile(filePath)) {
+      const { lines, metadata } = parseSopsDotenv(await readFile(filePath, 'utf-8'))
+      if ('mac' in metadata) {
+        throw new SopsError(`Failed to encrypt ${filePath}: file is already encrypted`)
+      }
+      await this.writeNewFile(filePath, { lines })
+      return
+    }
+    const store = getSopsStoreType(filePath)
+    if (store === 'binary') {
+      await this.writeNewFile(filePath, { bytes: await readFile(filePath) })
+      return
+    }
+
+    let tree: unknown
+    try {
+      const raw = await readFile(filePath, 'utf-8')
+      tree = store === 'json' ? JSON.parse(raw) : (parseYaml(raw) ?? {})
+    } catch (error) {
+      throw new SopsError(`Failed to encrypt ${filePath}: ${(error as Error).message}`)
+    }
+    if (!tree || typeof tree !== 'object' || Array.isArray(tree)) {
+      throw new SopsError(
+        `Failed to encrypt ${filePath}: expected a ${store === 'json' ? 'JSON object' : 'YAML mapping'}`
+      )
+    }
+    if ('sops' in tree) {
+      throw new SopsError(`Failed to encrypt ${filePath}: file is already encrypted`)
+    }
+    await this.writeNewFile(filePath, { tree: tree as Record<string, unknown> })
+  }
+
+  async encryptData(filePath: string, data: SecretDocument, layout?: DotenvEntry[]): Promise<void> {
+    const store = getSopsStoreType(filePath)
+    await this.writeNewFile(
+      filePath,
+      store === 'dotenv'
+        ? { lines: entriesToSopsDotenv(applyDotenvLayout(flattenSecretDocument(data), layout)) }
+        : store === 'binary'
+          ? { bytes: Buffer.from(String(data[BINARY_DATA_KEY] ?? ''), 'base64') }
+          : { tree: toStoredDocument(data, layout) }
+    )
+  }
+
+  /**
+   * Re-wrap the existing data key for the recipients currently in .sops.yaml
+   */
+  async updateKeys(filePath: string): Promise<void> {
+    const { content, metadata } = await this.readEncryptedFile(filePath)
+    const dataKey = await this.unwrapDataKey(filePath, metadata)
+    const { recipients } = await this.resolveCreationRule(filePath)
+    metadata.age = await this.wrapDataKey(dataKey, recipients)
+    await this.writeEncryptedFile(filePath, content, metadata)
+  }
+
+  /**
+   * Re-encrypt all values with a fresh data key for the file's current recipients
+   */
+  async rotate(filePath: string): Promise<void> {
+    const { content, metadata } = await this.readEncryptedFile(filePath)
+    const oldKey = await this.unwrapDataKey(filePath, metadata)
+    const newKey = generateDataKey()
+
+    const rotated =
+      'lines' in content
+        ? reencryptSopsDotenv(content.lines, oldKey, newKey, metadata)
+        : reencryptSopsTree(content.tree, oldKey, newKey, metadata)
+    verifySopsMac(metadata.mac, rotated.mac, oldKey, metadata.lastmodified)
+
+    const lastmodified = sopsTimestamp()
+    metadata.age = await this.wrapDataKey(
+      newKey,
+      (metadata.age ?? []).map((entry) => entry.recipient)
+    )
+    metadata.lastmodified = lastmodified
+    metadata.mac = encryptSopsValue(rotated.mac, newKey, lastmodified)
+    await this.writeEncryptedFile(filePath, rotated, metadata)
+  }
+
+  private async writeNewFile(filePath: string, content: SopsPlainContent): Promise<void> {
+    const { recipients, rules } = await this.resolveCreationRule(filePath)
+    const dataKey = generateDataKey()
+    const encrypted =
+      'lines' in content
+        ? encryptSopsDotenv(content.lines, dataKey, rules)
+        : 'bytes' in content
+          ? encryptSopsBinary(content.bytes, dataKey, rules)
+          : encryptSopsTree(content.tree, dataKey, rules)
+    const lastmodified = sopsTimestamp()
+
+    const metadata: SopsFileMetadata = {
+      age: await this.wrapDataKey(dataKey, recipients),
+      lastmodified,
+      mac: encryptSopsValue(encrypted.mac, dataKey, lastmodified),
+      ...rules,
+      version: SOPS_FORMAT_VERSION,
+    }
+    await this.writeEncryptedFile(filePath, encrypted, metadata)
+  }
+
+  private async writeEncryptedFile(
+    filePath: string,
+    content: SopsFileContent,
+    metadata: SopsFileMetadata
+  ): Promise<void> {
+    if ('lines' in content) {
+      await atomicWriteFile(filePath, renderSopsDotenv(content.lines, metadata), {
+        skipIfIdentical: false,
+      })
+      return
+    }
+    if (getSopsStoreType(filePath) !== 'yaml') {
+      await atomicWriteFile(filePath, renderSopsJson(content.tree, metadata), {
+        skipIfIdentical: false,
+      })
+      return
+    }
+    const doc = new Document({ ...content.tree, sops: metadata })
+    // Quoted like sops does, so YAML 1.1 readers do not resolve it as a timestamp
+    const lastmodified = doc.getIn(['sops', 'lastmodified'], true)
+    if (lastmodified instanceof Scalar) lastmodified.type = Scalar.QUOTE_DOUBLE
+    await atomicWriteFile(filePath, doc.toString({ indent: 4, lineWidth: 0 }), {
+      skipIfIdentical: false,
+    })
+  }
+
+  private async readEncryptedFile(
+    filePath: string
+  ): Promise<{ content: SopsFileContent; metadata: SopsFileMetadata }> {
+    const store = getSopsStoreType(filePath)
+    let parsed: unknown
+    try {
+      const raw = await readFile(filePath, 'utf-8')
+      parsed =
+        store === 'dotenv'
+          ? parseSopsDotenv(raw)
+          : store === 'yaml'
+            ? parseYaml(raw)
+            : parseSopsJson(raw)
+    } catch (error) {
+      throw new SopsError(`Failed to read ${filePath}: ${(error as Error).message}`)
+    }
+
+    let content: SopsFileContent
+    let sops: SopsFileMetadata | undefined
+    if (store === 'dotenv') {
+      const { lines, metadata } = parsed as SopsDotenvFile
+      content = { lines }
+      sops = 'mac' in metadata ? (metadata as SopsFileMetadata) : undefined
+    } else if (store !== 'yaml') {
+      const { tree, metadata } = parsed as { tree: Record<string, unknown>; metadata?: unknown }
+      content = { tree }
+      sops = metadata as SopsFileMetadata | undefined
+    } else {
+      if (!parsed || typeof parsed !== 'object' || !('sops' in parsed)) {
+        throw new SopsError(`${filePath} is not a SOPS-encrypted YAML file`)
+      }
+      const { sops: yamlSops, ...tree } = parsed as Record<string, unknown> & {
+        sops: SopsFileMetadata
+      }
+      content = { tree }
+      sops = yamlSops
+    }
+    if (!sops || typeof sops.mac !== 'string' || typeof sops.lastmodified !== 'string') {
+      throw new SopsError(`${filePath} has incomplete sops metadata`)
+    }
+    return { content, metadata: { ...sops, lastmodified: String(sops.lastmodified) } }
+  }
+
+  /**
+   * Decrypted lines (values and comments) of a `.sops.env` file, MAC checked
+   */
+  private async decryptDotenvFile(
+    filePath: string
+  ): Promise<{ lines: SopsDotenvLine[]; metadata: SopsMetadata }> {
+    const { content, metadata } = await this.readEncryptedFile(filePath)
+    if (!('lines' in content)) {
+      throw new SopsError(`${filePath} is not a SOPS-encrypted dotenv file`)
+    }
+    const dataKey = await this.unwrapDataKey(filePath, metadata)
+    const decrypted = decryptSopsDotenv(content.lines, dataKey, metadata)
+    verifySopsMac(metadata.mac, decrypted.mac, dataKey, metadata.lastmodified)
+    return {
+      lines: decrypted.lines,
+      metadata: { lastmodified: metadata.lastmodified, mac: metadata.mac },
+    }
+  }
+
+  /**
+   * Decrypted bytes of a `.sops.bin` file, MAC checked
+   */
+  private async decryptBinaryFile(
+    filePath: string
+  ): Promise<{ bytes: Buffer; metadata: SopsMetadata }> {
+    const { content, metadata } = await this.readEncryptedFile(filePath)
+    if (!('tree' in content)) {
+      throw new SopsError(`${filePath} is not a SOPS-encrypted binary file`)
+    }
+    const dataKey = await this.unwrapDataKey(filePath, metadata)
+    const decrypted = decryptSopsBinary(content.tree, dataKey, metadata)
+    verifySopsMac(metadata.mac, decrypted.mac, dataKey, metadata.lastmodified)
+    return {
+      bytes: decrypted.bytes,
+      metadata: { lastmodified: metadata.lastmodified, mac: metadata.mac },
+    }
+  }
+
+  /**
+   * Age recipients and encryption rules of the .sops.yaml creation rule for a file
+   */
+  private async resolveCreationRule(
+    filePath: string
+  ): Promise<{ recipients: string[]; rules: SopsEncryptionRules }> {
+    const absolutePath = resolve(filePath)
+    const configDir = await findSopsConfigDir(dirname(absolutePath))
+    if (!configDir) {
+      throw new SopsError(`No ${SOPS_CONFIG_FILE} found for ${filePath}`)
+    }
+
+    let config: SopsConfig
+    try {
+      config = parseYaml(await readFile(join(configDir, SOPS_CONFIG_FILE), 'utf-8')) as SopsConfig
+    } catch (error) {
+      throw new SopsError(`Invalid ${SOPS_CONFIG_FILE}: ${(error as Error).message}`)
+    }
+
+    const relativePath = relative(configDir, absolutePath)
+    const rule = findCreationRule(config, relativePath)
+    if (!rule) {
+      throw new SopsError(`No creation rule in ${SOPS_CONFIG_FILE} matches ${relativePath}`)
+    }
+    if ((rule.key_groups ?? []).length > 1) {
+      throw new SopsError(
+        `Creation rule for ${relativePath} uses several key groups, which the JS backend does not support`
+      )
+    }
+    const keyGroup = rule.key_groups?.[0] ?? {}
+    const otherKeyTypes = (Object.keys(keyGroup) as SopsKeyType[]).filter(
+      (type) => type !== 'age' && (keyGroup[type]?.length ?? 0) > 0
+    )
+    if (otherKeyTypes.length > 0) {
+      throw new SopsError(
+        `Creation rule for ${relativePath} uses ${otherKeyTypes.join(', ')} keys, which the JS backend does not support (use system SOPS or a crypto plugin)`
+      )
+    }
+    const recipients = keyGroup.age ?? []
+    if (recipients.length === 0) {
+      throw new SopsError(`No age recipients in ${SOPS_CONFIG_FILE} for ${relativePath}`)
+    }
+
+    const rules: SopsEncryptionRules = {}
+    const ruleFields = rule as unknown as Record<string, unknown>
+    for (const field of RULE_FIELDS) {
+      if (ruleFields[field] !== undefined) {
+        Object.assign(rules, { [field]: ruleFields[field] })
+      }
+    }
+    if (Object.keys(rules).length === 0) {
+      rules.unencrypted_suffix = SOPS_DEFAULT_UNENCRYPTED_SUFFIX
+    }
+    return { recipients, rules }
+  }
+
+  private async wrapDataKey(dataKey: Uint8Array, recipients: string[]): Promise<SopsAgeEntry[]> {
+    const age = await this.requireAge()
+    const entries: SopsAgeEntry[] = []
+    for (const recipient of recipients) {
+      try {
+        const encrypter = new age.Encrypter()
+        encrypter.addRecipient(recipient)
+        entries.push({ recipient, enc: age.armor.encode(await encrypter.encrypt(dataKey)) })
+      } catch (error) {
+        throw new SopsError(`Invalid age recipient ${recipient}: ${(error as Error).message}`)
+      }
+    }
+    return entries
+  }
+
+  private async unwrapDataKey(filePath: string, metadata: SopsFileMetadata): Promise<Uint8Array> {
+    const age = await this.requireAge()
+    let identities: string[]
+    try {
+      identities = await this.cachedFindAgeKeys!()
+    } catch (error) {
+      throw new SopsError(`No age identity available: ${(error as Error).message}`)
+    }
+
+    for (const identity of identities) {
+      const recipient = await age.identityToRecipient(identity)
+      const entry = (metadata.age ?? []).find((item) => item.recipient === recipient)
+      if (!entry) continue
+      const decrypter = new age.Decrypter()
+      decrypter.addIdentity(identity)
+      return decrypter.decrypt(age.armor.decode(entry.enc), 'uint8array')
+    }
+    throw new SopsError(`None of the local age keys is a recipient of ${filePath}`)
+  }
+
+  private async requireAge(): Promise<AgeModule> {
+    await this.loadDecryptFn()
+    if (!this.cachedAge || !this.cachedFindAgeKeys) {
+      throw new SopsError(
+        'JS crypto backend is not available. Install dependencies "sops-age" and "age-encryption".'
+      )
+    }
+    return this.cachedAge
   }
 
   private async loadDecryptFn(): Promise<DecryptSopsFn | null> {
@@ -52,23 +445,29 @@ export class JsSopsAgeBackend implements CryptoBackend {
     this.importAttempted = true
 
     try {
-      const mod = (await import('sops-age')) as { decryptSops?: DecryptSopsFn }
+      const mod = (await import('sops-age')) as {
+        decryptSops?: DecryptSopsFn
+        findAllAgeKeys?: FindAgeKeysFn
+      }
       this.cachedDecryptFn = typeof mod.decryptSops === 'function' ? mod.decryptSops : null
-      return this.cachedDecryptFn
+      this.cachedFindAgeKeys = typeof mod.findAllAgeKeys === 'function' ? mod.findAllAgeKeys : null
     } catch {
       this.cachedDecryptFn = null
-      return null
     }
+    try {
+      this.cachedAge = await import('age-encryption')
+    } catch {
+      this.cachedAge = null
+    }
+    return this.cachedDecryptFn
   }
 
   private async readMetadata(filePath: string): Promise<SopsMetadata> {
     try {
       const content = await readFile(filePath, 'utf-8')
-      const parsed = parseYaml(content) as Record<string, unknown>
-      const sopsMeta = ((parsed?.sops as Record<string, unknown>) ?? {}) as Record<
-        string,
-        unknown
-      >
+      const sopsMeta = ((getSopsStoreType(filePath) === 'json'
+        ? parseSopsJson(content).metadata
+        : (parseYaml(content) as Record<string, unknown>)?.sops) ?? {}) as Record<string, unknown>
       const metadata: SopsMetadata = {
         lastmodified: String(sopsMeta.lastmodified ?? ''),
         mac: String(sopsMeta.mac ?? ''),
@@ -85,17 +484,24 @@ export class JsSopsAgeBackend implements CryptoBackend {
     }
   }
 
-  private toEnvObject(value: unknown): EnvObject {
+  private toSecretDocument(value: unknown): SecretDocument {
     if (!value || typeof value !== 'object' || Array.isArray(value)) {
       throw new Error('Unsupported decrypted payload shape (expected object)')
     }
+    return value as SecretDocument
+  }
+}
 
-    const out: EnvObject = {}
-    for (const [key, entryValue] of Object.entries(value as Record<string, unknown>)) {
-      if (entryValue !== null && entryValue !== undefined) {
-        out[key] = String(entryValue)
-      }
+async function findSopsConfigDir(startDir: string): Promise<string | null> {
+  let dir = startDir
+  for (;;) {
+    try {
+      await access(join(dir, SOPS_CONFIG_FILE))
+      return dir
+    } catch {
+      const parent = dirname(dir)
+      if (parent === dir) return null
+      dir = parent
     }
-    return out
   }
 }
@@ -1,7 +1,74 @@
 import { execa } from 'execa'
-import { readFile, writeFile } from 'fs/promises'
+import { readFile } from 'fs/promises'
 import { parse as parseYaml, stringify as stringifyYaml } from 'yaml'
-import { SopsError, EnvObject } from '../types/index.js'
+import { SopsError, EnvObject, SecretDocument } from '../types/index.js'
+import type { DotenvEntry } from '../env/types.js'
+import { BINARY_DATA_KEY, applyDotenvLayout, flattenSecretDocument } from '../env/secret-format.js'
+import { fromStoredDocument, toStoredDocument } from '../env/key-metadata.js'
+import { getSopsStoreType, isDotenvSecretFile, type SopsStoreType } from '../config/secret-path.js'
+import { atomicWriteFile } from '../fs/atomic-write.js'
+import { createSecureTempFile } from '../fs/safe-tmp.js'
+import {
+  entriesToSopsDotenv,
+  parseSopsDotenv,
+  renderSopsDotenv,
+  sopsDotenvToEntries
+} from './sops-dotenv.js'
+import { parseSopsJson } from './sops-json.js'
+
+// Oldest sops release with --filename-override, which every write relies on
+export const MIN_SOPS_VERSION = '3.9.0'
+
+/**
+ * Whether a sops version (e.g. "3.9.4") is at least MIN_SOPS_VERSION
+ */
+export function isSupportedSopsVersion(version: string): boolean {
+  const parts = version.split('.').map(Number)
+  const minimum = MIN_SOPS_VERSION.split('.').map(Number)
+  for (let i = 0; i < minimum.length; i++) {
+    const part = parts[i] ?? 0
+    if (part !== minimum[i]) return part > minimum[i]!
+  }
+  return true
+}
+
+const PLAIN_FILE_SUFFIXES: Record<SopsStoreType, string> = {
+  yaml: '.yaml',
+  dotenv: '.env',
+  json: '.json',
+  binary: '.bin'
+}
+
+/**
+ * Plaintext input of `sops -e` in the given store. The layout's order and comments
+ * apply to dotenv lines and to the per-key metadata of YAML and JSON documents.
+ */
+function renderPlainFile(
+  storeType: SopsStoreType,
+  data: SecretDocument,
+  layout: DotenvEntry[] | undefined
+): string | Buffer {
+  switch (storeType) {
+    case 'dotenv':
+      return renderSopsDotenv(
+        entriesToSopsDotenv(applyDotenvLayout(flattenSecretDocument(data), layout))
+      )
+    case 'binary':
+      return Buffer.from(String(data[BINARY_DATA_KEY] ?? ''), 'base64')
+    case 'json':
+      return `${JSON.stringify(toStoredDocument(data, layout), null, 2)}\n`
+    case 'yaml':
+      return stringifyYaml(toStoredDocument(data, layout))
+  }
+}
+
+export interface SopsInstallation {
+  installed: boolean
+  /** Parsed version, null when not installed or unrecognised */
+  version: string | null
+  /** Installed and not older than MIN_SOPS_VERSION (unrecognised versions count as supported) */
+  supported: boolean
+}
 
 export interface SopsAdapterOptions {
   sopsPath?: string
@@ -10,7 +77,15 @@ export interface SopsAdapterOptions {
 }
 
 export interface DecryptedData {
+  /** Flat key/value view; nested yaml/json values appear as `A__B` keys */
   data: EnvObject
+  /** Decrypted document as stored, nesting kept. Backends without it only have `data`. */
+  tree?: SecretDocument
+  /**
+   * Keys in stored order with their comments (`.sops.env` comments, or per-key
+   * metadata of YAML files). Pass back to encryptData as the layout to keep them.
+   */
+  entries?: DotenvEntry[]
   metadata: SopsMetadata
 }
 
@@ -25,6 +100,7 @@ export class SopsAdapter {
   private sopsPath: string
   private ageKeyFile: string | undefined
   private env: NodeJS.ProcessEnv
+  private installation: Promise<SopsInstallation> | undefined
 
   constructor(options: SopsAdapterOptions = {}) {
     this.sopsPath = options.sopsPath ?? 'sops'
@@ -39,44 +115,71 @@ export class SopsAdapter {
   }
 
   /**
-   * Check if sops binary is available
+   * Check if a sops binary new enough for envvault is available
    */
   async isAvailable(): Promise<boolean> {
-    try {
-      const result = await execa(this.sopsPath, ['--version'], {
-        env: this.env,
-        reject: false
-      })
-      return result.exitCode === 0
-    } catch {
-      return false
-    }
+    return (await this.getInstallation()).supported
   }
 
   /**
    * Get sops version
    */
   async getVersion(): Promise<string | null> {
+    return (await this.getInstallation()).version
+  }
+
+  /**
+   * Whether sops is installed, its version and whether envvault supports it
+   * (checked once per adapter)
+   */
+  getInstallation(): Promise<SopsInstallation> {
+    this.installation ??= this.readInstallation()
+    return this.installation
+  }
+
+  private async readInstallation(): Promise<SopsInstallation> {
     try {
       const result = await execa(this.sopsPath, ['--version'], {
         env: this.env,
         reject: false
       })
-      if (result.exitCode === 0) {
-        const match = result.stdout.match(/sops (\d+\.\d+\.\d+)/)
-        return match ? match[1]! : null
+      if (result.exitCode !== 0) {
+        return { installed: false, version: null, supported: false }
+      }
+      const match = result.stdout.match(/sops (\d+\.\d+\.\d+)/)
+      const version = match ? match[1]! : null
+      return {
+        installed: true,
+        version,
+        supported: version === null || isSupportedSopsVersion(version)
       }
-      return null
     } catch {
-      return null
+      return { installed: false, version: null, supported: false }
     }
   }
 
   /**
-   * Decrypt a SOPS-encrypted YAML file
+   * Fail with a clear message instead of an opaque CLI error on old sops
+   */
+  private async assertSupportedVersion(): Promise<void> {
+    const { installed, version, supported } = await this.getInstallation()
+    if (installed && !supported) {
+      throw new SopsError(
+        `sops ${version} is too old: envvault needs sops >= ${MIN_SOPS_VERSION} (for --filename-override). Upgrade sops or use --crypto-backend js.`
+      )
+    }
+  }
+
+  /**
+   * Decrypt a SOPS-encrypted YAML file, or a dotenv, JSON or binary file for
+   * `.sops.env`, `.sops.json` and `.sops.bin` paths (sops picks the store by extension)
    */
   async decrypt(filepath: string): Promise<DecryptedData> {
+    const store = getSopsStoreType(filepath)
     try {
+      if (store === 'binary') {
+        return await this.decryptBinary(filepath)
+      }
       const result = await execa(this.sopsPath, ['-d', filepath], {
         env: this.env,
         reject: false
@@ -89,6 +192,32 @@ export class SopsAdapter {
         )
       }
 
+      if (isDotenvSecretFile(filepath)) {
+        const entries = sopsDotenvToEntries(parseSopsDotenv(result.stdout).lines)
+        const { metadata } = parseSopsDotenv(await readFile(filepath, 'utf-8'))
+        const data = Object.fromEntries(entries.map((entry) => [entry.key, entry.value]))
+        return {
+          data,
+          tree: data,
+          entries,
+          metadata: {
+            lastmodified: String(metadata.lastmodified ?? ''),
+            mac: String(metadata.mac ?? '')
+          }
+        }
+      }
+
+      if (store === 'json') {
+        const { metadata = {} } = parseSopsJson(await readFile(filepath, 'utf-8'))
+        return {
+          ...fromStoredDocument(JSON.parse(result.stdout) as SecretDocument),
+          metadata: {
+            lastmodified: String(metadata.lastmodified ?? ''),
+            mac: String(metadata.mac ?? '')
+          }
+        }
+      }
+
       const parsed = parseYaml(result.stdout) as Record<string, unknown>
       
       // Extract SOPS metadata
@@ -104,16 +233,41 @@ export class SopsAdapter {
         metadata.recipient_hashes = sopsMeta.recipient_hashes as string[]
       }
 
-      return {
-        data: this.recordToEnvObject(parsed),
-        metadata
-      }
+      return { ...fromStoredDocument(parsed), metadata }
     } catch (error) {
       if (error instanceof SopsError) throw error
       throw new SopsError(`Decryption error: ${(error as Error).message}`)
     }
   }
 
+  /**
+   * File bytes of a `.sops.bin` file, as the base64 `data` of a binary document
+   */
+  private async decryptBinary(filepath: string): Promise<DecryptedData> {
+    const result = await execa(this.sopsPath, ['-d', filepath], {
+      env: this.env,
+      reject: false,
+      encoding: 'buffer',
+      stripFinalNewline: false
+    })
+
+    if (result.exitCode !== 0) {
+      throw new SopsError(
+        `Failed to decrypt ${filepath}: ${result.stderr.toString()}`,
+        result.exitCode
+      )
+    }
+
+    const { metadata = {} } = parseSopsJson(await readFile(filepath, 'utf-8'))
+    return {
+      ...fromStoredDocument({ [BINARY_DATA_KEY]: Buffer.from(result.stdout).toString('base64') }),
+      metadata: {
+        lastmodified: String(metadata.lastmodified ?? ''),
+        mac: String(metadata.mac ?? '')
+      }
+    }
+  }
+
   /**
    * Decrypt and return as string (for external use)
    */
@@ -161,15 +315,61 @@ export class SopsAdapter {
   }
 
   /**
-   * Encrypt data and write to file
+   * Encrypt data (a flat map or a nested document) and write to file.
+   * Plaintext only lives in a 0600 temp file; the target path only ever receives
+   * ciphertext (atomically), so a failed or killed sops leaves it untouched.
+   * With a `layout`, keys are written in its order and its comments are kept: as
+   * comments in `.sops.env` files, as per-key metadata in YAML and JSON files.
+   * `.sops.json` and `.sops.bin` files use the sops json and binary stores, so
+   * `sops -d` gives back the JSON document or the original file.
    */
-  async encryptData(filepath: string, data: EnvObject): Promise<void> {
-    // Write plaintext YAML first (without sops field)
-    const yaml = stringifyYaml({ ...data })
-    await writeFile(filepath, yaml, 'utf-8')
-    
-    // Then encrypt
-    await this.encrypt(filepath)
+  async encryptData(
+    filepath: string,
+    data: SecretDocument,
+    layout?: DotenvEntry[]
+  ): Promise<void> {
+    const storeType = getSopsStoreType(filepath)
+    const plaintext = await createSecureTempFile(renderPlainFile(storeType, data, layout), {
+      suffix: PLAIN_FILE_SUFFIXES[storeType]
+    })
+    try {
+      await this.assertSupportedVersion()
+      const result = await execa(
+        this.sopsPath,
+        [
+          '-e',
+          '--filename-override',
+          filepath,
+          '--input-type',
+          storeType,
+          '--output-type',
+          storeType,
+          plaintext.path
+        ],
+        {
+          env: this.env,
+          reject: false,
+          stripFinalNewline: false
+        }
+      )
+
+      if (result.exitCode !== 0) {
+        throw new SopsError(
+          `Failed to encrypt ${filepath}: ${result.stderr}`,
+          result.exitCode
+        )
+      }
+      if (!result.stdout.trim()) {
+        throw new SopsError(`Failed to encrypt ${filepath}: sops produced no output`)
+      }
+
+      await atomicWriteFile(filepath, result.stdout, { skipIfIdentical: false })
+    } catch (error) {
+      if (error instanceof SopsError) throw error
+      throw new SopsError(`Encryption error: ${(error as Error).message}`)
+    } finally {
+      await plaintext.cleanup()
+    }
   }
 
   /**
@@ -222,23 +422,16 @@ export class SopsAdapter {
   async isEncrypted(filepath: string): Promise<boolean> {
     try {
       const content = await readFile(filepath, 'utf-8')
+      if (isDotenvSecretFile(filepath)) {
+        return 'mac' in parseSopsDotenv(content).metadata
+      }
+      if (getSopsStoreType(filepath) !== 'yaml') {
+        return parseSopsJson(content).metadata !== undefined
+      }
       const parsed = parseYaml(content) as Record<string, unknown>
       return 'sops' in parsed && parsed.sops !== null
     } catch {
       return false
     }
   }
-
-  /**
-   * Convert Record to EnvObject (string values only)
-   */
-  private recordToEnvObject(record: Record<string, unknown>): EnvObject {
-    const result: EnvObject = {}
-    for (const [key, value] of Object.entries(record)) {
-      if (value !== null && value !== undefined) {
-        result[key] = String(value)
-      }
-    }
-    return result
-  }
 }
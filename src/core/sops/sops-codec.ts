@@ -0,0 +1,257 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, type Hash } from 'crypto'
+import { SopsError } from '../types/index.js'
+
+/**
+ * SOPS file format primitives (values, MAC, encryption rules), compatible with
+ * files written by the sops CLI. Key wrapping (age) lives in the JS backend.
+ */
+
+/** Value types of sops ciphertexts; `comment` is an encrypted comment line */
+export type SopsValueType = 'str' | 'int' | 'float' | 'bool' | 'bytes' | 'comment'
+
+/** sops version written into files produced by the JS backend */
+export const SOPS_FORMAT_VERSION = '3.9.4'
+export const SOPS_DEFAULT_UNENCRYPTED_SUFFIX = '_unencrypted'
+
+const ENC_PATTERN = /^ENC\[AES256_GCM,data:(.*),iv:(.+),tag:(.+),type:(.+)\]$/
+const VALUE_TYPES: SopsValueType[] = ['str', 'int', 'float', 'bool', 'bytes', 'comment']
+const IV_BYTES = 32
+const DATA_KEY_BYTES = 32
+
+/**
+ * Which leaves of the tree are encrypted (sops metadata fields of the same name)
+ */
+export interface SopsEncryptionRules {
+  unencrypted_suffix?: string
+  encrypted_suffix?: string
+  unencrypted_regex?: string
+  encrypted_regex?: string
+  mac_only_encrypted?: boolean
+}
+
+export function generateDataKey(): Buffer {
+  return randomBytes(DATA_KEY_BYTES)
+}
+
+/**
+ * Current time in the RFC 3339 form sops uses for `lastmodified`
+ */
+export function sopsTimestamp(date: Date = new Date()): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z')
+}
+
+export function isSopsEncryptedValue(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith('ENC[AES256_GCM,')
+}
+
+/**
+ * Encrypt one value as `ENC[AES256_GCM,data:...,iv:...,tag:...,type:...]`.
+ * Empty values stay empty, as in sops. Strings are encrypted as utf-8.
+ */
+export function encryptSopsValue(
+  plaintext: string | Uint8Array,
+  dataKey: Uint8Array,
+  additionalData: string,
+  type: SopsValueType = 'str'
+): string {
+  if (plaintext.length === 0) return ''
+  const iv = randomBytes(IV_BYTES)
+  const cipher = createCipheriv('aes-256-gcm', dataKey, iv)
+  cipher.setAAD(Buffer.from(additionalData, 'utf-8'))
+  const bytes = typeof plaintext === 'string' ? Buffer.from(plaintext, 'utf-8') : plaintext
+  const data = Buffer.concat([cipher.update(bytes), cipher.final()])
+  const tag = cipher.getAuthTag()
+  return `ENC[AES256_GCM,data:${data.toString('base64')},iv:${iv.toString('base64')},tag:${tag.toString('base64')},type:${type}]`
+}
+
+export function decryptSopsValue(
+  ciphertext: string,
+  dataKey: Uint8Array,
+  additionalData: string
+): { plaintext: string; type: SopsValueType } {
+  const { plaintext, type } = decryptSopsBytes(ciphertext, dataKey, additionalData)
+  return { plaintext: plaintext.toString('utf-8'), type }
+}
+
+/**
+ * Decrypt one value to its raw bytes (for values that need not be utf-8, e.g. binary files)
+ */
+export function decryptSopsBytes(
+  ciphertext: string,
+  dataKey: Uint8Array,
+  additionalData: string
+): { plaintext: Buffer; type: SopsValueType } {
+  if (ciphertext === '') return { plaintext: Buffer.alloc(0), type: 'str' }
+  const match = ciphertext.match(ENC_PATTERN)
+  if (!match || !VALUE_TYPES.includes(match[4] as SopsValueType)) {
+    throw new SopsError('Value is not in sops AES256_GCM format')
+  }
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', dataKey, Buffer.from(match[2]!, 'base64'))
+    decipher.setAAD(Buffer.from(additionalData, 'utf-8'))
+    decipher.setAuthTag(Buffer.from(match[3]!, 'base64'))
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(match[1]!, 'base64')),
+      decipher.final(),
+    ])
+    return { plaintext, type: match[4] as SopsValueType }
+  } catch {
+    throw new SopsError(
+      `Could not decrypt value at "${additionalData}" (wrong data key or tampered file)`
+    )
+  }
+}
+
+function toSopsBytes(value: unknown): { plaintext: string; type: SopsValueType } {
+  if (typeof value === 'boolean') return { plaintext: value ? 'True' : 'False', type: 'bool' }
+  if (typeof value === 'number') {
+    return { plaintext: String(value), type: Number.isInteger(value) ? 'int' : 'float' }
+  }
+  if (value instanceof Uint8Array) {
+    return { plaintext: Buffer.from(value).toString('utf-8'), type: 'bytes' }
+  }
+  return { plaintext: value === null || value === undefined ? '' : String(value), type: 'str' }
+}
+
+function fromSopsBytes(plaintext: string, type: SopsValueType): unknown {
+  switch (type) {
+    case 'bool':
+      return plaintext.toLowerCase() === 'true'
+    case 'int':
+      return Number.parseInt(plaintext, 10)
+    case 'float':
+      return Number.parseFloat(plaintext)
+    default:
+      return plaintext
+  }
+}
+
+/**
+ * Whether the leaf at `path` is encrypted under the given rules (sops semantics:
+ * any key on the path decides)
+ */
+export function shouldEncryptPath(path: string[], rules: SopsEncryptionRules): boolean {
+  if (rules.encrypted_regex) {
+    const pattern = new RegExp(rules.encrypted_regex)
+    return path.some((key) => pattern.test(key))
+  }
+  if (rules.unencrypted_regex) {
+    const pattern = new RegExp(rules.unencrypted_regex)
+    return !path.some((key) => pattern.test(key))
+  }
+  if (rules.encrypted_suffix) {
+    return path.some((key) => key.endsWith(rules.encrypted_suffix!))
+  }
+  const suffix = rules.unencrypted_suffix ?? SOPS_DEFAULT_UNENCRYPTED_SUFFIX
+  return !path.some((key) => key.endsWith(suffix))
+}
+
+function additionalDataFor(path: string[]): string {
+  return `${path.join(':')}:`
+}
+
+/**
+ * Visit leaves in document order. Array items share their parent's path, as in sops.
+ */
+function mapLeaves(
+  node: unknown,
+  path: string[],
+  visit: (leaf: unknown, path: string[]) => unknown
+): unknown {
+  if (Array.isArray(node)) {
+    return node.map((item) => mapLeaves(item, path, visit))
+  }
+  if (node && typeof node === 'object' && !(node instanceof Uint8Array)) {
+    const out: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(node as Record<string, unknown>)) {
+      out[key] = mapLeaves(value, [...path, key], visit)
+    }
+    return out
+  }
+  return visit(node, path)
+}
+
+function hashHex(hash: Hash): string {
+  return hash.digest('hex').toUpperCase()
+}
+
+/**
+ * Encrypt every leaf selected by the rules. Returns the new tree and the
+ * plaintext MAC (SHA-512 over all values, hex) to be stored encrypted.
+ */
+export function encryptSopsTree(
+  tree: Record<string, unknown>,
+  dataKey: Uint8Array,
+  rules: SopsEncryptionRules = {}
+): { tree: Record<string, unknown>; mac: string } {
+  const hash = createHash('sha512')
+  const encrypted = mapLeaves(tree, [], (leaf, path) => {
+    const encrypt = shouldEncryptPath(path, rules)
+    const { plaintext, type } = toSopsBytes(leaf)
+    if (!rules.mac_only_encrypted || encrypt) hash.update(plaintext, 'utf-8')
+    return encrypt ? encryptSopsValue(plaintext, dataKey, additionalDataFor(path), type) : leaf
+  })
+  return { tree: encrypted as Record<string, unknown>, mac: hashHex(hash) }
+}
+
+/**
+ * Decrypt all encrypted leaves. Returns the plaintext tree and the recomputed MAC.
+ */
+export function decryptSopsTree(
+  tree: Record<string, unknown>,
+  dataKey: Uint8Array,
+  rules: SopsEncryptionRules = {}
+): { tree: Record<string, unknown>; mac: string } {
+  const hash = createHash('sha512')
+  const decrypted = mapLeaves(tree, [], (leaf, path) => {
+    const encrypt = shouldEncryptPath(path, rules)
+    if (isSopsEncryptedValue(leaf)) {
+      const { plaintext, type } = decryptSopsValue(leaf, dataKey, additionalDataFor(path))
+      if (!rules.mac_only_encrypted || encrypt) hash.update(plaintext, 'utf-8')
+      return fromSopsBytes(plaintext, type)
+    }
+    if (!rules.mac_only_encrypted || encrypt) hash.update(toSopsBytes(leaf).plaintext, 'utf-8')
+    return leaf
+  })
+  return { tree: decrypted as Record<string, unknown>, mac: hashHex(hash) }
+}
+
+/**
+ * Re-encrypt every encrypted leaf under a new data key, keeping value types and
+ * bytes. Returns the new tree and the recomputed MAC.
+ */
+export function reencryptSopsTree(
+  tree: Record<string, unknown>,
+  oldKey: Uint8Array,
+  newKey: Uint8Array,
+  rules: SopsEncryptionRules = {}
+): { tree: Record<string, unknown>; mac: string } {
+  const hash = createHash('sha512')
+  const reencrypted = mapLeaves(tree, [], (leaf, path) => {
+    const encrypt = shouldEncryptPath(path, rules)
+    if (isSopsEncryptedValue(leaf)) {
+      const additionalData = additionalDataFor(path)
+      const { plaintext, type } = decryptSopsBytes(leaf, oldKey, additionalData)
+      if (!rules.mac_only_encrypted || encrypt) hash.update(plaintext)
+      return encryptSopsValue(plaintext, newKey, additionalData, type)
+    }
+    if (!rules.mac_only_encrypted || encrypt) hash.update(toSopsBytes(leaf).plaintext, 'utf-8')
+    return leaf
+  })
+  return { tree: reencrypted as Record<string, unknown>, mac: hashHex(hash) }
+}
+
+/**
+ * Check a stored (encrypted) MAC against the MAC recomputed from the values
+ */
+export function verifySopsMac(
+  storedMac: string,
+  computedMac: string,
+  dataKey: Uint8Array,
+  lastmodified: string
+): void {
+  const { plaintext } = decryptSopsValue(storedMac, dataKey, lastmodified)
+  if (plaintext !== computedMac) {
+    throw new SopsError('MAC mismatch: the encrypted file was modified outside sops')
+  }
+}
@@ -1,45 +1,136 @@
 import { writeFile } from 'fs/promises'
 import { join } from 'path'
 import { stringify as stringifyYaml } from 'yaml'
-import { EnvVaultPolicy } from '../types/index.js'
+import { EnvVaultConfig, EnvVaultPolicy } from '../types/index.js'
+import { getKeyGroupsThreshold, getServiceKeyGroups } from '../policy/key-groups.js'
 
 const SOPS_CONFIG_FILE = '.sops.yaml'
+const DEFAULT_SECRETS_DIR = 'secrets'
+
+/** Project settings that shape the generated creation rules */
+export type SopsConfigOptions = Pick<EnvVaultConfig, 'secretsDir'>
+
+/**
+ * One key group of a creation rule. Policy recipient entries map to it by prefix:
+ * `age1...` (age), `pgp:<fingerprint>`, `kms:<arn>[+<role arn>]`, `gcp_kms:<resource id>`
+ * and `hc_vault:<transit key uri>`.
+ */
+export interface SopsKeyGroup {
+  age?: string[]
+  pgp?: string[]
+  kms?: Array<{ arn: string; role?: string }>
+  gcp_kms?: Array<{ resource_id: string }>
+  hc_vault?: string[]
+}
+
+export type SopsKeyType = keyof SopsKeyGroup
 
 export interface SopsCreationRule {
   path_regex: string
-  key_groups: Array<{
-    age: string[]
-  }>
+  /** Key groups needed to decrypt when there are several (Shamir secret sharing) */
+  shamir_threshold?: number
+  key_groups: SopsKeyGroup[]
+  /** Only values of matching keys are encrypted (from the environment's `encryptedRegex`) */
+  encrypted_regex?: string
 }
 
 export interface SopsConfig {
   creation_rules: SopsCreationRule[]
 }
 
+const KEY_TYPE_PREFIXES: Array<Exclude<SopsKeyType, 'age'>> = ['pgp', 'kms', 'gcp_kms', 'hc_vault']
+
 function escapeRegexLiteral(input: string): string {
   return input.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
 }
 
+/**
+ * Regex for a repository-relative secrets directory, e.g. `config/secrets` or
+ * `./vault/` (leading `./` and trailing separators are dropped)
+ */
+function secretsDirPattern(secretsDir: string): string {
+  const segments = secretsDir
+    .split(/[\\/]+/)
+    .filter((segment, index) => segment !== '' && !(segment === '.' && index === 0))
+  return (segments.length > 0 ? segments : [DEFAULT_SECRETS_DIR])
+    .map(escapeRegexLiteral)
+    .join('[\\\\/]')
+}
+
+/**
+ * Key type and key of a recipient entry. Entries without a known `<type>:` prefix are age keys.
+ */
+export function parseSopsKey(entry: string): { type: SopsKeyType; key: string } {
+  for (const type of KEY_TYPE_PREFIXES) {
+    if (entry.startsWith(`${type}:`)) {
+      return { type, key: entry.slice(type.length + 1) }
+    }
+  }
+  return { type: 'age', key: entry }
+}
+
+/**
+ * Build a key group from (expanded) recipient entries, keeping entry order within each type
+ */
+export function buildSopsKeyGroup(entries: string[]): SopsKeyGroup {
+  const group: SopsKeyGroup = {}
+  for (const entry of entries) {
+    const { type, key } = parseSopsKey(entry)
+    if (type === 'kms') {
+      const [arn, role] = key.split('+')
+      group.kms = [...(group.kms ?? []), role ? { arn: arn!, role } : { arn: arn! }]
+    } else if (type === 'gcp_kms') {
+      group.gcp_kms = [...(group.gcp_kms ?? []), { resource_id: key }]
+    } else {
+      group[type] = [...(group[type] ?? []), key]
+    }
+  }
+  return group
+}
+
+/**
+ * Recipient entries of a key group, in the same prefixed form policy entries use
+ */
+export function listSopsKeyGroupEntries(group: SopsKeyGroup): string[] {
+  return [
+    ...(group.age ?? []),
+    ...(group.pgp ?? []).map((key) => `pgp:${key}`),
+    ...(group.kms ?? []).map((key) => `kms:${key.role ? `${key.arn}+${key.role}` : key.arn}`),
+    ...(group.gcp_kms ?? []).map((key) => `gcp_kms:${key.resource_id}`),
+    ...(group.hc_vault ?? []).map((key) => `hc_vault:${key}`),
+  ]
+}
+
 /**
  * Generate .sops.yaml from envvault.policy.json
+ * Groups and member aliases in recipients lists are expanded to keys; prefixed
+ * entries (pgp:, kms:, ...) go to the matching key type of the key group.
+ * Environments with `keyGroups` get one key group per entry and a shamir_threshold,
+ * environments with `encryptedRegex` an encrypted_regex.
+ * Rules match every storage format (`<service>.sops.{yaml,env,json,bin}`).
  */
-export function generateSopsConfig(policy: EnvVaultPolicy): SopsConfig {
+export function generateSopsConfig(
+  policy: EnvVaultPolicy,
+  options: SopsConfigOptions = { secretsDir: DEFAULT_SECRETS_DIR }
+): SopsConfig {
   const rules: SopsCreationRule[] = []
+  const secretsDir = secretsDirPattern(options.secretsDir)
 
   for (const [envName, envConfig] of Object.entries(policy.environments)) {
-    for (const [serviceName, serviceConfig] of Object.entries(envConfig.services)) {
-      const recipients = serviceConfig.recipients
-      if (recipients.length === 0) continue
+    for (const serviceName of Object.keys(envConfig.services)) {
+      // Environment-wide entries, groups and member aliases expand to keys
+      const keyGroups = getServiceKeyGroups(policy, envName, serviceName)
+      if (keyGroups.length === 0) continue
 
-      const pathRegex = `^secrets[\\\\/]${escapeRegexLiteral(envName)}[\\\\/]${escapeRegexLiteral(serviceName)}\\.sops\\.yaml$`
+      const pathRegex = `^${secretsDir}[\\\\/]${escapeRegexLiteral(envName)}[\\\\/]${escapeRegexLiteral(serviceName)}\\.sops\\.(yaml|env|json|bin)$`
       
       rules.push({
         path_regex: pathRegex,
-        key_groups: [
-          {
-            age: [...recipients] // Copy array
-          }
-        ]
+        ...(keyGroups.length > 1 && envConfig.keyGroups
+          ? { shamir_threshold: getKeyGroupsThreshold(envConfig.keyGroups) }
+          : {}),
+        key_groups: keyGroups.map(buildSopsKeyGroup),
+        ...(envConfig.encryptedRegex ? { encrypted_regex: envConfig.encryptedRegex } : {}),
       })
     }
   }
@@ -53,6 +144,88 @@ export function generateSopsConfig(policy: EnvVaultPolicy): SopsConfig {
   return { creation_rules: rules }
 }
 
+/**
+ * First creation rule matching a repository-relative path (the rule SOPS itself would pick)
+ */
+export function findCreationRule(
+  config: SopsConfig,
+  filePath: string
+): SopsCreationRule | undefined {
+  const normalized = filePath.replace(/\\/g, '/')
+  for (const rule of config.creation_rules ?? []) {
+    try {
+      if (new RegExp(rule.path_regex).test(normalized)) return rule
+    } catch {
+      continue
+    }
+  }
+  return undefined
+}
+
+/**
+ * Recipients (age keys and prefixed pgp:/kms:/... entries) of the first creation rule
+ * matching a repository-relative path
+ */
+export function findCreationRuleRecipients(config: SopsConfig, filePath: string): string[] {
+  const rule = findCreationRule(config, filePath)
+  return (rule?.key_groups ?? []).flatMap(listSopsKeyGroupEntries)
+}
+
+function describeKeyGroupStructure(rule: SopsCreationRule): string {
+  const count = rule.key_groups?.length ?? 0
+  if (count <= 1) return `${count} key group${count === 1 ? '' : 's'}`
+  return `${rule.shamir_threshold ?? count} of ${count} key groups`
+}
+
+/**
+ * Differences between the expected and actual .sops.yaml, one line per creation rule
+ * (keyed by path_regex): missing or extra rules, encrypted_regex, key group structure
+ * and recipients
+ */
+export function diffSopsConfigs(expected: SopsConfig, actual: SopsConfig): string[] {
+  const actualRules = new Map((actual.creation_rules ?? []).map((rule) => [rule.path_regex, rule]))
+  const expectedRegexes = new Set(expected.creation_rules.map((rule) => rule.path_regex))
+  const differences: string[] = []
+
+  for (const rule of expected.creation_rules) {
+    const found = actualRules.get(rule.path_regex)
+    if (!found) {
+      differences.push(`${rule.path_regex}: rule missing`)
+      continue
+    }
+    if ((rule.encrypted_regex ?? '') !== (found.encrypted_regex ?? '')) {
+      differences.push(
+        `${rule.path_regex}: expected encrypted_regex ${rule.encrypted_regex ?? '(none)'}, found ${found.encrypted_regex ?? '(none)'}`
+      )
+    }
+    const expectedShape = describeKeyGroupStructure(rule)
+    const actualShape = describeKeyGroupStructure(found)
+    if (expectedShape !== actualShape) {
+      differences.push(`${rule.path_regex}: expected ${expectedShape}, found ${actualShape}`)
+      continue
+    }
+    rule.key_groups.forEach((group, index) => {
+      const want = listSopsKeyGroupEntries(group)
+      const have = listSopsKeyGroupEntries(found.key_groups[index] ?? {})
+      const missing = want.filter((entry) => !have.includes(entry))
+      const extra = have.filter((entry) => !want.includes(entry))
+      if (missing.length === 0 && extra.length === 0) return
+      const where = rule.key_groups.length > 1 ? ` key group ${index + 1}` : ''
+      const parts = [
+        ...(missing.length > 0 ? [`missing ${missing.join(', ')}`] : []),
+        ...(extra.length > 0 ? [`unexpected ${extra.join(', ')}`] : []),
+      ]
+      differences.push(`${rule.path_regex}:${where} ${parts.join('; ')}`)
+    })
+  }
+  for (const rule of actual.creation_rules ?? []) {
+    if (!expectedRegexes.has(rule.path_regex)) {
+      differences.push(`${rule.path_regex}: rule not in policy`)
+    }
+  }
+  return differences
+}
+
 /**
  * Render SopsConfig to YAML string
  */
@@ -65,13 +238,14 @@ export function renderSopsConfig(config: SopsConfig): string {
 }
 
 /**
- * Generate and write .sops.yaml
+ * Generate and write .sops.yaml for the project's secrets directory
  */
 export async function writeSopsConfig(
   projectDir: string,
-  policy: EnvVaultPolicy
+  policy: EnvVaultPolicy,
+  options: SopsConfigOptions
 ): Promise<string> {
-  const config = generateSopsConfig(policy)
+  const config = generateSopsConfig(policy, options)
   const yaml = renderSopsConfig(config)
   const filepath = join(projectDir, SOPS_CONFIG_FILE)
   await writeFile(filepath, yaml, 'utf-8')
@@ -81,7 +255,10 @@ export async function writeSopsConfig(
 /**
  * Get the expected .sops.yaml content for verification
  */
-export function getExpectedSopsConfigYaml(policy: EnvVaultPolicy): string {
-  const config = generateSopsConfig(policy)
+export function getExpectedSopsConfigYaml(
+  policy: EnvVaultPolicy,
+  options: SopsConfigOptions = { secretsDir: DEFAULT_SECRETS_DIR }
+): string {
+  const config = generateSopsConfig(policy, options)
   return renderSopsConfig(config)
 }
@@ -0,0 +1,230 @@
+import { SopsError } from '../types/index.js'
+import type { DotenvEntry } from '../env/types.js'
+import {
+  decryptSopsTree,
+  decryptSopsValue,
+  encryptSopsTree,
+  encryptSopsValue,
+  isSopsEncryptedValue,
+  reencryptSopsTree,
+  shouldEncryptPath,
+  type SopsEncryptionRules,
+} from './sops-codec.js'
+
+/**
+ * SOPS dotenv store (`sops --input-type dotenv`, `*.sops.env`): `KEY=value` and
+ * `#comment` lines in file order, then the sops metadata flattened into `sops_*` keys.
+ * Values are raw (no quoting); newlines are written as `\n`.
+ */
+
+export type SopsDotenvLine = { key: string; value: string } | { comment: string }
+
+export interface SopsDotenvFile {
+  lines: SopsDotenvLine[]
+  /** Unflattened `sops_*` keys; empty for plaintext */
+  metadata: Record<string, unknown>
+}
+
+const METADATA_PREFIX = 'sops_'
+const FLATTENED_PATH_SEPARATOR = /(__list_\d+|__map_)/
+// Top-level comments have an empty key path, which sops authenticates as ':'
+const COMMENT_ADDITIONAL_DATA = ':'
+const NON_STRING_METADATA: Record<string, (value: string) => unknown> = {
+  mac_only_encrypted: (value) => value === 'true',
+  shamir_threshold: (value) => Number.parseInt(value, 10),
+}
+
+export function parseSopsDotenv(content: string): SopsDotenvFile {
+  const lines: SopsDotenvLine[] = []
+  const keys = new Set<string>()
+  const flatMetadata: Record<string, string> = {}
+
+  content.split(/\r?\n/).forEach((raw, index) => {
+    if (raw.trim() === '') return
+    if (raw.startsWith('#')) {
+      lines.push({ comment: raw.slice(1) })
+      return
+    }
+    const eqIndex = raw.indexOf('=')
+    if (eqIndex === -1) {
+      throw new SopsError(`Invalid dotenv line ${index + 1}: expected KEY=value`)
+    }
+    const key = raw.slice(0, eqIndex)
+    const value = raw.slice(eqIndex + 1).replace(/\\n/g, '\n')
+    if (key.startsWith(METADATA_PREFIX)) {
+      flatMetadata[key.slice(METADATA_PREFIX.length)] = value
+      return
+    }
+    if (keys.has(key)) {
+      throw new SopsError(`Duplicate key "${key}" on dotenv line ${index + 1}`)
+    }
+    keys.add(key)
+    lines.push({ key, value })
+  })
+
+  return { lines, metadata: unflattenMetadata(flatMetadata) }
+}
+
+export function renderSopsDotenv(
+  lines: SopsDotenvLine[],
+  metadata: Record<string, unknown> = {}
+): string {
+  const out = lines.map((line) =>
+    'comment' in line ? `#${line.comment}` : `${line.key}=${escapeNewlines(line.value)}`
+  )
+  const flatMetadata = flattenMetadata(metadata)
+  for (const key of Object.keys(flatMetadata).sort()) {
+    out.push(`${METADATA_PREFIX}${key}=${escapeNewlines(flatMetadata[key]!)}`)
+  }
+  return out.length > 0 ? `${out.join('\n')}\n` : ''
+}
+
+/**
+ * Encrypt values and comments selected by the rules. Comments are not part of the MAC.
+ */
+export function encryptSopsDotenv(
+  lines: SopsDotenvLine[],
+  dataKey: Uint8Array,
+  rules: SopsEncryptionRules = {}
+): { lines: SopsDotenvLine[]; mac: string } {
+  const encryptComments = shouldEncryptPath([], rules)
+  return mapSopsDotenv(
+    lines,
+    (tree) => encryptSopsTree(tree, dataKey, rules),
+    (comment) =>
+      encryptComments
+        ? encryptSopsValue(comment, dataKey, COMMENT_ADDITIONAL_DATA, 'comment')
+        : comment
+  )
+}
+
+export function decryptSopsDotenv(
+  lines: SopsDotenvLine[],
+  dataKey: Uint8Array,
+  rules: SopsEncryptionRules = {}
+): { lines: SopsDotenvLine[]; mac: string } {
+  return mapSopsDotenv(
+    lines,
+    (tree) => decryptSopsTree(tree, dataKey, rules),
+    (comment) =>
+      isSopsEncryptedValue(comment)
+        ? decryptSopsValue(comment, dataKey, COMMENT_ADDITIONAL_DATA).plaintext
+        : comment
+  )
+}
+
+export function reencryptSopsDotenv(
+  lines: SopsDotenvLine[],
+  oldKey: Uint8Array,
+  newKey: Uint8Array,
+  rules: SopsEncryptionRules = {}
+): { lines: SopsDotenvLine[]; mac: string } {
+  return mapSopsDotenv(
+    lines,
+    (tree) => reencryptSopsTree(tree, oldKey, newKey, rules),
+    (comment) => {
+      if (!isSopsEncryptedValue(comment)) return comment
+      const { plaintext } = decryptSopsValue(comment, oldKey, COMMENT_ADDITIONAL_DATA)
+      return encryptSopsValue(plaintext, newKey, COMMENT_ADDITIONAL_DATA, 'comment')
+    }
+  )
+}
+
+/**
+ * Decrypted lines as DotenvEntry[]: comment lines attach to the next key, as in parseDotenv
+ */
+export function sopsDotenvToEntries(lines: SopsDotenvLine[]): DotenvEntry[] {
+  const entries: DotenvEntry[] = []
+  let comment: string[] = []
+  for (const line of lines) {
+    if ('comment' in line) {
+      comment.push(line.comment.trim())
+      continue
+    }
+    entries.push({ key: line.key, value: line.value, comment: comment.join('\n') || undefined })
+    comment = []
+  }
+  return entries
+}
+
+export function entriesToSopsDotenv(entries: DotenvEntry[]): SopsDotenvLine[] {
+  return entries.flatMap((entry) => [
+    ...(entry.comment ? entry.comment.split('\n').map((line) => ({ comment: ` ${line}` })) : []),
+    { key: entry.key, value: entry.value },
+  ])
+}
+
+function mapSopsDotenv(
+  lines: SopsDotenvLine[],
+  mapValues: (tree: Record<string, unknown>) => { tree: Record<string, unknown>; mac: string },
+  mapComment: (comment: string) => string
+): { lines: SopsDotenvLine[]; mac: string } {
+  const values: Record<string, unknown> = {}
+  for (const line of lines) {
+    if ('key' in line) values[line.key] = line.value
+  }
+  const { tree, mac } = mapValues(values)
+  return {
+    lines: lines.map((line) =>
+      'comment' in line
+        ? { comment: mapComment(line.comment) }
+        : { key: line.key, value: String(tree[line.key] ?? '') }
+    ),
+    mac,
+  }
+}
+
+function escapeNewlines(value: string): string {
+  return value.replace(/\n/g, '\\n')
+}
+
+/**
+ * Flatten metadata the way sops does: `age: [{ recipient }]` -> `age__list_0__map_recipient`
+ */
+function flattenMetadata(metadata: Record<string, unknown>): Record<string, string> {
+  const out: Record<string, string> = {}
+  const visit = (value: unknown, key: string): void => {
+    if (value === null || value === undefined) return
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, `${key}__list_${index}`))
+    } else if (typeof value === 'object') {
+      for (const [child, childValue] of Object.entries(value)) {
+        visit(childValue, `${key}__map_${child}`)
+      }
+    } else {
+      out[key] = String(value)
+    }
+  }
+  for (const [key, value] of Object.entries(metadata)) {
+    visit(value, key)
+  }
+  return out
+}
+
+function unflattenMetadata(flat: Record<string, string>): Record<string, unknown> {
+  const root: Record<string, unknown> = {}
+  for (const [flatKey, raw] of Object.entries(flat)) {
+    const [head, ...rest] = flatKey.split(FLATTENED_PATH_SEPARATOR)
+    const path: Array<string | number> = [head!]
+    for (let i = 0; i < rest.length; i += 2) {
+      const separator = rest[i]!
+      if (separator === '__map_') {
+        path.push(rest[i + 1]!)
+      } else {
+        path.push(Number.parseInt(separator.slice('__list_'.length), 10))
+      }
+    }
+
+    let node: Record<string | number, unknown> = root
+    path.forEach((segment, index) => {
+      if (index === path.length - 1) {
+        const decode = path.length === 1 ? NON_STRING_METADATA[head!] : undefined
+        node[segment] = decode ? decode(raw) : raw
+        return
+      }
+      node[segment] ??= typeof path[index + 1] === 'number' ? [] : {}
+      node = node[segment] as Record<string | number, unknown>
+    })
+  }
+  return root
+}
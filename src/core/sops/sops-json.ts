@@ -0,0 +1,83 @@
+import { createHash } from 'crypto'
+import { SopsError } from '../types/index.js'
+import { BINARY_DATA_KEY } from '../env/secret-format.js'
+import {
+  decryptSopsBytes,
+  encryptSopsValue,
+  isSopsEncryptedValue,
+  shouldEncryptPath,
+  type SopsEncryptionRules,
+} from './sops-codec.js'
+
+/**
+ * SOPS json store (`sops --input-type json`, `*.sops.json`): the document with the sops
+ * metadata under `sops`, indented with tabs as sops writes it. The binary store
+ * (`sops --input-type binary`, `*.sops.bin`) keeps the file bytes as the string `data`
+ * in the same JSON envelope, so `sops -d` gives back the original file.
+ */
+
+export interface SopsJsonFile {
+  tree: Record<string, unknown>
+  /** The `sops` mapping; undefined for plaintext */
+  metadata: Record<string, unknown> | undefined
+}
+
+// Additional data of the `data` value (its key path, as sops authenticates it)
+const BINARY_ADDITIONAL_DATA = `${BINARY_DATA_KEY}:`
+
+export function parseSopsJson(content: string): SopsJsonFile {
+  const parsed: unknown = JSON.parse(content)
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new SopsError('Expected a JSON object at the top level')
+  }
+  const { sops, ...tree } = parsed as Record<string, unknown>
+  return {
+    tree,
+    metadata: sops && typeof sops === 'object' ? (sops as Record<string, unknown>) : undefined,
+  }
+}
+
+export function renderSopsJson(
+  tree: Record<string, unknown>,
+  metadata?: Record<string, unknown>
+): string {
+  return `${JSON.stringify(metadata ? { ...tree, sops: metadata } : tree, null, '\t')}\n`
+}
+
+/**
+ * Encrypt file bytes into a binary store envelope (`data` of type str, as sops stores
+ * it). Returns the envelope and the plaintext MAC.
+ */
+export function encryptSopsBinary(
+  bytes: Uint8Array,
+  dataKey: Uint8Array,
+  rules: SopsEncryptionRules = {}
+): { tree: Record<string, unknown>; mac: string } {
+  const encrypt = shouldEncryptPath([BINARY_DATA_KEY], rules)
+  const hash = createHash('sha512')
+  if (!rules.mac_only_encrypted || encrypt) hash.update(bytes)
+  const value = encrypt
+    ? encryptSopsValue(bytes, dataKey, BINARY_ADDITIONAL_DATA)
+    : Buffer.from(bytes).toString('utf-8')
+  return { tree: { [BINARY_DATA_KEY]: value }, mac: hash.digest('hex').toUpperCase() }
+}
+
+/**
+ * Decrypt the file bytes of a binary store envelope. Returns them with the recomputed MAC.
+ */
+export function decryptSopsBinary(
+  tree: Record<string, unknown>,
+  dataKey: Uint8Array,
+  rules: SopsEncryptionRules = {}
+): { bytes: Buffer; mac: string } {
+  const value = tree[BINARY_DATA_KEY]
+  if (typeof value !== 'string') {
+    throw new SopsError(`No "${BINARY_DATA_KEY}" value in the sops binary file`)
+  }
+  const bytes = isSopsEncryptedValue(value)
+    ? decryptSopsBytes(value, dataKey, BINARY_ADDITIONAL_DATA).plaintext
+    : Buffer.from(value, 'utf-8')
+  const hash = createHash('sha512')
+  if (!rules.mac_only_encrypted || shouldEncryptPath([BINARY_DATA_KEY], rules)) hash.update(bytes)
+  return { bytes, mac: hash.digest('hex').toUpperCase() }
+}
@@ -0,0 +1,83 @@
+import { readFile } from 'fs/promises'
+import { relative } from 'path'
+import { parse as parseYaml } from 'yaml'
+import { SopsError, type EnvObject, type SecretDocument } from '../types/index.js'
+import type { DiffResult } from '../env/types.js'
+import { diffEnv } from '../env/diff-env.js'
+import { flattenSecretDocument } from '../env/secret-format.js'
+import { KEY_METADATA_FIELD } from '../env/key-metadata.js'
+import { getSopsStoreType } from '../config/secret-path.js'
+import type { GitAdapter } from '../git/git.js'
+import { parseSopsDotenv } from './sops-dotenv.js'
+import { parseSopsJson } from './sops-json.js'
+
+/**
+ * Key-level view of an encrypted secret file, read without any keys. SOPS never
+ * encrypts key names; every write re-encrypts values with fresh IVs, so encrypted
+ * values are reduced to `ENC[<type>]` and only plaintext values (see `encryptedRegex`)
+ * can show up as changed.
+ */
+
+const ENC_TYPE_PATTERN = /^ENC\[AES256_GCM,.*,type:([^\]]+)\]$/
+
+/**
+ * Flattened keys of an encrypted file with their stored values, encrypted ones as `ENC[<type>]`
+ */
+export function readStoredKeys(content: string, filePath: string): EnvObject {
+  let values: EnvObject
+  try {
+    const store = getSopsStoreType(filePath)
+    if (store === 'dotenv') {
+      values = {}
+      for (const line of parseSopsDotenv(content).lines) {
+        if ('key' in line) values[line.key] = line.value
+      }
+    } else {
+      const parsed = (
+        store === 'yaml' ? (parseYaml(content) ?? {}) : parseSopsJson(content).tree
+      ) as SecretDocument
+      values = flattenSecretDocument(
+        Object.fromEntries(
+          Object.entries(parsed).filter(([key]) => key !== 'sops' && key !== KEY_METADATA_FIELD)
+        )
+      )
+    }
+  } catch (error) {
+    throw new SopsError(`Failed to read keys of ${filePath}: ${(error as Error).message}`)
+  }
+
+  for (const [key, value] of Object.entries(values)) {
+    const match = value.match(ENC_TYPE_PATTERN)
+    if (match) values[key] = `ENC[${match[1]}]`
+  }
+  return values
+}
+
+/**
+ * Key drift between two versions of an encrypted file (null: the file does not exist)
+ */
+export function diffStoredKeys(
+  before: string | null,
+  after: string | null,
+  filePath: string
+): DiffResult {
+  return diffEnv(
+    before === null ? {} : readStoredKeys(before, filePath),
+    after === null ? {} : readStoredKeys(after, filePath)
+  )
+}
+
+/**
+ * Key drift of a secret file between a git ref and the working tree
+ */
+export async function diffStoredKeysSince(
+  git: GitAdapter,
+  projectDir: string,
+  secretPath: string,
+  ref: string
+): Promise<DiffResult> {
+  const repoPath = relative(projectDir, secretPath).replace(/\\/g, '/')
+  const before = await git.getFileAtRef(ref, repoPath)
+  const after = await readFile(secretPath, 'utf-8').catch(() => null)
+  return diffStoredKeys(before, after, secretPath)
+}
@@ -1,4 +1,5 @@
-import type { EnvObject } from '../types/index.js'
+import type { SecretDocument } from '../types/index.js'
+import type { DotenvEntry } from '../env/types.js'
 import type { CryptoBackend, CryptoCapability } from './crypto-backend.js'
 import {
   SopsAdapter,
@@ -32,8 +33,8 @@ export class SystemSopsBackend implements CryptoBackend {
     return this.adapter.encrypt(filePath)
   }
 
-  encryptData(filePath: string, data: EnvObject): Promise<void> {
-    return this.adapter.encryptData(filePath, data)
+  encryptData(filePath: string, data: SecretDocument, layout?: DotenvEntry[]): Promise<void> {
+    return this.adapter.encryptData(filePath, data, layout)
   }
 
   updateKeys(filePath: string): Promise<void> {
@@ -1,8 +1,23 @@
+/**
+ * Shape of a service's encrypted secrets: a flat `dotenv` map (default), a nested
+ * `yaml`/`json` document, or a `binary` file stored the way sops stores binary input
+ */
+export type SecretFormat = 'dotenv' | 'yaml' | 'json' | 'binary'
+
+export interface ServiceConfig {
+  envOutput: string
+  /** Default: dotenv */
+  format?: SecretFormat
+}
+
 // Конфігурація проекту
 export interface EnvVaultConfig {
   version: 1
   secretsDir: string
-  cryptoBackend?: 'auto' | 'system-sops' | 'js'
+  /** `auto`, `system-sops`, `js` or the name of an entry in `cryptoPlugins` */
+  cryptoBackend?: string
+  /** Extra crypto backends: name -> module path (relative to the project) or package name */
+  cryptoPlugins?: Record<string, string>
   repo?: {
     name?: string
   }
@@ -14,18 +29,75 @@ export interface EnvVaultConfig {
     global?: string[]
     services?: Record<string, string[]>
   }
-  services: Record<string, { envOutput: string }>
+  services: Record<string, ServiceConfig>
 }
 
 // RBAC Policy
+/**
+ * Time-boxed grant: an age key, member alias or group with an expiry date
+ */
+export interface RecipientGrant {
+  recipient: string
+  /** ISO date after which the grant should be removed by `envvault access expire` */
+  expiresAt?: string
+}
+
+export type RecipientEntry = string | RecipientGrant
+
+/**
+ * Shamir secret sharing across SOPS key groups: decrypting needs keys from
+ * `threshold` of the groups
+ */
+export interface KeyGroupsPolicy {
+  /** Number of key groups needed to decrypt (SOPS shamir_threshold). Default: all groups. */
+  threshold?: number
+  /** Each item becomes one key group: a group name, member alias or key, or a list of them */
+  groups: Array<string | string[]>
+}
+
+export interface EnvironmentPolicy {
+  services: Record<string, { recipients: RecipientEntry[] }>
+  /** Recipients (keys, member aliases or groups) granted on every service of this environment */
+  recipients?: RecipientEntry[]
+  /** Split the data key of every service in this environment across several key groups */
+  keyGroups?: KeyGroupsPolicy
+  /** Require a valid policy signature whenever a change touches this environment */
+  requireSignature?: boolean
+  /** Admin names allowed to sign for this environment (default: all trusted admins) */
+  signers?: string[]
+  /**
+   * Encrypt only the values of keys matching this regex (SOPS `encrypted_regex`);
+   * other values stay plaintext. Key names are never encrypted.
+   */
+  encryptedRegex?: string
+}
+
+/**
+ * A person (or machine) that recipients lists can reference by alias
+ */
+export interface PolicyMember {
+  name?: string
+  email?: string
+  ageKeys: string[]
+  /** ISO date after which the member should no longer have access */
+  expiresAt?: string
+}
+
+/**
+ * Named set of members (aliases or raw age keys), e.g. `backend` or `sre`
+ */
+export interface PolicyGroup {
+  description?: string
+  members: string[]
+}
+
 export interface EnvVaultPolicy {
   version: 1
-  environments: Record<
-    string,
-    {
-      services: Record<string, { recipients: string[] }>
-    }
-  >
+  /** Members keyed by alias; recipient entries matching an alias expand to its age keys */
+  members?: Record<string, PolicyMember>
+  /** Groups keyed by name; recipient entries matching a group expand to its members */
+  groups?: Record<string, PolicyGroup>
+  environments: Record<string, EnvironmentPolicy>
 }
 
 // Результат парсингу .env
@@ -33,6 +105,9 @@ export interface EnvObject {
   [key: string]: string
 }
 
+/** Decrypted secret file contents; yaml/json services may nest values */
+export type SecretDocument = Record<string, unknown>
+
 // Diff результат - імпортуємо з env модуля для узгодження
 export type { DiffResult } from '../env/types.js'
 
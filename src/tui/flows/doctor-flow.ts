@@ -1,5 +1,5 @@
 import { TuiContext } from '../run.js'
-import { SopsAdapter, GitAdapter } from '../../core/index.js'
+import { SopsAdapter, GitAdapter, MIN_SOPS_VERSION } from '../../core/index.js'
 import { access, readdir } from 'fs/promises'
 import { join } from 'path'
 import ora from 'ora'
@@ -14,10 +14,15 @@ export async function runDoctorFlow(ctx: TuiContext): Promise<void> {
   
   // Check SOPS
   const sopsSpinner = ora('Checking SOPS...').start()
-  if (await sops.isAvailable()) {
-    const version = await sops.getVersion()
+  const installation = await sops.getInstallation()
+  if (installation.supported) {
+    const version = installation.version
     sopsSpinner.succeed(`SOPS: Installed (${version})`)
     checks.push({ name: 'SOPS', status: 'ok', message: `Installed (${version})` })
+  } else if (installation.installed) {
+    const message = `Version ${installation.version} is too old (needs >= ${MIN_SOPS_VERSION})`
+    sopsSpinner.fail(`SOPS: ${message}`)
+    checks.push({ name: 'SOPS', status: 'error', message })
   } else {
     sopsSpinner.fail('SOPS: Not installed')
     checks.push({ name: 'SOPS', status: 'error', message: 'Not installed' })
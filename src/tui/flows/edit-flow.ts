@@ -1,14 +1,14 @@
 import { confirm } from '@inquirer/prompts'
 import { spawn } from 'child_process'
-import { join } from 'path'
-import { readFile, writeFile, access } from 'fs/promises'
+import { readFile, access } from 'fs/promises'
 import { TuiContext } from '../run.js'
 import {
-  SopsAdapter, GitAdapter, renderDotenv, parseDotenv,
+  GitAdapter, renderDotenv, renderEntries, parseDotenv,
   diffEnv, formatSafeDiff, formatUnsafeDiff,
-  createSecureTempFile, withLock
+  createSecureTempFile, withLock, getServiceFormat, getSecretFilePath,
+  type DotenvEntry
 } from '../../core/index.js'
-import { stringify as stringifyYaml } from 'yaml'
+import { resolveCommandCryptoBackend } from '../../cli/crypto-backend.js'
 import ora from 'ora'
 
 export async function runEditFlow(
@@ -16,29 +16,44 @@ export async function runEditFlow(
   env: string,
   service: string
 ): Promise<void> {
-  const sops = new SopsAdapter()
+  const serviceConfig = ctx.config.services[service]
+  if (serviceConfig && getServiceFormat(serviceConfig) !== 'dotenv') {
+    console.log(
+      `❌ ${service} stores ${getServiceFormat(serviceConfig)} secrets; use \`envvault edit --env ${env} --service ${service}\``
+    )
+    return
+  }
+
+  const cryptoBackend = await resolveCommandCryptoBackend('edit', {
+    config: ctx.config,
+    projectDir: ctx.cwd,
+  })
   const git = new GitAdapter(ctx.cwd)
   const spinner = ora()
   
-  const secretPath = join(ctx.cwd, ctx.config.secretsDir, env, `${service}.sops.yaml`)
+  const secretPath = getSecretFilePath(ctx.cwd, ctx.config.secretsDir, env, service)
   
   // Load existing data
   let existingData: Record<string, string> = {}
   let order: string[] = []
+  let existingEntries: DotenvEntry[] | undefined
   
   try {
     await access(secretPath)
     spinner.start('Decrypting current secrets...')
-    const { data } = await sops.decrypt(secretPath)
+    const { data, entries } = await cryptoBackend.decrypt(secretPath)
     existingData = data
     order = Object.keys(data)
+    existingEntries = entries
     spinner.stop()
   } catch {
     // File doesn't exist, will create new
   }
   
   // Create temp file
-  const envContent = renderDotenv(existingData, { order })
+  const envContent = existingEntries
+    ? renderEntries(existingEntries)
+    : renderDotenv(existingData, { order })
   const tempFile = await createSecureTempFile(envContent, { suffix: '.env' })
   
   try {
@@ -62,12 +77,19 @@ export async function runEditFlow(
     
     // Read edited content
     const editedContent = await readFile(tempFile.path, 'utf-8')
-    const { env: newData } = parseDotenv(editedContent)
+    const { env: newData, entries: newEntries } = parseDotenv(editedContent)
     
     // Compute diff
     const diff = diffEnv(existingData, newData)
+    const layoutChanged =
+      existingEntries !== undefined && renderEntries(existingEntries) !== renderEntries(newEntries)
     
-    if (diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0) {
+    if (
+      diff.added.length === 0 &&
+      diff.removed.length === 0 &&
+      diff.changed.length === 0 &&
+      !layoutChanged
+    ) {
       console.log('ℹ️  No changes detected')
       return
     }
@@ -100,9 +122,7 @@ export async function runEditFlow(
     spinner.start('Encrypting and saving...')
     
     await withLock(ctx.cwd, async () => {
-      const yamlContent = stringifyYaml(newData)
-      await writeFile(secretPath, yamlContent, 'utf-8')
-      await sops.encrypt(secretPath)
+      await cryptoBackend.encryptData(secretPath, newData, newEntries)
     })
     
     spinner.succeed(`Saved ${secretPath}`)
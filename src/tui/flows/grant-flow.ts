@@ -3,9 +3,10 @@ import { join } from 'path'
 import { writeFile } from 'fs/promises'
 import { TuiContext } from '../run.js'
 import {
-  SopsAdapter, GitAdapter, generatePolicyJson,
-  writeSopsConfig
+  GitAdapter, generatePolicyJson,
+  writeSopsConfig, findRecipientEntryIndex, getSecretFilePath, getDirectGrantBlocker
 } from '../../core/index.js'
+import { resolveCommandCryptoBackend } from '../../cli/crypto-backend.js'
 import ora from 'ora'
 
 export async function runGrantFlow(
@@ -13,9 +14,18 @@ export async function runGrantFlow(
   env: string,
   service: string
 ): Promise<void> {
-  const sops = new SopsAdapter()
+  const cryptoBackend = await resolveCommandCryptoBackend('grant', {
+    config: ctx.config,
+    projectDir: ctx.cwd,
+  })
   const git = new GitAdapter(ctx.cwd)
   const spinner = ora()
+
+  const blocker = getDirectGrantBlocker(ctx.policy, env)
+  if (blocker) {
+    console.log(`❌ ${blocker}`)
+    return
+  }
   
   // Get recipient
   const recipient = await input({
@@ -32,7 +42,7 @@ export async function runGrantFlow(
   const envPolicy = ctx.policy.environments[env]
   const servicePolicy = envPolicy?.services[service]
   
-  if (servicePolicy?.recipients.includes(recipient)) {
+  if (servicePolicy && findRecipientEntryIndex(servicePolicy.recipients, recipient) !== -1) {
     console.log('⚠️  Recipient already has access')
     return
   }
@@ -55,15 +65,15 @@ export async function runGrantFlow(
   
   // Update .sops.yaml
   spinner.start('Updating .sops.yaml...')
-  await writeSopsConfig(ctx.cwd, ctx.policy)
+  await writeSopsConfig(ctx.cwd, ctx.policy, ctx.config)
   spinner.succeed('.sops.yaml updated')
   
   // Update keys on secret file
-  const secretPath = join(ctx.cwd, ctx.config.secretsDir, env, `${service}.sops.yaml`)
+  const secretPath = getSecretFilePath(ctx.cwd, ctx.config.secretsDir, env, service)
   
   try {
     spinner.start('Updating encryption keys...')
-    await sops.updateKeys(secretPath)
+    await cryptoBackend.updateKeys(secretPath)
     spinner.succeed('Encryption keys updated')
   } catch {
     spinner.warn('Could not update keys (file may not exist yet)')
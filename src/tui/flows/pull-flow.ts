@@ -1,7 +1,10 @@
 import { writeFile, mkdir } from 'fs/promises'
 import { join, dirname } from 'path'
 import { TuiContext } from '../run.js'
-import { SopsAdapter, renderDotenv } from '../../core/index.js'
+import {
+  renderDotenv, renderEntries, renderSecretDocument, getServiceFormat, isVerbatimOutput, getSecretFilePath
+} from '../../core/index.js'
+import { resolveCommandCryptoBackend } from '../../cli/crypto-backend.js'
 import ora from 'ora'
 
 export async function runPullFlow(
@@ -9,23 +12,31 @@ export async function runPullFlow(
   env: string,
   services: string[]
 ): Promise<void> {
-  const sops = new SopsAdapter()
+  const cryptoBackend = await resolveCommandCryptoBackend('pull', {
+    config: ctx.config,
+    projectDir: ctx.cwd,
+  })
   const spinner = ora()
   
   for (const service of services) {
-    const secretPath = join(ctx.cwd, ctx.config.secretsDir, env, `${service}.sops.yaml`)
-    const outputPath = join(ctx.cwd, ctx.config.services[service]!.envOutput)
+    const secretPath = getSecretFilePath(ctx.cwd, ctx.config.secretsDir, env, service)
+    const serviceConfig = ctx.config.services[service]!
+    const outputPath = join(ctx.cwd, serviceConfig.envOutput)
     
     spinner.start(`Decrypting ${env}/${service}...`)
     
     try {
-      const { data } = await sops.decrypt(secretPath)
-      const envContent = renderDotenv(data)
+      const { data, tree, entries } = await cryptoBackend.decrypt(secretPath)
+      const envContent = isVerbatimOutput(serviceConfig)
+        ? renderSecretDocument(getServiceFormat(serviceConfig), tree ?? data)
+        : entries
+          ? renderEntries(entries)
+          : renderDotenv(data)
       
       spinner.text = `Writing to ${outputPath}...`
       
       await mkdir(dirname(outputPath), { recursive: true })
-      await writeFile(outputPath, envContent, 'utf-8')
+      await writeFile(outputPath, envContent)
       
       spinner.succeed(`Wrote ${outputPath} (${Object.keys(data).length} keys)`)
     } catch (error) {
@@ -3,9 +3,10 @@ import { join } from 'path'
 import { writeFile } from 'fs/promises'
 import { TuiContext } from '../run.js'
 import {
-  SopsAdapter, GitAdapter, generatePolicyJson,
-  writeSopsConfig
+  GitAdapter, generatePolicyJson,
+  writeSopsConfig, getRecipientEntryName, findRecipientEntryIndex, getSecretFilePath
 } from '../../core/index.js'
+import { resolveCommandCryptoBackend } from '../../cli/crypto-backend.js'
 import ora from 'ora'
 
 export async function runRevokeFlow(
@@ -13,7 +14,10 @@ export async function runRevokeFlow(
   env: string,
   service: string
 ): Promise<void> {
-  const sops = new SopsAdapter()
+  const cryptoBackend = await resolveCommandCryptoBackend('revoke', {
+    config: ctx.config,
+    projectDir: ctx.cwd,
+  })
   const git = new GitAdapter(ctx.cwd)
   const spinner = ora()
   
@@ -29,7 +33,7 @@ export async function runRevokeFlow(
   // Select recipient to revoke
   const recipient = await select({
     message: 'Select recipient to revoke:',
-    choices: servicePolicy.recipients.map((r) => ({
+    choices: servicePolicy.recipients.map(getRecipientEntryName).map((r) => ({
       name: `${r.slice(0, 20)}...`,
       value: r,
       description: r
@@ -48,7 +52,7 @@ export async function runRevokeFlow(
   }
   
   // Update policy
-  const index = servicePolicy.recipients.indexOf(recipient)
+  const index = findRecipientEntryIndex(servicePolicy.recipients, recipient)
   if (index > -1) {
     servicePolicy.recipients.splice(index, 1)
   }
@@ -61,7 +65,7 @@ export async function runRevokeFlow(
   
   // Update .sops.yaml
   spinner.start('Updating .sops.yaml...')
-  await writeSopsConfig(ctx.cwd, ctx.policy)
+  await writeSopsConfig(ctx.cwd, ctx.policy, ctx.config)
   spinner.succeed('.sops.yaml updated')
   
   // Rotate keys
@@ -71,12 +75,12 @@ export async function runRevokeFlow(
   })
   
   if (shouldRotate) {
-    const secretPath = join(ctx.cwd, ctx.config.secretsDir, env, `${service}.sops.yaml`)
+    const secretPath = getSecretFilePath(ctx.cwd, ctx.config.secretsDir, env, service)
     
     try {
       spinner.start('Rotating encryption keys...')
-      await sops.updateKeys(secretPath)
-      await sops.rotate(secretPath)
+      await cryptoBackend.updateKeys(secretPath)
+      await cryptoBackend.rotate(secretPath)
       spinner.succeed('Keys rotated')
     } catch {
       spinner.warn('Could not rotate keys (file may not exist)')
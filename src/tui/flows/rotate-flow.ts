@@ -1,7 +1,7 @@
 import { confirm } from '@inquirer/prompts'
-import { join } from 'path'
 import { TuiContext } from '../run.js'
-import { SopsAdapter, GitAdapter, withLock } from '../../core/index.js'
+import { GitAdapter, withLock, getSecretFilePath } from '../../core/index.js'
+import { resolveCommandCryptoBackend } from '../../cli/crypto-backend.js'
 import ora from 'ora'
 
 export async function runRotateFlow(
@@ -9,7 +9,10 @@ export async function runRotateFlow(
   env: string,
   services: string[]
 ): Promise<void> {
-  const sops = new SopsAdapter()
+  const cryptoBackend = await resolveCommandCryptoBackend('rotate', {
+    config: ctx.config,
+    projectDir: ctx.cwd,
+  })
   const git = new GitAdapter(ctx.cwd)
   const spinner = ora()
   
@@ -21,16 +24,16 @@ export async function runRotateFlow(
   const filesToCommit: string[] = []
   
   for (const service of services) {
-    const secretPath = join(ctx.cwd, ctx.config.secretsDir, env, `${service}.sops.yaml`)
+    const secretPath = getSecretFilePath(ctx.cwd, ctx.config.secretsDir, env, service)
     
     spinner.start(`Rotating ${env}/${service}...`)
     
     try {
       await withLock(ctx.cwd, async () => {
         if (shouldUpdateKeys) {
-          await sops.updateKeys(secretPath)
+          await cryptoBackend.updateKeys(secretPath)
         }
-        await sops.rotate(secretPath)
+        await cryptoBackend.rotate(secretPath)
       })
       
       spinner.succeed(`Rotated ${env}/${service}`)
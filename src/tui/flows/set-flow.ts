@@ -1,11 +1,10 @@
 import { input, confirm } from '@inquirer/prompts'
-import { join } from 'path'
-import { writeFile } from 'fs/promises'
 import { TuiContext } from '../run.js'
 import {
-  SopsAdapter, GitAdapter, diffEnv, formatSafeDiff, withLock
+  GitAdapter, diffEnv, formatSafeDiff, withLock, getServiceFormat, getSecretFilePath,
+  type DotenvEntry
 } from '../../core/index.js'
-import { stringify as stringifyYaml } from 'yaml'
+import { resolveCommandCryptoBackend } from '../../cli/crypto-backend.js'
 import ora from 'ora'
 
 export async function runSetFlow(
@@ -13,11 +12,22 @@ export async function runSetFlow(
   env: string,
   service: string
 ): Promise<void> {
-  const sops = new SopsAdapter()
+  const serviceConfig = ctx.config.services[service]
+  if (serviceConfig && getServiceFormat(serviceConfig) !== 'dotenv') {
+    console.log(
+      `❌ ${service} stores ${getServiceFormat(serviceConfig)} secrets; use \`envvault edit --env ${env} --service ${service}\``
+    )
+    return
+  }
+
+  const cryptoBackend = await resolveCommandCryptoBackend('set', {
+    config: ctx.config,
+    projectDir: ctx.cwd,
+  })
   const git = new GitAdapter(ctx.cwd)
   const spinner = ora()
   
-  const secretPath = join(ctx.cwd, ctx.config.secretsDir, env, `${service}.sops.yaml`)
+  const secretPath = getSecretFilePath(ctx.cwd, ctx.config.secretsDir, env, service)
   
   // Collect key-value pairs
   const updates: Record<string, string> = {}
@@ -45,11 +55,13 @@ export async function runSetFlow(
   
   // Load existing
   let existingData: Record<string, string> = {}
+  let layout: DotenvEntry[] | undefined
   
   try {
     spinner.start('Decrypting current secrets...')
-    const { data } = await sops.decrypt(secretPath)
+    const { data, entries } = await cryptoBackend.decrypt(secretPath)
     existingData = data
+    layout = entries
     spinner.stop()
   } catch {
     spinner.stop()
@@ -79,9 +91,7 @@ export async function runSetFlow(
   spinner.start('Encrypting and saving...')
   
   await withLock(ctx.cwd, async () => {
-    const yamlContent = stringifyYaml(newData)
-    await writeFile(secretPath, yamlContent, 'utf-8')
-    await sops.encrypt(secretPath)
+    await cryptoBackend.encryptData(secretPath, newData, layout)
   })
   
   spinner.succeed(`Saved ${secretPath}`)
@@ -1,8 +1,9 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { mkdir, rm, writeFile, readFile, access } from 'fs/promises'
-import { join } from 'path'
+import { join, resolve } from 'path'
 import { execa } from 'execa'
 import { tmpdir } from 'os'
+import { JsSopsAgeBackend } from '../../src/core/sops/js-sops-age-backend.js'
 
 // Skip all tests if SOPS or age-keygen is not available
 const shouldRunE2E = process.env.RUN_E2E_TESTS === 'true'
@@ -155,6 +156,87 @@ describe.skipIf(!shouldRunE2E)('crypto e2e', () => {
   })
 })
 
+// Interop between the JS backend and the sops CLI (same age key, same .sops.yaml)
+describe.skipIf(!shouldRunE2E)('JS backend interop with sops', () => {
+  let testDir: string
+  let secretFile: string
+  let sopsEnv: NodeJS.ProcessEnv
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `envvault-e2e-js-${Date.now()}`)
+    await mkdir(join(testDir, 'secrets', 'dev'), { recursive: true })
+    const ageKeyFile = join(testDir, '.age.key')
+    const { stderr } = await execa('age-keygen', ['-o', ageKeyFile])
+    const publicKey = stderr.match(/age1[a-z0-9]+/)?.[0] ?? ''
+    await writeFile(
+      join(testDir, '.sops.yaml'),
+      `creation_rules:\n  - path_regex: ^secrets/dev/api\\.sops\\.(yaml|json|bin)$\n    key_groups:\n      - age:\n          - ${publicKey}\n`
+    )
+    secretFile = join(testDir, 'secrets', 'dev', 'api.sops.yaml')
+    sopsEnv = { ...process.env, SOPS_AGE_KEY_FILE: ageKeyFile }
+    process.env.SOPS_AGE_KEY_FILE = ageKeyFile
+  })
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true })
+  })
+
+  it('should decrypt JS-encrypted files with sops', async () => {
+    await new JsSopsAgeBackend().encryptData(secretFile, { API_KEY: 'js-value', PORT: '80' })
+    const { stdout } = await execa('sops', ['-d', secretFile], { cwd: testDir, env: sopsEnv })
+    expect(stdout).toContain('API_KEY: js-value')
+  })
+
+  it('should decrypt, update keys and rotate sops-encrypted files with the JS backend', async () => {
+    await writeFile(secretFile, 'API_KEY: sops-value\nPORT: 8080\nDEBUG: true\n')
+    await execa('sops', ['-e', '-i', secretFile], { cwd: testDir, env: sopsEnv })
+
+    const backend = new JsSopsAgeBackend()
+    await backend.updateKeys(secretFile)
+    await backend.rotate(secretFile)
+    expect((await backend.decrypt(secretFile)).data.API_KEY).toBe('sops-value')
+
+    const { stdout } = await execa('sops', ['-d', secretFile], { cwd: testDir, env: sopsEnv })
+    expect(stdout).toContain('API_KEY: sops-value')
+    expect(stdout).toContain('PORT: 8080')
+  })
+
+  it('should decrypt the committed fixture with sops', async () => {
+    // See test/fixtures/sops/README.md: the unit tests decrypt the same file with the JS backend
+    const fixtures = resolve(process.cwd(), 'test/fixtures/sops')
+    const { stdout } = await execa('sops', ['-d', join('secrets', 'dev', 'api.sops.yaml')], {
+      cwd: fixtures,
+      env: { ...process.env, SOPS_AGE_KEY_FILE: join(fixtures, 'age-key.txt') }
+    })
+    expect(stdout).toContain('API_KEY: sk_test_123')
+    expect(stdout).toContain('PORT: 8080')
+    expect(stdout).toContain('PUBLIC_URL_unencrypted: https://example.test')
+  })
+
+  it('should share json and binary files with the sops json and binary stores', async () => {
+    const backend = new JsSopsAgeBackend()
+    const jsonFile = join(testDir, 'secrets', 'dev', 'api.sops.json')
+    await backend.encryptData(jsonFile, { db: { host: 'db.internal', port: 5432 } })
+    const json = await execa('sops', ['-d', jsonFile], { cwd: testDir, env: sopsEnv })
+    expect(JSON.parse(json.stdout)).toEqual({ db: { host: 'db.internal', port: 5432 } })
+
+    const binaryFile = join(testDir, 'secrets', 'dev', 'api.sops.bin')
+    const bytes = Buffer.from([0x30, 0x82, 0xff, 0x00, 0xc3, 0x28, 0x0a])
+    await backend.encryptData(binaryFile, { data: bytes.toString('base64') })
+    const binary = await execa('sops', ['-d', binaryFile], {
+      cwd: testDir,
+      env: sopsEnv,
+      encoding: 'buffer',
+      stripFinalNewline: false
+    })
+    expect(Buffer.from(binary.stdout)).toEqual(bytes)
+
+    await writeFile(binaryFile, bytes)
+    await execa('sops', ['-e', '-i', binaryFile], { cwd: testDir, env: sopsEnv })
+    expect((await backend.decrypt(binaryFile)).tree).toEqual({ data: bytes.toString('base64') })
+  })
+})
+
 // Alternative simpler e2e tests that don't require SOPS
 describe('crypto e2e (lightweight)', () => {
   let testDir: string
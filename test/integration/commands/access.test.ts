@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import { join, resolve } from 'path'
+import { tmpdir } from 'os'
+import { execa } from 'execa'
+import { getExpectedSopsConfigYaml, type EnvVaultPolicy } from '../../../src/core/index.js'
+import { writeFakeSopsBin, withFakeSopsPath } from '../helpers/fake-sops.js'
+
+const CLI_PATH = resolve(process.cwd(), 'dist/cli/index.js')
+
+describe('access expire command', () => {
+  let testDir: string
+  let env: NodeJS.ProcessEnv
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'envvault-access-'))
+    const binDir = join(testDir, '.bin')
+    await writeFakeSopsBin(binDir)
+    env = withFakeSopsPath(binDir)
+
+    await execa('git', ['init'], { cwd: testDir })
+    await execa('git', ['config', 'user.email', 'test@test.com'], { cwd: testDir })
+    await execa('git', ['config', 'user.name', 'Test User'], { cwd: testDir })
+
+    const policy: EnvVaultPolicy = {
+      version: 1,
+      environments: {
+        dev: {
+          services: {
+            api: {
+              recipients: ['age1team', { recipient: 'age1contractor', expiresAt: '2020-01-01' }],
+            },
+          },
+        },
+      },
+    }
+    await writeFile(
+      join(testDir, 'envvault.config.json'),
+      JSON.stringify({
+        version: 1,
+        secretsDir: 'secrets',
+        services: { api: { envOutput: '.env' } },
+      })
+    )
+    await writeFile(join(testDir, 'envvault.policy.json'), JSON.stringify(policy, null, 2))
+    await writeFile(join(testDir, '.sops.yaml'), getExpectedSopsConfigYaml(policy))
+    await mkdir(join(testDir, 'secrets', 'dev'), { recursive: true })
+    await writeFile(join(testDir, 'secrets', 'dev', 'api.sops.yaml'), 'A: "1"\n')
+    await writeFile(join(testDir, '.gitignore'), '.bin/\n')
+    await execa('git', ['add', '.'], { cwd: testDir })
+    await execa('git', ['commit', '-m', 'init'], { cwd: testDir })
+  })
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true })
+  })
+
+  it('lists expired grants without changes in dry-run mode', async () => {
+    const result = await execa('node', [CLI_PATH, 'access', 'expire', '--dry-run'], {
+      cwd: testDir,
+      env,
+      reject: false,
+    })
+    expect(result.exitCode).toBe(0)
+    expect(result.stdout).toContain('dev/api: age1contractor expired on 2020-01-01')
+    expect(await readFile(join(testDir, '.sops.yaml'), 'utf-8')).toContain('age1contractor')
+  })
+
+  it('removes expired grants, re-keys secrets and commits', async () => {
+    const result = await execa('node', [CLI_PATH, 'access', 'expire'], {
+      cwd: testDir,
+      env,
+      reject: false,
+    })
+    expect(result.exitCode).toBe(0)
+    expect(result.stdout).toContain('Re-encrypted dev/api')
+
+    const policy = JSON.parse(await readFile(join(testDir, 'envvault.policy.json'), 'utf-8'))
+    expect(policy.environments.dev.services.api.recipients).toEqual(['age1team'])
+    expect(await readFile(join(testDir, '.sops.yaml'), 'utf-8')).not.toContain('age1contractor')
+
+    const log = await execa('git', ['log', '-1', '--format=%s'], { cwd: testDir })
+    expect(log.stdout).toBe('chore(policy): remove expired access')
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest'
-import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises'
 import { tmpdir } from 'os'
 import { join, resolve } from 'path'
 import { execa } from 'execa'
@@ -83,4 +83,51 @@ describe('ci-verify', () => {
     expect(result.exitCode).toBe(0)
     expect(result.stdout).toContain('All verifications passed')
   })
+
+  it('asks to regenerate a .sops.yaml written by an older envvault', async () => {
+    const sopsYamlPath = join(testDir, '.sops.yaml')
+    const current = await readFile(sopsYamlPath, 'utf-8')
+    await writeFile(sopsYamlPath, current.replace('\\.sops\\.(yaml|env|json|bin)$', '\\.sops\\.yaml$'))
+
+    const result = await execa(
+      'node',
+      [CLI_PATH, 'ci-verify', '--allow-unsigned', '--allow-dirty-env'],
+      { cwd: testDir, reject: false }
+    )
+
+    expect(result.exitCode).not.toBe(0)
+    expect(result.stdout).toContain(
+      'Run `envvault updatekeys` to regenerate it from envvault.policy.json.'
+    )
+  })
+
+  it('fails when an expired grant is still in .sops.yaml', async () => {
+    const policy: EnvVaultPolicy = {
+      version: 1,
+      members: { contractor: { ageKeys: ['age1contractor'], expiresAt: '2020-01-01' } },
+      environments: {
+        dev: {
+          services: {
+            api: {
+              recipients: ['contractor', { recipient: 'age1oncall', expiresAt: '2020-06-01' }],
+            },
+          },
+        },
+      },
+    }
+    await writeFile(join(testDir, 'envvault.policy.json'), JSON.stringify(policy, null, 2), 'utf-8')
+    await writeFile(join(testDir, '.sops.yaml'), getExpectedSopsConfigYaml(policy), 'utf-8')
+
+    const result = await execa(
+      'node',
+      [CLI_PATH, 'ci-verify', '--allow-unsigned', '--allow-dirty-env'],
+      { cwd: testDir, reject: false }
+    )
+
+    expect(result.exitCode).not.toBe(0)
+    expect(result.stdout).toContain(
+      'dev/api: access for contractor (member contractor) expired on 2020-01-01'
+    )
+    expect(result.stdout).toContain('dev/api: access for age1oncall expired on 2020-06-01')
+  })
 })
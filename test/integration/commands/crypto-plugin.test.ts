@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdir, rm, writeFile, readFile } from 'fs/promises'
+import { join, resolve } from 'path'
+import { execa } from 'execa'
+import { tmpdir } from 'os'
+
+const CLI_PATH = resolve(process.cwd(), 'dist/cli/index.js')
+
+// Stand-in for a KMS proxy: values are only base64-encoded, which is enough to
+// check that commands route through the plugin instead of sops.
+const HSM_PLUGIN = `
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+
+export function createCryptoBackend({ id }) {
+  const read = async (file) => JSON.parse(await readFile(file, 'utf-8'))
+  return {
+    id,
+    displayName: 'Test HSM simulator',
+    isAvailable: async () => true,
+    supports: () => true,
+    async decrypt(file) {
+      const doc = await read(file)
+      const data = {}
+      for (const [key, value] of Object.entries(doc.values)) {
+        data[key] = Buffer.from(value, 'base64').toString('utf-8')
+      }
+      return { data, metadata: { lastmodified: doc.lastmodified, mac: '' } }
+    },
+    async decryptToString(file) {
+      return JSON.stringify((await this.decrypt(file)).data)
+    },
+    async encryptData(file, data) {
+      const values = {}
+      for (const [key, value] of Object.entries(data)) {
+        values[key] = Buffer.from(value, 'utf-8').toString('base64')
+      }
+      await mkdir(dirname(file), { recursive: true })
+      await writeFile(file, JSON.stringify({ hsm: true, lastmodified: 'now', values }))
+    },
+    updateKeys: async () => {},
+    rotate: async () => {},
+  }
+}
+`
+
+describe('crypto backend plugins', () => {
+  let testDir: string
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `envvault-crypto-plugin-${Date.now()}`)
+    await mkdir(join(testDir, 'tools'), { recursive: true })
+    await writeFile(join(testDir, 'tools', 'hsm-backend.mjs'), HSM_PLUGIN)
+    await writeFile(
+      join(testDir, 'envvault.config.json'),
+      JSON.stringify(
+        {
+          version: 1,
+          secretsDir: 'secrets',
+          cryptoBackend: 'hsm',
+          cryptoPlugins: { hsm: './tools/hsm-backend.mjs' },
+          services: { api: { envOutput: 'apps/api/.env' } },
+        },
+        null,
+        2
+      )
+    )
+  })
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true })
+  })
+
+  const run = (args: string[]) =>
+    execa('node', [CLI_PATH, ...args], { cwd: testDir, reject: false })
+
+  it('writes with set and reads with pull through the configured plugin', async () => {
+    const set = await run(['set', '--env', 'dev', '--service', 'api', 'API_KEY=from-hsm', '--no-commit'])
+    expect(set.exitCode).toBe(0)
+
+    const stored = JSON.parse(await readFile(join(testDir, 'secrets', 'dev', 'api.sops.yaml'), 'utf-8'))
+    expect(stored.hsm).toBe(true)
+    expect(JSON.stringify(stored)).not.toContain('from-hsm')
+
+    const pull = await run(['pull', '--env', 'dev', '--service', 'api'])
+    expect(pull.exitCode).toBe(0)
+    expect(pull.stdout).toContain('Crypto backend: hsm')
+    expect(await readFile(join(testDir, 'apps', 'api', '.env'), 'utf-8')).toContain(
+      'API_KEY=from-hsm'
+    )
+  })
+
+  it('reports a plugin module that cannot be loaded', async () => {
+    await rm(join(testDir, 'tools', 'hsm-backend.mjs'))
+
+    const result = await run(['set', '--env', 'dev', '--service', 'api', 'A=1', '--no-commit'])
+
+    expect(result.exitCode).toBe(1)
+    expect(result.stderr).toContain('Crypto backend plugin "hsm" could not be loaded')
+  })
+
+  it('lists configured plugins in doctor', async () => {
+    const result = await run(['doctor'])
+
+    expect(result.stdout).toContain('[OK] hsm: Test HSM simulator (plugin ./tools/hsm-backend.mjs)')
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest'
-import { mkdir, rm, writeFile } from 'fs/promises'
+import { mkdir, readFile, rm, writeFile } from 'fs/promises'
 import { join, resolve } from 'path'
 import { execa } from 'execa'
 import { tmpdir } from 'os'
@@ -22,7 +22,11 @@ describe('grant command', () => {
         {
           version: 1,
           secretsDir: 'secrets',
-          services: { api: { envOutput: 'apps/api/.env' } },
+          services: {
+            api: { envOutput: 'apps/api/.env' },
+            'core-auth': { envOutput: 'apps/core-auth/.env' },
+            'core-billing': { envOutput: 'apps/core-billing/.env' },
+          },
         },
         null,
         2
@@ -33,7 +37,11 @@ describe('grant command', () => {
       JSON.stringify(
         {
           version: 1,
-          environments: { dev: { services: { api: { recipients: [] } } } },
+          members: { alice: { name: 'Alice', ageKeys: ['age1alice'] } },
+          environments: {
+            dev: { services: { api: { recipients: [] } } },
+            prod: { services: {} },
+          },
         },
         null,
         2
@@ -58,5 +66,109 @@ describe('grant command', () => {
     expect(result.exitCode).toBe(0)
     expect(result.stdout).toContain('No existing secret file')
   })
-})
 
+  it('grants and revokes a member by alias', async () => {
+    const grant = await execa(
+      'node',
+      [CLI_PATH, 'grant', '--env', 'dev', '--service', 'api', '--member', 'alice', '--no-commit'],
+      { cwd: testDir, reject: false }
+    )
+    expect(grant.exitCode).toBe(0)
+
+    const policy = JSON.parse(await readFile(join(testDir, 'envvault.policy.json'), 'utf-8'))
+    expect(policy.environments.dev.services.api.recipients).toEqual(['alice'])
+    const sopsYaml = await readFile(join(testDir, '.sops.yaml'), 'utf-8')
+    expect(sopsYaml).toContain('age1alice')
+
+    const byKey = await execa(
+      'node',
+      [CLI_PATH, 'revoke', '--env', 'dev', '--service', 'api', '--recipient', 'age1alice'],
+      { cwd: testDir, reject: false }
+    )
+    expect(byKey.stdout).toContain('through member alice')
+
+    const revoke = await execa(
+      'node',
+      [CLI_PATH, 'revoke', '--env', 'dev', '--service', 'api', '--member', 'alice', '--no-commit'],
+      { cwd: testDir, reject: false }
+    )
+    expect(revoke.exitCode).toBe(0)
+    expect(await readFile(join(testDir, '.sops.yaml'), 'utf-8')).not.toContain('age1alice')
+  })
+
+  it('rejects unknown members', async () => {
+    const result = await execa(
+      'node',
+      [CLI_PATH, 'grant', '--env', 'dev', '--service', 'api', '--member', 'mallory'],
+      { cwd: testDir, reject: false }
+    )
+    expect(result.exitCode).not.toBe(0)
+    expect(result.stderr).toContain("Member 'mallory' not found")
+  })
+
+  it('refuses direct grants on environments with key groups', async () => {
+    const policyPath = join(testDir, 'envvault.policy.json')
+    const policy = JSON.parse(await readFile(policyPath, 'utf-8'))
+    policy.environments.prod.keyGroups = { threshold: 2, groups: ['alice', 'age1bob'] }
+    await writeFile(policyPath, JSON.stringify(policy, null, 2))
+
+    const result = await execa(
+      'node',
+      [CLI_PATH, 'grant', '--all-envs', '--service', 'api', '--recipient', 'age1carol'],
+      { cwd: testDir, reject: false }
+    )
+    expect(result.exitCode).toBe(1)
+    expect(result.stderr).toContain(
+      'prod uses keyGroups (2 of 2): a direct grant would decrypt without the quorum'
+    )
+    expect(await readFile(policyPath, 'utf-8')).not.toContain('age1carol')
+  })
+
+  it('grants a wildcard service pattern across all environments in one commit', async () => {
+    const result = await execa(
+      'node',
+      [CLI_PATH, 'grant', '--all-envs', '--service', 'core-*', '--member', 'alice'],
+      { cwd: testDir, reject: false }
+    )
+    expect(result.exitCode).toBe(0)
+    expect(result.stdout).toContain('Granted access to 4 services:')
+
+    const policy = JSON.parse(await readFile(join(testDir, 'envvault.policy.json'), 'utf-8'))
+    expect(policy.environments.prod.services['core-billing'].recipients).toEqual(['alice'])
+    expect(policy.environments.dev.services['core-auth'].recipients).toEqual(['alice'])
+    expect(policy.environments.dev.services.api.recipients).toEqual([])
+
+    const log = await execa('git', ['log', '--format=%s'], { cwd: testDir })
+    expect(log.stdout.split('\n')).toEqual([
+      'chore(policy): grant member alice access to */core-*',
+      'init',
+    ])
+  })
+
+  it('requires exactly one of --env and --all-envs', async () => {
+    const result = await execa(
+      'node',
+      [CLI_PATH, 'grant', '--service', '*', '--recipient', 'age1test'],
+      { cwd: testDir, reject: false }
+    )
+    expect(result.exitCode).not.toBe(0)
+    expect(result.stderr).toContain('--env or --all-envs')
+  })
+
+  it('writes .sops.yaml rules for a custom nested secretsDir', async () => {
+    const configPath = join(testDir, 'envvault.config.json')
+    const config = JSON.parse(await readFile(configPath, 'utf-8'))
+    await writeFile(configPath, JSON.stringify({ ...config, secretsDir: 'config/vault' }, null, 2))
+
+    const result = await execa(
+      'node',
+      [CLI_PATH, 'grant', '--env', 'dev', '--service', 'api', '--recipient', 'age1test', '--no-commit'],
+      { cwd: testDir, reject: false }
+    )
+    expect(result.exitCode).toBe(0)
+
+    const sopsYaml = await readFile(join(testDir, '.sops.yaml'), 'utf-8')
+    expect(sopsYaml).toContain('path_regex: ^config[\\\\/]vault[\\\\/]dev[\\\\/]api\\.sops\\.(yaml|env|json|bin)$')
+    expect(sopsYaml).not.toContain('^secrets')
+  })
+})
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import { join, resolve } from 'path'
+import { tmpdir } from 'os'
+import { execa } from 'execa'
+import { writeFakeSopsBin, withFakeSopsPath } from '../helpers/fake-sops.js'
+
+const CLI_PATH = resolve(process.cwd(), 'dist/cli/index.js')
+
+describe('group command', () => {
+  let testDir: string
+  let env: NodeJS.ProcessEnv
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'envvault-group-'))
+    const binDir = join(testDir, '.bin')
+    await writeFakeSopsBin(binDir)
+    env = withFakeSopsPath(binDir)
+
+    await execa('git', ['init'], { cwd: testDir })
+    await execa('git', ['config', 'user.email', 'test@test.com'], { cwd: testDir })
+    await execa('git', ['config', 'user.name', 'Test User'], { cwd: testDir })
+
+    await writeFile(
+      join(testDir, 'envvault.config.json'),
+      JSON.stringify({
+        version: 1,
+        secretsDir: 'secrets',
+        services: {
+          api: { envOutput: 'apps/api/.env' },
+          worker: { envOutput: 'apps/worker/.env' },
+        },
+      })
+    )
+    await writeFile(
+      join(testDir, 'envvault.policy.json'),
+      JSON.stringify(
+        {
+          version: 1,
+          members: {
+            alice: { ageKeys: ['age1alice'] },
+            bob: { ageKeys: ['age1bob'] },
+          },
+          groups: { backend: { members: ['alice'] } },
+          environments: {
+            dev: { services: { api: { recipients: ['backend'] }, worker: { recipients: [] } } },
+            prod: { recipients: ['backend'], services: { worker: { recipients: ['age1ci'] } } },
+          },
+        },
+        null,
+        2
+      )
+    )
+    for (const [envName, service] of [
+      ['dev', 'api'],
+      ['dev', 'worker'],
+      ['prod', 'worker'],
+    ] as const) {
+      await mkdir(join(testDir, 'secrets', envName), { recursive: true })
+      await writeFile(join(testDir, 'secrets', envName, `${service}.sops.yaml`), 'A: "1"\n')
+    }
+    await writeFile(join(testDir, '.gitignore'), '.bin/\n')
+    await execa('git', ['add', '.'], { cwd: testDir })
+    await execa('git', ['commit', '-m', 'init'], { cwd: testDir })
+  })
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true })
+  })
+
+  it('adds a member and updates keys of every secret referencing the group', async () => {
+    const result = await execa(
+      'node',
+      [CLI_PATH, 'group', 'add-member', '--group', 'backend', '--member', 'bob'],
+      { cwd: testDir, env, reject: false }
+    )
+    expect(result.exitCode).toBe(0)
+    expect(result.stdout).toContain('Re-encrypted dev/api')
+    expect(result.stdout).toContain('Re-encrypted prod/worker')
+    expect(result.stdout).not.toContain('dev/worker')
+
+    const sopsYaml = await readFile(join(testDir, '.sops.yaml'), 'utf-8')
+    expect(sopsYaml).toContain('age1bob')
+
+    const log = await execa('git', ['log', '--oneline'], { cwd: testDir })
+    expect(log.stdout.split('\n')).toHaveLength(2)
+    expect(log.stdout).toContain('add bob to group backend')
+  })
+
+  it('removes a member from a group', async () => {
+    const result = await execa(
+      'node',
+      [
+        CLI_PATH,
+        'group',
+        'remove-member',
+        '--group',
+        'backend',
+        '--member',
+        'alice',
+        '--no-commit',
+      ],
+      { cwd: testDir, env, reject: false }
+    )
+    expect(result.exitCode).toBe(0)
+    const policy = JSON.parse(await readFile(join(testDir, 'envvault.policy.json'), 'utf-8'))
+    expect(policy.groups.backend.members).toEqual([])
+    expect(await readFile(join(testDir, '.sops.yaml'), 'utf-8')).not.toContain('age1alice')
+  })
+
+  it('rejects unknown members', async () => {
+    const result = await execa(
+      'node',
+      [CLI_PATH, 'group', 'add-member', '--group', 'backend', '--member', 'mallory'],
+      { cwd: testDir, env, reject: false }
+    )
+    expect(result.exitCode).not.toBe(0)
+    expect(result.stderr).toContain("Member 'mallory' not found")
+  })
+})
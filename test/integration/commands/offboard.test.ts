@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdir, readFile, rm, writeFile } from 'fs/promises'
+import { join, resolve } from 'path'
+import { execa } from 'execa'
+import { tmpdir } from 'os'
+import { writeFakeSopsBin, withFakeSopsPath } from '../helpers/fake-sops.js'
+
+const CLI_PATH = resolve(process.cwd(), 'dist/cli/index.js')
+
+describe('offboard command', () => {
+  let testDir: string
+  let env: NodeJS.ProcessEnv
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `envvault-offboard-${Date.now()}`)
+    await mkdir(testDir, { recursive: true })
+    await execa('git', ['init'], { cwd: testDir })
+    await execa('git', ['config', 'user.email', 'test@test.com'], { cwd: testDir })
+    await execa('git', ['config', 'user.name', 'Test User'], { cwd: testDir })
+
+    const binDir = join(testDir, '.bin')
+    await writeFakeSopsBin(binDir)
+    env = withFakeSopsPath(binDir)
+
+    await writeFile(
+      join(testDir, 'envvault.config.json'),
+      JSON.stringify(
+        {
+          version: 1,
+          secretsDir: 'secrets',
+          services: {
+            api: { envOutput: 'apps/api/.env' },
+            web: { envOutput: 'apps/web/.env' },
+          },
+        },
+        null,
+        2
+      )
+    )
+    await writeFile(
+      join(testDir, 'envvault.policy.json'),
+      JSON.stringify(
+        {
+          version: 1,
+          members: {
+            alice: { ageKeys: ['age1alice'] },
+            bob: { ageKeys: ['age1bob'] },
+          },
+          groups: { backend: { members: ['alice', 'bob'] } },
+          environments: {
+            dev: { services: { api: { recipients: ['backend'] }, web: { recipients: ['bob'] } } },
+            prod: { services: { api: { recipients: ['alice'] }, web: { recipients: ['bob'] } } },
+          },
+        },
+        null,
+        2
+      )
+    )
+    await writeFile(join(testDir, '.sops.yaml'), 'creation_rules: []\n')
+    await writeFile(join(testDir, '.gitignore'), '.bin/\n')
+    await mkdir(join(testDir, 'secrets', 'dev'), { recursive: true })
+    await writeFile(
+      join(testDir, 'secrets', 'dev', 'api.sops.yaml'),
+      'DATABASE_URL: postgres://dev\nAPI_KEY: dev-key\n'
+    )
+
+    await execa('git', ['add', '.'], { cwd: testDir })
+    await execa('git', ['commit', '-m', 'init'], { cwd: testDir })
+  })
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true })
+  })
+
+  it('removes a member everywhere and reports readable secret keys', async () => {
+    const result = await execa('node', [CLI_PATH, 'offboard', '--member', 'alice'], {
+      cwd: testDir,
+      env,
+      reject: false,
+    })
+    expect(result.exitCode).toBe(0)
+    expect(result.stdout).toContain('Re-keyed and rotated dev/api')
+    expect(result.stdout).toContain('dev/api: API_KEY, DATABASE_URL')
+    expect(result.stdout).toContain('prod/api: (no secret file)')
+    expect(result.stdout).not.toContain('dev-key')
+    expect(result.stdout).not.toContain('dev/web')
+
+    const policy = JSON.parse(await readFile(join(testDir, 'envvault.policy.json'), 'utf-8'))
+    expect(policy.members.alice).toBeUndefined()
+    expect(policy.groups.backend.members).toEqual(['bob'])
+    expect(policy.environments.prod.services.api.recipients).toEqual([])
+    expect(await readFile(join(testDir, '.sops.yaml'), 'utf-8')).not.toContain('age1alice')
+
+    const log = await execa('git', ['log', '--format=%s'], { cwd: testDir })
+    expect(log.stdout.split('\n')[0]).toBe('security(policy): offboard member alice')
+  })
+
+  it('prints a JSON report without changing anything on --dry-run', async () => {
+    const result = await execa(
+      'node',
+      [CLI_PATH, 'offboard', '--recipient', 'age1bob', '--dry-run', '--json'],
+      { cwd: testDir, env, reject: false }
+    )
+    expect(result.exitCode).toBe(0)
+    const report = JSON.parse(result.stdout)
+    expect(
+      report.services.map((s: { env: string; service: string }) => `${s.env}/${s.service}`)
+    ).toEqual(['dev/api', 'dev/web', 'prod/web'])
+    expect(report.services[0].keys).toEqual(['API_KEY', 'DATABASE_URL'])
+
+    const status = await execa('git', ['status', '--porcelain'], { cwd: testDir })
+    expect(status.stdout).toBe('')
+  })
+
+  it('refuses to lower a key groups quorum without --lower-threshold', async () => {
+    const policyPath = join(testDir, 'envvault.policy.json')
+    const policy = JSON.parse(await readFile(policyPath, 'utf-8'))
+    policy.environments.prod.keyGroups = { threshold: 2, groups: ['alice', 'bob'] }
+    await writeFile(policyPath, JSON.stringify(policy, null, 2))
+
+    const refused = await execa('node', [CLI_PATH, 'offboard', '--member', 'alice'], {
+      cwd: testDir,
+      env,
+      reject: false,
+    })
+    expect(refused.exitCode).toBe(1)
+    expect(refused.stderr).toContain('prod: key groups quorum would drop from 2 of 2 to 1 of 1')
+    expect(JSON.parse(await readFile(policyPath, 'utf-8')).members.alice).toBeDefined()
+
+    const result = await execa(
+      'node',
+      [CLI_PATH, 'offboard', '--member', 'alice', '--lower-threshold'],
+      { cwd: testDir, env, reject: false }
+    )
+    expect(result.exitCode).toBe(0)
+    expect(result.stdout).toContain('Lowered the key groups quorum of prod to 1 of 1')
+    expect(JSON.parse(await readFile(policyPath, 'utf-8')).environments.prod.keyGroups).toEqual({
+      threshold: 1,
+      groups: ['bob'],
+    })
+  })
+})
@@ -0,0 +1,353 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm, writeFile, readFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join, resolve } from 'path'
+import { execa } from 'execa'
+import {
+  generateMasterKeyPair,
+  getExpectedSopsConfigYaml,
+  type EnvVaultPolicy,
+} from '../../../src/core/index.js'
+
+const CLI_PATH = resolve(process.cwd(), 'dist/cli/index.js')
+const PASSPHRASE_ENV = { ...process.env, ENVVAULT_MASTER_PASSPHRASE: 'test-passphrase' }
+
+describe('policy command', () => {
+  let testDir: string
+  const policy: EnvVaultPolicy = {
+    version: 1,
+    environments: {
+      dev: {
+        services: {
+          api: { recipients: ['age1devrecipient'] },
+        },
+      },
+      prod: { services: {} },
+    },
+  }
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'envvault-policy-'))
+    await execa('git', ['init'], { cwd: testDir })
+    await execa('git', ['config', 'user.email', 'test@test.com'], { cwd: testDir })
+    await execa('git', ['config', 'user.name', 'Test User'], { cwd: testDir })
+
+    await writeFile(
+      join(testDir, 'envvault.config.json'),
+      JSON.stringify(
+        { version: 1, secretsDir: 'secrets', services: { api: { envOutput: 'apps/api/.env' } } },
+        null,
+        2
+      ),
+      'utf-8'
+    )
+    await writeFile(join(testDir, 'envvault.policy.json'), JSON.stringify(policy, null, 2), 'utf-8')
+    await writeFile(join(testDir, '.sops.yaml'), getExpectedSopsConfigYaml(policy), 'utf-8')
+  })
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true })
+  })
+
+  it('generates a keypair, signs, and verifies the policy', async () => {
+    const initKey = await execa('node', [CLI_PATH, 'policy', 'init-key'], {
+      cwd: testDir,
+      env: PASSPHRASE_ENV,
+      reject: false,
+    })
+    expect(initKey.exitCode).toBe(0)
+    const publicKey = await readFile(join(testDir, '.envvault', 'master-key.pub'), 'utf-8')
+    expect(publicKey).toContain('BEGIN PUBLIC KEY')
+
+    const sign = await execa('node', [CLI_PATH, 'policy', 'sign'], {
+      cwd: testDir,
+      env: PASSPHRASE_ENV,
+      reject: false,
+    })
+    expect(sign.exitCode).toBe(0)
+
+    const verify = await execa('node', [CLI_PATH, 'policy', 'verify'], {
+      cwd: testDir,
+      reject: false,
+    })
+    expect(verify.exitCode).toBe(0)
+    expect(verify.stdout).toContain('Policy signature valid')
+
+    const ciVerify = await execa('node', [CLI_PATH, 'ci-verify', '--allow-dirty-env'], {
+      cwd: testDir,
+      reject: false,
+    })
+    expect(ciVerify.exitCode).toBe(0)
+    expect(ciVerify.stdout).toContain('[OK] Policy signature valid')
+  })
+
+  it('fails verification after the policy is modified', async () => {
+    await execa('node', [CLI_PATH, 'policy', 'init-key'], { cwd: testDir, env: PASSPHRASE_ENV })
+    await execa('node', [CLI_PATH, 'policy', 'sign'], { cwd: testDir, env: PASSPHRASE_ENV })
+
+    const tampered = structuredClone(policy)
+    tampered.environments.dev!.services.api!.recipients.push('age1attacker')
+    await writeFile(join(testDir, 'envvault.policy.json'), JSON.stringify(tampered, null, 2))
+
+    const verify = await execa('node', [CLI_PATH, 'policy', 'verify'], {
+      cwd: testDir,
+      reject: false,
+    })
+    expect(verify.exitCode).not.toBe(0)
+    expect(verify.stderr).toContain('Policy signature is invalid')
+  })
+
+  it('refuses to overwrite an existing key without --force', async () => {
+    await execa('node', [CLI_PATH, 'policy', 'init-key'], { cwd: testDir, env: PASSPHRASE_ENV })
+    const again = await execa('node', [CLI_PATH, 'policy', 'init-key'], {
+      cwd: testDir,
+      env: PASSPHRASE_ENV,
+      reject: false,
+    })
+    expect(again.exitCode).not.toBe(0)
+    expect(again.stderr).toContain('--force')
+  })
+
+  it('requires the passphrase to sign and supports changing it', async () => {
+    await execa('node', [CLI_PATH, 'policy', 'init-key'], { cwd: testDir, env: PASSPHRASE_ENV })
+
+    const wrong = await execa('node', [CLI_PATH, 'policy', 'sign'], {
+      cwd: testDir,
+      env: { ...process.env, ENVVAULT_MASTER_PASSPHRASE: 'nope' },
+      reject: false,
+    })
+    expect(wrong.exitCode).not.toBe(0)
+    expect(wrong.stderr).toContain('wrong passphrase')
+
+    const change = await execa('node', [CLI_PATH, 'policy', 'change-passphrase'], {
+      cwd: testDir,
+      env: { ...PASSPHRASE_ENV, ENVVAULT_NEW_MASTER_PASSPHRASE: 'rotated-passphrase' },
+      reject: false,
+    })
+    expect(change.exitCode).toBe(0)
+
+    const sign = await execa('node', [CLI_PATH, 'policy', 'sign'], {
+      cwd: testDir,
+      env: { ...process.env, ENVVAULT_MASTER_PASSPHRASE: 'rotated-passphrase' },
+      reject: false,
+    })
+    expect(sign.exitCode).toBe(0)
+  })
+
+  it('prints the recipient matrix', async () => {
+    const show = await execa('node', [CLI_PATH, 'policy', 'show'], { cwd: testDir, reject: false })
+    expect(show.exitCode).toBe(0)
+    expect(show.stdout).toContain('api (1 recipient)')
+    expect(show.stdout).toContain('- age1devrecipient')
+    expect(show.stdout).toContain('(no services)')
+
+    const json = await execa('node', [CLI_PATH, 'policy', 'show', '--json'], { cwd: testDir })
+    const payload = JSON.parse(json.stdout)
+    expect(payload.signature).toBe('unsigned')
+    expect(payload.environments.dev.services.api.recipients).toEqual(['age1devrecipient'])
+  })
+
+  it('enforces a multi-signer threshold and reports who signed', async () => {
+    await execa('node', [CLI_PATH, 'policy', 'init-key'], { cwd: testDir, env: PASSPHRASE_ENV })
+    const add = await execa('node', [CLI_PATH, 'policy', 'signers', 'add', '--name', 'alice'], {
+      cwd: testDir,
+      reject: false,
+    })
+    expect(add.exitCode).toBe(0)
+
+    // bob signs on another machine; only his public key lives in this repo
+    const bob = await generateMasterKeyPair()
+    const signersPath = join(testDir, 'envvault.signers.json')
+    const signers = JSON.parse(await readFile(signersPath, 'utf-8'))
+    signers.admins.bob = { publicKey: bob.publicKey }
+    await writeFile(signersPath, JSON.stringify(signers, null, 2), 'utf-8')
+
+    const threshold = await execa('node', [CLI_PATH, 'policy', 'signers', 'threshold', '2'], {
+      cwd: testDir,
+      reject: false,
+    })
+    expect(threshold.exitCode).toBe(0)
+
+    const noSigner = await execa('node', [CLI_PATH, 'policy', 'sign'], {
+      cwd: testDir,
+      env: PASSPHRASE_ENV,
+      reject: false,
+    })
+    expect(noSigner.exitCode).not.toBe(0)
+    expect(noSigner.stderr).toContain('--signer')
+
+    const sign = await execa('node', [CLI_PATH, 'policy', 'sign', '--signer', 'alice'], {
+      cwd: testDir,
+      env: PASSPHRASE_ENV,
+      reject: false,
+    })
+    expect(sign.exitCode).toBe(0)
+    expect(sign.stdout).toContain('1 of 2 required')
+
+    const partial = await execa('node', [CLI_PATH, 'ci-verify', '--allow-dirty-env'], {
+      cwd: testDir,
+      reject: false,
+    })
+    expect(partial.exitCode).not.toBe(0)
+    expect(partial.stdout).toContain('threshold not met (1 of 2 required; signed by: alice)')
+
+    const threshold1 = await execa('node', [CLI_PATH, 'policy', 'signers', 'threshold', '1'], {
+      cwd: testDir,
+    })
+    expect(threshold1.exitCode).toBe(0)
+    // Signatures cover envvault.signers.json, so the new threshold needs a fresh signature
+    const stale = await execa('node', [CLI_PATH, 'ci-verify', '--allow-dirty-env'], {
+      cwd: testDir,
+      reject: false,
+    })
+    expect(stale.exitCode).not.toBe(0)
+    expect(stale.stdout).toContain('Signature from alice does not match the current policy')
+    await execa('node', [CLI_PATH, 'policy', 'sign', '--signer', 'alice'], {
+      cwd: testDir,
+      env: PASSPHRASE_ENV,
+    })
+    const passing = await execa('node', [CLI_PATH, 'ci-verify', '--allow-dirty-env'], {
+      cwd: testDir,
+      reject: false,
+    })
+    expect(passing.exitCode).toBe(0)
+    expect(passing.stdout).toContain('[OK] Policy signed by alice (1 of 1 required)')
+  }, 15000)
+
+  it('requires the previous admins to approve changes to envvault.signers.json', async () => {
+    await execa('node', [CLI_PATH, 'policy', 'init-key'], { cwd: testDir, env: PASSPHRASE_ENV })
+    await execa('node', [CLI_PATH, 'policy', 'signers', 'add', '--name', 'alice'], { cwd: testDir })
+    await execa('node', [CLI_PATH, 'policy', 'sign', '--signer', 'alice'], {
+      cwd: testDir,
+      env: PASSPHRASE_ENV,
+    })
+    await execa('git', ['add', '-A'], { cwd: testDir })
+    await execa('git', ['commit', '-m', 'signers'], { cwd: testDir })
+
+    // A change adds its own admin and signs with it
+    await execa('node', [CLI_PATH, 'policy', 'init-key', '--force'], {
+      cwd: testDir,
+      env: PASSPHRASE_ENV,
+    })
+    await execa('node', [CLI_PATH, 'policy', 'signers', 'add', '--name', 'mallory'], {
+      cwd: testDir,
+    })
+    const sign = await execa('node', [CLI_PATH, 'policy', 'sign', '--signer', 'mallory'], {
+      cwd: testDir,
+      env: PASSPHRASE_ENV,
+      reject: false,
+    })
+    expect(sign.exitCode).toBe(0)
+
+    const verify = await execa(
+      'node',
+      [CLI_PATH, 'ci-verify', '--base', 'HEAD', '--allow-dirty-env'],
+      { cwd: testDir, reject: false }
+    )
+    expect(verify.exitCode).not.toBe(0)
+    expect(verify.stdout).toContain('threshold not met (0 of 1 required; signed by: none)')
+    expect(verify.stdout).toContain(
+      'envvault.signers.json changed since HEAD; signatures from the previous admins are required'
+    )
+    expect(verify.stdout).toContain('Signature from unknown signer "mallory" ignored')
+  })
+
+  it('checks signatures only for touched environments that require them', async () => {
+    const scoped: EnvVaultPolicy = {
+      version: 1,
+      environments: {
+        dev: { services: { api: { recipients: ['age1devrecipient'] } } },
+        prod: { requireSignature: true, services: { api: { recipients: ['age1prod'] } } },
+      },
+    }
+    await writeFile(join(testDir, 'envvault.policy.json'), JSON.stringify(scoped, null, 2))
+    await writeFile(join(testDir, '.sops.yaml'), getExpectedSopsConfigYaml(scoped), 'utf-8')
+    await execa('node', [CLI_PATH, 'policy', 'init-key'], { cwd: testDir, env: PASSPHRASE_ENV })
+    await execa('git', ['add', '-A'], { cwd: testDir })
+    await execa('git', ['commit', '-m', 'init'], { cwd: testDir })
+
+    const devOnly = {
+      ...scoped,
+      environments: {
+        ...scoped.environments,
+        dev: { services: { api: { recipients: ['age1devrecipient', 'age1new'] } } },
+      },
+    }
+    // .sops.yaml is left stale: a change to it would touch every environment
+    await writeFile(join(testDir, 'envvault.policy.json'), JSON.stringify(devOnly, null, 2))
+    await execa('git', ['commit', '-am', 'grant dev'], { cwd: testDir })
+
+    const loose = await execa(
+      'node',
+      [CLI_PATH, 'verify', '--base', 'HEAD~1', '--allow-dirty-env'],
+      { cwd: testDir, reject: false }
+    )
+    expect(loose.stdout).toContain('[OK] dev: signature not required')
+    expect(loose.stdout).not.toContain('prod:')
+
+    const prodChange = {
+      ...devOnly,
+      environments: {
+        ...devOnly.environments,
+        prod: { requireSignature: true, services: { api: { recipients: ['age1prod', 'age1x'] } } },
+      },
+    }
+    await writeFile(join(testDir, 'envvault.policy.json'), JSON.stringify(prodChange, null, 2))
+
+    const strict = await execa('node', [CLI_PATH, 'policy', 'verify'], {
+      cwd: testDir,
+      reject: false,
+    })
+    expect(strict.exitCode).not.toBe(0)
+    expect(strict.stderr).toContain('[FAIL] prod: policy is not signed')
+
+    const sign = await execa('node', [CLI_PATH, 'policy', 'sign', '--env', 'prod'], {
+      cwd: testDir,
+      env: PASSPHRASE_ENV,
+      reject: false,
+    })
+    expect(sign.exitCode).toBe(0)
+
+    const signed = await execa('node', [CLI_PATH, 'policy', 'verify'], {
+      cwd: testDir,
+      reject: false,
+    })
+    expect(signed.exitCode).toBe(0)
+    expect(signed.stdout).toContain('[OK] prod: policy signed by master (1 of 1 required)')
+  })
+
+  it('reads signing rules from the upstream merge base', async () => {
+    const scoped: EnvVaultPolicy = {
+      version: 1,
+      environments: {
+        dev: { services: { api: { recipients: ['age1devrecipient'] } } },
+        prod: { requireSignature: true, services: { api: { recipients: ['age1prod'] } } },
+      },
+    }
+    await writeFile(join(testDir, 'envvault.policy.json'), JSON.stringify(scoped, null, 2))
+    await writeFile(join(testDir, '.sops.yaml'), getExpectedSopsConfigYaml(scoped), 'utf-8')
+    await execa('node', [CLI_PATH, 'policy', 'init-key'], { cwd: testDir, env: PASSPHRASE_ENV })
+    await execa('git', ['add', '-A'], { cwd: testDir })
+    await execa('git', ['commit', '-m', 'init'], { cwd: testDir })
+    await execa('git', ['update-ref', 'refs/remotes/origin/HEAD', 'HEAD'], { cwd: testDir })
+
+    // Already committed: drops the prod rule in the same change that alters prod
+    const relaxed: EnvVaultPolicy = {
+      version: 1,
+      environments: {
+        ...scoped.environments,
+        prod: { services: { api: { recipients: ['age1prod', 'age1x'] } } },
+      },
+    }
+    await writeFile(join(testDir, 'envvault.policy.json'), JSON.stringify(relaxed, null, 2))
+    await execa('git', ['commit', '-am', 'relax prod'], { cwd: testDir })
+
+    const verify = await execa('node', [CLI_PATH, 'verify', '--allow-dirty-env'], {
+      cwd: testDir,
+      reject: false,
+    })
+    expect(verify.exitCode).not.toBe(0)
+    expect(verify.stdout).toContain('- prod: policy is not signed')
+    expect(verify.stdout).not.toContain('dev:')
+  })
+})
@@ -1,11 +1,13 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest'
-import { mkdir, rm, writeFile, readFile } from 'fs/promises'
+import { mkdir, rm, writeFile, readFile, readdir, cp } from 'fs/promises'
 import { join, resolve } from 'path'
 import { execa } from 'execa'
 import { tmpdir } from 'os'
 import { writeFakeSopsBin, withFakeSopsPath } from '../helpers/fake-sops.js'
+import { JsSopsAgeBackend } from '../../../src/core/sops/js-sops-age-backend.js'
 
 const CLI_PATH = resolve(process.cwd(), 'dist/cli/index.js')
+const SOPS_FIXTURES = resolve(process.cwd(), 'test/fixtures/sops')
 
 describe('push command', () => {
   let testDir: string
@@ -81,5 +83,298 @@ describe('push command', () => {
     expect(secretContent).toContain('A: "9"')
     expect(secretContent).not.toContain('DEBUG:')
   })
+
+  it('leaves the secret file untouched when sops fails to encrypt', async () => {
+    const secretPath = join(testDir, 'secrets', 'dev', 'core-bot.sops.yaml')
+    const before = await readFile(secretPath, 'utf-8')
+
+    const result = await execa(
+      'node',
+      [CLI_PATH, 'push', '--env', 'dev', '--service', 'core-bot', '--confirm', '--yes'],
+      {
+        cwd: testDir,
+        env: { ...withFakeSopsPath(binDir), FAKE_SOPS_FAIL_ENCRYPT: '1' },
+        reject: false,
+      }
+    )
+    expect(result.exitCode).not.toBe(0)
+    expect(result.stderr).toContain('encryption failed')
+    expect(await readFile(secretPath, 'utf-8')).toBe(before)
+    expect(await readdir(join(testDir, 'secrets', 'dev'))).toEqual(['core-bot.sops.yaml'])
+    expect(await readdir(join(testDir, '.envvault', 'tmp'))).toEqual([])
+  })
 })
 
+describe('push command with --crypto-backend js', () => {
+  let testDir: string
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `envvault-push-js-${Date.now()}`)
+    await mkdir(join(testDir, 'apps', 'api'), { recursive: true })
+    await cp(join(SOPS_FIXTURES, 'secrets'), join(testDir, 'secrets'), { recursive: true })
+    await cp(join(SOPS_FIXTURES, '.sops.yaml'), join(testDir, '.sops.yaml'))
+    await writeFile(
+      join(testDir, 'envvault.config.json'),
+      JSON.stringify(
+        { version: 1, secretsDir: 'secrets', services: { api: { envOutput: 'apps/api/.env' } } },
+        null,
+        2
+      ),
+      'utf-8'
+    )
+  })
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true })
+  })
+
+  const run = (args: string[]) =>
+    execa('node', [CLI_PATH, ...args], {
+      cwd: testDir,
+      env: { SOPS_AGE_KEY_FILE: join(SOPS_FIXTURES, 'age-key.txt') },
+      reject: false,
+    })
+
+  it('encrypts with the JS backend and pull reads the result back', async () => {
+    await writeFile(join(testDir, 'apps', 'api', '.env'), 'API_KEY=rotated-key\nNEW_KEY=added\n')
+
+    const push = await run([
+      'push',
+      '--env',
+      'dev',
+      '--service',
+      'api',
+      '--confirm',
+      '--yes',
+      '--no-commit',
+      '--crypto-backend',
+      'js',
+    ])
+    expect(push.exitCode).toBe(0)
+    const secret = await readFile(join(testDir, 'secrets', 'dev', 'api.sops.yaml'), 'utf-8')
+    expect(secret).not.toContain('rotated-key')
+    expect(secret).toMatch(/NEW_KEY: ENC\[AES256_GCM,/)
+
+    await rm(join(testDir, 'apps', 'api', '.env'))
+    const pull = await run(['pull', '--env', 'dev', '--service', 'api', '--crypto-backend', 'js'])
+    expect(pull.exitCode).toBe(0)
+    expect(pull.stdout).toContain('Crypto backend: js')
+    const env = await readFile(join(testDir, 'apps', 'api', '.env'), 'utf-8')
+    expect(env).toContain('API_KEY=rotated-key')
+    expect(env).toContain('NEW_KEY=added')
+  })
+
+  const useService = (service: Record<string, string>) =>
+    writeFile(
+      join(testDir, 'envvault.config.json'),
+      JSON.stringify({ version: 1, secretsDir: 'secrets', services: { api: service } }, null, 2)
+    )
+
+  it('pushes a nested yaml service and pulls it verbatim or flattened', async () => {
+    await useService({ envOutput: 'apps/api/config.yaml', format: 'yaml' })
+    await writeFile(
+      join(testDir, 'apps', 'api', 'config.yaml'),
+      'database:\n  host: db.internal\n  port: 5432\nflags:\n  - checkout\n  - search\n'
+    )
+
+    const push = await run(['push', '--env', 'dev', '--service', 'api', '--no-commit', '--crypto-backend', 'js'])
+    expect(push.exitCode).toBe(0)
+    expect(push.stdout).toContain('+ database__host')
+    const secret = await readFile(join(testDir, 'secrets', 'dev', 'api.sops.yaml'), 'utf-8')
+    expect(secret).not.toContain('db.internal')
+    expect(secret).toMatch(/host: ENC\[AES256_GCM,/)
+
+    await rm(join(testDir, 'apps', 'api', 'config.yaml'))
+    const pull = await run(['pull', '--env', 'dev', '--service', 'api', '--crypto-backend', 'js'])
+    expect(pull.exitCode).toBe(0)
+    expect(await readFile(join(testDir, 'apps', 'api', 'config.yaml'), 'utf-8')).toBe(
+      'database:\n  host: db.internal\n  port: 5432\nflags:\n  - checkout\n  - search\n'
+    )
+
+    await useService({ envOutput: 'apps/api/.env', format: 'yaml' })
+    const flattened = await run(['pull', '--env', 'dev', '--service', 'api', '--crypto-backend', 'js'])
+    expect(flattened.exitCode).toBe(0)
+    const env = await readFile(join(testDir, 'apps', 'api', '.env'), 'utf-8')
+    expect(env).toContain('database__host=db.internal')
+    expect(env).toContain('database__port=5432')
+    expect(env).toContain('flags__1=search')
+
+    const set = await run(['set', '--env', 'dev', '--service', 'api', 'A=1', '--crypto-backend', 'js'])
+    expect(set.exitCode).not.toBe(0)
+    expect(set.stderr).toContain("Service 'api' stores yaml secrets")
+  })
+
+  it('stores a json service in the sops json store and pulls it verbatim', async () => {
+    await useService({ envOutput: 'apps/api/service-account.json', format: 'json' })
+    const account = { type: 'service_account', private_key: 'pk', scopes: ['a', 'b'] }
+    await writeFile(join(testDir, 'apps', 'api', 'service-account.json'), JSON.stringify(account))
+
+    const push = await run(['push', '--env', 'dev', '--service', 'api', '--no-commit', '--crypto-backend', 'js'])
+    expect(push.exitCode).toBe(0)
+    const secret = JSON.parse(await readFile(join(testDir, 'secrets', 'dev', 'api.sops.json'), 'utf-8'))
+    expect(secret.private_key).toMatch(/^ENC\[AES256_GCM,/)
+    expect(secret.sops.age).toHaveLength(1)
+
+    await rm(join(testDir, 'apps', 'api', 'service-account.json'))
+    const pull = await run(['pull', '--env', 'dev', '--service', 'api', '--crypto-backend', 'js'])
+    expect(pull.exitCode).toBe(0)
+    expect(JSON.parse(await readFile(join(testDir, 'apps', 'api', 'service-account.json'), 'utf-8'))).toEqual(
+      account
+    )
+  })
+
+  it('round-trips a binary service file byte for byte', async () => {
+    await useService({ envOutput: 'apps/api/keystore.p12', format: 'binary' })
+    const keystore = Buffer.from([0x30, 0x82, 0x0a, 0xff, 0x00, 0x80, 0xc3, 0x28, 0xfe, 0x0a])
+    await writeFile(join(testDir, 'apps', 'api', 'keystore.p12'), keystore)
+
+    const push = await run(['push', '--env', 'dev', '--service', 'api', '--no-commit', '--crypto-backend', 'js'])
+    expect(push.exitCode).toBe(0)
+    // sops binary store: `sops -d` gives back the keystore
+    const secret = JSON.parse(await readFile(join(testDir, 'secrets', 'dev', 'api.sops.bin'), 'utf-8'))
+    expect(secret.data).toMatch(/^ENC\[AES256_GCM,.+,type:str\]$/)
+
+    await rm(join(testDir, 'apps', 'api', 'keystore.p12'))
+    const pull = await run(['pull', '--env', 'dev', '--service', 'api', '--crypto-backend', 'js'])
+    expect(pull.exitCode).toBe(0)
+    expect(await readFile(join(testDir, 'apps', 'api', 'keystore.p12'))).toEqual(keystore)
+
+    const status = await run(['status', '--env', 'dev', '--service', 'api', '--json', '--crypto-backend', 'js'])
+    expect(JSON.parse(status.stdout).services[0].drift).toEqual({ added: 0, removed: 0, changed: 0 })
+  })
+
+  it('adopts an existing .sops.env file and keeps its order and comments', async () => {
+    const envSecret = join(testDir, 'secrets', 'dev', 'api.sops.env')
+    await rm(join(testDir, 'secrets', 'dev', 'api.sops.yaml'))
+    await writeFile(envSecret, '# Primary database\nDB_URL=postgres://db\nAPI_KEY=old\n')
+    await new JsSopsAgeBackend().encrypt(envSecret)
+
+    const set = await run(['set', '--env', 'dev', '--service', 'api', 'API_KEY=new', '--no-commit', '--crypto-backend', 'js'])
+    expect(set.exitCode).toBe(0)
+    expect(await readdir(join(testDir, 'secrets', 'dev'))).toEqual(['api.sops.env'])
+    expect(await readFile(envSecret, 'utf-8')).not.toContain('Primary database')
+
+    const pull = await run(['pull', '--env', 'dev', '--service', 'api', '--crypto-backend', 'js'])
+    expect(pull.exitCode).toBe(0)
+    const localPath = join(testDir, 'apps', 'api', '.env')
+    expect(await readFile(localPath, 'utf-8')).toBe('# Primary database\nDB_URL=postgres://db\nAPI_KEY=new\n')
+
+    await writeFile(localPath, '# Primary database\nDB_URL=postgres://db\n# Rotated monthly\nAPI_KEY=new\n')
+    const push = await run(['push', '--env', 'dev', '--service', 'api', '--no-commit', '--crypto-backend', 'js'])
+    expect(push.exitCode).toBe(0)
+    await rm(localPath)
+    await run(['pull', '--env', 'dev', '--service', 'api', '--crypto-backend', 'js'])
+    expect(await readFile(localPath, 'utf-8')).toContain('# Rotated monthly\nAPI_KEY=new\n')
+  })
+
+  it('refuses set, push and pull --strict when values violate typed schema rules', async () => {
+    await writeFile(
+      join(testDir, 'envvault.schema.yaml'),
+      [
+        'version: 1',
+        'services:',
+        '  api:',
+        '    required: [PORT]',
+        '    keys:',
+        '      PORT: { type: int, min: 1, max: 65535 }',
+        '      DEBUG: { type: bool }',
+        '      DATABASE_URL: { type: url }',
+        '',
+      ].join('\n')
+    )
+
+    const set = await run(['set', '--env', 'dev', '--service', 'api', 'PORT=abc', '--no-commit', '--crypto-backend', 'js'])
+    expect(set.exitCode).not.toBe(0)
+    expect(set.stderr).toContain('PORT (expected int)')
+    expect(set.stderr).not.toContain('abc')
+
+    await writeFile(join(testDir, 'apps', 'api', '.env'), 'PORT=99999\nDATABASE_URL=db:5432\n')
+    const push = await run(['push', '--env', 'dev', '--service', 'api', '--no-commit', '--crypto-backend', 'js'])
+    expect(push.exitCode).not.toBe(0)
+    expect(push.stderr).toContain('DATABASE_URL (expected url), PORT (must be at most 65535)')
+    expect(push.stderr).not.toContain('99999')
+
+    const secretPath = join(testDir, 'secrets', 'dev', 'api.sops.yaml')
+    await new JsSopsAgeBackend().encryptData(secretPath, { PORT: '8080', DEBUG: 'maybe' })
+    await rm(join(testDir, 'apps', 'api', '.env'))
+    const strict = await run(['pull', '--env', 'dev', '--service', 'api', '--strict', '--crypto-backend', 'js'])
+    expect(strict.exitCode).not.toBe(0)
+    expect(strict.stdout).toContain('Invalid values: DEBUG (expected bool)')
+    await expect(readFile(join(testDir, 'apps', 'api', '.env'), 'utf-8')).rejects.toThrow()
+
+    const pull = await run(['pull', '--env', 'dev', '--service', 'api', '--crypto-backend', 'js'])
+    expect(pull.exitCode).toBe(0)
+    expect(await readFile(join(testDir, 'apps', 'api', '.env'), 'utf-8')).toContain('DEBUG=maybe')
+  })
+
+  it('applies common keys and environment deltas of a version 2 schema', async () => {
+    await writeFile(
+      join(testDir, 'envvault.schema.yaml'),
+      [
+        'version: 2',
+        'common: [SENTRY_DSN]',
+        'services:',
+        '  base:',
+        '    keys:',
+        '      PORT: { type: int }',
+        '  api:',
+        '    extends: base',
+        '    environments:',
+        '      dev:',
+        '        keys:',
+        '          PORT: { max: 1024 }',
+        '      prod:',
+        '        required: [STRIPE_WEBHOOK_SECRET]',
+        '',
+      ].join('\n')
+    )
+
+    const set = await run(['set', '--env', 'dev', '--service', 'api', 'PORT=8080', '--no-commit', '--crypto-backend', 'js'])
+    expect(set.exitCode).not.toBe(0)
+    expect(set.stderr).toContain('PORT (must be at most 1024)')
+
+    const pull = await run(['pull', '--env', 'dev', '--service', 'api', '--crypto-backend', 'js'])
+    expect(pull.exitCode).toBe(0)
+    expect(pull.stdout).toContain('Missing required keys: SENTRY_DSN')
+    expect(pull.stdout).not.toContain('STRIPE_WEBHOOK_SECRET')
+  })
+
+  it('materialises schema defaults and templates on pull and keeps them out of the vault', async () => {
+    await writeFile(
+      join(testDir, 'envvault.schema.yaml'),
+      [
+        'version: 1',
+        'services:',
+        '  api:',
+        '    keys:',
+        '      LOG_LEVEL: { default: info }',
+        "      HEALTH_URL: { template: 'http://localhost:${PORT}/health' }",
+        "      BROKEN_URL: { template: '${NO_SUCH_KEY}' }",
+        '',
+      ].join('\n')
+    )
+
+    const pull = await run(['pull', '--env', 'dev', '--service', 'api', '--crypto-backend', 'js'])
+    expect(pull.exitCode).toBe(0)
+    expect(pull.stdout).toContain('Unresolved templates: BROKEN_URL (references missing NO_SUCH_KEY)')
+    const envContent = await readFile(join(testDir, 'apps', 'api', '.env'), 'utf-8')
+    expect(envContent).toContain('LOG_LEVEL=info')
+    expect(envContent).toContain('HEALTH_URL=http://localhost:8080/health')
+
+    const push = await run(['push', '--env', 'dev', '--service', 'api', '--no-commit', '--crypto-backend', 'js'])
+    expect(push.exitCode).toBe(0)
+    expect(push.stdout).toContain('Derived from schema (not pushed): HEALTH_URL, LOG_LEVEL')
+    const dryRun = await run(['pull', '--env', 'dev', '--service', 'api', '--dry-run', '--crypto-backend', 'js'])
+    expect(dryRun.stdout).toMatch(/Keys: .*PORT/)
+    expect(dryRun.stdout).not.toMatch(/Keys: .*(LOG_LEVEL|HEALTH_URL)/)
+
+    const strict = await run(['pull', '--env', 'dev', '--service', 'api', '--strict', '--crypto-backend', 'js'])
+    expect(strict.exitCode).not.toBe(0)
+  })
+
+  it('rejects an unknown backend name', async () => {
+    const result = await run(['set', '--env', 'dev', '--service', 'api', 'A=1', '--crypto-backend', 'gpg'])
+    expect(result.exitCode).not.toBe(0)
+    expect(result.stderr).toContain('Unknown crypto backend "gpg"')
+  })
+})
@@ -1,11 +1,12 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest'
-import { mkdir, rm, writeFile, access, readFile } from 'fs/promises'
+import { cp, mkdir, rm, writeFile, access, readFile } from 'fs/promises'
 import { join, resolve } from 'path'
 import { execa } from 'execa'
 import { tmpdir } from 'os'
 import { parse as parseYaml } from 'yaml'
 
 const CLI_PATH = resolve(process.cwd(), 'dist/cli/index.js')
+const SOPS_FIXTURES = resolve(process.cwd(), 'test/fixtures/sops')
 
 describe('refresh command', () => {
   let testDir: string
@@ -81,4 +82,36 @@ describe('refresh command', () => {
     expect(schema.services.existing).toBeDefined()
     expect(schema.services.api).toBeDefined()
   })
+
+  it('writes secrets with env file comments as per-key metadata', async () => {
+    await cp(join(SOPS_FIXTURES, '.sops.yaml'), join(testDir, '.sops.yaml'))
+    await writeFile(
+      join(testDir, 'apps', 'api', '.env'),
+      '# Upstream API token\n# @owner team-api\nA=1\nB=2\n',
+      'utf-8'
+    )
+    const run = (args: string[]) =>
+      execa('node', [CLI_PATH, ...args], {
+        cwd: testDir,
+        env: { SOPS_AGE_KEY_FILE: join(SOPS_FIXTURES, 'age-key.txt') },
+        reject: false,
+      })
+
+    const result = await run(['refresh', '--write-secrets', '--crypto-backend', 'js'])
+    expect(result.exitCode).toBe(0)
+    const secret = parseYaml(
+      await readFile(join(testDir, 'secrets', 'dev', 'api.sops.yaml'), 'utf-8')
+    ) as Record<string, unknown>
+    expect(secret.A).toMatch(/^ENC\[AES256_GCM,/)
+    expect(secret.envvault_meta_unencrypted).toEqual({
+      A: { description: 'Upstream API token', owner: 'team-api' },
+    })
+
+    await rm(join(testDir, 'apps', 'api', '.env'))
+    const pull = await run(['pull', '--env', 'dev', '--service', 'api', '--crypto-backend', 'js'])
+    expect(pull.exitCode).toBe(0)
+    expect(await readFile(join(testDir, 'apps', 'api', '.env'), 'utf-8')).toBe(
+      '# Upstream API token\n# @owner team-api\nA=1\nB=2\n'
+    )
+  })
 })
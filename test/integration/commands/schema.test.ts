@@ -0,0 +1,238 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { cp, mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import { join, resolve } from 'path'
+import { execa } from 'execa'
+import { tmpdir } from 'os'
+import { JsSopsAgeBackend } from '../../../src/core/sops/js-sops-age-backend.js'
+
+const CLI_PATH = resolve(process.cwd(), 'dist/cli/index.js')
+const SOPS_FIXTURES = resolve(process.cwd(), 'test/fixtures/sops')
+
+describe('schema command', () => {
+  let testDir: string
+
+  const run = (args: string[]) =>
+    execa('node', [CLI_PATH, 'schema', ...args], { cwd: testDir, reject: false })
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'envvault-schema-'))
+    await writeFile(
+      join(testDir, 'envvault.schema.yaml'),
+      [
+        'version: 2',
+        'common:',
+        '  keys:',
+        '    LOG_LEVEL: { type: enum, allowedValues: [debug, info], default: info }',
+        'services:',
+        '  api:',
+        '    required: [PORT]',
+        '    keys:',
+        '      PORT: { type: int, description: HTTP port }',
+        '    environments:',
+        '      prod:',
+        '        required: [STRIPE_WEBHOOK_SECRET]',
+        '  worker:',
+        '    optional: [QUEUE_URL]',
+        '',
+      ].join('\n')
+    )
+  })
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true })
+  })
+
+  it('prints a JSON Schema of one service for an environment', async () => {
+    const result = await run(['export', '--service', 'api', '--env', 'prod'])
+    expect(result.exitCode).toBe(0)
+    const jsonSchema = JSON.parse(result.stdout)
+    expect(jsonSchema.required).toEqual(['PORT', 'STRIPE_WEBHOOK_SECRET'])
+    expect(jsonSchema.properties.PORT).toEqual({ description: 'HTTP port', type: 'integer' })
+    expect(jsonSchema.properties.LOG_LEVEL.default).toBe('info')
+  })
+
+  it('writes one file per service with --out', async () => {
+    const result = await run(['export', '--format', 'env-example', '--out', 'generated'])
+    expect(result.exitCode).toBe(0)
+    expect(result.stdout).toContain('api.env.example')
+
+    const api = await readFile(join(testDir, 'generated', 'api.env.example'), 'utf-8')
+    expect(api).toContain('# HTTP port\n# required; int\nPORT=\n')
+    expect(api).not.toContain('STRIPE_WEBHOOK_SECRET')
+    const worker = await readFile(join(testDir, 'generated', 'worker.env.example'), 'utf-8')
+    expect(worker).toContain('LOG_LEVEL=info')
+    expect(worker).toContain('QUEUE_URL=')
+  })
+
+  it('rejects printing several services and unknown formats', async () => {
+    const several = await run(['export', '--format', 'ts'])
+    expect(several.exitCode).not.toBe(0)
+    expect(several.stderr).toContain('The schema defines 2 services; use --service or --out <dir>')
+
+    const unknown = await run(['export', '--format', 'yaml', '--service', 'api'])
+    expect(unknown.exitCode).not.toBe(0)
+    expect(unknown.stderr).toContain('Unknown format "yaml"')
+  })
+})
+
+describe('schema check with --crypto-backend js', () => {
+  let testDir: string
+
+  const run = (args: string[]) =>
+    execa('node', [CLI_PATH, 'schema', 'check', ...args, '--crypto-backend', 'js'], {
+      cwd: testDir,
+      env: { SOPS_AGE_KEY_FILE: join(SOPS_FIXTURES, 'age-key.txt') },
+      reject: false,
+    })
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'envvault-schema-check-'))
+    await cp(join(SOPS_FIXTURES, 'secrets'), join(testDir, 'secrets'), { recursive: true })
+    const sopsYaml = await readFile(join(SOPS_FIXTURES, '.sops.yaml'), 'utf-8')
+    await writeFile(join(testDir, '.sops.yaml'), sopsYaml.replace(']dev[', '](dev|prod)['))
+    await writeFile(
+      join(testDir, 'envvault.config.json'),
+      JSON.stringify({
+        version: 1,
+        secretsDir: 'secrets',
+        services: {
+          api: { envOutput: 'apps/api/.env' },
+          worker: { envOutput: 'apps/worker/.env' },
+        },
+      })
+    )
+    await writeFile(
+      join(testDir, 'envvault.policy.json'),
+      JSON.stringify({
+        version: 1,
+        environments: {
+          dev: {
+            services: {
+              api: { recipients: ['age1testrecipient'] },
+              worker: { recipients: ['age1testrecipient'] },
+            },
+          },
+          prod: { services: { api: { recipients: ['age1testrecipient'] } } },
+        },
+      })
+    )
+    await writeFile(
+      join(testDir, 'envvault.schema.yaml'),
+      [
+        'version: 2',
+        'services:',
+        '  api:',
+        '    required: [DATABASE_URL, API_KEY]',
+        '    optional: [DEBUG, EMPTY, PUBLIC_URL_unencrypted]',
+        '    keys:',
+        '      PORT: { type: int }',
+        '    environments:',
+        '      prod:',
+        '        required: [STRIPE_WEBHOOK_SECRET]',
+        '  worker:',
+        '    required: [QUEUE_URL]',
+        '',
+      ].join('\n')
+    )
+    await new JsSopsAgeBackend().encryptData(join(testDir, 'secrets', 'prod', 'api.sops.yaml'), {
+      DATABASE_URL: 'postgres://prod',
+      API_KEY: 'sk_live',
+      PORT: 'eighty',
+      LEGACY_TOKEN: 'old',
+    })
+  })
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true })
+  })
+
+  it('prints a matrix of missing, invalid and extra keys for every environment', async () => {
+    const result = await run(['--all-envs'])
+    expect(result.exitCode).not.toBe(0)
+    expect(result.stdout).toContain('Schema check for dev, prod')
+    expect(result.stdout).toContain(
+      [
+        'service  dev        prod',
+        'api      ok         missing 1, invalid 1, extra 1',
+        'worker   missing 1  n/a',
+      ].join('\n')
+    )
+    expect(result.stdout).toContain('dev/worker: missing QUEUE_URL')
+    expect(result.stdout).toContain('prod/api: missing STRIPE_WEBHOOK_SECRET')
+    expect(result.stdout).toContain('prod/api: invalid PORT (expected int)')
+    expect(result.stdout).toContain('prod/api: extra LEGACY_TOKEN')
+    expect(result.stdout).not.toContain('eighty')
+  })
+
+  it('supports json output and a single environment', async () => {
+    const json = await run(['--all-envs', '--service', 'api', '--json'])
+    expect(json.exitCode).not.toBe(0)
+    const payload = JSON.parse(json.stdout)
+    expect(payload.envs).toEqual(['dev', 'prod'])
+    expect(payload.results).toEqual([
+      { env: 'dev', service: 'api', status: 'ok', missing: [], extra: [], invalid: [] },
+      {
+        env: 'prod',
+        service: 'api',
+        status: 'invalid',
+        missing: ['STRIPE_WEBHOOK_SECRET'],
+        extra: ['LEGACY_TOKEN'],
+        invalid: ['PORT (expected int)'],
+      },
+    ])
+
+    const dev = await run(['--env', 'dev', '--service', 'api'])
+    expect(dev.exitCode).toBe(0)
+    expect(dev.stdout).toContain('Vault secrets match the schema.')
+  })
+
+  it('only checks services granted in the environment policy', async () => {
+    const prod = await run(['--env', 'prod', '--service', 'worker', '--json'])
+    expect(prod.exitCode).toBe(0)
+    expect(JSON.parse(prod.stdout).results).toEqual([])
+
+    const dev = await run(['--env', 'dev', '--service', 'worker', '--json'])
+    expect(dev.exitCode).not.toBe(0)
+    expect(JSON.parse(dev.stdout).results).toEqual([
+      {
+        env: 'dev',
+        service: 'worker',
+        status: 'invalid',
+        missing: ['QUEUE_URL'],
+        extra: [],
+        invalid: [],
+      },
+    ])
+  })
+
+  it('defaults to the js backend when CI is set', async () => {
+    const config = JSON.parse(await readFile(join(testDir, 'envvault.config.json'), 'utf-8'))
+    await writeFile(
+      join(testDir, 'envvault.config.json'),
+      JSON.stringify({ ...config, cryptoBackend: 'system-sops' })
+    )
+    // No sops on PATH: only the js backend can decrypt
+    const binDir = join(testDir, 'bin')
+    await mkdir(binDir)
+    const check = (ci: string) =>
+      execa(process.execPath, [CLI_PATH, 'schema', 'check', '--env', 'dev', '--service', 'api'], {
+        cwd: testDir,
+        env: { CI: ci, PATH: binDir, SOPS_AGE_KEY_FILE: join(SOPS_FIXTURES, 'age-key.txt') },
+        reject: false,
+      })
+
+    const inCi = await check('1')
+    expect(inCi.exitCode).toBe(0)
+    expect(inCi.stdout).toContain('Vault secrets match the schema.')
+
+    const local = await check('')
+    expect(local.exitCode).not.toBe(0)
+    expect(local.stderr).toContain('envvault setup')
+  })
+
+  it('needs exactly one of --env and --all-envs', async () => {
+    const result = await run([])
+    expect(result.exitCode).not.toBe(0)
+    expect(result.stderr).toContain('Use either --env <env> or --all-envs')
+  })
+})
@@ -63,5 +63,55 @@ describe('status command', () => {
     expect(payload.command).toBe('status')
     expect(payload.services[0].drift.changed).toBe(1)
   })
-})
 
+  it('reports vault key drift since a git ref without decrypting', async () => {
+    const enc = (data: string, type = 'str') =>
+      `ENC[AES256_GCM,data:${data},iv:aXY=,tag:dGFn,type:${type}]`
+    const secretPath = join(testDir, 'secrets', 'dev', 'api.sops.yaml')
+    await writeFile(
+      secretPath,
+      `A: ${enc('b2xk')}\nB: ${enc('Yg==')}\nREGION: eu-west-1\nsops:\n  mac: ""\n`
+    )
+    await execa('git', ['init'], { cwd: testDir })
+    await execa('git', ['config', 'user.email', 'test@test.com'], { cwd: testDir })
+    await execa('git', ['config', 'user.name', 'Test User'], { cwd: testDir })
+    await execa('git', ['add', '.'], { cwd: testDir })
+    await execa('git', ['commit', '-m', 'init'], { cwd: testDir })
+
+    await writeFile(
+      secretPath,
+      [
+        `A: ${enc('bmV3')}`,
+        `C: ${enc('Yw==')}`,
+        'REGION: us-east-1',
+        'envvault_meta_unencrypted:',
+        '  C:',
+        '    owner: ops',
+        'sops:',
+        '  mac: ""',
+        '',
+      ].join('\n')
+    )
+
+    const result = await execa(
+      'node',
+      [CLI_PATH, 'status', '--env', 'dev', '--base', 'HEAD', '--json'],
+      { cwd: testDir, reject: false }
+    )
+    expect(result.exitCode).toBe(0)
+    const payload = JSON.parse(result.stdout)
+    expect(payload.base).toBe('HEAD')
+    expect(payload.services[0].drift).toEqual({ added: 1, removed: 1, changed: 1 })
+
+    const diff = await execa(
+      'node',
+      [CLI_PATH, 'diff', '--env', 'dev', '--service', 'api', '--base', 'HEAD'],
+      { cwd: testDir, reject: false }
+    )
+    expect(diff.exitCode).toBe(0)
+    expect(diff.stdout).toContain('+ C')
+    expect(diff.stdout).toContain('- B')
+    expect(diff.stdout).toContain('~ REGION')
+    expect(diff.stdout).not.toContain('~ A')
+  })
+})
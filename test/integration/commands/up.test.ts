@@ -39,6 +39,7 @@ describe('up command', () => {
       
       // In dry-run mode, commands should be printed
       expect(result.stdout).toContain('[DRY-RUN]')
+      expect(result.stdout).toContain('envvault verify --env dev --allow-unsigned')
     })
   })
 
@@ -141,7 +142,7 @@ describe('up command error handling', () => {
     ]
     
     // In production, logs should not contain these patterns
-    const mockLog = '[RUN] npx gev verify --env dev'
+    const mockLog = '[RUN] npx --no-install envvault verify --env dev'
     
     for (const pattern of sensitivePatterns) {
       expect(mockLog).not.toMatch(pattern)
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join, resolve } from 'path'
+import { execa } from 'execa'
+import { getExpectedSopsConfigYaml, type EnvVaultPolicy } from '../../../src/core/index.js'
+import { writeFakeSopsBin, withFakeSopsPath } from '../helpers/fake-sops.js'
+
+const CLI_PATH = resolve(process.cwd(), 'dist/cli/index.js')
+
+describe('verify command', () => {
+  let testDir: string
+  let binDir: string
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'envvault-verify-'))
+    binDir = join(tmpdir(), `envvault-verify-bin-${Date.now()}`)
+    await writeFakeSopsBin(binDir)
+    await execa('git', ['init'], { cwd: testDir })
+    await execa('git', ['config', 'user.email', 'test@test.com'], { cwd: testDir })
+    await execa('git', ['config', 'user.name', 'Test User'], { cwd: testDir })
+
+    const policy: EnvVaultPolicy = {
+      version: 1,
+      environments: {
+        dev: { services: { api: { recipients: ['age1testrecipient'] } } },
+      },
+    }
+
+    await writeFile(
+      join(testDir, 'envvault.config.json'),
+      JSON.stringify(
+        { version: 1, secretsDir: 'secrets', services: { api: { envOutput: 'apps/api/.env' } } },
+        null,
+        2
+      ),
+      'utf-8'
+    )
+    await writeFile(join(testDir, 'envvault.policy.json'), JSON.stringify(policy, null, 2), 'utf-8')
+    await writeFile(join(testDir, '.sops.yaml'), getExpectedSopsConfigYaml(policy), 'utf-8')
+    await writeFile(
+      join(testDir, 'envvault.schema.yaml'),
+      'version: 1\nservices:\n  api:\n    required: [DATABASE_URL, JWT_SECRET]\n    optional: [DEBUG]\n',
+      'utf-8'
+    )
+    await writeFile(join(testDir, '.gitignore'), '.env\n.env.*\n!.env.example\n.envvault/\n')
+    await mkdir(join(testDir, 'secrets', 'dev'), { recursive: true })
+    await writeFile(
+      join(testDir, 'secrets', 'dev', 'api.sops.yaml'),
+      'DATABASE_URL: postgres://db\nsops:\n  lastmodified: ""\n  mac: ""\n',
+      'utf-8'
+    )
+
+    await execa('git', ['add', '.'], { cwd: testDir })
+    await execa('git', ['commit', '-m', 'init'], { cwd: testDir })
+  })
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true })
+    await rm(binDir, { recursive: true, force: true })
+  })
+
+  it('passes structural checks without --env and ignores gitignored .env files', async () => {
+    await mkdir(join(testDir, 'apps', 'api'), { recursive: true })
+    await writeFile(join(testDir, 'apps', 'api', '.env'), 'JWT_SECRET=local\n')
+
+    const result = await execa('node', [CLI_PATH, 'verify', '--allow-unsigned'], {
+      cwd: testDir,
+      env: withFakeSopsPath(binDir),
+      reject: false,
+    })
+
+    expect(result.exitCode).toBe(0)
+    expect(result.stdout).toContain('.sops.yaml matches policy')
+    expect(result.stdout).toContain('All verifications passed')
+  })
+
+  it('fails on unsigned policy unless allowed', async () => {
+    const result = await execa('node', [CLI_PATH, 'verify'], {
+      cwd: testDir,
+      env: withFakeSopsPath(binDir),
+      reject: false,
+    })
+
+    expect(result.exitCode).not.toBe(0)
+    expect(result.stdout).toContain('Policy is not signed')
+  })
+
+  it('reports missing required keys by name for --env', async () => {
+    const result = await execa('node', [CLI_PATH, 'verify', '--env', 'dev', '--allow-unsigned'], {
+      cwd: testDir,
+      env: withFakeSopsPath(binDir),
+      reject: false,
+    })
+
+    expect(result.exitCode).not.toBe(0)
+    expect(result.stdout).toContain('dev/api: missing required keys: JWT_SECRET')
+    expect(result.stdout).not.toContain('postgres://db')
+  })
+
+  it('fails when a plaintext .env file is tracked by git', async () => {
+    await writeFile(join(testDir, 'leaked.env'), 'TOKEN=abc\n')
+    await execa('git', ['add', '-f', 'leaked.env'], { cwd: testDir })
+    await execa('git', ['commit', '-m', 'oops'], { cwd: testDir })
+
+    const result = await execa('node', [CLI_PATH, 'verify', '--allow-unsigned'], {
+      cwd: testDir,
+      env: withFakeSopsPath(binDir),
+      reject: false,
+    })
+
+    expect(result.exitCode).not.toBe(0)
+    expect(result.stdout).toContain('Plaintext .env files are tracked by git: leaked.env')
+  })
+
+  it('rejects unknown environments', async () => {
+    const result = await execa('node', [CLI_PATH, 'verify', '--env', 'prod'], {
+      cwd: testDir,
+      env: withFakeSopsPath(binDir),
+      reject: false,
+    })
+
+    expect(result.exitCode).not.toBe(0)
+    expect(result.stderr).toContain("Environment 'prod' not found in policy")
+  })
+})
@@ -8,7 +8,7 @@ export async function writeFakeSopsBin(binDir: string): Promise<void> {
     const cmdPath = join(binDir, 'sops.cmd')
     const content = `@echo off
 if "%~1"=="--version" (
-  echo sops 3.8.1
+  echo sops 3.9.4
   goto :eof
 )
 if "%~1"=="-d" (
@@ -16,7 +16,13 @@ if "%~1"=="-d" (
   goto :eof
 )
 if "%~1"=="-e" (
-  REM no-op fake encryption for tests
+  if defined FAKE_SOPS_FAIL_ENCRYPT (
+    echo fake sops: encryption failed 1>&2
+    exit /b 1
+  )
+  if "%~2"=="-i" goto :eof
+  REM fake encryption for tests: echo the plaintext input file
+  type "%~7"
   goto :eof
 )
 if "%~1"=="updatekeys" (
@@ -34,7 +40,7 @@ exit /b 1
   const shPath = join(binDir, 'sops')
   const content = `#!/bin/sh
 if [ "$1" = "--version" ]; then
-  echo "sops 3.8.1"
+  echo "sops 3.9.4"
   exit 0
 fi
 if [ "$1" = "-d" ]; then
@@ -42,7 +48,16 @@ if [ "$1" = "-d" ]; then
   exit 0
 fi
 if [ "$1" = "-e" ]; then
-  # no-op fake encryption for tests
+  if [ -n "$FAKE_SOPS_FAIL_ENCRYPT" ]; then
+    echo "fake sops: encryption failed" >&2
+    exit 1
+  fi
+  if [ "$2" = "-i" ]; then
+    exit 0
+  fi
+  # fake encryption for tests: echo the plaintext input file (last argument)
+  for last in "$@"; do :; done
+  cat "$last"
   exit 0
 fi
 if [ "$1" = "updatekeys" ] || [ "$1" = "rotate" ]; then
@@ -45,7 +45,7 @@ describe('Git Hooks Commands', () => {
       const content = await readFile(join(hooksDir, 'pre-push'), 'utf-8')
       expect(content).toContain('# >>> gev:managed')
       expect(content).toContain('# <<< gev:managed')
-      expect(content).toContain('npx gev verify')
+      expect(content).toContain('npx --no-install envvault verify')
     })
 
     it('should create pre-commit hook with gev content', async () => {
@@ -56,7 +56,7 @@ describe('Git Hooks Commands', () => {
       
       const content = await readFile(join(hooksDir, 'pre-commit'), 'utf-8')
       expect(content).toContain('# >>> gev:managed')
-      expect(content).toContain('npx gev verify')
+      expect(content).toContain('npx --no-install envvault verify')
     })
 
     it('should make hook file executable', async () => {
@@ -82,6 +82,29 @@ describe('Git Hooks Commands', () => {
       expect(markerCount).toBe(1)
     })
 
+    it('should rewrite an outdated gev block', async () => {
+      const outdated = `#!/bin/sh
+# Custom hook logic
+echo "Custom logic"
+
+# >>> gev:managed (do not edit this block)
+npx gev verify || exit 1
+# <<< gev:managed (end)
+`
+      await writeFile(join(hooksDir, 'pre-push'), outdated)
+
+      const result = await installHook({ type: 'pre-push', cwd: testDir })
+
+      expect(result.success).toBe(true)
+      expect(result.message).toContain('Updated gev managed content')
+
+      const content = await readFile(join(hooksDir, 'pre-push'), 'utf-8')
+      expect(content).toContain('Custom logic')
+      expect(content).toContain('npx --no-install envvault verify')
+      expect(content).not.toContain('npx gev verify')
+      expect((content.match(/# >>> gev:managed/g) || []).length).toBe(1)
+    })
+
     it('should preserve existing hook content', async () => {
       // Create existing hook
       const existingContent = `#!/bin/sh
@@ -240,7 +263,8 @@ describe('Hook Script Content Generation', () => {
     await installHook({ type: 'pre-push', cwd: testDir })
     
     const content = await readFile(join(gitDir, 'pre-push'), 'utf-8')
-    expect(content).toContain('npx gev verify')
+    expect(content).toContain('npx --no-install envvault verify')
+    expect(content).not.toContain('--allow-unsigned')
     expect(content).toContain('pre-push aborted')
     
     await rm(testDir, { recursive: true, force: true })
@@ -254,9 +278,24 @@ describe('Hook Script Content Generation', () => {
     await installHook({ type: 'pre-commit', cwd: testDir })
     
     const content = await readFile(join(gitDir, 'pre-commit'), 'utf-8')
-    expect(content).toContain('npx gev verify')
+    expect(content).toContain('npx --no-install envvault verify')
     expect(content).toContain('pre-commit aborted')
     
     await rm(testDir, { recursive: true, force: true })
   })
+
+  it('should keep pre-commit to local checks and skip without a local envvault', async () => {
+    const testDir = join(process.cwd(), '.test-hook-content')
+    const gitDir = join(testDir, '.git', 'hooks')
+    await mkdir(gitDir, { recursive: true })
+
+    await installHook({ type: 'pre-commit', cwd: testDir })
+
+    const content = await readFile(join(gitDir, 'pre-commit'), 'utf-8')
+    expect(content).toContain('npx --no-install envvault verify --allow-unsigned')
+    expect(content).toContain('if npx --no-install envvault --version >/dev/null 2>&1; then')
+    expect(content).toContain('envvault is not installed locally; skipping envvault verify')
+
+    await rm(testDir, { recursive: true, force: true })
+  })
 })
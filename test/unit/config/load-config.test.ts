@@ -134,6 +134,34 @@ describe('loadConfig', () => {
       await expect(loadConfig(testDir)).rejects.toThrow('cryptoBackend must be one of')
     })
 
+    it('should accept a cryptoBackend named in cryptoPlugins', async () => {
+      await writeFile(
+        join(testDir, 'envvault.config.json'),
+        '{"version":1,"secretsDir":"secrets","cryptoBackend":"hsm","cryptoPlugins":{"hsm":"./tools/hsm.mjs"},"services":{}}'
+      )
+      const config = await loadConfig(testDir)
+      expect(config.cryptoBackend).toBe('hsm')
+      expect(config.cryptoPlugins).toEqual({ hsm: './tools/hsm.mjs' })
+    })
+
+    it('should throw ConfigError when a plugin reuses a built-in backend name', async () => {
+      await writeFile(
+        join(testDir, 'envvault.config.json'),
+        '{"version":1,"secretsDir":"secrets","cryptoPlugins":{"js":"./js.mjs"},"services":{}}'
+      )
+      await expect(loadConfig(testDir)).rejects.toThrow('"js" is a built-in crypto backend name')
+    })
+
+    it('should throw ConfigError on an unknown service format', async () => {
+      await writeFile(
+        join(testDir, 'envvault.config.json'),
+        '{"version":1,"secretsDir":"secrets","services":{"api":{"envOutput":".env","format":"toml"}}}'
+      )
+      await expect(loadConfig(testDir)).rejects.toThrow(
+        'services.api.format must be one of: dotenv, yaml, json, binary'
+      )
+    })
+
     it('should throw ConfigError on invalid localProtection.global type', async () => {
       await writeFile(
         join(testDir, 'envvault.config.json'),
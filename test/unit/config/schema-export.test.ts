@@ -0,0 +1,148 @@
+/**
+ * Tests for generating JSON Schema, TypeScript, zod and .env.example from the schema
+ */
+
+import { describe, it, expect } from 'vitest'
+import ts from 'typescript'
+import {
+  schemaToEnvExample,
+  schemaToJsonSchema,
+  schemaToTypeScript,
+  schemaToZod,
+  schemaTypeName,
+} from '../../../src/core/config/schema-export'
+import type { ServiceSchema } from '../../../src/core/config/schema'
+
+const SCHEMA: ServiceSchema = {
+  required: ['DATABASE_URL', 'PORT'],
+  optional: ['DEBUG'],
+  keys: {
+    DATABASE_URL: { type: 'url', description: 'Postgres connection string' },
+    PORT: { type: 'int', min: 1, max: 65535, default: '3000' },
+    DEBUG: { type: 'bool' },
+    LOG_LEVEL: { type: 'enum', allowedValues: ['debug', 'info'], default: 'info' },
+    TIMEOUT: { type: 'duration' },
+  },
+}
+
+/**
+ * Compile a generated TypeScript module and return its exports
+ */
+function loadModule(source: string): Record<string, unknown> {
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022 },
+  })
+  const module = { exports: {} as Record<string, unknown> }
+  new Function('module', 'exports', 'process', outputText)(module, module.exports, { env: {} })
+  return module.exports
+}
+
+describe('schemaTypeName', () => {
+  it('should build a PascalCase type name', () => {
+    expect(schemaTypeName('api-gateway')).toBe('ApiGatewayEnv')
+    expect(schemaTypeName('2fa')).toBe('Service2faEnv')
+  })
+})
+
+describe('schemaToJsonSchema', () => {
+  it('should map key rules to JSON Schema keywords', () => {
+    const result = schemaToJsonSchema('api', SCHEMA)
+
+    expect(result.title).toBe('api environment')
+    expect(result.required).toEqual(['DATABASE_URL'])
+    expect(result.properties).toEqual({
+      DATABASE_URL: { description: 'Postgres connection string', type: 'string', format: 'uri' },
+      DEBUG: { type: 'boolean' },
+      LOG_LEVEL: { type: 'string', enum: ['debug', 'info'], default: 'info' },
+      PORT: { type: 'integer', minimum: 1, maximum: 65535, default: 3000 },
+      TIMEOUT: { type: 'string', pattern: '^(\\d+(\\.\\d+)?(ms|s|m|h|d))+$' },
+    })
+  })
+
+  it('should combine a type pattern with a rule pattern', () => {
+    const result = schemaToJsonSchema('api', {
+      required: [],
+      optional: [],
+      keys: { TTL: { type: 'duration', pattern: 's$' } },
+    })
+
+    expect((result.properties as Record<string, unknown>).TTL).toEqual({
+      type: 'string',
+      allOf: [{ pattern: '^(\\d+(\\.\\d+)?(ms|s|m|h|d))+$' }, { pattern: 's$' }],
+    })
+  })
+})
+
+describe('schemaToTypeScript', () => {
+  it('should declare an interface with optional keys and doc comments', () => {
+    const source = schemaToTypeScript('api', SCHEMA)
+
+    expect(source).toContain('export interface ApiEnv {')
+    expect(source).toContain('  /** Postgres connection string */\n  DATABASE_URL: string')
+    expect(source).toContain('  DEBUG?: boolean | undefined')
+    expect(source).toContain('  LOG_LEVEL: "debug" | "info"')
+    expect(source).toContain('  PORT: number')
+    expect(source).not.toContain('function toJson')
+  })
+
+  it('should read, default and convert values', () => {
+    const { readApiEnv } = loadModule(schemaToTypeScript('api', SCHEMA)) as {
+      readApiEnv: (env: Record<string, string>) => Record<string, unknown>
+    }
+
+    expect(readApiEnv({ DATABASE_URL: 'postgres://db', DEBUG: 'yes' })).toEqual({
+      DATABASE_URL: 'postgres://db',
+      DEBUG: true,
+      LOG_LEVEL: 'info',
+      PORT: 3000,
+      TIMEOUT: undefined,
+    })
+    expect(() => readApiEnv({})).toThrow('Missing environment variable DATABASE_URL')
+    expect(() => readApiEnv({ DATABASE_URL: 'x', PORT: 'eighty' })).toThrow(
+      'PORT must be an integer'
+    )
+    expect(() => readApiEnv({ DATABASE_URL: 'x', LOG_LEVEL: 'trace' })).toThrow(
+      'LOG_LEVEL must be one of: debug, info'
+    )
+  })
+})
+
+describe('schemaToZod', () => {
+  it('should build a zod object with checks, conversions and defaults', () => {
+    const source = schemaToZod('api', SCHEMA)
+
+    expect(source).toContain("import { z } from 'zod'")
+    expect(source).toContain('export const apiEnvSchema = z.object({')
+    expect(source).toContain('  DATABASE_URL: z.string().url(),')
+    expect(source).toContain('  LOG_LEVEL: z.enum(["debug","info"]).default("info"),')
+    expect(source).toContain(
+      "  PORT: z.string().regex(/^[-+]?\\d+$/, 'expected int').transform(Number).pipe(z.number().min(1).max(65535)).default(\"3000\"),"
+    )
+    expect(source).toMatch(/ {2}DEBUG: z\.string\(\)\.regex\(.+\)\.transform\(.+\)\.optional\(\),/)
+    expect(source).toContain('export type ApiEnv = z.infer<typeof apiEnvSchema>')
+    expect(source).toContain('export function readApiEnv(')
+  })
+})
+
+describe('schemaToEnvExample', () => {
+  it('should list every key with descriptions, rules and defaults', () => {
+    expect(schemaToEnvExample('api', SCHEMA)).toBe(
+      [
+        '# api: generated by `envvault schema export --format env-example` from envvault.schema.yaml',
+        '',
+        '# Postgres connection string',
+        '# required; url',
+        'DATABASE_URL=',
+        '# optional; bool',
+        'DEBUG=',
+        '# optional; one of: debug, info',
+        'LOG_LEVEL=info',
+        '# required; int; min 1; max 65535',
+        'PORT=3000',
+        '# optional; duration',
+        'TIMEOUT=',
+        '',
+      ].join('\n')
+    )
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import {
+  getSecretFilePath,
+  getSopsStoreType,
+  isDotenvSecretFile,
+  parseSecretFilePath,
+} from '../../../src/core/config/secret-path.js'
+
+describe('secret file paths', () => {
+  let testDir: string
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'envvault-secret-path-'))
+    await mkdir(join(testDir, 'secrets', 'dev'), { recursive: true })
+  })
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true })
+  })
+
+  it('should default to .sops.yaml and adopt an existing .sops.env', async () => {
+    expect(getSecretFilePath(testDir, 'secrets', 'dev', 'api')).toBe(
+      join(testDir, 'secrets', 'dev', 'api.sops.yaml')
+    )
+    await writeFile(join(testDir, 'secrets', 'dev', 'api.sops.env'), 'A=ENC[]\n')
+    expect(getSecretFilePath(testDir, 'secrets', 'dev', 'api')).toBe(
+      join(testDir, 'secrets', 'dev', 'api.sops.env')
+    )
+    expect(isDotenvSecretFile(getSecretFilePath(testDir, 'secrets', 'dev', 'api'))).toBe(true)
+  })
+
+  it('should use .sops.json and .sops.bin for json and binary services', async () => {
+    const dir = join(testDir, 'secrets', 'dev')
+    expect(getSecretFilePath(testDir, 'secrets', 'dev', 'api', 'yaml')).toBe(
+      join(dir, 'api.sops.yaml')
+    )
+    expect(getSecretFilePath(testDir, 'secrets', 'dev', 'api', 'json')).toBe(
+      join(dir, 'api.sops.json')
+    )
+    expect(getSecretFilePath(testDir, 'secrets', 'dev', 'cert', 'binary')).toBe(
+      join(dir, 'cert.sops.bin')
+    )
+    // Found without the format once it exists
+    await writeFile(join(dir, 'cert.sops.bin'), '{}\n')
+    expect(getSecretFilePath(testDir, 'secrets', 'dev', 'cert')).toBe(join(dir, 'cert.sops.bin'))
+  })
+
+  it('should pick the sops store from the extension', () => {
+    expect(getSopsStoreType('secrets/dev/api.sops.yaml')).toBe('yaml')
+    expect(getSopsStoreType('secrets/dev/api.sops.env')).toBe('dotenv')
+    expect(getSopsStoreType('secrets/dev/api.sops.json')).toBe('json')
+    expect(getSopsStoreType('secrets/dev/api.sops.bin')).toBe('binary')
+  })
+
+  it('should read env and service from any extension', () => {
+    expect(parseSecretFilePath('secrets/dev/api.sops.yaml')).toEqual({ env: 'dev', service: 'api' })
+    expect(parseSecretFilePath('vault\\prod\\web.sops.env')).toEqual({
+      env: 'prod',
+      service: 'web',
+    })
+    expect(parseSecretFilePath('secrets/dev/cert.sops.bin')).toEqual({
+      env: 'dev',
+      service: 'cert',
+    })
+    expect(parseSecretFilePath('secrets/dev/api.yaml')).toBeNull()
+  })
+})
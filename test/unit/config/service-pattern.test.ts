@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest'
+import {
+  isServicePattern,
+  matchesServicePattern,
+} from '../../../src/core/config/service-pattern.js'
+
+describe('matchesServicePattern', () => {
+  it('should match wildcard patterns', () => {
+    expect(matchesServicePattern('core-auth', 'core-*')).toBe(true)
+    expect(matchesServicePattern('api', '*')).toBe(true)
+    expect(matchesServicePattern('api-core', 'core-*')).toBe(false)
+  })
+
+  it('should treat regex characters literally', () => {
+    expect(matchesServicePattern('core.auth', 'core.*')).toBe(true)
+    expect(matchesServicePattern('coreXauth', 'core.auth')).toBe(false)
+  })
+
+  it('should detect patterns', () => {
+    expect(isServicePattern('core-*')).toBe(true)
+    expect(isServicePattern('api')).toBe(false)
+  })
+})
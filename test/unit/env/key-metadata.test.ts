@@ -0,0 +1,84 @@
+/**
+ * Tests for per-key metadata stored next to encrypted values
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  KEY_METADATA_FIELD,
+  fromStoredDocument,
+  keyMetadataFromComment,
+  keyMetadataToComment,
+  toStoredDocument,
+} from '../../../src/core/env/key-metadata'
+
+describe('keyMetadataFromComment', () => {
+  it('should read plain lines as the description and tagged lines as fields', () => {
+    expect(
+      keyMetadataFromComment(
+        'Stripe secret key\nLive mode only\n@owner payments\n@comment rotate yearly'
+      )
+    ).toEqual({
+      description: 'Stripe secret key\nLive mode only',
+      owner: 'payments',
+      comment: 'rotate yearly',
+    })
+  })
+
+  it('should join repeated owners and keep unknown tags in the description', () => {
+    expect(keyMetadataFromComment('@owner a\n@owner b\n@see docs')).toEqual({
+      description: '@see docs',
+      owner: 'a, b',
+    })
+  })
+
+  it('should return no fields without a comment', () => {
+    expect(keyMetadataFromComment(undefined)).toEqual({})
+  })
+})
+
+describe('keyMetadataToComment', () => {
+  it('should round-trip through keyMetadataFromComment', () => {
+    const comment = 'Stripe secret key\n@owner payments\n@comment rotate yearly'
+    expect(keyMetadataToComment(keyMetadataFromComment(comment))).toBe(comment)
+  })
+
+  it('should return undefined for empty metadata', () => {
+    expect(keyMetadataToComment({})).toBeUndefined()
+    expect(keyMetadataToComment(undefined)).toBeUndefined()
+  })
+})
+
+describe('toStoredDocument', () => {
+  it('should keep the data as given without a layout', () => {
+    expect(toStoredDocument({ DB: { HOST: 'db' } })).toEqual({ DB: { HOST: 'db' } })
+  })
+
+  it('should order keys by the layout and add the metadata mapping', () => {
+    const stored = toStoredDocument({ A: '1', B: '2' }, [
+      { key: 'B', value: '2', comment: 'Second\n@owner ops' },
+      { key: 'A', value: '1' },
+    ])
+    expect(Object.keys(stored)).toEqual(['B', 'A', KEY_METADATA_FIELD])
+    expect(stored[KEY_METADATA_FIELD]).toEqual({ B: { description: 'Second', owner: 'ops' } })
+  })
+
+  it('should omit the metadata mapping when no key has a comment', () => {
+    expect(toStoredDocument({ A: '1' }, [{ key: 'A', value: '1' }])).toEqual({ A: '1' })
+  })
+})
+
+describe('fromStoredDocument', () => {
+  it('should strip the metadata mapping and rebuild comments', () => {
+    const result = fromStoredDocument({
+      B: '2',
+      A: 1,
+      [KEY_METADATA_FIELD]: { A: { owner: 'ops', ignored: 3 }, GONE: { description: 'x' } },
+    })
+    expect(result.tree).toEqual({ B: '2', A: 1 })
+    expect(result.data).toEqual({ B: '2', A: '1' })
+    expect(result.entries).toEqual([
+      { key: 'B', value: '2', comment: undefined },
+      { key: 'A', value: '1', comment: '@owner ops' },
+    ])
+  })
+})
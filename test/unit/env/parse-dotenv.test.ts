@@ -156,6 +156,20 @@ KEY=value`;
       expect(result.entries[0].comment).toBe('Line 1\nLine 2');
     });
 
+    it('should attach comments between keys to the next key', () => {
+      const content = `FIRST=1
+# Database
+DB_URL=postgres://db
+SECOND=2`;
+      const result = parseDotenv(content);
+
+      expect(result.entries.map((entry) => entry.comment)).toEqual([
+        undefined,
+        'Database',
+        undefined,
+      ]);
+    });
+
     it('should ignore inline comment after value', () => {
       const content = 'KEY=value # this is inline';
       const result = parseDotenv(content);
@@ -0,0 +1,98 @@
+/**
+ * Tests for per-service secret formats
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyDotenvLayout,
+  flattenSecretDocument,
+  isVerbatimOutput,
+  parseSecretDocument,
+  parseServiceOutput,
+  renderSecretDocument,
+} from '../../../src/core/env/secret-format';
+
+describe('flattenSecretDocument', () => {
+  it('should join nested keys and list indexes with __', () => {
+    expect(
+      flattenSecretDocument({
+        API_KEY: 'k',
+        DB: { HOST: 'db', PORT: 5432, TLS: true },
+        HOSTS: ['a', 'b'],
+        EMPTY: null,
+      })
+    ).toEqual({
+      API_KEY: 'k',
+      DB__HOST: 'db',
+      DB__PORT: '5432',
+      DB__TLS: 'true',
+      HOSTS__0: 'a',
+      HOSTS__1: 'b',
+    });
+  });
+});
+
+describe('isVerbatimOutput', () => {
+  it('should write binary always and yaml/json only to matching files', () => {
+    expect(isVerbatimOutput({ envOutput: 'certs/tls.pem', format: 'binary' })).toBe(true);
+    expect(isVerbatimOutput({ envOutput: 'config/flags.yml', format: 'yaml' })).toBe(true);
+    expect(isVerbatimOutput({ envOutput: 'apps/api/.env', format: 'yaml' })).toBe(false);
+    expect(isVerbatimOutput({ envOutput: 'sa.json', format: 'json' })).toBe(true);
+    expect(isVerbatimOutput({ envOutput: 'sa.json' })).toBe(false);
+  });
+});
+
+describe('parseSecretDocument / renderSecretDocument', () => {
+  it('should round-trip yaml and json documents', () => {
+    const yaml = 'flags:\n  checkout: true\n';
+    expect(renderSecretDocument('yaml', parseSecretDocument('yaml', yaml))).toBe(yaml);
+    const json = '{\n  "type": "service_account",\n  "scopes": [\n    "a"\n  ]\n}\n';
+    expect(renderSecretDocument('json', parseSecretDocument('json', json))).toBe(json);
+  });
+
+  it('should store binary content base64-encoded under data', () => {
+    expect(parseSecretDocument('binary', 'PEM\n')).toEqual({ data: 'UEVNCg==' });
+    const bytes = Buffer.from([0x00, 0x80, 0xc3, 0x28, 0xff]);
+    const document = parseSecretDocument('binary', bytes);
+    expect(renderSecretDocument('binary', document)).toEqual(bytes);
+  });
+
+  it('should render dotenv flattened', () => {
+    expect(renderSecretDocument('dotenv', { DB: { HOST: 'db' } })).toBe('DB__HOST=db\n');
+  });
+
+  it('should reject invalid or non-object documents', () => {
+    expect(() => parseSecretDocument('json', '{')).toThrow('Invalid json');
+    expect(() => parseSecretDocument('yaml', '- a\n- b\n')).toThrow(
+      'Expected a yaml object at the top level'
+    );
+  });
+});
+
+describe('parseServiceOutput', () => {
+  it('should flatten verbatim files and parse dotenv otherwise', () => {
+    expect(
+      parseServiceOutput({ envOutput: 'flags.yaml', format: 'yaml' }, 'a:\n  b: 1\n')
+    ).toEqual({ a__b: '1' });
+    expect(parseServiceOutput({ envOutput: '.env', format: 'yaml' }, 'a__b=1\n')).toEqual({
+      a__b: '1',
+    });
+  });
+});
+
+describe('applyDotenvLayout', () => {
+  it('should follow the layout order and comments, then append new keys', () => {
+    expect(
+      applyDotenvLayout({ A: '1', NEW: '2', Z: '3' }, [
+        { key: 'Z', value: 'old', comment: 'last' },
+        { key: 'GONE', value: 'x' },
+        { key: 'A', value: '1' },
+        { key: 'Z', value: 'dup', comment: 'ignored' },
+      ])
+    ).toEqual([
+      { key: 'Z', value: '3', comment: 'last' },
+      { key: 'A', value: '1', comment: undefined },
+      { key: 'NEW', value: '2' },
+    ]);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { validatePolicyEncryption } from '../../../src/core/policy/encryption.js'
+import { EnvVaultPolicy } from '../../../src/core/types/index.js'
+
+describe('validatePolicyEncryption', () => {
+  function createPolicy(encryptedRegex?: string): EnvVaultPolicy {
+    return {
+      version: 1,
+      environments: {
+        prod: {
+          ...(encryptedRegex !== undefined ? { encryptedRegex } : {}),
+          services: { api: { recipients: ['age1ci'] } },
+        },
+      },
+    }
+  }
+
+  it('should accept environments with and without encryptedRegex', () => {
+    expect(() => validatePolicyEncryption(createPolicy())).not.toThrow()
+    expect(() => validatePolicyEncryption(createPolicy('^(.*_KEY|PASSWORD)$'))).not.toThrow()
+  })
+
+  it('should accept a regex that only leaves _unencrypted keys readable', () => {
+    expect(() => validatePolicyEncryption(createPolicy('^(?!.*_unencrypted$)'))).not.toThrow()
+    expect(() => validatePolicyEncryption(createPolicy('OWNER|owner'))).not.toThrow()
+  })
+
+  it('should reject an empty or invalid regex', () => {
+    expect(() => validatePolicyEncryption(createPolicy(' '))).toThrow(
+      'prod.encryptedRegex must be a non-empty string'
+    )
+    expect(() => validatePolicyEncryption(createPolicy('(unclosed'))).toThrow(
+      'prod.encryptedRegex is not a valid regex'
+    )
+  })
+
+  it('should reject a regex that would encrypt the per-key metadata', () => {
+    expect(() => validatePolicyEncryption(createPolicy('_unencrypted$'))).toThrow(
+      'must not match "envvault_meta_unencrypted"'
+    )
+    expect(() => validatePolicyEncryption(createPolicy('^.*$'))).toThrow(
+      'must not match "envvault_meta_unencrypted"'
+    )
+  })
+})
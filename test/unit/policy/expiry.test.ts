@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import {
+  findExpiredRecipients,
+  removeExpiredRecipients,
+  isGrantExpired,
+  validateRecipientGrants,
+} from '../../../src/core/policy/expiry.js'
+import { EnvVaultPolicy } from '../../../src/core/types/index.js'
+
+describe('expiry', () => {
+  const now = new Date('2026-06-01T00:00:00Z')
+
+  function createPolicy(): EnvVaultPolicy {
+    return {
+      version: 1,
+      members: {
+        alice: { ageKeys: ['age1alice'] },
+        temp: { ageKeys: ['age1temp'], expiresAt: '2026-01-01' },
+      },
+      groups: { backend: { members: ['alice', 'temp'] } },
+      environments: {
+        dev: {
+          services: {
+            api: {
+              recipients: [
+                'backend',
+                { recipient: 'age1oncall', expiresAt: '2026-05-01' },
+                { recipient: 'age1later', expiresAt: '2027-01-01' },
+              ],
+            },
+            web: { recipients: ['temp', 'age1temp'] },
+          },
+        },
+      },
+    }
+  }
+
+  it('should detect expired grant objects', () => {
+    expect(isGrantExpired({ recipient: 'x', expiresAt: '2026-05-01' }, now)).toBe(true)
+    expect(isGrantExpired({ recipient: 'x', expiresAt: '2027-01-01' }, now)).toBe(false)
+    expect(isGrantExpired('age1plain', now)).toBe(false)
+  })
+
+  it('should report expired entries and expired members inside groups', () => {
+    const expired = findExpiredRecipients(createPolicy(), now)
+    expect(expired).toEqual([
+      {
+        env: 'dev',
+        service: 'api',
+        entry: 'backend',
+        member: 'temp',
+        expiresAt: '2026-01-01',
+        keys: ['age1temp'],
+      },
+      {
+        env: 'dev',
+        service: 'api',
+        entry: 'age1oncall',
+        expiresAt: '2026-05-01',
+        keys: ['age1oncall'],
+      },
+    ])
+  })
+
+  it('should ignore keys still granted through an active entry', () => {
+    const expired = findExpiredRecipients(createPolicy(), now)
+    expect(expired.some((item) => item.service === 'web')).toBe(false)
+  })
+
+  it('should remove expired grants and report affected services', () => {
+    const policy = createPolicy()
+    const affected = removeExpiredRecipients(policy, now)
+
+    expect(affected).toEqual([{ env: 'dev', service: 'api' }])
+    expect(policy.groups!.backend!.members).toEqual(['alice'])
+    expect(policy.environments.dev!.services.api!.recipients).toEqual([
+      'backend',
+      { recipient: 'age1later', expiresAt: '2027-01-01' },
+    ])
+    expect(policy.environments.dev!.services.web!.recipients).toEqual(['age1temp'])
+    expect(findExpiredRecipients(policy, now)).toEqual([])
+  })
+
+  it('should reject invalid grant objects', () => {
+    const policy = createPolicy()
+    policy.environments.dev!.services.api!.recipients.push({
+      recipient: 'age1x',
+      expiresAt: 'someday',
+    })
+    expect(() => validateRecipientGrants(policy)).toThrow('invalid expiresAt')
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import {
+  describeKeyGroups,
+  getKeyGroupsThreshold,
+  getServiceKeyGroups,
+  validatePolicyKeyGroups,
+} from '../../../src/core/policy/key-groups.js'
+import { EnvVaultPolicy, KeyGroupsPolicy } from '../../../src/core/types/index.js'
+
+describe('key groups', () => {
+  function createPolicy(keyGroups?: KeyGroupsPolicy): EnvVaultPolicy {
+    return {
+      version: 1,
+      members: { alice: { ageKeys: ['age1alice'] }, sam: { ageKeys: ['age1sam'] } },
+      groups: { sre: { members: ['alice'] }, security: { members: ['sam'] } },
+      environments: {
+        prod: {
+          ...(keyGroups ? { keyGroups } : {}),
+          services: { api: { recipients: ['age1ci'] } },
+        },
+      },
+    }
+  }
+
+  it('should describe groups and default the threshold to all groups', () => {
+    const keyGroups = { groups: ['sre', ['sam', 'age1extra']] }
+    expect(describeKeyGroups(keyGroups)).toEqual(['sre', 'sam+age1extra'])
+    expect(getKeyGroupsThreshold(keyGroups)).toBe(2)
+    expect(getKeyGroupsThreshold({ ...keyGroups, threshold: 1 })).toBe(1)
+  })
+
+  it('should return one group of service recipients without keyGroups', () => {
+    expect(getServiceKeyGroups(createPolicy(), 'prod', 'api')).toEqual([['age1ci']])
+  })
+
+  it('should expand each key group and add direct recipients to every group', () => {
+    const policy = createPolicy({ threshold: 2, groups: ['sre', 'security'] })
+    expect(getServiceKeyGroups(policy, 'prod', 'api')).toEqual([
+      ['age1alice', 'age1ci'],
+      ['age1sam', 'age1ci'],
+    ])
+  })
+
+  describe('validatePolicyKeyGroups', () => {
+    it('should accept valid key groups', () => {
+      expect(() =>
+        validatePolicyKeyGroups(createPolicy({ threshold: 1, groups: ['sre', 'security'] }))
+      ).not.toThrow()
+    })
+
+    it('should reject an empty groups list or an empty group', () => {
+      expect(() => validatePolicyKeyGroups(createPolicy({ groups: [] }))).toThrow(
+        'prod.keyGroups must have a non-empty groups list'
+      )
+      expect(() => validatePolicyKeyGroups(createPolicy({ groups: ['sre', []] }))).toThrow(
+        'prod.keyGroups has an empty key group'
+      )
+    })
+
+    it('should reject a threshold outside 1..groups', () => {
+      expect(() =>
+        validatePolicyKeyGroups(createPolicy({ threshold: 3, groups: ['sre', 'security'] }))
+      ).toThrow('prod.keyGroups.threshold must be between 1 and 2')
+      expect(() =>
+        validatePolicyKeyGroups(createPolicy({ threshold: 0, groups: ['sre'] }))
+      ).toThrow('between 1 and 1')
+    })
+  })
+})
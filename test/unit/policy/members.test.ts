@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest'
+import {
+  expandRecipients,
+  findMembersByKey,
+  isMemberExpired,
+  describeMember,
+  validatePolicyMembers,
+  validatePolicyGroups,
+  getServiceRecipientEntries,
+  findRecipientUsages,
+  getEnvironmentReferences,
+} from '../../../src/core/policy/members.js'
+import { EnvVaultPolicy } from '../../../src/core/types/index.js'
+
+describe('members', () => {
+  const policy: EnvVaultPolicy = {
+    version: 1,
+    members: {
+      alice: { name: 'Alice', email: 'alice@example.com', ageKeys: ['age1alice'] },
+      ci: { ageKeys: ['age1ci'], expiresAt: '2020-01-01' },
+    },
+    environments: {},
+  }
+
+  it('should expand aliases and keep raw keys', () => {
+    expect(expandRecipients(policy, ['alice', 'age1raw', 'age1alice'])).toEqual([
+      'age1alice',
+      'age1raw',
+    ])
+  })
+
+  it('should not treat inherited object properties as aliases', () => {
+    expect(expandRecipients(policy, ['constructor'])).toEqual(['constructor'])
+  })
+
+  it('should find members by key', () => {
+    expect(findMembersByKey(policy, 'age1ci')).toEqual(['ci'])
+    expect(findMembersByKey(policy, 'age1none')).toEqual([])
+  })
+
+  it('should detect expired members', () => {
+    expect(isMemberExpired(policy.members!.ci!)).toBe(true)
+    expect(isMemberExpired(policy.members!.alice!)).toBe(false)
+  })
+
+  it('should describe members for review', () => {
+    expect(describeMember('alice', policy.members!.alice!)).toBe(
+      'alice: Alice <alice@example.com> (1 key)'
+    )
+    expect(describeMember('ci', policy.members!.ci!)).toBe('ci (1 key, expires 2020-01-01)')
+  })
+
+  describe('validatePolicyMembers', () => {
+    it('should accept a valid members map', () => {
+      expect(() => validatePolicyMembers(policy)).not.toThrow()
+    })
+
+    it('should reject members without keys', () => {
+      expect(() => validatePolicyMembers({ ...policy, members: { bob: { ageKeys: [] } } })).toThrow(
+        'at least one age key'
+      )
+    })
+
+    it('should reject aliases that look like age keys', () => {
+      expect(() =>
+        validatePolicyMembers({ ...policy, members: { age1bob: { ageKeys: ['age1bob'] } } })
+      ).toThrow('must not look like an age key')
+    })
+
+    it('should reject invalid expiry dates', () => {
+      expect(() =>
+        validatePolicyMembers({
+          ...policy,
+          members: { bob: { ageKeys: ['age1bob'], expiresAt: 'soon' } },
+        })
+      ).toThrow('invalid expiresAt')
+    })
+  })
+
+  describe('groups', () => {
+    const grouped: EnvVaultPolicy = {
+      ...policy,
+      groups: { backend: { members: ['alice', 'age1extra'] } },
+      environments: {
+        dev: { services: { api: { recipients: ['backend'] }, web: { recipients: [] } } },
+        prod: { recipients: ['backend'], services: { api: { recipients: ['ci'] } } },
+      },
+    }
+
+    it('should expand groups through member aliases', () => {
+      expect(expandRecipients(grouped, ['backend', 'ci'])).toEqual([
+        'age1alice',
+        'age1extra',
+        'age1ci',
+      ])
+    })
+
+    it('should put environment-wide entries before service entries', () => {
+      expect(getServiceRecipientEntries(grouped, 'prod', 'api')).toEqual(['backend', 'ci'])
+      expect(getServiceRecipientEntries(grouped, 'missing', 'api')).toEqual([])
+    })
+
+    it('should find every service referencing a group', () => {
+      expect(findRecipientUsages(grouped, 'backend')).toEqual([
+        { env: 'dev', service: 'api' },
+        { env: 'prod', service: 'api' },
+      ])
+    })
+
+    it('should resolve the members and groups an environment references', () => {
+      expect(getEnvironmentReferences(grouped, 'prod')).toEqual({
+        alice: { keys: ['age1alice'] },
+        backend: { keys: ['age1alice', 'age1extra'] },
+        ci: { keys: ['age1ci'], expiresAt: '2020-01-01' },
+      })
+      expect(getEnvironmentReferences(grouped, 'missing')).toEqual({})
+    })
+
+    it('should reject nested groups and name clashes', () => {
+      expect(() =>
+        validatePolicyGroups({
+          ...grouped,
+          groups: { backend: { members: ['sre'] }, sre: { members: [] } },
+        })
+      ).toThrow('cannot contain group')
+      expect(() =>
+        validatePolicyGroups({ ...grouped, groups: { alice: { members: [] } } })
+      ).toThrow('same name as a member')
+    })
+  })
+})
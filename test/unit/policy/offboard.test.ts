@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import {
+  findServicesGrantingKeys,
+  findQuorumReductions,
+  removeRecipientEverywhere,
+} from '../../../src/core/policy/offboard.js'
+import { EnvVaultPolicy } from '../../../src/core/types/index.js'
+
+describe('offboard', () => {
+  function createPolicy(): EnvVaultPolicy {
+    return {
+      version: 1,
+      members: {
+        alice: { ageKeys: ['age1alice', 'age1alicelaptop'] },
+        bob: { ageKeys: ['age1bob'] },
+      },
+      groups: { backend: { members: ['alice', 'bob'] } },
+      environments: {
+        dev: {
+          recipients: ['age1alicelaptop'],
+          services: {
+            api: { recipients: ['backend'] },
+            web: { recipients: [] },
+          },
+        },
+        prod: {
+          services: {
+            api: { recipients: [{ recipient: 'alice', expiresAt: '2030-01-01' }] },
+            web: { recipients: ['bob'] },
+          },
+        },
+      },
+    }
+  }
+
+  it('should find services granting a key directly, by alias, by group or environment-wide', () => {
+    const policy = createPolicy()
+    expect(findServicesGrantingKeys(policy, ['age1alice', 'age1alicelaptop'])).toEqual([
+      { env: 'dev', service: 'api' },
+      { env: 'dev', service: 'web' },
+      { env: 'prod', service: 'api' },
+    ])
+    expect(findServicesGrantingKeys(policy, ['age1nobody'])).toEqual([])
+  })
+
+  it('should remove a member, its references and group membership', () => {
+    const policy = createPolicy()
+    const removed = removeRecipientEverywhere(policy, {
+      keys: ['age1alice', 'age1alicelaptop'],
+      member: 'alice',
+    })
+
+    expect(removed).toEqual(['alice'])
+    expect(policy.members).toEqual({ bob: { ageKeys: ['age1bob'] } })
+    expect(policy.groups!.backend!.members).toEqual(['bob'])
+    expect(policy.environments.dev!.recipients).toEqual([])
+    expect(policy.environments.prod!.services.api!.recipients).toEqual([])
+    expect(findServicesGrantingKeys(policy, ['age1alice', 'age1alicelaptop'])).toEqual([])
+  })
+
+  it('should remove a single key and keep the member while it has other keys', () => {
+    const policy = createPolicy()
+    const removed = removeRecipientEverywhere(policy, { keys: ['age1alicelaptop'] })
+
+    expect(removed).toEqual([])
+    expect(policy.members!.alice!.ageKeys).toEqual(['age1alice'])
+    expect(policy.environments.dev!.recipients).toEqual([])
+    expect(policy.groups!.backend!.members).toEqual(['alice', 'bob'])
+  })
+
+  it('should delete a member left without keys', () => {
+    const policy = createPolicy()
+    expect(removeRecipientEverywhere(policy, { keys: ['age1bob'] })).toEqual(['bob'])
+    expect(policy.members!.bob).toBeUndefined()
+    expect(policy.environments.prod!.services.web!.recipients).toEqual([])
+    expect(policy.groups!.backend!.members).toEqual(['alice'])
+  })
+
+  it('should find and remove key group entries and lower the threshold', () => {
+    const policy = createPolicy()
+    policy.environments.prod!.keyGroups = { threshold: 2, groups: [['alice'], 'age1carol'] }
+
+    expect(
+      findQuorumReductions(policy, { keys: ['age1alice', 'age1alicelaptop'], member: 'alice' })
+    ).toEqual([{ env: 'prod', threshold: 2, groups: 2, newThreshold: 1, newGroups: 1 }])
+    expect(policy.environments.prod!.keyGroups.groups).toHaveLength(2)
+    expect(findQuorumReductions(policy, { keys: ['age1dave'] })).toEqual([])
+
+    expect(findServicesGrantingKeys(policy, ['age1carol'])).toEqual([
+      { env: 'prod', service: 'api' },
+      { env: 'prod', service: 'web' },
+    ])
+
+    removeRecipientEverywhere(policy, { keys: ['age1alice', 'age1alicelaptop'], member: 'alice' })
+    expect(policy.environments.prod!.keyGroups).toEqual({ threshold: 1, groups: ['age1carol'] })
+
+    removeRecipientEverywhere(policy, { keys: ['age1carol'] })
+    expect(policy.environments.prod!.keyGroups).toBeUndefined()
+  })
+})
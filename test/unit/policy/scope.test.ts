@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import { getTouchedEnvironments } from '../../../src/core/policy/scope.js'
+import { EnvVaultPolicy } from '../../../src/core/types/index.js'
+
+describe('getTouchedEnvironments', () => {
+  const policy: EnvVaultPolicy = {
+    version: 1,
+    environments: {
+      dev: { services: { api: { recipients: ['age1dev'] } } },
+      prod: { requireSignature: true, services: { api: { recipients: ['age1prod'] } } },
+    },
+  }
+
+  it('should map secret files to their environment', () => {
+    const touched = getTouchedEnvironments({
+      changedFiles: ['secrets/dev/api.sops.yaml', 'README.md', 'secrets/notes.txt'],
+      secretsDir: 'secrets',
+      policy,
+      basePolicy: policy,
+    })
+    expect(touched).toEqual(['dev'])
+  })
+
+  it('should respect a custom secrets directory', () => {
+    const touched = getTouchedEnvironments({
+      changedFiles: ['config/secrets/prod/api.sops.yaml'],
+      secretsDir: 'config/secrets/',
+      policy,
+      basePolicy: policy,
+    })
+    expect(touched).toEqual(['prod'])
+  })
+
+  it('should only report policy environments that changed', () => {
+    const basePolicy: EnvVaultPolicy = {
+      version: 1,
+      environments: {
+        dev: { services: {} },
+        prod: policy.environments.prod!,
+        staging: { services: {} },
+      },
+    }
+    const touched = getTouchedEnvironments({
+      changedFiles: ['envvault.policy.json'],
+      secretsDir: 'secrets',
+      policy,
+      basePolicy,
+    })
+    expect(touched).toEqual(['dev', 'staging'])
+  })
+
+  it('should report environments whose member aliases changed keys', () => {
+    const withAlias: EnvVaultPolicy = {
+      version: 1,
+      members: { alice: { ageKeys: ['age1alice'] }, bob: { ageKeys: ['age1bob'] } },
+      environments: {
+        dev: { services: { api: { recipients: ['bob'] } } },
+        prod: { requireSignature: true, services: { api: { recipients: ['alice'] } } },
+      },
+    }
+    const touched = getTouchedEnvironments({
+      changedFiles: ['envvault.policy.json'],
+      secretsDir: 'secrets',
+      policy: {
+        ...withAlias,
+        members: { ...withAlias.members, alice: { ageKeys: ['age1mallory'] } },
+      },
+      basePolicy: withAlias,
+    })
+    expect(touched).toEqual(['prod'])
+  })
+
+  it('should report environments granting a group whose membership changed', () => {
+    const withGroup: EnvVaultPolicy = {
+      version: 1,
+      groups: { sre: { members: ['age1alice'] }, web: { members: ['age1bob'] } },
+      environments: {
+        dev: { services: { api: { recipients: ['web'] } } },
+        prod: { keyGroups: { groups: ['sre'] }, services: { api: { recipients: [] } } },
+      },
+    }
+    const touched = getTouchedEnvironments({
+      changedFiles: ['envvault.policy.json'],
+      secretsDir: 'secrets',
+      policy: {
+        ...withGroup,
+        groups: { ...withGroup.groups, sre: { members: ['age1alice', 'age1mallory'] } },
+      },
+      basePolicy: withGroup,
+    })
+    expect(touched).toEqual(['prod'])
+  })
+
+  it('should touch every environment for shared files or a new policy', () => {
+    expect(
+      getTouchedEnvironments({
+        changedFiles: ['.sops.yaml'],
+        secretsDir: 'secrets',
+        policy,
+        basePolicy: policy,
+      })
+    ).toEqual(['dev', 'prod'])
+    expect(
+      getTouchedEnvironments({
+        changedFiles: ['envvault.policy.json'],
+        secretsDir: 'secrets',
+        policy,
+        basePolicy: null,
+      })
+    ).toEqual(['dev', 'prod'])
+  })
+})
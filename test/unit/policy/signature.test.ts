@@ -1,13 +1,16 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest'
-import { mkdir, rm, readFile } from 'fs/promises'
+import { mkdir, rm, readFile, writeFile, stat } from 'fs/promises'
 import { join } from 'path'
 import {
   generateMasterKeyPair,
+  signPolicy,
   verifyPolicySignature,
   loadMasterPublicKey,
   saveMasterPublicKey,
   saveMasterPrivateKey,
-  loadMasterPrivateKey
+  loadMasterPrivateKey,
+  reencryptMasterPrivateKey,
+  isMasterPrivateKeyEncrypted
 } from '../../../src/core/policy/signature.js'
 import { EnvVaultPolicy } from '../../../src/core/types/index.js'
 
@@ -34,6 +37,40 @@ describe('signature', () => {
     })
   })
 
+  describe('signPolicy', () => {
+    it('should produce a signature that verifies with the matching public key', async () => {
+      const { publicKey, privateKey } = await generateMasterKeyPair()
+      const policy: EnvVaultPolicy = {
+        version: 1,
+        environments: { dev: { services: { api: { recipients: ['age1abc'] } } } }
+      }
+
+      const signature = signPolicy(policy, privateKey)
+      expect(verifyPolicySignature(policy, signature, publicKey)).toBe(true)
+    })
+
+    it('should not verify after the policy changes', async () => {
+      const { publicKey, privateKey } = await generateMasterKeyPair()
+      const policy: EnvVaultPolicy = {
+        version: 1,
+        environments: { dev: { services: { api: { recipients: ['age1abc'] } } } }
+      }
+
+      const signature = signPolicy(policy, privateKey)
+      policy.environments.dev!.services.api!.recipients.push('age1evil')
+      expect(verifyPolicySignature(policy, signature, publicKey)).toBe(false)
+    })
+
+    it('should not verify with a different public key', async () => {
+      const signer = await generateMasterKeyPair()
+      const other = await generateMasterKeyPair()
+      const policy: EnvVaultPolicy = { version: 1, environments: {} }
+
+      const signature = signPolicy(policy, signer.privateKey)
+      expect(verifyPolicySignature(policy, signature, other.publicKey)).toBe(false)
+    })
+  })
+
   describe('verifyPolicySignature', () => {
     it('should return false for invalid signature format', async () => {
       const { publicKey } = await generateMasterKeyPair()
@@ -90,18 +127,78 @@ describe('file operations', () => {
   })
 
   describe('saveMasterPrivateKey and loadMasterPrivateKey', () => {
-    it('should save and load private key', async () => {
+    it('should save and load private key with passphrase', async () => {
       const { privateKey } = await generateMasterKeyPair()
       
-      await saveMasterPrivateKey(testDir, privateKey)
+      await saveMasterPrivateKey(testDir, privateKey, 'correct horse')
       
-      const loaded = await loadMasterPrivateKey(testDir)
+      const loaded = await loadMasterPrivateKey(testDir, 'correct horse')
       expect(loaded).toBe(privateKey)
     })
 
+    it('should not store the PEM in plaintext', async () => {
+      const { privateKey } = await generateMasterKeyPair()
+
+      await saveMasterPrivateKey(testDir, privateKey, 'correct horse')
+
+      const raw = await readFile(join(testDir, '.envvault', 'master-key'), 'utf-8')
+      expect(raw).not.toContain('PRIVATE KEY')
+      expect(JSON.parse(raw).kdf).toBe('scrypt')
+      expect(await isMasterPrivateKeyEncrypted(testDir)).toBe(true)
+      if (process.platform !== 'win32') {
+        const info = await stat(join(testDir, '.envvault', 'master-key'))
+        expect(info.mode & 0o777).toBe(0o600)
+      }
+    })
+
+    it('should reject a wrong passphrase', async () => {
+      const { privateKey } = await generateMasterKeyPair()
+      await saveMasterPrivateKey(testDir, privateKey, 'correct horse')
+
+      await expect(loadMasterPrivateKey(testDir, 'wrong')).rejects.toThrow('wrong passphrase')
+    })
+
+    it('should require a passphrase for encrypted keys', async () => {
+      const { privateKey } = await generateMasterKeyPair()
+      await saveMasterPrivateKey(testDir, privateKey, 'correct horse')
+
+      await expect(loadMasterPrivateKey(testDir)).rejects.toThrow('passphrase required')
+    })
+
+    it('should load legacy unencrypted keys', async () => {
+      const { privateKey } = await generateMasterKeyPair()
+      await writeFile(join(testDir, '.envvault', 'master-key'), privateKey, 'utf-8')
+
+      expect(await isMasterPrivateKeyEncrypted(testDir)).toBe(false)
+      expect(await loadMasterPrivateKey(testDir)).toBe(privateKey)
+    })
+
     it('should return null if private key does not exist', async () => {
       const loaded = await loadMasterPrivateKey(testDir)
       expect(loaded).toBeNull()
+      expect(await isMasterPrivateKeyEncrypted(testDir)).toBeNull()
+    })
+  })
+
+  describe('reencryptMasterPrivateKey', () => {
+    it('should re-encrypt under a new passphrase', async () => {
+      const { privateKey } = await generateMasterKeyPair()
+      await saveMasterPrivateKey(testDir, privateKey, 'old pass')
+
+      await reencryptMasterPrivateKey(testDir, 'old pass', 'new pass')
+
+      expect(await loadMasterPrivateKey(testDir, 'new pass')).toBe(privateKey)
+      await expect(loadMasterPrivateKey(testDir, 'old pass')).rejects.toThrow()
+    })
+
+    it('should encrypt a legacy unencrypted key', async () => {
+      const { privateKey } = await generateMasterKeyPair()
+      await writeFile(join(testDir, '.envvault', 'master-key'), privateKey, 'utf-8')
+
+      await reencryptMasterPrivateKey(testDir, undefined, 'new pass')
+
+      expect(await isMasterPrivateKeyEncrypted(testDir)).toBe(true)
+      expect(await loadMasterPrivateKey(testDir, 'new pass')).toBe(privateKey)
     })
   })
 })
@@ -0,0 +1,230 @@
+import { describe, it, expect } from 'vitest'
+import { generateMasterKeyPair, signPolicy } from '../../../src/core/policy/signature.js'
+import {
+  parsePolicySignatureFile,
+  renderPolicySignatureFile,
+  addPolicySignature,
+  verifyPolicyThreshold,
+  verifyEnvironmentThreshold,
+  validatePolicySigners,
+  type PolicySigners,
+} from '../../../src/core/policy/signers.js'
+import { EnvVaultPolicy } from '../../../src/core/types/index.js'
+
+describe('signers', () => {
+  const policy: EnvVaultPolicy = {
+    version: 1,
+    environments: {
+      dev: { services: { api: { recipients: ['age1dev'] } } },
+    },
+  }
+
+  async function setup(threshold: number) {
+    const alice = await generateMasterKeyPair()
+    const bob = await generateMasterKeyPair()
+    const signers: PolicySigners = {
+      version: 1,
+      threshold,
+      admins: {
+        alice: { publicKey: alice.publicKey },
+        bob: { publicKey: bob.publicKey },
+      },
+    }
+    return { alice, bob, signers }
+  }
+
+  describe('parsePolicySignatureFile', () => {
+    it('should read a legacy single signature as the master signer', () => {
+      const parsed = parsePolicySignatureFile('c2lnbmF0dXJl\n')
+      expect(parsed.signatures).toEqual([{ signer: 'master', signature: 'c2lnbmF0dXJl' }])
+    })
+
+    it('should round-trip the multi-signer format', () => {
+      const file = {
+        version: 2 as const,
+        signatures: [
+          { signer: 'bob', signature: 'b' },
+          { signer: 'alice', signature: 'a' },
+        ],
+      }
+      const parsed = parsePolicySignatureFile(renderPolicySignatureFile(file))
+      expect(parsed.signatures.map((s) => s.signer)).toEqual(['alice', 'bob'])
+    })
+
+    it('should reject malformed entries', () => {
+      expect(() =>
+        parsePolicySignatureFile(JSON.stringify({ version: 2, signatures: [{ signer: 'a' }] }))
+      ).toThrow('"signer" and "signature"')
+    })
+  })
+
+  describe('verifyPolicyThreshold', () => {
+    it('should require the threshold number of valid signatures', async () => {
+      const { alice, bob, signers } = await setup(2)
+
+      const one = addPolicySignature(null, policy, 'alice', alice.privateKey, signers)
+      const partial = verifyPolicyThreshold(policy, one, signers)
+      expect(partial.valid).toBe(false)
+      expect(partial.signedBy).toEqual(['alice'])
+
+      const two = addPolicySignature(one, policy, 'bob', bob.privateKey, signers)
+      const full = verifyPolicyThreshold(policy, two, signers)
+      expect(full.valid).toBe(true)
+      expect(full.signedBy).toEqual(['alice', 'bob'])
+    })
+
+    it('should report stale and unknown signatures', async () => {
+      const { alice, bob, signers } = await setup(1)
+      const changed: EnvVaultPolicy = {
+        ...policy,
+        environments: { ...policy.environments, prod: { services: {} } },
+      }
+
+      const file = {
+        version: 2 as const,
+        signatures: [
+          { signer: 'alice', signature: signPolicy(policy, alice.privateKey) },
+          { signer: 'bob', signature: signPolicy(changed, bob.privateKey, signers) },
+          { signer: 'mallory', signature: signPolicy(changed, bob.privateKey, signers) },
+        ],
+      }
+      const result = verifyPolicyThreshold(changed, file, signers)
+      expect(result.valid).toBe(true)
+      expect(result.signedBy).toEqual(['bob'])
+      expect(result.invalid).toEqual(['alice'])
+      expect(result.unknown).toEqual(['mallory'])
+    })
+
+    it('should cover the signer set and count only previously trusted admins', async () => {
+      const { alice, bob, signers } = await setup(1)
+      const mallory = await generateMasterKeyPair()
+      const changedSigners: PolicySigners = {
+        ...signers,
+        admins: { ...signers.admins, mallory: { publicKey: mallory.publicKey } },
+      }
+
+      const before = addPolicySignature(null, policy, 'alice', alice.privateKey, signers)
+      // alice signed the previous signer set, not the one adding mallory
+      expect(verifyPolicyThreshold(policy, before, changedSigners).invalid).toEqual(['alice'])
+
+      const byMallory = addPolicySignature(
+        null,
+        policy,
+        'mallory',
+        mallory.privateKey,
+        changedSigners
+      )
+      expect(verifyPolicyThreshold(policy, byMallory, changedSigners).valid).toBe(true)
+      const rejected = verifyPolicyThreshold(policy, byMallory, changedSigners, signers)
+      expect(rejected.valid).toBe(false)
+      expect(rejected.unknown).toEqual(['mallory'])
+
+      const byBob = addPolicySignature(byMallory, policy, 'bob', bob.privateKey, changedSigners)
+      expect(verifyPolicyThreshold(policy, byBob, changedSigners, signers).signedBy).toEqual([
+        'bob',
+      ])
+    })
+
+    it('should drop stale signatures when a new one is added', async () => {
+      const { alice, bob, signers } = await setup(2)
+      const first = addPolicySignature(null, policy, 'alice', alice.privateKey, signers)
+      const changed: EnvVaultPolicy = { ...policy, environments: {} }
+
+      const next = addPolicySignature(first, changed, 'bob', bob.privateKey, signers)
+      expect(next.signatures.map((s) => s.signer)).toEqual(['bob'])
+    })
+  })
+
+  describe('verifyEnvironmentThreshold', () => {
+    const scoped: EnvVaultPolicy = {
+      version: 1,
+      environments: {
+        dev: { services: {} },
+        prod: { requireSignature: true, signers: ['bob'], services: {} },
+      },
+    }
+
+    it('should accept environment-scoped signatures from allowed signers only', async () => {
+      const { alice, bob, signers } = await setup(2)
+
+      const byAlice = addPolicySignature(null, scoped, 'alice', alice.privateKey, signers, 'prod')
+      const rejected = verifyEnvironmentThreshold(scoped, 'prod', byAlice, signers)
+      expect(rejected.valid).toBe(false)
+      expect(rejected.unknown).toEqual(['alice'])
+
+      const byBob = addPolicySignature(byAlice, scoped, 'bob', bob.privateKey, signers, 'prod')
+      const accepted = verifyEnvironmentThreshold(scoped, 'prod', byBob, signers)
+      // threshold 2 is capped at the single allowed signer
+      expect(accepted.threshold).toBe(1)
+      expect(accepted.valid).toBe(true)
+      expect(accepted.signedBy).toEqual(['bob'])
+    })
+
+    it('should keep environment signatures valid when another environment changes', async () => {
+      const { bob, signers } = await setup(1)
+      const file = addPolicySignature(null, scoped, 'bob', bob.privateKey, signers, 'prod')
+      const changed: EnvVaultPolicy = {
+        ...scoped,
+        environments: { ...scoped.environments, dev: { services: { api: { recipients: [] } } } },
+      }
+
+      expect(verifyEnvironmentThreshold(changed, 'prod', file, signers).valid).toBe(true)
+      expect(verifyPolicyThreshold(changed, file, signers).valid).toBe(false)
+    })
+
+    it('should reject an environment signature after a referenced member key changes', async () => {
+      const { bob, signers } = await setup(1)
+      const withAlias: EnvVaultPolicy = {
+        version: 1,
+        members: { alice: { ageKeys: ['age1alice'] } },
+        environments: {
+          prod: {
+            requireSignature: true,
+            signers: ['bob'],
+            services: { api: { recipients: ['alice'] } },
+          },
+        },
+      }
+      const file = addPolicySignature(null, withAlias, 'bob', bob.privateKey, signers, 'prod')
+      expect(verifyEnvironmentThreshold(withAlias, 'prod', file, signers).valid).toBe(true)
+
+      const swapped: EnvVaultPolicy = {
+        ...withAlias,
+        members: { alice: { ageKeys: ['age1mallory'] } },
+      }
+      expect(verifyEnvironmentThreshold(swapped, 'prod', file, signers).valid).toBe(false)
+    })
+
+    it('should reject an environment signature after a referenced group changes', async () => {
+      const { bob, signers } = await setup(1)
+      const withGroup: EnvVaultPolicy = {
+        version: 1,
+        groups: { sre: { members: ['age1alice'] } },
+        environments: {
+          dev: { services: {} },
+          prod: {
+            requireSignature: true,
+            signers: ['bob'],
+            services: { api: { recipients: ['sre'] } },
+          },
+        },
+      }
+      const file = addPolicySignature(null, withGroup, 'bob', bob.privateKey, signers, 'prod')
+
+      const added: EnvVaultPolicy = {
+        ...withGroup,
+        groups: { sre: { members: ['age1alice', 'age1mallory'] } },
+      }
+      const removed: EnvVaultPolicy = { ...withGroup, groups: { sre: { members: [] } } }
+      expect(verifyEnvironmentThreshold(added, 'prod', file, signers).valid).toBe(false)
+      expect(verifyEnvironmentThreshold(removed, 'prod', file, signers).valid).toBe(false)
+    })
+  })
+
+  describe('validatePolicySigners', () => {
+    it('should reject a threshold above the admin count', async () => {
+      const { signers } = await setup(3)
+      expect(() => validatePolicySigners(signers)).toThrow('threshold')
+    })
+  })
+})
@@ -2,6 +2,7 @@ import { describe, expect, it } from 'vitest'
 import {
   resolveCryptoBackend,
   buildCapabilityMatrix,
+  findJsBackendLimitations,
   type CryptoBackend,
   type CryptoCapability,
   type CryptoBackendStatus,
@@ -11,7 +12,7 @@ import type { DecryptedData } from '../../../src/core/sops/sops-adapter.js'
 
 class FakeBackend implements CryptoBackend {
   constructor(
-    public readonly id: 'system-sops' | 'js',
+    public readonly id: string,
     private readonly available: boolean,
     private readonly supportedCapabilities: CryptoCapability[]
   ) {}
@@ -35,6 +36,12 @@ class FakeBackend implements CryptoBackend {
   async decryptToString(_filePath: string): Promise<string> {
     return 'KEY=value\n'
   }
+
+  async encryptData(): Promise<void> {}
+
+  async updateKeys(): Promise<void> {}
+
+  async rotate(): Promise<void> {}
 }
 
 describe('resolveCryptoBackend', () => {
@@ -102,6 +109,31 @@ describe('resolveCryptoBackend', () => {
       })
     ).rejects.toThrow('No crypto backend is available for decryption')
   })
+
+  it('selects a plugin backend by name', async () => {
+    const result = await resolveCryptoBackend({
+      preference: 'hsm',
+      capability: 'rotate',
+      backends: [system(true), js(true), new FakeBackend('hsm', true, ['rotate'])],
+    })
+
+    expect(result.backend.id).toBe('hsm')
+    expect(result.fallbackUsed).toBe(false)
+  })
+
+  it('rejects unknown backend names and plugins missing the capability', async () => {
+    await expect(
+      resolveCryptoBackend({ preference: 'hsm', backends: [system(true), js(true)] })
+    ).rejects.toThrow('Unknown crypto backend "hsm"')
+
+    await expect(
+      resolveCryptoBackend({
+        preference: 'hsm',
+        capability: 'set',
+        backends: [new FakeBackend('hsm', true, ['pull'])],
+      })
+    ).rejects.toThrow('Requested crypto backend "hsm" is unavailable for "set"')
+  })
 })
 
 describe('buildCapabilityMatrix', () => {
@@ -116,6 +148,55 @@ describe('buildCapabilityMatrix', () => {
     const rotate = matrix.find((row) => row.capability === 'rotate')
 
     expect(pull).toMatchObject({ status: 'ok', via: 'js' })
-    expect(rotate).toMatchObject({ status: 'fail', via: 'none' })
+    expect(rotate).toMatchObject({ status: 'ok', via: 'js' })
+  })
+
+  it('reports every capability as failing without any backend', () => {
+    const matrix = buildCapabilityMatrix([
+      { id: 'system-sops', available: false, displayName: 'System SOPS CLI' },
+      { id: 'js', available: false, displayName: 'JS SOPS+age' },
+    ])
+
+    expect(matrix.every((row) => row.status === 'fail' && row.via === 'none')).toBe(true)
+  })
+
+  it('reports JS-only capabilities as partial when the policy needs system SOPS', () => {
+    const limitations = findJsBackendLimitations({
+      version: 1,
+      environments: {
+        dev: { services: { api: { recipients: ['age1dev'] } } },
+        prod: {
+          services: { api: { recipients: [] } },
+          keyGroups: { groups: [['age1sre'], ['pgp:ABCDEF']], threshold: 2 },
+        },
+      },
+    })
+    expect(limitations).toEqual([
+      { env: 'prod', reason: '2 key groups', decrypt: true },
+      { env: 'prod', reason: 'pgp keys', decrypt: false },
+    ])
+
+    const jsOnly = buildCapabilityMatrix(
+      [
+        { id: 'system-sops', available: false, displayName: 'System SOPS CLI' },
+        { id: 'js', available: true, displayName: 'JS SOPS+age' },
+      ],
+      [{ env: 'prod', reason: 'pgp keys', decrypt: false }]
+    )
+    expect(jsOnly.find((row) => row.capability === 'pull')).toMatchObject({ status: 'ok' })
+    expect(jsOnly.find((row) => row.capability === 'set')).toMatchObject({
+      status: 'partial',
+      via: 'js',
+      message: 'Partial via JS backend (needs system SOPS for prod: pgp keys)',
+    })
+
+    const withSystem = buildCapabilityMatrix(
+      [
+        { id: 'system-sops', available: true, displayName: 'System SOPS CLI' },
+        { id: 'js', available: true, displayName: 'JS SOPS+age' },
+      ],
+      limitations
+    )
+    expect(withSystem.every((row) => row.status === 'ok')).toBe(true)
   })
 })
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import {
+  createProjectCryptoBackends,
+  loadCryptoBackendPlugin,
+} from '../../../src/core/sops/crypto-plugins.js'
+
+const PLUGIN_SOURCE = `
+export function createCryptoBackend({ id, projectDir }) {
+  return {
+    id,
+    displayName: 'Test HSM (' + projectDir.length + ')',
+    isAvailable: async () => true,
+    decrypt: async () => ({ data: {}, metadata: { lastmodified: '', mac: '' } }),
+    decryptToString: async () => '',
+    encryptData: async () => {},
+    updateKeys: async () => {},
+    rotate: async () => {},
+    supports: () => true,
+  }
+}
+`
+
+describe('crypto backend plugins', () => {
+  let testDir: string
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'envvault-crypto-plugin-'))
+    await writeFile(join(testDir, 'hsm.mjs'), PLUGIN_SOURCE)
+  })
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true })
+  })
+
+  it('loads a backend from a module relative to the project', async () => {
+    const backend = await loadCryptoBackendPlugin(testDir, 'hsm', './hsm.mjs')
+
+    expect(backend.id).toBe('hsm')
+    expect(backend.displayName).toContain('Test HSM')
+    expect(await backend.isAvailable()).toBe(true)
+  })
+
+  it('accepts a default-exported factory', async () => {
+    await writeFile(
+      join(testDir, 'default.mjs'),
+      PLUGIN_SOURCE.replace('export function createCryptoBackend', 'export default function')
+    )
+
+    const backend = await loadCryptoBackendPlugin(testDir, 'vault', './default.mjs')
+
+    expect(backend.id).toBe('vault')
+  })
+
+  it('reports modules that cannot be loaded or do not implement the contract', async () => {
+    await expect(loadCryptoBackendPlugin(testDir, 'hsm', './missing.mjs')).rejects.toThrow(
+      'Crypto backend plugin "hsm" could not be loaded from ./missing.mjs'
+    )
+
+    await writeFile(join(testDir, 'empty.mjs'), 'export const name = "empty"\n')
+    await expect(loadCryptoBackendPlugin(testDir, 'hsm', './empty.mjs')).rejects.toThrow(
+      'must export a createCryptoBackend function'
+    )
+
+    await writeFile(
+      join(testDir, 'partial.mjs'),
+      'export function createCryptoBackend({ id }) { return { id, supports: () => true } }\n'
+    )
+    await expect(loadCryptoBackendPlugin(testDir, 'hsm', './partial.mjs')).rejects.toThrow(
+      'does not implement: isAvailable, decrypt, decryptToString, encryptData, updateKeys, rotate'
+    )
+  })
+
+  it('only loads the plugin named by the preference', async () => {
+    const config = { cryptoPlugins: { hsm: './hsm.mjs', broken: './missing.mjs' } }
+
+    const auto = await createProjectCryptoBackends(testDir, config, 'auto')
+    const hsm = await createProjectCryptoBackends(testDir, config, 'hsm')
+
+    expect(auto.map((backend) => backend.id)).toEqual(['system-sops', 'js'])
+    expect(hsm.map((backend) => backend.id)).toEqual(['system-sops', 'js', 'hsm'])
+  })
+})
@@ -1,7 +1,11 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest'
 import { mkdir, rm, writeFile, readFile } from 'fs/promises'
 import { join } from 'path'
-import { SopsAdapter } from '../../../src/core/sops/sops-adapter.js'
+import {
+  SopsAdapter,
+  isSupportedSopsVersion,
+  MIN_SOPS_VERSION,
+} from '../../../src/core/sops/sops-adapter.js'
 import { SopsError } from '../../../src/core/types/errors.js'
 
 describe('SopsAdapter', () => {
@@ -60,6 +64,41 @@ describe('SopsAdapter', () => {
     })
   })
 
+  describe('version check', () => {
+    async function fakeSops(version: string): Promise<string> {
+      const sopsPath = join(testDir, 'sops')
+      await writeFile(sopsPath, `#!/bin/sh\necho "sops ${version} (latest)"\n`, { mode: 0o755 })
+      return sopsPath
+    }
+
+    it('should compare versions against the minimum', () => {
+      expect(isSupportedSopsVersion('3.9.0')).toBe(true)
+      expect(isSupportedSopsVersion('3.10.1')).toBe(true)
+      expect(isSupportedSopsVersion('4.0.0')).toBe(true)
+      expect(isSupportedSopsVersion('3.8.1')).toBe(false)
+    })
+
+    it('should report sops older than 3.9 as unavailable', async () => {
+      const adapter = new SopsAdapter({ sopsPath: await fakeSops('3.8.1') })
+
+      expect(await adapter.getInstallation()).toEqual({
+        installed: true,
+        version: '3.8.1',
+        supported: false,
+      })
+      expect(await adapter.isAvailable()).toBe(false)
+      await expect(adapter.encryptData(join(testDir, 'api.sops.yaml'), { A: '1' })).rejects.toThrow(
+        `sops 3.8.1 is too old: envvault needs sops >= ${MIN_SOPS_VERSION}`
+      )
+    })
+
+    it('should accept a supported version', async () => {
+      const adapter = new SopsAdapter({ sopsPath: await fakeSops('3.9.4') })
+      expect(await adapter.isAvailable()).toBe(true)
+      expect(await adapter.getVersion()).toBe('3.9.4')
+    })
+  })
+
   describe('isEncrypted', () => {
     it('should return true for SOPS-encrypted file', async () => {
       const encryptedFile = join(testDir, 'encrypted.yaml')
@@ -161,6 +200,119 @@ sops:
       
       await expect(adapter.encryptData(testFile, { KEY: 'value' })).rejects.toThrow(SopsError)
     })
+
+    it('should not write plaintext to the target when sops fails', async () => {
+      const fakeSops = join(testDir, 'failing-sops')
+      await writeFile(fakeSops, '#!/bin/sh\necho "boom" >&2\nexit 1\n', { mode: 0o755 })
+      const adapter = new SopsAdapter({ sopsPath: fakeSops })
+      const testFile = join(testDir, 'secret.sops.yaml')
+
+      await expect(adapter.encryptData(testFile, { KEY: 'value' })).rejects.toThrow(SopsError)
+      await expect(readFile(testFile, 'utf-8')).rejects.toThrow()
+    })
+
+    it('should write only the sops output to the target', async () => {
+      const fakeSops = join(testDir, 'echo-sops')
+      await writeFile(
+        fakeSops,
+        '#!/bin/sh\necho "KEY: ENC[AES256_GCM,data:abc]"\necho "sops:"\necho "  mac: x"\n',
+        { mode: 0o755 }
+      )
+      const adapter = new SopsAdapter({ sopsPath: fakeSops })
+      const testFile = join(testDir, 'secret.sops.yaml')
+
+      await adapter.encryptData(testFile, { KEY: 'value' })
+      const content = await readFile(testFile, 'utf-8')
+      expect(content).toContain('ENC[AES256_GCM')
+      expect(content).not.toContain('value')
+    })
+ 
+    it('should pass .sops.env files to sops as dotenv in layout order', async () => {
+      const fakeSops = join(testDir, 'dotenv-sops')
+      const seen = join(testDir, 'seen')
+      await writeFile(
+        fakeSops,
+        `#!/bin/sh\necho "$@" > "${seen}.args"\nfor last; do :; done\ncat "$last" > "${seen}.input"\necho "A=ENC[AES256_GCM,data:abc]"\n`,
+        { mode: 0o755 }
+      )
+      const adapter = new SopsAdapter({ sopsPath: fakeSops })
+      const testFile = join(testDir, 'api.sops.env')
+
+      await adapter.encryptData(testFile, { A: '1', B: 'two\nlines' }, [
+        { key: 'B', value: '', comment: 'multi-line' },
+        { key: 'A', value: '' },
+      ])
+      expect(await readFile(`${seen}.args`, 'utf-8')).toContain(
+        '--input-type dotenv --output-type dotenv'
+      )
+      expect(await readFile(`${seen}.input`, 'utf-8')).toBe('# multi-line\nB=two\\nlines\nA=1\n')
+    })
+
+    it('should pass .sops.json and .sops.bin files to the sops json and binary stores', async () => {
+      const fakeSops = join(testDir, 'store-sops')
+      const seen = join(testDir, 'seen')
+      await writeFile(
+        fakeSops,
+        `#!/bin/sh\necho "$@" > "${seen}.args"\nfor last; do :; done\ncat "$last" > "${seen}.input"\necho '{"data": "ENC[AES256_GCM,data:abc]"}'\n`,
+        { mode: 0o755 }
+      )
+      const adapter = new SopsAdapter({ sopsPath: fakeSops })
+
+      await adapter.encryptData(join(testDir, 'api.sops.json'), { db: { port: 5432 } })
+      expect(await readFile(`${seen}.args`, 'utf-8')).toContain('--input-type json --output-type json')
+      expect(JSON.parse(await readFile(`${seen}.input`, 'utf-8'))).toEqual({ db: { port: 5432 } })
+
+      const bytes = Buffer.from([0xff, 0x00, 0x80, 0x0a])
+      await adapter.encryptData(join(testDir, 'cert.sops.bin'), { data: bytes.toString('base64') })
+      expect(await readFile(`${seen}.args`, 'utf-8')).toContain(
+        '--input-type binary --output-type binary'
+      )
+      expect(await readFile(`${seen}.input`)).toEqual(bytes)
+    })
+  })
+
+  describe('decrypt .sops.json and .sops.bin', () => {
+    it('should return the JSON document and the file bytes as base64 data', async () => {
+      const metadata = '"sops": {"mac": "x", "lastmodified": "now"}'
+      const jsonSops = join(testDir, 'json-sops')
+      await writeFile(jsonSops, '#!/bin/sh\necho \'{"db": {"port": 5432}}\'\n', { mode: 0o755 })
+      const jsonFile = join(testDir, 'api.sops.json')
+      await writeFile(jsonFile, `{"db": {"port": "ENC[AES256_GCM,data:abc]"}, ${metadata}}\n`)
+
+      const json = await new SopsAdapter({ sopsPath: jsonSops }).decrypt(jsonFile)
+      expect(json.tree).toEqual({ db: { port: 5432 } })
+      expect(json.data).toEqual({ db__port: '5432' })
+      expect(json.metadata).toEqual({ lastmodified: 'now', mac: 'x' })
+
+      const binarySops = join(testDir, 'binary-sops')
+      await writeFile(binarySops, "#!/bin/sh\nprintf '\\377\\000x\\n'\n", { mode: 0o755 })
+      const binaryFile = join(testDir, 'cert.sops.bin')
+      await writeFile(binaryFile, `{"data": "ENC[AES256_GCM,data:abc]", ${metadata}}\n`)
+
+      const adapter = new SopsAdapter({ sopsPath: binarySops })
+      const binary = await adapter.decrypt(binaryFile)
+      expect(binary.tree).toEqual({ data: Buffer.from([0xff, 0x00, 0x78, 0x0a]).toString('base64') })
+      expect(binary.metadata).toEqual({ lastmodified: 'now', mac: 'x' })
+      expect(await adapter.isEncrypted(binaryFile)).toBe(true)
+    })
+  })
+
+  describe('decrypt .sops.env', () => {
+    it('should return entries with comments in file order', async () => {
+      const fakeSops = join(testDir, 'decrypt-sops')
+      await writeFile(fakeSops, '#!/bin/sh\nprintf "# Keep me\\nZ=1\\nA=2\\n"\n', { mode: 0o755 })
+      const testFile = join(testDir, 'api.sops.env')
+      await writeFile(testFile, 'Z=ENC[AES256_GCM,data:abc]\nsops_mac=x\nsops_lastmodified=now\n')
+
+      const result = await new SopsAdapter({ sopsPath: fakeSops }).decrypt(testFile)
+      expect(result.data).toEqual({ Z: '1', A: '2' })
+      expect(result.entries).toEqual([
+        { key: 'Z', value: '1', comment: 'Keep me' },
+        { key: 'A', value: '2', comment: undefined },
+      ])
+      expect(result.metadata).toEqual({ lastmodified: 'now', mac: 'x' })
+      expect(await new SopsAdapter({ sopsPath: fakeSops }).isEncrypted(testFile)).toBe(true)
+    })
   })
 
   describe('updateKeys', () => {
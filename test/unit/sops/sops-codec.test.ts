@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { createHash } from 'crypto'
+import {
+  decryptSopsTree,
+  decryptSopsValue,
+  encryptSopsTree,
+  encryptSopsValue,
+  generateDataKey,
+  reencryptSopsTree,
+  shouldEncryptPath,
+  sopsTimestamp,
+  verifySopsMac,
+} from '../../../src/core/sops/sops-codec.js'
+import { SopsError } from '../../../src/core/types/errors.js'
+
+describe('sops codec', () => {
+  const key = generateDataKey()
+
+  it('should round-trip a value bound to its path', () => {
+    const encrypted = encryptSopsValue('secret', key, 'API_KEY:')
+    expect(encrypted).toMatch(/^ENC\[AES256_GCM,data:.+,iv:.+,tag:.+,type:str\]$/)
+    expect(decryptSopsValue(encrypted, key, 'API_KEY:')).toEqual({
+      plaintext: 'secret',
+      type: 'str',
+    })
+    expect(() => decryptSopsValue(encrypted, key, 'OTHER_KEY:')).toThrow(SopsError)
+    expect(() => decryptSopsValue(encrypted, generateDataKey(), 'API_KEY:')).toThrow(SopsError)
+  })
+
+  it('should keep empty values empty', () => {
+    expect(encryptSopsValue('', key, 'EMPTY:')).toBe('')
+    expect(decryptSopsValue('', key, 'EMPTY:').plaintext).toBe('')
+  })
+
+  it('should apply sops encryption rules', () => {
+    expect(shouldEncryptPath(['API_KEY'], {})).toBe(true)
+    expect(shouldEncryptPath(['URL_unencrypted'], {})).toBe(false)
+    expect(shouldEncryptPath(['db', 'password'], { encrypted_regex: '^password$' })).toBe(true)
+    expect(shouldEncryptPath(['db', 'host'], { encrypted_regex: '^password$' })).toBe(false)
+    expect(shouldEncryptPath(['PUBLIC_URL'], { unencrypted_regex: '^PUBLIC_' })).toBe(false)
+    expect(shouldEncryptPath(['TOKEN_enc'], { encrypted_suffix: '_enc' })).toBe(true)
+  })
+
+  it('should compute the MAC over all values in document order', () => {
+    const { tree, mac } = encryptSopsTree({ A: 'x', B_unencrypted: 'y', C: 3, D: false }, key)
+    const expected = createHash('sha512').update('xy3False').digest('hex').toUpperCase()
+    expect(mac).toBe(expected)
+    expect(tree.B_unencrypted).toBe('y')
+    expect(tree.C).toMatch(/type:int\]$/)
+    expect(tree.D).toMatch(/type:bool\]$/)
+
+    const decrypted = decryptSopsTree(tree, key)
+    expect(decrypted.mac).toBe(expected)
+    expect(decrypted.tree).toEqual({ A: 'x', B_unencrypted: 'y', C: 3, D: false })
+  })
+
+  it('should only MAC encrypted values when mac_only_encrypted is set', () => {
+    const { mac } = encryptSopsTree({ A: 'x', B_unencrypted: 'y' }, key, {
+      unencrypted_suffix: '_unencrypted',
+      mac_only_encrypted: true,
+    })
+    expect(mac).toBe(createHash('sha512').update('x').digest('hex').toUpperCase())
+  })
+
+  it('should re-encrypt under a new key and verify the stored MAC', () => {
+    const lastmodified = sopsTimestamp(new Date('2026-01-01T00:00:00.123Z'))
+    expect(lastmodified).toBe('2026-01-01T00:00:00Z')
+
+    const { tree, mac } = encryptSopsTree({ nested: { PASSWORD: 'pw' }, LIST: ['a', 'b'] }, key)
+    const storedMac = encryptSopsValue(mac, key, lastmodified)
+    const newKey = generateDataKey()
+    const rotated = reencryptSopsTree(tree, key, newKey)
+
+    expect(rotated.mac).toBe(mac)
+    expect(() => verifySopsMac(storedMac, rotated.mac, key, lastmodified)).not.toThrow()
+    expect(decryptSopsTree(rotated.tree, newKey).tree).toEqual({
+      nested: { PASSWORD: 'pw' },
+      LIST: ['a', 'b'],
+    })
+    expect(() => verifySopsMac(storedMac, 'OTHER', key, lastmodified)).toThrow('MAC mismatch')
+  })
+})
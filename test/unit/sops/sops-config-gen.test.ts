@@ -1,7 +1,15 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest'
 import { mkdir, rm, readFile, access } from 'fs/promises'
 import { join } from 'path'
-import { generateSopsConfig, renderSopsConfig, writeSopsConfig, getExpectedSopsConfigYaml } from '../../../src/core/sops/sops-config-gen.js'
+import {
+  generateSopsConfig,
+  renderSopsConfig,
+  writeSopsConfig,
+  getExpectedSopsConfigYaml,
+  findCreationRuleRecipients,
+  parseSopsKey,
+  diffSopsConfigs,
+} from '../../../src/core/sops/sops-config-gen.js'
 import { EnvVaultPolicy } from '../../../src/core/types/index.js'
 
 describe('generateSopsConfig', () => {
@@ -80,7 +88,32 @@ describe('generateSopsConfig', () => {
       const config = generateSopsConfig(policy)
       const rule = config.creation_rules.find(r => r.path_regex.includes('my-service'))
       
-      expect(rule?.path_regex).toBe('^secrets[\\\\/]dev[\\\\/]my-service\\.sops\\.yaml$')
+      expect(rule?.path_regex).toBe('^secrets[\\\\/]dev[\\\\/]my-service\\.sops\\.(yaml|env|json|bin)$')
+    })
+
+    it('should use a custom and nested secretsDir', () => {
+      const policy: EnvVaultPolicy = {
+        version: 1,
+        environments: {
+          dev: {
+            services: {
+              api: { recipients: ['age1abc'] }
+            }
+          }
+        }
+      }
+
+      const custom = generateSopsConfig(policy, { secretsDir: 'vault' })
+      const nested = generateSopsConfig(policy, { secretsDir: './config/secrets.d/' })
+
+      expect(custom.creation_rules[0]!.path_regex).toBe('^vault[\\\\/]dev[\\\\/]api\\.sops\\.(yaml|env|json|bin)$')
+      expect(nested.creation_rules[0]!.path_regex).toBe(
+        '^config[\\\\/]secrets\\.d[\\\\/]dev[\\\\/]api\\.sops\\.(yaml|env|json|bin)$'
+      )
+      expect(findCreationRuleRecipients(nested, 'config\\secrets.d\\dev\\api.sops.yaml')).toEqual([
+        'age1abc'
+      ])
+      expect(findCreationRuleRecipients(nested, 'secrets/dev/api.sops.yaml')).toEqual([])
     })
 
     it('should generate cross-platform path regex with path separator class', () => {
@@ -256,7 +289,7 @@ describe('writeSopsConfig', () => {
       }
     }
     
-    const filepath = await writeSopsConfig(testDir, policy)
+    const filepath = await writeSopsConfig(testDir, policy, { secretsDir: 'secrets' })
     
     expect(filepath).toBe(join(testDir, '.sops.yaml'))
     
@@ -279,8 +312,8 @@ describe('writeSopsConfig', () => {
       }
     }
     
-    await writeSopsConfig(testDir, policy1)
-    await writeSopsConfig(testDir, policy2)
+    await writeSopsConfig(testDir, policy1, { secretsDir: 'secrets' })
+    await writeSopsConfig(testDir, policy2, { secretsDir: 'secrets' })
     
     const content = await readFile(join(testDir, '.sops.yaml'), 'utf-8')
     expect(content).toContain('age1second')
@@ -288,6 +321,184 @@ describe('writeSopsConfig', () => {
   })
 })
 
+describe('member aliases', () => {
+  it('should expand member aliases to their age keys', () => {
+    const policy: EnvVaultPolicy = {
+      version: 1,
+      members: {
+        alice: { name: 'Alice', email: 'alice@example.com', ageKeys: ['age1alice', 'age1laptop'] },
+        bob: { ageKeys: ['age1bob'] }
+      },
+      environments: {
+        dev: {
+          services: {
+            api: { recipients: ['alice', 'age1ci', 'bob', 'age1bob'] }
+          }
+        }
+      }
+    }
+
+    const config = generateSopsConfig(policy)
+
+    expect(config.creation_rules[0]!.key_groups[0]!.age).toEqual([
+      'age1alice',
+      'age1laptop',
+      'age1ci',
+      'age1bob'
+    ])
+  })
+})
+
+describe('key types', () => {
+  it('parses prefixed entries and treats the rest as age keys', () => {
+    expect(parseSopsKey('age1abc')).toEqual({ type: 'age', key: 'age1abc' })
+    expect(parseSopsKey('pgp:85D77543B3D624B63CEA9E6DBC17301B491B3F21')).toEqual({
+      type: 'pgp',
+      key: '85D77543B3D624B63CEA9E6DBC17301B491B3F21'
+    })
+    expect(parseSopsKey('hc_vault:https://vault:8200/v1/sops/keys/api')).toEqual({
+      type: 'hc_vault',
+      key: 'https://vault:8200/v1/sops/keys/api'
+    })
+  })
+
+  it('puts pgp, kms and other keys in the key group next to age recipients', () => {
+    const policy: EnvVaultPolicy = {
+      version: 1,
+      groups: { ops: { members: ['pgp:FPR1', 'age1ops'] } },
+      environments: {
+        prod: {
+          recipients: ['kms:arn:aws:kms:eu-west-1:111:key/abc+arn:aws:iam::111:role/sops'],
+          services: {
+            api: {
+              recipients: [
+                'age1ci',
+                'ops',
+                'gcp_kms:projects/p/locations/global/keyRings/r/cryptoKeys/k',
+                'hc_vault:https://vault:8200/v1/sops/keys/api'
+              ]
+            }
+          }
+        }
+      }
+    }
+
+    const config = generateSopsConfig(policy)
+
+    expect(config.creation_rules[0]!.key_groups).toEqual([
+      {
+        kms: [{ arn: 'arn:aws:kms:eu-west-1:111:key/abc', role: 'arn:aws:iam::111:role/sops' }],
+        age: ['age1ci', 'age1ops'],
+        pgp: ['FPR1'],
+        gcp_kms: [{ resource_id: 'projects/p/locations/global/keyRings/r/cryptoKeys/k' }],
+        hc_vault: ['https://vault:8200/v1/sops/keys/api']
+      }
+    ])
+    expect(renderSopsConfig(config)).toContain('pgp:\n          - FPR1')
+  })
+
+  it('lists creation rule recipients in policy entry form', () => {
+    const policy: EnvVaultPolicy = {
+      version: 1,
+      environments: {
+        dev: { services: { api: { recipients: ['age1abc', 'pgp:FPR1', 'kms:arn:aws:kms:k'] } } }
+      }
+    }
+
+    const recipients = findCreationRuleRecipients(
+      generateSopsConfig(policy),
+      'secrets/dev/api.sops.yaml'
+    )
+
+    expect(recipients).toEqual(['age1abc', 'pgp:FPR1', 'kms:arn:aws:kms:k'])
+  })
+})
+
+describe('key groups', () => {
+  const policy: EnvVaultPolicy = {
+    version: 1,
+    members: { alice: { ageKeys: ['age1alice'] }, sam: { ageKeys: ['age1sam'] } },
+    groups: { sre: { members: ['alice'] }, security: { members: ['sam', 'pgp:FPR1'] } },
+    environments: {
+      prod: {
+        keyGroups: { threshold: 2, groups: ['sre', 'security'] },
+        services: { api: { recipients: ['age1ci'] } }
+      }
+    }
+  }
+
+  it('emits one key group per policy group with shamir_threshold', () => {
+    const rule = generateSopsConfig(policy).creation_rules[0]!
+
+    expect(rule.shamir_threshold).toBe(2)
+    expect(rule.key_groups).toEqual([
+      { age: ['age1alice', 'age1ci'] },
+      { age: ['age1sam', 'age1ci'], pgp: ['FPR1'] }
+    ])
+    expect(renderSopsConfig(generateSopsConfig(policy))).toMatch(
+      /path_regex: .*\n\s+shamir_threshold: 2\n\s+key_groups:/
+    )
+  })
+
+  it('omits shamir_threshold for environments without key groups', () => {
+    const rule = generateSopsConfig({
+      version: 1,
+      environments: { dev: { services: { api: { recipients: ['age1abc'] } } } }
+    }).creation_rules[0]!
+
+    expect(rule.shamir_threshold).toBeUndefined()
+  })
+
+  it('describes differences between expected and actual configs', () => {
+    const expected = generateSopsConfig(policy)
+    const threshold = generateSopsConfig(policy)
+    threshold.creation_rules[0]!.shamir_threshold = 1
+    const entries = generateSopsConfig(policy)
+    entries.creation_rules[0]!.key_groups[1]!.age = ['age1sam', 'age1eve']
+
+    expect(diffSopsConfigs(expected, expected)).toEqual([])
+    expect(diffSopsConfigs(expected, threshold)).toEqual([
+      expect.stringContaining('expected 2 of 2 key groups, found 1 of 2 key groups')
+    ])
+    expect(diffSopsConfigs(expected, entries)).toEqual([
+      expect.stringContaining('key group 2 missing age1ci; unexpected age1eve')
+    ])
+  })
+})
+
+describe('encrypted_regex', () => {
+  const policy: EnvVaultPolicy = {
+    version: 1,
+    environments: {
+      dev: { services: { api: { recipients: ['age1abc'] } } },
+      prod: {
+        encryptedRegex: '^(.*_KEY|.*_TOKEN|PASSWORD)$',
+        services: { api: { recipients: ['age1abc'] } }
+      }
+    }
+  }
+
+  it('sets encrypted_regex on the rules of environments with encryptedRegex', () => {
+    const [dev, prod] = generateSopsConfig(policy).creation_rules
+
+    expect(dev!.encrypted_regex).toBeUndefined()
+    expect(prod!.encrypted_regex).toBe('^(.*_KEY|.*_TOKEN|PASSWORD)$')
+    expect(renderSopsConfig(generateSopsConfig(policy))).toContain(
+      'encrypted_regex: ^(.*_KEY|.*_TOKEN|PASSWORD)$'
+    )
+  })
+
+  it('reports a missing or different encrypted_regex', () => {
+    const expected = generateSopsConfig(policy)
+    const actual = generateSopsConfig(policy)
+    delete actual.creation_rules[1]!.encrypted_regex
+
+    expect(diffSopsConfigs(expected, actual)).toEqual([
+      expect.stringContaining('expected encrypted_regex ^(.*_KEY|.*_TOKEN|PASSWORD)$, found (none)')
+    ])
+  })
+})
+
 describe('getExpectedSopsConfigYaml', () => {
   it('should return same result as renderSopsConfig(generateSopsConfig(policy))', () => {
     const policy: EnvVaultPolicy = {
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import {
+  decryptSopsDotenv,
+  encryptSopsDotenv,
+  entriesToSopsDotenv,
+  parseSopsDotenv,
+  reencryptSopsDotenv,
+  renderSopsDotenv,
+  sopsDotenvToEntries,
+} from '../../../src/core/sops/sops-dotenv.js'
+import { generateDataKey } from '../../../src/core/sops/sops-codec.js'
+
+describe('sops dotenv store', () => {
+  const key = generateDataKey()
+
+  it('should parse values, comments and flattened sops metadata', () => {
+    const file = parseSopsDotenv(
+      [
+        '#ENC[AES256_GCM,data:abc,iv:def,tag:ghi,type:comment]',
+        'API_KEY=ENC[AES256_GCM,data:abc,iv:def,tag:ghi,type:str]',
+        '',
+        'sops_age__list_0__map_enc=-----BEGIN AGE ENCRYPTED FILE-----\\nYWdl\\n-----END AGE ENCRYPTED FILE-----\\n',
+        'sops_age__list_0__map_recipient=age1abc',
+        'sops_lastmodified=2025-01-01T00:00:00Z',
+        'sops_mac=ENC[AES256_GCM,data:m,iv:i,tag:t,type:str]',
+        'sops_mac_only_encrypted=true',
+        'sops_version=3.9.4',
+      ].join('\n')
+    )
+
+    expect(file.lines).toEqual([
+      { comment: 'ENC[AES256_GCM,data:abc,iv:def,tag:ghi,type:comment]' },
+      { key: 'API_KEY', value: 'ENC[AES256_GCM,data:abc,iv:def,tag:ghi,type:str]' },
+    ])
+    expect(file.metadata).toEqual({
+      age: [
+        {
+          enc: '-----BEGIN AGE ENCRYPTED FILE-----\nYWdl\n-----END AGE ENCRYPTED FILE-----\n',
+          recipient: 'age1abc',
+        },
+      ],
+      lastmodified: '2025-01-01T00:00:00Z',
+      mac: 'ENC[AES256_GCM,data:m,iv:i,tag:t,type:str]',
+      mac_only_encrypted: true,
+      version: '3.9.4',
+    })
+  })
+
+  it('should render metadata sorted after the lines, escaping newlines', () => {
+    const content = renderSopsDotenv([{ comment: ' note' }, { key: 'CERT', value: 'a\nb' }], {
+      version: '3.9.4',
+      age: [{ recipient: 'age1abc', enc: 'x\ny' }],
+    })
+    expect(content).toBe(
+      '# note\nCERT=a\\nb\nsops_age__list_0__map_enc=x\\ny\nsops_age__list_0__map_recipient=age1abc\nsops_version=3.9.4\n'
+    )
+    expect(parseSopsDotenv(content).lines).toEqual([
+      { comment: ' note' },
+      { key: 'CERT', value: 'a\nb' },
+    ])
+  })
+
+  it('should reject duplicate keys and lines without =', () => {
+    expect(() => parseSopsDotenv('A=1\nA=2')).toThrow('Duplicate key "A" on dotenv line 2')
+    expect(() => parseSopsDotenv('A=1\nnot-a-pair')).toThrow('Invalid dotenv line 2')
+  })
+
+  it('should encrypt values and comments, keeping order', () => {
+    const lines = [
+      { comment: ' Database' },
+      { key: 'DB_URL', value: 'postgres://db' },
+      { key: 'PUBLIC_URL_unencrypted', value: 'https://example.test' },
+    ]
+    const encrypted = encryptSopsDotenv(lines, key)
+
+    expect(encrypted.lines[0]).toEqual({ comment: expect.stringMatching(/type:comment\]$/) })
+    expect(encrypted.lines[1]).toEqual({ key: 'DB_URL', value: expect.stringMatching(/^ENC\[/) })
+    expect(encrypted.lines[2]).toEqual(lines[2])
+
+    const decrypted = decryptSopsDotenv(encrypted.lines, key)
+    expect(decrypted.lines).toEqual(lines)
+    expect(decrypted.mac).toBe(encrypted.mac)
+  })
+
+  it('should leave the MAC unchanged by comments', () => {
+    const withComment = encryptSopsDotenv([{ comment: ' a' }, { key: 'A', value: '1' }], key)
+    const without = encryptSopsDotenv([{ key: 'A', value: '1' }], key)
+    expect(withComment.mac).toBe(without.mac)
+  })
+
+  it('should re-encrypt comments under a new data key', () => {
+    const newKey = generateDataKey()
+    const encrypted = encryptSopsDotenv([{ comment: ' a' }, { key: 'A', value: '1' }], key)
+    const rotated = reencryptSopsDotenv(encrypted.lines, key, newKey)
+    expect(decryptSopsDotenv(rotated.lines, newKey).lines).toEqual([
+      { comment: ' a' },
+      { key: 'A', value: '1' },
+    ])
+  })
+
+  it('should convert between lines and DotenvEntry comments', () => {
+    const entries = sopsDotenvToEntries([
+      { comment: ' Line 1' },
+      { comment: ' Line 2' },
+      { key: 'A', value: '1' },
+      { key: 'B', value: '2' },
+    ])
+    expect(entries).toEqual([
+      { key: 'A', value: '1', comment: 'Line 1\nLine 2' },
+      { key: 'B', value: '2', comment: undefined },
+    ])
+    expect(entriesToSopsDotenv(entries)).toEqual([
+      { comment: ' Line 1' },
+      { comment: ' Line 2' },
+      { key: 'A', value: '1' },
+      { key: 'B', value: '2' },
+    ])
+  })
+})
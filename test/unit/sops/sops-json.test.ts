@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest'
+import {
+  decryptSopsBinary,
+  encryptSopsBinary,
+  parseSopsJson,
+  renderSopsJson,
+} from '../../../src/core/sops/sops-json.js'
+import { generateDataKey } from '../../../src/core/sops/sops-codec.js'
+
+describe('sops json and binary stores', () => {
+  const key = generateDataKey()
+
+  it('should split the document from its sops metadata and render it with tabs', () => {
+    const file = parseSopsJson('{"db": {"port": 5432}, "sops": {"mac": "m", "version": "3.9.4"}}')
+    expect(file).toEqual({ tree: { db: { port: 5432 } }, metadata: { mac: 'm', version: '3.9.4' } })
+    expect(parseSopsJson('{"db": 1}').metadata).toBeUndefined()
+    expect(() => parseSopsJson('[1]')).toThrow('Expected a JSON object')
+
+    expect(renderSopsJson(file.tree, file.metadata)).toBe(
+      '{\n\t"db": {\n\t\t"port": 5432\n\t},\n\t"sops": {\n\t\t"mac": "m",\n\t\t"version": "3.9.4"\n\t}\n}\n'
+    )
+  })
+
+  it('should encrypt any bytes as the str value data and decrypt them with the same MAC', () => {
+    const bytes = Buffer.from([0xff, 0x00, 0xc3, 0x28, 0x0a])
+    const encrypted = encryptSopsBinary(bytes, key)
+    expect(encrypted.tree.data).toMatch(/^ENC\[AES256_GCM,data:.+,type:str\]$/)
+
+    const decrypted = decryptSopsBinary(encrypted.tree, key)
+    expect(decrypted.bytes).toEqual(bytes)
+    expect(decrypted.mac).toBe(encrypted.mac)
+    expect(() => decryptSopsBinary({}, key)).toThrow('No "data" value')
+  })
+
+  it('should leave data in plaintext when the rules exclude it', () => {
+    const rules = { encrypted_regex: '^password$' }
+    const encrypted = encryptSopsBinary(Buffer.from('hello'), key, rules)
+    expect(encrypted.tree).toEqual({ data: 'hello' })
+    expect(decryptSopsBinary(encrypted.tree, key, rules).bytes.toString()).toBe('hello')
+  })
+})
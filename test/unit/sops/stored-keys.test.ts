@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { diffStoredKeys, readStoredKeys } from '../../../src/core/sops/stored-keys.js'
+
+const enc = (data: string, type = 'str'): string =>
+  `ENC[AES256_GCM,data:${data},iv:aXY=,tag:dGFn,type:${type}]`
+
+describe('readStoredKeys', () => {
+  it('should flatten YAML keys and skip sops and per-key metadata', () => {
+    const content = [
+      `API_KEY: ${enc('a')}`,
+      'db:',
+      `  port: ${enc('NTQzMg==', 'int')}`,
+      'REGION: eu-west-1',
+      'envvault_meta_unencrypted:',
+      '  API_KEY:',
+      '    owner: ops',
+      'sops:',
+      '  mac: x',
+    ].join('\n')
+
+    expect(readStoredKeys(content, 'secrets/dev/api.sops.yaml')).toEqual({
+      API_KEY: 'ENC[str]',
+      db__port: 'ENC[int]',
+      REGION: 'eu-west-1',
+    })
+  })
+
+  it('should read keys of .sops.env files', () => {
+    const content = `#${enc('Yw==', 'comment')}\nAPI_KEY=${enc('a')}\nsops_mac=x\n`
+    expect(readStoredKeys(content, 'secrets/dev/api.sops.env')).toEqual({ API_KEY: 'ENC[str]' })
+  })
+
+  it('should read keys of .sops.json and .sops.bin files', () => {
+    const json = `{\n\t"db": {\n\t\t"port": "${enc('NTQzMg==', 'int')}"\n\t},\n\t"sops": {"mac": "x"}\n}\n`
+    expect(readStoredKeys(json, 'secrets/dev/api.sops.json')).toEqual({ db__port: 'ENC[int]' })
+    const binary = `{\n\t"data": "${enc('AAE=')}",\n\t"sops": {"mac": "x"}\n}\n`
+    expect(readStoredKeys(binary, 'secrets/dev/cert.sops.bin')).toEqual({ data: 'ENC[str]' })
+  })
+
+  it('should name the file when it cannot be parsed', () => {
+    expect(() => readStoredKeys('A=1\nbroken', 'secrets/dev/api.sops.env')).toThrow(
+      'Failed to read keys of secrets/dev/api.sops.env'
+    )
+  })
+})
+
+describe('diffStoredKeys', () => {
+  it('should report added and removed keys and changed plaintext values only', () => {
+    const before = `A: ${enc('b2xk')}\nB: ${enc('Yg==')}\nREGION: eu\n`
+    const after = `A: ${enc('bmV3')}\nC: ${enc('Yw==')}\nREGION: us\n`
+
+    expect(diffStoredKeys(before, after, 'api.sops.yaml')).toEqual({
+      added: ['C'],
+      removed: ['B'],
+      changed: ['REGION'],
+      unchanged: ['A'],
+    })
+  })
+
+  it('should treat a missing version as empty', () => {
+    expect(diffStoredKeys(null, `A: ${enc('a')}\n`, 'api.sops.yaml').added).toEqual(['A'])
+  })
+})